@@ -0,0 +1,237 @@
+// Exact integer AMM math for Uniswap V2-style constant-product pools and
+// Uniswap V3 concentrated-liquidity pools, ported from the core contracts
+// (UniswapV2Library, TickMath, SqrtPriceMath, SwapMath) onto bigint.
+
+export const Q96 = 1n << 96n;
+export const MIN_TICK = -887272;
+export const MAX_TICK = 887272;
+export const MIN_SQRT_RATIO = 4295128739n;
+export const MAX_SQRT_RATIO = 1461446703485210103287273052203988822378723970342n;
+const MAX_UINT256 = (1n << 256n) - 1n;
+const MAX_UINT160 = (1n << 160n) - 1n;
+const FEE_DENOMINATOR = 1000000n;
+
+// ---------------- Constant product (V2) ----------------
+
+export function getAmountOut(amountIn: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: number = 30): bigint {
+  if (amountIn <= 0n || reserveIn <= 0n || reserveOut <= 0n) return 0n;
+  const amountInWithFee = amountIn * BigInt(10000 - feeBps);
+  return (amountInWithFee * reserveOut) / (reserveIn * 10000n + amountInWithFee);
+}
+
+export function getAmountIn(amountOut: bigint, reserveIn: bigint, reserveOut: bigint, feeBps: number = 30): bigint {
+  if (amountOut <= 0n || reserveIn <= 0n || amountOut >= reserveOut) {
+    throw new Error('Insufficient liquidity for requested output');
+  }
+  return (reserveIn * amountOut * 10000n) / ((reserveOut - amountOut) * BigInt(10000 - feeBps)) + 1n;
+}
+
+// ---------------- Full-precision helpers ----------------
+
+function mulDiv(a: bigint, b: bigint, denominator: bigint): bigint {
+  return (a * b) / denominator;
+}
+
+function mulDivRoundingUp(a: bigint, b: bigint, denominator: bigint): bigint {
+  const product = a * b;
+  return product / denominator + (product % denominator > 0n ? 1n : 0n);
+}
+
+function divRoundingUp(a: bigint, b: bigint): bigint {
+  return a / b + (a % b > 0n ? 1n : 0n);
+}
+
+// ---------------- TickMath ----------------
+
+const TICK_RATIOS: Array<[number, bigint]> = [
+  [0x2, 0xfff97272373d413259a46990580e213an],
+  [0x4, 0xfff2e50f5f656932ef12357cf3c7fdccn],
+  [0x8, 0xffe5caca7e10e4e61c3624eaa0941cd0n],
+  [0x10, 0xffcb9843d60f6159c9db58835c926644n],
+  [0x20, 0xff973b41fa98c081472e6896dfb254c0n],
+  [0x40, 0xff2ea16466c96a3843ec78b326b52861n],
+  [0x80, 0xfe5dee046a99a2a811c461f1969c3053n],
+  [0x100, 0xfcbe86c7900a88aedcffc83b479aa3a4n],
+  [0x200, 0xf987a7253ac413176f2b074cf7815e54n],
+  [0x400, 0xf3392b0822b70005940c7a398e4b70f3n],
+  [0x800, 0xe7159475a2c29b7443b29c7fa6e889d9n],
+  [0x1000, 0xd097f3bdfd2022b8845ad8f792aa5825n],
+  [0x2000, 0xa9f746462d870fdf8a65dc1f90e061e5n],
+  [0x4000, 0x70d869a156d2a1b890bb3df62baf32f7n],
+  [0x8000, 0x31be135f97d08fd981231505542fcfa6n],
+  [0x10000, 0x9aa508b5b7a84e1c677de54f3e99bc9n],
+  [0x20000, 0x5d6af8dedb81196699c329225ee604n],
+  [0x40000, 0x2216e584f5fa1ea926041bedfe98n],
+  [0x80000, 0x48a170391f7dc42444e8fa2n]
+];
+
+export function getSqrtRatioAtTick(tick: number): bigint {
+  const absTick = Math.abs(tick);
+  if (absTick > MAX_TICK) throw new Error(`Tick ${tick} out of range`);
+
+  let ratio = (absTick & 0x1) !== 0 ? 0xfffcb933bd6fad37aa2d162d1a594001n : 1n << 128n;
+  for (const [mask, multiplier] of TICK_RATIOS) {
+    if ((absTick & mask) !== 0) ratio = (ratio * multiplier) >> 128n;
+  }
+  if (tick > 0) ratio = MAX_UINT256 / ratio;
+
+  return (ratio >> 32n) + (ratio % (1n << 32n) === 0n ? 0n : 1n);
+}
+
+// Float estimate corrected against getSqrtRatioAtTick, so the result is exact
+export function getTickAtSqrtRatio(sqrtPriceX96: bigint): number {
+  const price = (Number(sqrtPriceX96) / 2 ** 96) ** 2;
+  let tick = Math.max(MIN_TICK, Math.min(MAX_TICK - 1, Math.floor(Math.log(price) / Math.log(1.0001))));
+  while (tick > MIN_TICK && getSqrtRatioAtTick(tick) > sqrtPriceX96) tick--;
+  while (tick < MAX_TICK - 1 && getSqrtRatioAtTick(tick + 1) <= sqrtPriceX96) tick++;
+  return tick;
+}
+
+// ---------------- SqrtPriceMath ----------------
+
+export function getAmount0Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (sqrtA > sqrtB) [sqrtA, sqrtB] = [sqrtB, sqrtA];
+  const numerator1 = liquidity << 96n;
+  const numerator2 = sqrtB - sqrtA;
+  return roundUp
+    ? divRoundingUp(mulDivRoundingUp(numerator1, numerator2, sqrtB), sqrtA)
+    : mulDiv(numerator1, numerator2, sqrtB) / sqrtA;
+}
+
+export function getAmount1Delta(sqrtA: bigint, sqrtB: bigint, liquidity: bigint, roundUp: boolean): bigint {
+  if (sqrtA > sqrtB) [sqrtA, sqrtB] = [sqrtB, sqrtA];
+  return roundUp ? mulDivRoundingUp(liquidity, sqrtB - sqrtA, Q96) : mulDiv(liquidity, sqrtB - sqrtA, Q96);
+}
+
+function getNextSqrtPriceFromAmount0RoundingUp(sqrtP: bigint, liquidity: bigint, amount: bigint): bigint {
+  if (amount === 0n) return sqrtP;
+  const numerator1 = liquidity << 96n;
+  const product = amount * sqrtP;
+  // Mirrors the contract's overflow branch so results match on-chain rounding
+  if (product <= MAX_UINT256 && numerator1 + product <= MAX_UINT256) {
+    return mulDivRoundingUp(numerator1, sqrtP, numerator1 + product);
+  }
+  return divRoundingUp(numerator1, numerator1 / sqrtP + amount);
+}
+
+function getNextSqrtPriceFromAmount1RoundingDown(sqrtP: bigint, liquidity: bigint, amount: bigint): bigint {
+  const quotient = amount <= MAX_UINT160 ? (amount << 96n) / liquidity : mulDiv(amount, Q96, liquidity);
+  return sqrtP + quotient;
+}
+
+function getNextSqrtPriceFromInput(sqrtP: bigint, liquidity: bigint, amountIn: bigint, zeroForOne: boolean): bigint {
+  return zeroForOne
+    ? getNextSqrtPriceFromAmount0RoundingUp(sqrtP, liquidity, amountIn)
+    : getNextSqrtPriceFromAmount1RoundingDown(sqrtP, liquidity, amountIn);
+}
+
+// ---------------- SwapMath (exact input) ----------------
+
+interface SwapStep {
+  sqrtPriceNextX96: bigint;
+  amountIn: bigint;
+  amountOut: bigint;
+  feeAmount: bigint;
+}
+
+function computeSwapStep(
+  sqrtCurrent: bigint,
+  sqrtTarget: bigint,
+  liquidity: bigint,
+  amountRemaining: bigint,
+  feePips: number
+): SwapStep {
+  const zeroForOne = sqrtCurrent >= sqrtTarget;
+  const fee = BigInt(feePips);
+  const amountRemainingLessFee = mulDiv(amountRemaining, FEE_DENOMINATOR - fee, FEE_DENOMINATOR);
+
+  let amountIn = zeroForOne
+    ? getAmount0Delta(sqrtTarget, sqrtCurrent, liquidity, true)
+    : getAmount1Delta(sqrtCurrent, sqrtTarget, liquidity, true);
+
+  const sqrtNext = amountRemainingLessFee >= amountIn
+    ? sqrtTarget
+    : getNextSqrtPriceFromInput(sqrtCurrent, liquidity, amountRemainingLessFee, zeroForOne);
+  const reachedTarget = sqrtNext === sqrtTarget;
+
+  if (!reachedTarget) {
+    amountIn = zeroForOne
+      ? getAmount0Delta(sqrtNext, sqrtCurrent, liquidity, true)
+      : getAmount1Delta(sqrtCurrent, sqrtNext, liquidity, true);
+  }
+  const amountOut = zeroForOne
+    ? getAmount1Delta(sqrtNext, sqrtCurrent, liquidity, false)
+    : getAmount0Delta(sqrtCurrent, sqrtNext, liquidity, false);
+  const feeAmount = reachedTarget
+    ? mulDivRoundingUp(amountIn, fee, FEE_DENOMINATOR - fee)
+    : amountRemaining - amountIn;
+
+  return { sqrtPriceNextX96: sqrtNext, amountIn, amountOut, feeAmount };
+}
+
+export interface V3SwapState {
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+}
+
+export interface V3SwapResult extends V3SwapState {
+  amountIn: bigint; // Input actually consumed, including fees
+  amountOut: bigint;
+}
+
+// Walks initialized ticks the same way UniswapV3Pool.swap does. `ticks` maps each
+// initialized tick to its liquidityNet; `tickRange` bounds the ticks that were
+// loaded, past which the quote would be unreliable and an error is thrown.
+export function swapExactInputV3(
+  state: V3SwapState,
+  ticks: Map<number, bigint>,
+  tickRange: [number, number],
+  feePips: number,
+  zeroForOne: boolean,
+  amountIn: bigint
+): V3SwapResult {
+  const ascendingTicks = [...ticks.keys()].sort((a, b) => a - b);
+  const descendingTicks = [...ascendingTicks].reverse();
+  const sqrtLimit = zeroForOne ? MIN_SQRT_RATIO + 1n : MAX_SQRT_RATIO - 1n;
+
+  let remaining = amountIn;
+  let amountOut = 0n;
+  let { sqrtPriceX96, tick, liquidity } = state;
+
+  while (remaining > 0n && sqrtPriceX96 !== sqrtLimit) {
+    let tickNext = zeroForOne
+      ? descendingTicks.find(t => t <= tick)
+      : ascendingTicks.find(t => t > tick);
+    const initialized = tickNext !== undefined;
+    if (tickNext === undefined) {
+      tickNext = zeroForOne ? tickRange[0] : tickRange[1];
+    }
+    tickNext = Math.max(MIN_TICK, Math.min(MAX_TICK, tickNext));
+
+    const sqrtNext = getSqrtRatioAtTick(tickNext);
+    const sqrtTarget = zeroForOne
+      ? (sqrtNext < sqrtLimit ? sqrtLimit : sqrtNext)
+      : (sqrtNext > sqrtLimit ? sqrtLimit : sqrtNext);
+
+    const step = computeSwapStep(sqrtPriceX96, sqrtTarget, liquidity, remaining, feePips);
+    remaining -= step.amountIn + step.feeAmount;
+    amountOut += step.amountOut;
+    sqrtPriceX96 = step.sqrtPriceNextX96;
+
+    if (sqrtPriceX96 === sqrtNext) {
+      if (!initialized) {
+        if (remaining > 0n) throw new Error('Swap exceeds loaded tick range');
+        tick = zeroForOne ? tickNext - 1 : tickNext;
+        break;
+      }
+      const liquidityNet = ticks.get(tickNext)!;
+      liquidity += zeroForOne ? -liquidityNet : liquidityNet;
+      tick = zeroForOne ? tickNext - 1 : tickNext;
+    } else {
+      tick = getTickAtSqrtRatio(sqrtPriceX96);
+    }
+  }
+
+  return { sqrtPriceX96, tick, liquidity, amountIn: amountIn - remaining, amountOut };
+}
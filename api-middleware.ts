@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { RiskViolation } from './risk-manager';
+import { Base44Error } from './base44-connector';
+import { FieldError, JsonSchema, coerceStrings, validateSchema } from './schema';
+import logger from './logger';
+
+// Every API error goes out as { success: false, error, details? }, whichever module raised
+// it; details lists the field errors of a 400.
+export interface ErrorResponse {
+  success: false;
+  error: string;
+  details?: unknown;
+}
+
+// Thrown (or passed to next) by route modules for anything that should reach the
+// client with a specific status instead of a generic 500
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string, readonly details?: unknown) {
+    super(message);
+    this.name = 'HttpError';
+  }
+}
+
+export function sendError(res: Response, status: number, error: string, details?: unknown): void {
+  const body: ErrorResponse = { success: false, error };
+  if (details !== undefined) {
+    body.details = details;
+  }
+  res.status(status).json(body);
+}
+
+export interface RequestSchemas {
+  body?: JsonSchema;
+  query?: JsonSchema;
+  params?: JsonSchema;
+}
+
+// Validates body, query and path params against the route's schemas. Failures are
+// answered with 400 and every field error at once; numeric and boolean query/path
+// values reach the handler already converted.
+export function validate(schemas: RequestSchemas): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const errors: FieldError[] = [];
+    if (schemas.body) {
+      errors.push(...validateSchema(schemas.body, req.body ?? {}, 'body'));
+    }
+    if (schemas.query) {
+      const query = coerceStrings(schemas.query, req.query);
+      errors.push(...validateSchema(schemas.query, query, 'query'));
+      req.query = query as Request['query'];
+    }
+    if (schemas.params) {
+      const params = coerceStrings(schemas.params, req.params);
+      errors.push(...validateSchema(schemas.params, params, 'params'));
+      req.params = params as Request['params'];
+    }
+
+    if (errors.length > 0) {
+      return sendError(res, 400, 'Invalid request', errors);
+    }
+    next();
+  };
+}
+
+export function notFoundHandler(req: Request, res: Response): void {
+  sendError(res, 404, `No route for ${req.method} ${req.path}`);
+}
+
+export function errorHandler(err: unknown, req: Request, res: Response, next: NextFunction): void {
+  if (res.headersSent) {
+    return next(err);
+  }
+  if (err instanceof HttpError) {
+    return sendError(res, err.status, err.message, err.details);
+  }
+  if (err instanceof RiskViolation) {
+    return sendError(res, err.halted ? 423 : 403, err.message);
+  }
+  if (err instanceof Base44Error) {
+    return sendError(res, err.status, err.message, { mode: err.mode });
+  }
+  // express.json() parse failures and oversized bodies
+  const type = typeof err === 'object' && err !== null && 'type' in err ? err.type : undefined;
+  if (type === 'entity.parse.failed') {
+    return sendError(res, 400, 'Malformed JSON body');
+  }
+  if (type === 'entity.too.large') {
+    return sendError(res, 413, 'Request body too large');
+  }
+
+  logger.error(`Unhandled error on ${req.method} ${req.path}:`, err);
+  sendError(res, 500, 'Internal server error');
+}
@@ -0,0 +1,466 @@
+import { JsonSchema } from './schema';
+
+// Shared request and response schemas. Route modules validate against them and
+// openapi.ts publishes them under components.schemas, so a schema change shows up in
+// both places at once. Types next to each schema describe the validated value.
+
+const HEX = '^0x[0-9a-fA-F]*$';
+const HASH = '^0x[0-9a-fA-F]{64}$';
+const ADDRESS = '^0x[0-9a-fA-F]{40}$';
+const DECIMAL = '^[0-9]+(\\.[0-9]+)?$';
+
+const hexString = (description: string): JsonSchema => ({ type: 'string', pattern: HEX, description });
+const decimalString = (description: string): JsonSchema => ({ type: 'string', pattern: DECIMAL, description, example: '1.5' });
+
+// ---------------- Requests ----------------
+export interface ExecuteBundleBody {
+  transactions: string[];
+  blockNumber?: number;
+}
+
+export const ExecuteBundleBodySchema: JsonSchema = {
+  type: 'object',
+  required: ['transactions'],
+  additionalProperties: false,
+  properties: {
+    transactions: { type: 'array', minItems: 1, maxItems: 20, items: hexString('Signed raw transaction') },
+    blockNumber: { type: 'integer', minimum: 1, description: 'First target block; defaults to the next block' }
+  }
+};
+
+export interface SandwichBody {
+  targetTx: string;
+  amountIn: string;
+}
+
+export const SandwichBodySchema: JsonSchema = {
+  type: 'object',
+  required: ['targetTx', 'amountIn'],
+  additionalProperties: false,
+  properties: {
+    targetTx: { type: 'string', pattern: HASH, description: 'Hash of the pending transaction to sandwich' },
+    amountIn: decimalString('Front-run size in ETH')
+  }
+};
+
+export interface TradeParams {
+  token: string;
+  amount: string;
+  side: 'buy' | 'sell';
+  price?: string;
+  slippagePercent?: number;
+}
+
+export const TradeParamsSchema: JsonSchema = {
+  type: 'object',
+  required: ['token', 'amount', 'side'],
+  additionalProperties: false,
+  properties: {
+    token: { type: 'string', minLength: 1, description: 'Base44 symbol or token address' },
+    amount: decimalString('Token amount'),
+    side: { type: 'string', enum: ['buy', 'sell'] },
+    price: decimalString('Limit price in USD per token'),
+    slippagePercent: { type: 'number', minimum: 0, maximum: 100 }
+  }
+};
+
+export const RiskKillBodySchema: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    reason: { type: 'string', maxLength: 500 }
+  }
+};
+
+export const RiskResetBodySchema: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    operator: { type: 'string', minLength: 1, maxLength: 100, description: 'Defaults to the authenticated key name' }
+  }
+};
+
+export interface WithdrawBody {
+  token: string;
+}
+
+export const WithdrawBodySchema: JsonSchema = {
+  type: 'object',
+  required: ['token'],
+  additionalProperties: false,
+  properties: {
+    token: { type: 'string', pattern: '^(native|0x[0-9a-fA-F]{40})$', description: "ERC-20 token address, or 'native' for the chain's coin" }
+  }
+};
+
+// ---------------- Query filters ----------------
+export const HistoryQuerySchema: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    chain: { type: 'string', description: 'Chain name (ethereum, arbitrum, base, ...)' },
+    kind: { type: 'string', enum: ['opportunity', 'simulation', 'submission', 'outcome'] },
+    type: { type: 'string', description: 'Opportunity type (sandwich, arbitrage, liquidation)' },
+    status: { type: 'string', description: 'Bundle status' },
+    bundleId: { type: 'string' },
+    opportunityId: { type: 'string' },
+    fromBlock: { type: 'integer', minimum: 0 },
+    toBlock: { type: 'integer', minimum: 0 },
+    since: { type: 'integer', minimum: 0, description: 'Unix ms' },
+    until: { type: 'integer', minimum: 0, description: 'Unix ms' },
+    limit: { type: 'integer', minimum: 1, maximum: 500 },
+    offset: { type: 'integer', minimum: 0 }
+  }
+};
+
+export const TokensQuerySchema: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    chain: { type: 'string', description: 'Chain name (ethereum, arbitrum, base, ...)' },
+    symbol: { type: 'string', description: 'Case-insensitive' },
+    flagged: { type: 'boolean', description: 'Only tokens with (true) or without (false) safety flags' }
+  }
+};
+
+export const TokenParamsSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    chain: { type: 'string' },
+    address: { type: 'string', pattern: ADDRESS, description: 'ERC-20 token address' }
+  }
+};
+
+export const BundleStatsQuerySchema: JsonSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    blockNumber: { type: 'integer', minimum: 1, description: "Defaults to the submission's last target block" }
+  }
+};
+
+// ---------------- Responses ----------------
+export const ErrorResponseSchema: JsonSchema = {
+  type: 'object',
+  required: ['success', 'error'],
+  properties: {
+    success: { type: 'boolean', enum: [false] },
+    error: { type: 'string' },
+    details: {
+      description: 'Field errors ([{ field, message }]) for 400 responses; { mode } for Base44 errors'
+    }
+  }
+};
+
+// { success: true, data } wrapper used by the MEV routes
+export function envelope(data: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    required: ['success', 'data'],
+    properties: { success: { type: 'boolean', enum: [true] }, data }
+  };
+}
+
+// { success: true, chain, data } wrapper used by the chain-scoped MEV routes
+export function chainEnvelope(data: JsonSchema): JsonSchema {
+  return {
+    type: 'object',
+    required: ['success', 'chain', 'data'],
+    properties: { success: { type: 'boolean', enum: [true] }, chain: { type: 'string' }, data }
+  };
+}
+
+export const BundleAcceptedSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    bundleId: { type: 'string' },
+    status: { type: 'string' },
+    firstBlock: { type: 'integer' },
+    lastBlock: { type: 'integer' }
+  }
+};
+
+export const BundleSubmissionSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    chain: { type: 'string' },
+    opportunityId: { type: 'string' },
+    opportunityType: { type: 'string' },
+    bidShare: { type: 'number', description: 'Profit share the bundle fees were bid at' },
+    status: { type: 'string', enum: ['pending', 'included', 'not-included', 'nonce-invalidated', 'simulation-failed', 'simulated'] },
+    transactions: { type: 'array', items: hexString('Signed raw transaction') },
+    firstBlock: { type: 'integer' },
+    lastBlock: { type: 'integer' },
+    includedBlock: { type: 'integer' },
+    includedBy: { type: 'string' },
+    gasUsed: { type: 'string' },
+    gasCost: { type: 'string', description: "In the chain's native coin" },
+    realizedProfit: { type: 'string', description: "In the chain's native coin" },
+    attempts: { type: 'array', items: { type: 'object' } },
+    createdAt: { type: 'integer' },
+    settledAt: { type: 'integer' }
+  }
+};
+
+export const GasStatusSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    mode: { type: 'string', enum: ['priority-fee', 'coinbase'] },
+    nextBaseFeeGwei: { type: 'string' },
+    share: { type: 'number', description: 'Share of post-base-fee profit currently bid' },
+    builders: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          builder: { type: 'string' },
+          included: { type: 'integer' },
+          lost: { type: 'integer' },
+          share: { type: 'number' },
+          updatedAt: { type: 'integer' }
+        }
+      }
+    }
+  }
+};
+
+export const ChainSummarySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    chainId: { type: 'integer' },
+    nativeSymbol: { type: 'string' },
+    submission: { type: 'string', enum: ['relay', 'sequencer', 'mempool'] },
+    simulation: { type: 'string', enum: ['relay', 'local', 'rpc'] },
+    enabled: { type: 'boolean' },
+    running: { type: 'boolean', description: 'Executor started (needs a signer)' },
+    ethPerNative: { type: 'number', description: 'Rate used to compare native amounts with ETH limits' }
+  }
+};
+
+const tokenFlag: JsonSchema = { type: 'string', enum: ['fee-on-transfer', 'rebasing', 'blacklistable', 'honeypot'] };
+const bps: JsonSchema = { type: 'integer', nullable: true, description: 'Share the token kept, in bps; null when the step did not run' };
+
+export const TokenInfoSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    chain: { type: 'string' },
+    address: { type: 'string' },
+    symbol: { type: 'string' },
+    name: { type: 'string' },
+    decimals: { type: 'integer' },
+    flags: { type: 'array', items: tokenFlag },
+    screening: {
+      type: 'object',
+      nullable: true,
+      description: 'Last buy/transfer/sell screening on the chain fork; null until screened',
+      properties: {
+        screenedAt: { type: 'integer' },
+        blockNumber: { type: 'integer', nullable: true },
+        pool: { type: 'string' },
+        buyTaxBps: bps,
+        transferFeeBps: bps,
+        sellTaxBps: bps,
+        error: { type: 'string', description: 'Why the screening stopped early' }
+      }
+    },
+    updatedAt: { type: 'integer' }
+  }
+};
+
+export const TokenPriceSchema: JsonSchema = {
+  type: 'object',
+  nullable: true,
+  description: 'null when no pool against the wrapped native token has liquidity',
+  properties: {
+    address: { type: 'string' },
+    native: { type: 'number', description: "Chain's native coin per whole token" },
+    eth: { type: 'number' },
+    usd: { type: 'number', nullable: true },
+    pool: { type: 'string', description: 'Pool the price was quoted from' },
+    at: { type: 'integer' }
+  }
+};
+
+export const TokenDetailsSchema: JsonSchema = {
+  type: 'object',
+  properties: { ...TokenInfoSchema.properties, price: TokenPriceSchema }
+};
+
+export const LedgerEntrySchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    seq: { type: 'integer' },
+    kind: { type: 'string', enum: ['opportunity', 'simulation', 'submission', 'outcome'] },
+    timestamp: { type: 'integer' },
+    chain: { type: 'string', description: 'Missing on entries from before multi-chain support (Ethereum)' },
+    opportunityId: { type: 'string' },
+    bundleId: { type: 'string' },
+    type: { type: 'string' },
+    status: { type: 'string' },
+    blockNumber: { type: 'integer' },
+    data: { type: 'object' }
+  }
+};
+
+export const LedgerPageSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean', enum: [true] },
+    data: { type: 'array', items: LedgerEntrySchema },
+    total: { type: 'integer' },
+    limit: { type: 'integer' },
+    offset: { type: 'integer' }
+  }
+};
+
+export const KillSwitchSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    engaged: { type: 'boolean' },
+    reason: { type: 'string' },
+    trippedAt: { type: 'integer' },
+    resetAt: { type: 'integer' },
+    resetBy: { type: 'string' }
+  }
+};
+
+const base44Mode: JsonSchema = { type: 'string', enum: ['live', 'paper', 'offline'], description: 'Mode that produced the response' };
+
+export const TradeResultSchema: JsonSchema = {
+  type: 'object',
+  required: ['mode'],
+  properties: {
+    mode: base44Mode,
+    success: { type: 'boolean' },
+    orderId: { type: 'string' },
+    executedPrice: { description: 'USD per token; a number for paper fills' },
+    executedAmount: { type: 'string' },
+    status: { type: 'string', description: 'Paper orders: open, filled, rejected' },
+    quotePrice: { type: 'number', description: 'Paper/offline: quote the fill was priced from' },
+    feeUsd: { type: 'number', description: 'Paper/offline: simulated fee' },
+    realizedPnlUsd: { type: 'number', description: 'Filled sells, net of fees; counts against the daily loss cap' },
+    reason: { type: 'string', description: 'Why a paper order was rejected' }
+  }
+};
+
+export const MarketDataSchema: JsonSchema = {
+  type: 'object',
+  required: ['mode', 'token', 'price'],
+  properties: {
+    mode: base44Mode,
+    token: { type: 'string' },
+    price: { type: 'number', description: 'USD per token' },
+    source: { type: 'string', enum: ['base44', 'offline'] },
+    tokenInfo: { ...TokenInfoSchema, description: 'Registry entry matching the token by address or symbol, if any' }
+  }
+};
+
+export const PaperOrderSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    mode: { ...base44Mode, description: 'Set on top-level responses' },
+    id: { type: 'string' },
+    token: { type: 'string' },
+    side: { type: 'string', enum: ['buy', 'sell'] },
+    amount: { type: 'string' },
+    limitPrice: { type: 'string' },
+    status: { type: 'string', enum: ['open', 'filled', 'rejected', 'cancelled'] },
+    createdAt: { type: 'integer' },
+    closedAt: { type: 'integer' },
+    quotePrice: { type: 'number' },
+    fillPrice: { type: 'number' },
+    feeUsd: { type: 'number' },
+    realizedPnlUsd: { type: 'number', description: 'Filled sells, net of fees' },
+    reason: { type: 'string' }
+  }
+};
+
+export const PaperPortfolioSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    mode: base44Mode,
+    cashUsd: { type: 'number' },
+    positions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          token: { type: 'string' },
+          amount: { type: 'number' },
+          avgPriceUsd: { type: 'number', description: 'Cost basis per token, fees included' },
+          markPriceUsd: { type: 'number' },
+          unrealizedPnlUsd: { type: 'number' }
+        }
+      }
+    },
+    realizedPnlUsd: { type: 'number', description: 'Net of fees; persisted across restarts' },
+    unrealizedPnlUsd: { type: 'number' },
+    feesPaidUsd: { type: 'number' },
+    equityUsd: { type: 'number' },
+    openOrders: { type: 'array', items: PaperOrderSchema },
+    recentOrders: { type: 'array', items: PaperOrderSchema },
+    fills: { type: 'integer' },
+    createdAt: { type: 'integer' },
+    updatedAt: { type: 'integer' }
+  }
+};
+
+export const ChainStateSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    running: { type: 'boolean' }
+  }
+};
+
+export const WithdrawalSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    token: { type: 'string', pattern: ADDRESS, description: 'Zero address for the native coin' },
+    to: { type: 'string', pattern: ADDRESS, description: 'treasury.profitWalletAddress' },
+    amount: { type: 'string', description: 'Base units' },
+    hash: { type: 'string', pattern: HASH, description: 'Sent to the mempool, not yet mined' }
+  }
+};
+
+export const TokenResponseSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    token: { type: 'string', description: 'HS256 JWT' },
+    expiresIn: { type: 'integer', description: 'Seconds' },
+    roles: { type: 'array', items: { type: 'string', enum: ['read', 'operator', 'treasury'] } }
+  }
+};
+
+export const EffectiveConfigSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    profile: { type: 'string', description: 'Active profile (--profile, CONFIG_PROFILE or NODE_ENV)' },
+    sources: { type: 'array', items: { type: 'string' }, description: 'Layers applied, lowest precedence first' },
+    config: { type: 'object', description: 'Merged settings; secrets masked, URLs cut to their origin' }
+  }
+};
+
+// Listed under components.schemas in the OpenAPI document
+export const namedSchemas: Record<string, JsonSchema> = {
+  ExecuteBundleBody: ExecuteBundleBodySchema,
+  SandwichBody: SandwichBodySchema,
+  TradeParams: TradeParamsSchema,
+  WithdrawBody: WithdrawBodySchema,
+  ErrorResponse: ErrorResponseSchema,
+  BundleAccepted: BundleAcceptedSchema,
+  BundleSubmission: BundleSubmissionSchema,
+  GasStatus: GasStatusSchema,
+  ChainSummary: ChainSummarySchema,
+  ChainState: ChainStateSchema,
+  Withdrawal: WithdrawalSchema,
+  TokenInfo: TokenInfoSchema,
+  LedgerEntry: LedgerEntrySchema,
+  KillSwitch: KillSwitchSchema,
+  TradeResult: TradeResultSchema,
+  MarketData: MarketDataSchema,
+  PaperOrder: PaperOrderSchema,
+  PaperPortfolio: PaperPortfolioSchema
+};
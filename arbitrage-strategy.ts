@@ -0,0 +1,127 @@
+import { ethers } from 'ethers';
+import { config } from './config';
+import { SwapDescriptor } from './swap-decoder';
+import { PoolState, PoolStateCache, quoteExactInput } from './pool-state';
+
+// A two-pool WETH -> token -> WETH cycle sized against post-victim pool state. On
+// other chains the cycle runs through the chain's wrapped native token instead.
+export interface ArbitragePlan {
+  token: string;
+  buyPool: PoolState; // WETH -> token, state after the victim swap
+  sellPool: PoolState; // token -> WETH, state after the victim swap
+  amountIn: bigint; // WETH in
+  tokenAmount: bigint; // Token received from the buy leg
+  amountOut: bigint; // WETH out of the sell leg
+  grossProfit: bigint;
+}
+
+// Backrun arbitrage: replays a pending swap against cached pool state, then looks
+// for price gaps it opened between Uniswap V2, V3 and SushiSwap pools on the same pair.
+// The ETH-denominated limits are converted to the pool chain's native coin with
+// `ethPerNative` (1 on chains whose native coin is ETH).
+export class BackrunArbitrageStrategy {
+  constructor(private pools: PoolStateCache, private ethPerNative: () => number = () => 1) {}
+
+  // Whether a pending swap moves enough WETH to be worth backrunning
+  isLargeSwap(swap: SwapDescriptor): boolean {
+    const weth = this.pools.chain.wrappedNative.toLowerCase();
+    const wethLeg = swap.path[0].toLowerCase() === weth
+      ? BigInt(swap.amountIn)
+      : swap.path[swap.path.length - 1].toLowerCase() === weth ? BigInt(swap.amountOut) : 0n;
+    return wethLeg >= this.nativeAmount(config.strategies.arbitrage.minVictimSizeEth);
+  }
+
+  async findOpportunity(swap: SwapDescriptor): Promise<ArbitragePlan | null> {
+    const postVictim = await this.simulateVictim(swap);
+    if (!postVictim) return null;
+
+    const weth = this.pools.chain.wrappedNative;
+    const tokens = [...new Set(swap.path.map(token => token.toLowerCase()))]
+      .filter(token => token !== weth.toLowerCase());
+
+    let best: ArbitragePlan | null = null;
+    for (const token of tokens) {
+      const pools = (await this.pools.findPools(weth, token))
+        .map(pool => postVictim.get(pool.address.toLowerCase()) ?? pool);
+
+      for (const buyPool of pools) {
+        for (const sellPool of pools) {
+          if (buyPool.address === sellPool.address) continue;
+          const plan = this.sizeCycle(token, buyPool, sellPool);
+          if (plan && (!best || plan.grossProfit > best.grossProfit)) {
+            best = plan;
+          }
+        }
+      }
+    }
+
+    return best;
+  }
+
+  // Pool states after the victim swap executes, keyed by lowercased pool address
+  private async simulateVictim(swap: SwapDescriptor): Promise<Map<string, PoolState> | null> {
+    if (!swap.exactInput) return null;
+
+    const states = new Map<string, PoolState>();
+    let amount = BigInt(swap.amountIn);
+
+    for (let hop = 0; hop < swap.path.length - 1; hop++) {
+      const hopSwap = { ...swap, path: [swap.path[hop], swap.path[hop + 1]], fees: swap.fees.slice(hop, hop + 1) };
+      const cached = await this.pools.resolveSwapPool(hopSwap);
+      if (!cached) return null;
+
+      const pool = states.get(cached.address.toLowerCase()) ?? cached;
+      try {
+        const quote = quoteExactInput(pool, swap.path[hop], amount);
+        states.set(pool.address.toLowerCase(), quote.pool);
+        amount = quote.amountOut;
+      } catch {
+        return null;
+      }
+    }
+
+    return states;
+  }
+
+  // Profit is concave in the input size, so a ternary search finds the optimum
+  private sizeCycle(token: string, buyPool: PoolState, sellPool: PoolState): ArbitragePlan | null {
+    const weth = this.pools.chain.wrappedNative;
+    const evaluate = (amountIn: bigint) => {
+      try {
+        const buy = quoteExactInput(buyPool, weth, amountIn);
+        const sell = quoteExactInput(sellPool, token, buy.amountOut);
+        return { tokenAmount: buy.amountOut, amountOut: sell.amountOut, profit: sell.amountOut - amountIn };
+      } catch {
+        return null; // Ran past the loaded V3 ticks
+      }
+    };
+
+    let left = 0n;
+    let right = this.nativeAmount(config.strategies.arbitrage.maxInputEth);
+    for (let i = 0; i < 128 && right - left > 2n; i++) {
+      const m1 = left + (right - left) / 3n;
+      const m2 = right - (right - left) / 3n;
+      const p1 = evaluate(m1)?.profit ?? -1n;
+      const p2 = evaluate(m2)?.profit ?? -1n;
+      if (p1 < p2) left = m1; else right = m2;
+    }
+
+    const amountIn = (left + right) / 2n;
+    const result = evaluate(amountIn);
+    if (!result || result.profit <= 0n) return null;
+
+    return {
+      token,
+      buyPool,
+      sellPool,
+      amountIn,
+      tokenAmount: result.tokenAmount,
+      amountOut: result.amountOut,
+      grossProfit: result.profit
+    };
+  }
+
+  private nativeAmount(eth: number): bigint {
+    return ethers.parseEther((eth / this.ethPerNative()).toFixed(18));
+  }
+}
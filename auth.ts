@@ -0,0 +1,272 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { config } from './config';
+import logger from './logger';
+
+// read: metrics, prices and other GETs; operator: start/stop, bundles, trades,
+// kill switch; treasury: withdrawals. A key may hold several roles.
+export type Role = 'read' | 'operator' | 'treasury';
+export const ROLES: Role[] = ['read', 'operator', 'treasury'];
+
+export interface ApiKeyRecord {
+  id: string;
+  name: string;
+  hash: string; // sha256 of the key; the key itself is only shown once at creation
+  roles: Role[];
+  createdAt: number;
+  revokedAt?: number;
+}
+
+export interface Principal {
+  id: string;
+  name: string;
+  roles: Role[];
+  via: 'api-key' | 'jwt';
+}
+
+export interface AuditEntry {
+  timestamp: number;
+  principal: string | null; // Key id, or null when authentication failed
+  roles: Role[];
+  method: string;
+  path: string;
+  ip: string | undefined;
+  status: number;
+  requiredRole: Role;
+}
+
+const KEY_PREFIX = 'mte_';
+
+// ---------------- API keys ----------------
+// Keys live in a local JSON file as hashes; create and revoke them with
+// `node dist/auth.js create <name> <role,role>` / `revoke <id>`.
+export class KeyStore {
+  private keys: ApiKeyRecord[] = [];
+
+  constructor(private filePath: string) {
+    this.load();
+  }
+
+  create(name: string, roles: Role[]): { key: string; record: ApiKeyRecord } {
+    const key = KEY_PREFIX + crypto.randomBytes(24).toString('hex');
+    const hash = hashKey(key);
+    const record: ApiKeyRecord = { id: hash.slice(0, 12), name, hash, roles, createdAt: Date.now() };
+    this.keys.push(record);
+    this.save();
+    return { key, record };
+  }
+
+  revoke(id: string): boolean {
+    const record = this.keys.find(k => k.id === id && !k.revokedAt);
+    if (!record) return false;
+    record.revokedAt = Date.now();
+    this.save();
+    return true;
+  }
+
+  verify(key: string): ApiKeyRecord | null {
+    const hash = Buffer.from(hashKey(key), 'hex');
+    return this.keys.find(record => !record.revokedAt
+      && crypto.timingSafeEqual(Buffer.from(record.hash, 'hex'), hash)) ?? null;
+  }
+
+  list(): Omit<ApiKeyRecord, 'hash'>[] {
+    return this.keys.map(({ hash, ...record }) => record);
+  }
+
+  // A malformed file is refused outright rather than loaded as keys that cannot verify
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+    const records: unknown = JSON.parse(fs.readFileSync(this.filePath, 'utf8'));
+    if (!Array.isArray(records)) {
+      throw new Error(`${this.filePath}: expected a list of API key records`);
+    }
+    records.forEach((record, i) => {
+      if (!isApiKeyRecord(record)) throw new Error(`${this.filePath}: entry ${i} is not a valid API key record`);
+    });
+    this.keys = records;
+  }
+
+  private save(): void {
+    fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+    fs.writeFileSync(this.filePath, JSON.stringify(this.keys, null, 2), { mode: 0o600 });
+  }
+}
+
+function isApiKeyRecord(value: unknown): value is ApiKeyRecord {
+  if (typeof value !== 'object' || value === null) return false;
+  const record: Partial<Record<keyof ApiKeyRecord, unknown>> = value;
+  return typeof record.id === 'string'
+    && typeof record.name === 'string'
+    && typeof record.hash === 'string' && /^[0-9a-f]{64}$/.test(record.hash)
+    && Array.isArray(record.roles) && record.roles.every(role => ROLES.includes(role))
+    && typeof record.createdAt === 'number'
+    && (record.revokedAt === undefined || typeof record.revokedAt === 'number');
+}
+
+function hashKey(key: string): string {
+  return crypto.createHash('sha256').update(key).digest('hex');
+}
+
+// ---------------- JWT (HS256) ----------------
+export function signJwt(principal: Principal, secret: string, ttlSeconds: number): string {
+  const now = Math.floor(Date.now() / 1000);
+  const header = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+  const payload = base64url(JSON.stringify({ sub: principal.id, name: principal.name, roles: principal.roles, iat: now, exp: now + ttlSeconds }));
+  return `${header}.${payload}.${hmac(`${header}.${payload}`, secret)}`;
+}
+
+export function verifyJwt(token: string, secret: string): Principal | null {
+  const [header, payload, signature] = token.split('.');
+  if (!header || !payload || !signature) return null;
+
+  const expected = hmac(`${header}.${payload}`, secret);
+  if (signature.length !== expected.length
+    || !crypto.timingSafeEqual(Buffer.from(signature), Buffer.from(expected))) {
+    return null;
+  }
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (alg !== 'HS256' || typeof claims.exp !== 'number' || claims.exp < Date.now() / 1000) return null;
+    return { id: claims.sub, name: claims.name, roles: claims.roles, via: 'jwt' };
+  } catch {
+    return null;
+  }
+}
+
+function base64url(value: string): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function hmac(value: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(value).digest('base64url');
+}
+
+// ---------------- Audit log ----------------
+export class AuditLog {
+  private stream: fs.WriteStream | null = null;
+
+  constructor(private filePath: string) {}
+
+  record(entry: AuditEntry): void {
+    if (!this.stream) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+      this.stream.on('error', error => logger.error('Audit log write failed:', error));
+    }
+    this.stream.write(JSON.stringify(entry) + '\n');
+  }
+}
+
+export const keyStore = new KeyStore(config.auth.keysPath);
+export const auditLog = new AuditLog(config.auth.auditLogPath);
+
+// ---------------- Middleware ----------------
+// Resolves `Authorization: Bearer <api key | jwt>` or `X-API-Key` into
+// res.locals.principal; routes decide what they require via requireRole
+export function authenticate(): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    const header = req.header('authorization');
+    const credential = header?.startsWith('Bearer ') ? header.slice(7).trim() : req.header('x-api-key');
+
+    if (credential) {
+      res.locals.principal = resolveCredential(credential);
+    }
+    next();
+  };
+}
+
+// API key (mte_...) or JWT to a principal; shared with the WebSocket feed's upgrade check
+export function resolveCredential(credential: string): Principal | null {
+  if (credential.startsWith(KEY_PREFIX)) {
+    const record = keyStore.verify(credential);
+    return record ? { id: record.id, name: record.name, roles: record.roles, via: 'api-key' } : null;
+  }
+  return config.auth.jwtSecret ? verifyJwt(credential, config.auth.jwtSecret) : null;
+}
+
+// 401 without valid credentials, 403 without the role. Anything above read is
+// privileged and written to the audit log, including refused attempts.
+export function requireRole(role: Role, audit: AuditLog = auditLog): RequestHandler {
+  return (req: Request, res: Response, next: NextFunction) => {
+    if (!config.auth.enabled) return next();
+
+    const principal: Principal | null | undefined = res.locals.principal;
+    if (role !== 'read') {
+      res.on('finish', () => audit.record({
+        timestamp: Date.now(),
+        principal: principal?.id ?? null,
+        roles: principal?.roles ?? [],
+        method: req.method,
+        path: req.originalUrl,
+        ip: req.ip,
+        status: res.statusCode,
+        requiredRole: role
+      }));
+    }
+
+    if (!principal) {
+      return res.status(401).json({ success: false, error: 'Authentication required' });
+    }
+    if (!principal.roles.includes(role)) {
+      return res.status(403).json({ success: false, error: `Role '${role}' required` });
+    }
+    next();
+  };
+}
+
+// Fixed-window limit per principal (or client IP when unauthenticated). Windows are kept
+// in the order they started, so expired ones are evicted from the front on every request.
+export function rateLimit(max: number = config.auth.rateLimit.max, windowMs: number = config.auth.rateLimit.windowMs): RequestHandler {
+  const windows = new Map<string, { start: number; count: number }>();
+
+  return (req: Request, res: Response, next: NextFunction) => {
+    const now = Date.now();
+    for (const [client, window] of windows) {
+      if (now - window.start < windowMs) break;
+      windows.delete(client);
+    }
+
+    const client = res.locals.principal?.id ?? req.ip ?? 'unknown';
+    let window = windows.get(client);
+    if (!window) {
+      window = { start: now, count: 0 };
+      windows.set(client, window);
+    }
+
+    window.count++;
+    if (window.count > max) {
+      res.setHeader('Retry-After', Math.ceil((window.start + windowMs - now) / 1000).toString());
+      return res.status(429).json({ success: false, error: 'Rate limit exceeded' });
+    }
+    next();
+  };
+}
+
+// Key management CLI
+if (require.main === module) {
+  const [command, ...args] = process.argv.slice(2);
+
+  if (command === 'create' && args[0]) {
+    const roles = (args[1] || 'read').split(',') as Role[];
+    const unknown = roles.filter(role => !ROLES.includes(role));
+    if (unknown.length > 0) {
+      console.error(`Unknown roles: ${unknown.join(', ')} (expected ${ROLES.join(', ')})`);
+      process.exit(1);
+    }
+    const { key, record } = keyStore.create(args[0], roles);
+    console.log(`Created key ${record.id} for ${record.name} [${roles.join(', ')}]`);
+    console.log(`API key (shown once): ${key}`);
+  } else if (command === 'revoke' && args[0]) {
+    console.log(keyStore.revoke(args[0]) ? `Revoked ${args[0]}` : `No active key ${args[0]}`);
+  } else if (command === 'list') {
+    console.table(keyStore.list());
+  } else {
+    console.log('Usage: auth create <name> <read,operator,treasury> | revoke <id> | list');
+    process.exit(command ? 1 : 0);
+  }
+}
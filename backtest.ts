@@ -0,0 +1,230 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { config } from './config';
+import { getChain, routerRegistry } from './chains';
+import { decodeSwapTransaction } from './swap-decoder';
+import { PoolState, PoolStateCache, PoolStateJson, poolStateFromJson } from './pool-state';
+import { OpportunityDetector, SWAP_GAS_LIMIT } from './opportunity-detector';
+import logger from './logger';
+
+// One transaction to replay: either a raw signed transaction or its to/data/value.
+// `competitorProfit` is what the searcher that actually captured it made (in the native coin), when known.
+export interface FixtureTransaction {
+  hash?: string;
+  raw?: string;
+  to?: string;
+  data?: string;
+  value?: string;
+  source?: 'mempool' | 'block';
+  competitorProfit?: string;
+}
+
+// Pool state is as of the parent block; a block without pools reuses the previous snapshot
+export interface FixtureBlock {
+  number: number;
+  baseFeePerGas: string; // wei
+  pools?: PoolStateJson[];
+  transactions: FixtureTransaction[];
+}
+
+export interface BacktestFixture {
+  name?: string;
+  blocks: FixtureBlock[];
+}
+
+export interface BacktestOptions {
+  chain: string; // Profile whose routers and wrapped native token the fixtures use
+  fromBlock?: number;
+  toBlock?: number;
+  minProfit?: bigint; // wei; each strategy's minProfitEth unless set
+  priorityFee: bigint; // wei, added to each block's base fee
+}
+
+export interface BacktestFinding {
+  blockNumber: number;
+  txHash: string;
+  source: string;
+  type: 'sandwich' | 'arbitrage';
+  amountIn: string; // In the chain's native coin, like the profits
+  grossProfit: string;
+  netProfit: string;
+  competitorProfit?: string;
+  // Would our bid have beaten the searcher that actually won (or was it uncontested)?
+  competitive: boolean;
+}
+
+export interface BacktestReport {
+  chain: string;
+  fixtures: string[];
+  fromBlock: number | null;
+  toBlock: number | null;
+  blocks: number;
+  transactions: number;
+  swaps: number;
+  belowThreshold: number;
+  findings: BacktestFinding[];
+  totals: {
+    opportunities: number;
+    competitive: number;
+    simulatedProfit: string; // Net of gas, every finding
+    competitiveProfit: string; // Findings we would have won
+  };
+}
+
+const DEFAULT_OPTIONS: BacktestOptions = {
+  chain: 'ethereum',
+  priorityFee: ethers.parseUnits('2', 'gwei')
+};
+
+// Replays fixture blocks through the live detection pipeline (swap decoding, pool
+// math, sandwich and backrun sizing) against an offline pool cache holding each
+// block's recorded state. Nothing touches the network.
+export async function runBacktest(
+  fixtures: Array<{ name: string; fixture: BacktestFixture }>,
+  options: Partial<BacktestOptions> = {}
+): Promise<BacktestReport> {
+  const settings = { ...DEFAULT_OPTIONS, ...options };
+  const chain = getChain(settings.chain);
+  const routers = routerRegistry(chain);
+  const report: BacktestReport = {
+    chain: chain.name,
+    fixtures: fixtures.map(({ name }) => name),
+    fromBlock: settings.fromBlock ?? null,
+    toBlock: settings.toBlock ?? null,
+    blocks: 0,
+    transactions: 0,
+    swaps: 0,
+    belowThreshold: 0,
+    findings: [],
+    totals: { opportunities: 0, competitive: 0, simulatedProfit: '0.0', competitiveProfit: '0.0' }
+  };
+
+  const blocks = fixtures
+    .flatMap(({ fixture }) => fixture.blocks)
+    .sort((a, b) => a.number - b.number);
+
+  let snapshot: PoolState[] = [];
+  for (const block of blocks) {
+    if (block.pools) {
+      snapshot = block.pools.map(poolStateFromJson);
+    }
+    if (settings.fromBlock !== undefined && block.number < settings.fromBlock) continue;
+    if (settings.toBlock !== undefined && block.number > settings.toBlock) continue;
+
+    report.blocks++;
+    // Fresh cache per block so one block's analysis cannot leak into the next
+    const pools = new PoolStateCache(null, chain);
+    pools.load(snapshot);
+    const detector = new OpportunityDetector(pools);
+    const gasPrice = BigInt(block.baseFeePerGas) + settings.priorityFee;
+
+    for (const fixtureTx of block.transactions) {
+      report.transactions++;
+      const tx = toTransaction(fixtureTx);
+      const swaps = decodeSwapTransaction(tx, routers);
+      if (swaps.length === 0) continue;
+      report.swaps++;
+
+      const { sandwich, arbitrage } = await detector.detect(swaps, gasPrice);
+      const candidates: Array<{ type: 'sandwich' | 'arbitrage'; amountIn: bigint; grossProfit: bigint; netProfit: bigint }> = [];
+      if (sandwich) {
+        candidates.push({ type: 'sandwich', ...sandwich });
+      }
+      if (arbitrage) {
+        // Buy and sell legs; an approval is assumed to already exist
+        const netProfit = arbitrage.grossProfit - gasPrice * SWAP_GAS_LIMIT * 2n;
+        candidates.push({ type: 'arbitrage', amountIn: arbitrage.amountIn, grossProfit: arbitrage.grossProfit, netProfit });
+      }
+
+      for (const candidate of candidates) {
+        const minProfit = settings.minProfit ?? ethers.parseEther(config.strategies[candidate.type].minProfitEth.toString());
+        if (candidate.netProfit < minProfit) {
+          report.belowThreshold++;
+          continue;
+        }
+
+        const competitorProfit = fixtureTx.competitorProfit;
+        report.findings.push({
+          blockNumber: block.number,
+          txHash: tx.hash,
+          source: fixtureTx.source || 'block',
+          type: candidate.type,
+          amountIn: ethers.formatEther(candidate.amountIn),
+          grossProfit: ethers.formatEther(candidate.grossProfit),
+          netProfit: ethers.formatEther(candidate.netProfit),
+          competitorProfit,
+          competitive: competitorProfit === undefined || candidate.netProfit > ethers.parseEther(competitorProfit)
+        });
+      }
+    }
+  }
+
+  const sum = (findings: BacktestFinding[]) =>
+    ethers.formatEther(findings.reduce((total, finding) => total + ethers.parseEther(finding.netProfit), 0n));
+  const competitive = report.findings.filter(finding => finding.competitive);
+  report.totals = {
+    opportunities: report.findings.length,
+    competitive: competitive.length,
+    simulatedProfit: sum(report.findings),
+    competitiveProfit: sum(competitive)
+  };
+  return report;
+}
+
+function toTransaction(fixtureTx: FixtureTransaction): { hash: string; to: string | null; data: string; value: bigint } {
+  if (fixtureTx.raw) {
+    const parsed = ethers.Transaction.from(fixtureTx.raw);
+    return { hash: parsed.hash!, to: parsed.to, data: parsed.data, value: parsed.value };
+  }
+  const data = fixtureTx.data || '0x';
+  return {
+    hash: fixtureTx.hash || ethers.keccak256(ethers.concat([fixtureTx.to || '0x', data])),
+    to: fixtureTx.to || null,
+    data,
+    value: BigInt(fixtureTx.value || '0')
+  };
+}
+
+// Fixture files from a single file or every .json file in a directory
+export function loadFixtures(target: string): Array<{ name: string; fixture: BacktestFixture }> {
+  const files = fs.statSync(target).isDirectory()
+    ? fs.readdirSync(target).filter(file => file.endsWith('.json')).sort().map(file => path.join(target, file))
+    : [target];
+  return files.map(file => ({ name: path.basename(file), fixture: JSON.parse(fs.readFileSync(file, 'utf8')) }));
+}
+
+// Usage: node dist/backtest.js <fixture.json|fixture-dir> [--chain NAME] [--from N] [--to N] [--out report.json]
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const target = args.find((arg, i) => !arg.startsWith('--') && (i === 0 || !args[i - 1].startsWith('--')));
+
+  if (!target) {
+    logger.error('Usage: backtest <fixture.json|fixture-dir> [--chain NAME] [--from N] [--to N] [--out report.json]');
+    process.exit(1);
+  }
+
+  runBacktest(loadFixtures(target), {
+    chain: flag('--chain') ?? DEFAULT_OPTIONS.chain,
+    fromBlock: flag('--from') ? Number(flag('--from')) : undefined,
+    toBlock: flag('--to') ? Number(flag('--to')) : undefined
+  })
+    .then(report => {
+      const out = flag('--out');
+      if (out) {
+        fs.writeFileSync(out, JSON.stringify(report, null, 2));
+      }
+      logger.info('Backtest complete', { ...report.totals, blocks: report.blocks, swaps: report.swaps });
+      if (!out) {
+        console.log(JSON.stringify(report, null, 2));
+      }
+    })
+    .catch(error => {
+      logger.error('Backtest failed:', error);
+      process.exit(1);
+    });
+}
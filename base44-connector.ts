@@ -0,0 +1,225 @@
+import axios from 'axios';
+import { config } from './config';
+import { RiskManager, riskManager } from './risk-manager';
+import { eventFeed } from './event-feed';
+import { TradeParams } from './api-schemas';
+import { PaperOrder, PaperPortfolio, PortfolioSnapshot, tokenKey } from './paper-portfolio';
+import { TokenInfo, findToken } from './token-registry';
+import { base44PaperOrders, base44Requests } from './metrics';
+import logger from './logger';
+
+export type Base44Mode = 'live' | 'paper' | 'offline';
+export type Base44Settings = typeof config.base44;
+
+// Every connector response says which mode produced it
+export interface MarketData {
+  mode: Base44Mode;
+  token: string;
+  price: number; // USD
+  source: 'base44' | 'offline';
+  tokenInfo?: TokenInfo; // Decimals, symbol and safety flags when a running chain knows the token
+  [field: string]: unknown; // Whatever else Base44 returns (volume, change24h, ...)
+}
+
+export interface TradeResult {
+  mode: Base44Mode;
+  success: boolean;
+  orderId: string;
+  status: string;
+  executedPrice?: number | string;
+  executedAmount?: string;
+  [field: string]: unknown;
+}
+
+export interface PaperPortfolioResult extends PortfolioSnapshot {
+  mode: Base44Mode;
+}
+
+// Base44 could not answer (live/paper) or the request cannot be served in this mode.
+// The shared error handler replies with `status` and the mode in details.
+export class Base44Error extends Error {
+  constructor(message: string, readonly status: number, readonly mode: Base44Mode) {
+    super(message);
+    this.name = 'Base44Error';
+  }
+}
+
+// Base44 client. What happens to an order depends on config.base44.mode: live sends it,
+// paper fills it in a PaperPortfolio at Base44's quote, offline does the same with
+// configured reference prices. Failures are thrown, never replaced by made-up data.
+// Realized PnL of every fill counts against the risk manager's daily loss cap.
+export class Base44Connector {
+  readonly mode: Base44Mode;
+  private portfolio: PaperPortfolio | null = null;
+
+  constructor(private settings: Base44Settings = config.base44, private risk: RiskManager = riskManager) {
+    if (!['live', 'paper', 'offline'].includes(settings.mode)) {
+      throw new Error(`Unknown BASE44_MODE '${settings.mode}' (expected live, paper or offline)`);
+    }
+    this.mode = settings.mode;
+    if (this.mode !== 'live') {
+      this.portfolio = new PaperPortfolio(settings.paper);
+    }
+  }
+
+  async connect(): Promise<boolean> {
+    if (this.mode === 'offline') {
+      logger.info('Base44 offline mode: trades fill against the paper portfolio at reference prices');
+      return true;
+    }
+    if (!this.settings.apiKey) {
+      logger.error(`Base44 ${this.mode} mode needs BASE44_API_KEY`);
+      return false;
+    }
+
+    try {
+      await axios.get(`${this.settings.apiUrl}/health`, { headers: this.headers() });
+      base44Requests.inc({ operation: 'health', outcome: 'ok' });
+      logger.info(`Base44 connected successfully (${this.mode} mode)`);
+      return true;
+    } catch (error) {
+      base44Requests.inc({ operation: 'health', outcome: 'error' });
+      logger.error(`Base44 connection failed (${this.mode} mode): ${describe(error)}`);
+      return false;
+    }
+  }
+
+  async getMarketData(token: string): Promise<MarketData> {
+    const quote = this.mode === 'offline' ? this.offlineQuote(token) : await this.fetchQuote(token);
+
+    // A fresh quote may cross resting paper limit orders
+    if (this.portfolio) {
+      for (const order of this.portfolio.match(token, quote.price)) {
+        this.recordPaperOrder(order);
+        await this.risk.recordTradePnl(order.realizedPnlUsd ?? 0);
+      }
+    }
+    const tokenInfo = findToken(token);
+    return tokenInfo ? { ...quote, tokenInfo } : quote;
+  }
+
+  async executeTrade(params: TradeParams): Promise<TradeResult> {
+    // Quoted first: a market order is capped at the price it would fill at
+    const quote = await this.getMarketData(params.token);
+    // Throws RiskViolation before anything is sent
+    this.risk.checkTrade({ ...params, price: params.price ?? String(quote.price) });
+
+    if (!this.portfolio) {
+      const result = await this.sendLiveTrade(params);
+      // Counted when Base44's response carries realizedPnlUsd for the fill
+      const realizedPnlUsd = Number(result.realizedPnlUsd ?? 0);
+      await this.risk.recordTradePnl(Number.isFinite(realizedPnlUsd) ? realizedPnlUsd : 0);
+      return result;
+    }
+
+    const order = this.portfolio.place(params, quote.price);
+    this.recordPaperOrder(order);
+    await this.risk.recordTradePnl(order.realizedPnlUsd ?? 0);
+    return {
+      mode: this.mode,
+      success: order.status === 'filled' || order.status === 'open',
+      orderId: order.id,
+      status: order.status,
+      executedPrice: order.fillPrice,
+      executedAmount: order.status === 'filled' ? order.amount : '0',
+      quotePrice: quote.price,
+      feeUsd: order.feeUsd,
+      realizedPnlUsd: order.realizedPnlUsd,
+      reason: order.reason
+    };
+  }
+
+  // Marks every held token at its current quote; tokens that cannot be quoted are valued at cost
+  async getPortfolio(): Promise<PaperPortfolioResult> {
+    const portfolio = this.requirePortfolio();
+    const marks: Record<string, number> = {};
+    await Promise.all(portfolio.openTokens().map(async token => {
+      try {
+        marks[token] = (await this.getMarketData(token)).price;
+      } catch (error) {
+        logger.warn(`No mark for paper position ${token}: ${describe(error)}`);
+      }
+    }));
+    return { mode: this.mode, ...portfolio.snapshot(marks) };
+  }
+
+  cancelOrder(orderId: string): PaperOrder & { mode: Base44Mode } {
+    const order = this.requirePortfolio().cancel(orderId);
+    if (!order) {
+      throw new Base44Error(`No open paper order ${orderId}`, 404, this.mode);
+    }
+    this.recordPaperOrder(order);
+    return { mode: this.mode, ...order };
+  }
+
+  private async sendLiveTrade(params: TradeParams): Promise<TradeResult> {
+    try {
+      const response = await axios.post(`${this.settings.apiUrl}/trade`, params, { headers: this.headers() });
+      base44Requests.inc({ operation: 'trade', outcome: 'ok' });
+      logger.info(`Trade executed: ${params.side} ${params.amount} ${params.token}`);
+      const result: TradeResult = { ...response.data, mode: this.mode };
+      eventFeed.publish('trades', 'executed', { ...params, result });
+      return result;
+    } catch (error) {
+      base44Requests.inc({ operation: 'trade', outcome: 'error' });
+      logger.error(`Base44 trade failed: ${params.side} ${params.amount} ${params.token}: ${describe(error)}`);
+      throw new Base44Error(`Base44 trade failed: ${describe(error)}`, 502, this.mode);
+    }
+  }
+
+  private async fetchQuote(token: string): Promise<MarketData> {
+    try {
+      const response = await axios.get(`${this.settings.apiUrl}/market/${encodeURIComponent(token)}`, { headers: this.headers() });
+      base44Requests.inc({ operation: 'market-data', outcome: 'ok' });
+      const price = Number(response.data?.price);
+      if (!Number.isFinite(price) || price <= 0) {
+        throw new Base44Error(`Base44 returned no usable price for ${token}`, 502, this.mode);
+      }
+      return { ...response.data, mode: this.mode, token, price, source: 'base44' };
+    } catch (error) {
+      if (error instanceof Base44Error) throw error;
+      base44Requests.inc({ operation: 'market-data', outcome: 'error' });
+      throw new Base44Error(`Base44 market data unavailable for ${token}: ${describe(error)}`, 502, this.mode);
+    }
+  }
+
+  private offlineQuote(token: string): MarketData {
+    const key = tokenKey(token);
+    const entry = Object.entries(this.settings.offlinePrices).find(([symbol]) => tokenKey(symbol) === key);
+    if (!entry) {
+      throw new Base44Error(`No offline reference price for ${token}; add it to BASE44_OFFLINE_PRICES`, 404, this.mode);
+    }
+    return { mode: this.mode, token, price: entry[1], source: 'offline' };
+  }
+
+  private recordPaperOrder(order: PaperOrder): void {
+    base44PaperOrders.inc({ mode: this.mode, status: order.status });
+    if (order.status === 'filled') {
+      logger.info(`Paper ${order.side} filled: ${order.amount} ${order.token} at $${order.fillPrice?.toFixed(4)} (${this.mode} mode)`);
+    }
+    eventFeed.publish('trades', 'simulated', { mode: this.mode, order });
+  }
+
+  private requirePortfolio(): PaperPortfolio {
+    if (!this.portfolio) {
+      throw new Base44Error('The paper portfolio only exists in paper and offline modes', 409, this.mode);
+    }
+    return this.portfolio;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      Authorization: `Bearer ${this.settings.apiKey}`,
+      'Content-Type': 'application/json'
+    };
+  }
+}
+
+function describe(error: unknown): string {
+  if (axios.isAxiosError(error)) {
+    return error.response ? `HTTP ${error.response.status} ${JSON.stringify(error.response.data)}` : error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+export const base44Connector = new Base44Connector();
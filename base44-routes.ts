@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { base44Connector } from './base44-connector';
+import logger from './logger';
+import { rateLimit, requireRole } from './auth';
+import { validate } from './api-middleware';
+import { RouteDoc } from './openapi';
+import {
+  MarketDataSchema,
+  PaperOrderSchema,
+  PaperPortfolioSchema,
+  TradeParams,
+  TradeParamsSchema,
+  TradeResultSchema
+} from './api-schemas';
+
+const router = Router();
+
+// Every response carries the connector's mode (live, paper, offline). RiskViolation is
+// mapped to 403/423 and Base44Error to its own status by the shared error handler.
+
+// Place a Base44 trade, or a simulated one in paper/offline mode
+router.post('/trade', requireRole('operator'), rateLimit(), validate({ body: TradeParamsSchema }), async (req, res, next) => {
+  try {
+    const tradeResult = await base44Connector.executeTrade(req.body as TradeParams);
+    res.status(200).json(tradeResult);
+  } catch (error) {
+    logger.warn('Trade execution error:', error instanceof Error ? error.message : error);
+    next(error);
+  }
+});
+
+router.get('/market/:token', requireRole('read'), async (req, res, next) => {
+  try {
+    res.json(await base44Connector.getMarketData(req.params.token));
+  } catch (error) {
+    next(error);
+  }
+});
+
+// Paper/offline only: cash, positions marked to current quotes, PnL and the order book
+router.get('/portfolio', requireRole('read'), async (req, res, next) => {
+  try {
+    res.json(await base44Connector.getPortfolio());
+  } catch (error) {
+    next(error);
+  }
+});
+
+router.post('/orders/:orderId/cancel', requireRole('operator'), rateLimit(), (req, res, next) => {
+  try {
+    res.json(base44Connector.cancelOrder(req.params.orderId));
+  } catch (error) {
+    next(error);
+  }
+});
+
+export const docs: RouteDoc[] = [
+  { method: 'post', path: '/trade', summary: 'Place a Base44 trade after risk checks (simulated in paper/offline mode)', role: 'operator', body: TradeParamsSchema, response: TradeResultSchema },
+  { method: 'get', path: '/market/:token', summary: 'Quote for a token from Base44, or its reference price offline', role: 'read', response: MarketDataSchema },
+  { method: 'get', path: '/portfolio', summary: 'Paper portfolio, PnL and open orders (paper/offline mode)', role: 'read', response: PaperPortfolioSchema },
+  { method: 'post', path: '/orders/:orderId/cancel', summary: 'Cancel a resting paper order', role: 'operator', response: PaperOrderSchema }
+];
+
+export default router;
@@ -0,0 +1,334 @@
+import { ethers } from 'ethers';
+import {
+  FlashbotsBundleProvider,
+  SimulationResponse,
+  SimulationResponseSuccess,
+  TransactionSimulation
+} from '@flashbots/ethers-provider-bundle';
+import { ProviderPool } from './provider-pool';
+import logger from './logger';
+
+export type SimulationMode = 'relay' | 'local' | 'rpc';
+
+// Balance change of an address touched by the bundle (sender, recipient or coinbase)
+export interface BalanceDiff {
+  address: string;
+  before: bigint;
+  after: bigint;
+  delta: bigint;
+}
+
+// Same shape the Flashbots relay returns, plus the balance diffs only a local fork can provide
+export interface BundleSimulationResult extends SimulationResponseSuccess {
+  mode: SimulationMode;
+  stateDiffs: BalanceDiff[];
+}
+
+export type BundleSimulationResponse = BundleSimulationResult | { error: { message: string; code: number } };
+
+export interface BundleSimulator {
+  readonly mode: SimulationMode;
+  simulate(signedTransactions: string[], blockNumber: number): Promise<BundleSimulationResponse>;
+}
+
+export function isSimulationError(
+  response: BundleSimulationResponse | SimulationResponse
+): response is { error: { message: string; code: number } } {
+  return 'error' in response;
+}
+
+// ---------------- Flashbots relay (eth_callBundle) ----------------
+export class RelayBundleSimulator implements BundleSimulator {
+  readonly mode: SimulationMode = 'relay';
+
+  constructor(private flashbotsProvider: FlashbotsBundleProvider) {}
+
+  async simulate(signedTransactions: string[], blockNumber: number): Promise<BundleSimulationResponse> {
+    const response = await this.flashbotsProvider.simulate(signedTransactions, blockNumber);
+    if (isSimulationError(response)) {
+      return response;
+    }
+    return { ...response, mode: this.mode, stateDiffs: [] };
+  }
+}
+
+// ---------------- Local fork (anvil / hardhat) ----------------
+// Replays the bundle on a forked node inside an evm_snapshot, mines it as a
+// single block and reverts the snapshot afterwards so the fork is left untouched.
+export class LocalForkSimulator implements BundleSimulator {
+  readonly mode: SimulationMode = 'local';
+  private provider: ethers.JsonRpcProvider;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  constructor(forkRpcUrl: string) {
+    this.provider = new ethers.JsonRpcProvider(forkRpcUrl);
+  }
+
+  // The fork is one shared chain: a snapshot, automine toggle or revert from one
+  // simulation would corrupt another running alongside it, so they run one at a time
+  simulate(signedTransactions: string[], blockNumber: number): Promise<BundleSimulationResponse> {
+    const result = this.lock.then(() => this.simulateOnFork(signedTransactions, blockNumber));
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+
+  private async simulateOnFork(signedTransactions: string[], blockNumber: number): Promise<BundleSimulationResponse> {
+    const parsed = signedTransactions.map(raw => ethers.Transaction.from(raw));
+    const parentBlock = await this.provider.getBlockNumber();
+    const snapshotId: string = await this.provider.send('evm_snapshot', []);
+
+    try {
+      await this.provider.send('evm_setAutomine', [false]);
+
+      const touched = this.touchedAddresses(parsed);
+      const before = await this.getBalances(touched, parentBlock);
+
+      for (const raw of signedTransactions) {
+        await this.provider.send('eth_sendRawTransaction', [raw]);
+      }
+      await this.provider.send('evm_mine', []);
+
+      const block = await this.provider.getBlock('latest');
+      if (!block) {
+        throw new Error('Fork did not return the mined block');
+      }
+      const baseFee = block.baseFeePerGas ?? 0n;
+      const coinbase = block.miner;
+
+      const [coinbaseBefore, coinbaseAfter] = await Promise.all([
+        this.provider.getBalance(coinbase, parentBlock),
+        this.provider.getBalance(coinbase, block.number)
+      ]);
+      const after = await this.getBalances(touched, block.number);
+
+      const results: TransactionSimulation[] = [];
+      let totalGasUsed = 0n;
+      let gasFees = 0n;
+      let priorityFees = 0n;
+
+      let previousIndex = -1;
+      for (const tx of parsed) {
+        const receipt = await this.provider.getTransactionReceipt(tx.hash!);
+        if (!receipt) {
+          return { error: { message: `Transaction ${tx.hash} was not mined by the fork`, code: -32000 } };
+        }
+        // anvil and hardhat order the mined block by fee rather than by arrival, which can
+        // put a bundle in an order no builder would execute it in
+        if (receipt.index <= previousIndex) {
+          return { error: { message: `Fork mined transaction ${tx.hash} out of bundle order (index ${receipt.index})`, code: -32000 } };
+        }
+        previousIndex = receipt.index;
+
+        const txGasFees = receipt.gasUsed * receipt.gasPrice;
+        totalGasUsed += receipt.gasUsed;
+        gasFees += txGasFees;
+        priorityFees += receipt.gasUsed * (receipt.gasPrice - baseFee);
+
+        const base = {
+          txHash: receipt.hash,
+          gasUsed: Number(receipt.gasUsed),
+          gasFees: txGasFees.toString(),
+          gasPrice: receipt.gasPrice.toString(),
+          toAddress: tx.to ?? '',
+          fromAddress: tx.from ?? '',
+          coinbaseDiff: (receipt.gasUsed * (receipt.gasPrice - baseFee)).toString()
+        };
+
+        if (receipt.status === 0) {
+          const revert = await this.getRevertReason(tx, block.number - 1);
+          results.push({ ...base, error: 'execution reverted', revert });
+        } else {
+          results.push({ ...base, value: tx.value.toString(), ethSentToCoinbase: '0' });
+        }
+      }
+
+      const coinbaseDiff = coinbaseAfter - coinbaseBefore;
+      const ethSentToCoinbase = coinbaseDiff > priorityFees ? coinbaseDiff - priorityFees : 0n;
+
+      const stateDiffs: BalanceDiff[] = touched.map((address, i) => ({
+        address,
+        before: before[i],
+        after: after[i],
+        delta: after[i] - before[i]
+      }));
+      stateDiffs.push({ address: coinbase, before: coinbaseBefore, after: coinbaseAfter, delta: coinbaseDiff });
+
+      return {
+        mode: this.mode,
+        bundleHash: ethers.keccak256(ethers.concat(parsed.map(tx => tx.hash!))),
+        bundleGasPrice: totalGasUsed > 0n ? (gasFees + ethSentToCoinbase) / totalGasUsed : 0n,
+        coinbaseDiff,
+        ethSentToCoinbase,
+        gasFees,
+        results,
+        totalGasUsed: Number(totalGasUsed),
+        stateBlockNumber: parentBlock,
+        firstRevert: results.find(r => 'revert' in r),
+        stateDiffs
+      };
+    } catch (error) {
+      logger.error(`Local fork simulation failed for target block ${blockNumber}:`, error);
+      return { error: { message: error instanceof Error ? error.message : String(error), code: -32000 } };
+    } finally {
+      await this.provider.send('evm_revert', [snapshotId]);
+      await this.provider.send('evm_setAutomine', [true]);
+    }
+  }
+
+  private touchedAddresses(transactions: ethers.Transaction[]): string[] {
+    const addresses = new Set<string>();
+    for (const tx of transactions) {
+      if (tx.from) addresses.add(ethers.getAddress(tx.from));
+      if (tx.to) addresses.add(ethers.getAddress(tx.to));
+    }
+    return [...addresses];
+  }
+
+  private getBalances(addresses: string[], blockTag: number): Promise<bigint[]> {
+    return Promise.all(addresses.map(address => this.provider.getBalance(address, blockTag)));
+  }
+
+  // Re-executes the reverted call against the parent state to recover the revert
+  // reason. Earlier transactions in the bundle are not applied, so this is a best effort.
+  private async getRevertReason(tx: ethers.Transaction, blockTag: number): Promise<string> {
+    try {
+      await this.provider.call({
+        from: tx.from,
+        to: tx.to,
+        data: tx.data,
+        value: tx.value,
+        gasLimit: tx.gasLimit,
+        blockTag
+      });
+      return 'unknown';
+    } catch (error: unknown) {
+      if (!ethers.isCallException(error)) return 'unknown';
+      return error.reason ?? error.revert?.args[0]?.toString() ?? error.shortMessage;
+    }
+  }
+}
+
+// ---------------- Chain RPC (eth_simulateV1) ----------------
+// For chains without a bundle relay: executes the bundle's transactions in order on
+// top of the latest block with eth_simulateV1, nonce and fee checks included. Calls
+// are rebuilt from the signed transactions, so signatures are not re-verified. The
+// node reports no coinbase transfers; ethSentToCoinbase is always 0.
+export class RpcBundleSimulator implements BundleSimulator {
+  readonly mode: SimulationMode = 'rpc';
+
+  constructor(private providers: ProviderPool) {}
+
+  async simulate(signedTransactions: string[], blockNumber: number): Promise<BundleSimulationResponse> {
+    const parsed = signedTransactions.map(raw => ethers.Transaction.from(raw));
+    const calls = parsed.map(tx => ({
+      from: tx.from,
+      to: tx.to,
+      data: tx.data,
+      value: ethers.toQuantity(tx.value),
+      gas: ethers.toQuantity(tx.gasLimit),
+      nonce: ethers.toQuantity(tx.nonce),
+      ...(tx.maxFeePerGas !== null
+        ? { maxFeePerGas: ethers.toQuantity(tx.maxFeePerGas), maxPriorityFeePerGas: ethers.toQuantity(tx.maxPriorityFeePerGas ?? 0n) }
+        : { gasPrice: ethers.toQuantity(tx.gasPrice ?? 0n) })
+    }));
+
+    try {
+      const parentBlock = await this.providers.getBlockNumber();
+      const block = simulatedBlock(await this.providers.send('eth_simulateV1', [
+        { blockStateCalls: [{ calls }], validation: true },
+        ethers.toQuantity(parentBlock)
+      ]), parsed.length);
+      const baseFee = BigInt(block.baseFeePerGas ?? 0);
+
+      const results: TransactionSimulation[] = [];
+      let totalGasUsed = 0n;
+      let gasFees = 0n;
+      let coinbaseDiff = 0n;
+      parsed.forEach((tx, i) => {
+        const call = block.calls[i];
+        const gasUsed = BigInt(call.gasUsed);
+        const gasPrice = tx.maxFeePerGas !== null
+          ? baseFee + minBigInt(tx.maxPriorityFeePerGas ?? 0n, tx.maxFeePerGas - baseFee)
+          : tx.gasPrice ?? 0n;
+        const txGasFees = gasUsed * gasPrice;
+        const tip = gasUsed * (gasPrice - baseFee);
+        totalGasUsed += gasUsed;
+        gasFees += txGasFees;
+        coinbaseDiff += tip;
+
+        const base = {
+          txHash: tx.hash!,
+          gasUsed: Number(gasUsed),
+          gasFees: txGasFees.toString(),
+          gasPrice: gasPrice.toString(),
+          toAddress: tx.to ?? '',
+          fromAddress: tx.from ?? '',
+          coinbaseDiff: tip.toString()
+        };
+        if (call.status === '0x1') {
+          results.push({ ...base, value: tx.value.toString(), ethSentToCoinbase: '0' });
+        } else {
+          results.push({ ...base, error: 'execution reverted', revert: call.error?.message ?? 'unknown' });
+        }
+      });
+
+      return {
+        mode: this.mode,
+        bundleHash: ethers.keccak256(ethers.concat(parsed.map(tx => tx.hash!))),
+        bundleGasPrice: totalGasUsed > 0n ? gasFees / totalGasUsed : 0n,
+        coinbaseDiff,
+        ethSentToCoinbase: 0n,
+        gasFees,
+        results,
+        totalGasUsed: Number(totalGasUsed),
+        stateBlockNumber: parentBlock,
+        firstRevert: results.find(r => 'revert' in r),
+        stateDiffs: []
+      };
+    } catch (error: unknown) {
+      // Validation failures (nonce, balance, fee cap) come back as JSON-RPC errors
+      const failure = rpcFailure(error);
+      logger.warn(`RPC simulation failed for target block ${blockNumber} on ${this.providers.chain}: ${failure.message}`);
+      return { error: failure };
+    }
+  }
+}
+
+// The parts of an eth_simulateV1 block read above
+interface SimulatedBlock {
+  baseFeePerGas?: string;
+  calls: { status: string; gasUsed: string; error?: { message?: string } }[];
+}
+
+// First simulated block of an eth_simulateV1 result, with one call result per transaction
+function simulatedBlock(result: unknown, transactions: number): SimulatedBlock {
+  const block: unknown = Array.isArray(result) ? result[0] : undefined;
+  if (typeof block !== 'object' || block === null || !('calls' in block) || !Array.isArray(block.calls)) {
+    throw new Error('eth_simulateV1 returned no simulated block');
+  }
+  const calls: unknown[] = block.calls;
+  const valid = calls.length === transactions && calls.every(call =>
+    typeof call === 'object' && call !== null &&
+    'status' in call && typeof call.status === 'string' &&
+    'gasUsed' in call && typeof call.gasUsed === 'string');
+  if (!valid) {
+    throw new Error(`eth_simulateV1 returned ${calls.length} malformed call results for ${transactions} transactions`);
+  }
+  return block as SimulatedBlock;
+}
+
+// The node's JSON-RPC error, which ethers keeps on error.error, else the error's own message
+function rpcFailure(error: unknown): { message: string; code: number } {
+  const payload = typeof error === 'object' && error !== null && 'error' in error ? error.error : undefined;
+  if (typeof payload === 'object' && payload !== null && 'message' in payload && typeof payload.message === 'string') {
+    return { message: payload.message, code: 'code' in payload && typeof payload.code === 'number' ? payload.code : -32000 };
+  }
+  if (ethers.isError(error, 'UNKNOWN_ERROR') || ethers.isError(error, 'CALL_EXCEPTION')) {
+    return { message: error.shortMessage, code: -32000 };
+  }
+  return { message: error instanceof Error ? error.message : String(error), code: -32000 };
+}
+
+function minBigInt(a: bigint, b: bigint): bigint {
+  return a < b ? a : b;
+}
@@ -0,0 +1,405 @@
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import { FlashbotsBundleProvider, FlashbotsBundleResolution } from '@flashbots/ethers-provider-bundle';
+import { BundleSimulator, isSimulationError } from './bundle-simulator';
+import { RelayResult, RelayStats } from './relay-fanout';
+import { ProviderPool } from './provider-pool';
+import { WalletManager } from './wallet';
+import { ChainProfile } from './chains';
+import logger from './logger';
+import { bundlesSettled, simulationDuration, simulationReverts } from './metrics';
+
+export type BundleStatus =
+  | 'pending'
+  | 'included'
+  | 'not-included'
+  | 'nonce-invalidated'
+  | 'simulation-failed'
+  | 'simulated'; // Local fork dry run, never sent to a relay
+
+// Where signed bundles go: RelayFanout's builders on relay chains, a TransactionBroadcaster
+// (sequencer or public mempool) everywhere else
+export interface BundleTransport {
+  sendBundle(signedTransactions: string[], blockNumber: number): Promise<RelayResult[]>;
+  // Relay name of whoever built a block, when it is one of ours
+  builderOf(block: ethers.Block): string | null;
+  recordInclusion(block: ethers.Block): string | null;
+  getStats(): RelayStats[];
+}
+
+// Value of a token amount in the chain's native coin; null when the token cannot be priced
+export type TokenValuer = (token: string, amount: bigint) => Promise<bigint | null>;
+
+// A relay's verdict on a bundle for its target block
+export type BundleResolution = 'included' | 'not-included' | 'nonce-too-high';
+
+// Tells whether a bundle landed, from the relay's side. resolve() is called when the
+// bundle is sent and settles once the target block is mined; null means the relay
+// cannot tell and on-chain receipts decide.
+export interface BundleResolver {
+  resolve(signedTransactions: string[], blockNumber: number): Promise<BundleResolution | null>;
+}
+
+// The Flashbots relay's bundle resolution. The bundle is also part of the fan-out; the
+// relay deduplicates the identical bundle by its hash.
+export class FlashbotsBundleResolver implements BundleResolver {
+  constructor(private flashbotsProvider: FlashbotsBundleProvider) {}
+
+  async resolve(signedTransactions: string[], blockNumber: number): Promise<BundleResolution | null> {
+    try {
+      const response = await this.flashbotsProvider.sendRawBundle(signedTransactions, blockNumber);
+      if ('error' in response) {
+        logger.debug(`Flashbots relay cannot resolve bundle for block ${blockNumber}: ${response.error.message}`);
+        return null;
+      }
+      switch (await response.wait()) {
+        case FlashbotsBundleResolution.BundleIncluded: return 'included';
+        case FlashbotsBundleResolution.AccountNonceTooHigh: return 'nonce-too-high';
+        default: return 'not-included';
+      }
+    } catch (error) {
+      logger.debug(`Flashbots relay cannot resolve bundle for block ${blockNumber}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+}
+
+// One target block of a submission
+export interface BundleAttempt {
+  blockNumber: number;
+  simulated: boolean;
+  submitted: boolean; // Accepted by at least one relay
+  error?: string;
+  simulation?: { gasUsed: number; ethSentToCoinbase: string; coinbaseDiff: string };
+  relays: RelayResult[];
+  // Relay name of the builder that mined the block without us, else its extraData (or fee recipient)
+  blockBuilder?: string;
+}
+
+export interface BundleSubmission {
+  id: string; // Flashbots bundle hash: keccak256 of the concatenated transaction hashes
+  chain: string;
+  opportunityId?: string;
+  opportunityType?: string;
+  bidShare?: number; // Profit share the bundle's fees were bid at, when gas-bidder priced it
+  status: BundleStatus;
+  transactions: string[];
+  firstBlock: number;
+  lastBlock: number;
+  includedBlock?: number;
+  includedBy?: string; // Builder credited with the inclusion, when it can be identified
+  gasUsed?: string; // By our own transactions once included
+  gasCost?: string; // In the chain's native coin
+  // Native + wrapped native held after the inclusion block minus before it, plus the change
+  // in profitTokens at their current price; unset when one of those cannot be priced
+  realizedProfit?: string;
+  profitTokens?: string[]; // Tokens besides the wrapped native coin the bundle's profit is held in
+  attempts: BundleAttempt[];
+  createdAt: number;
+  settledAt?: number;
+}
+
+const ERC20_BALANCE_ABI = ['function balanceOf(address owner) view returns (uint256)'];
+// Settled submissions kept in memory for polling
+const MAX_RETAINED = 500;
+
+// Drives a signed bundle across a window of upcoming blocks: before each target
+// block it re-simulates on top of the latest head, hands it to the chain's transport,
+// and once the block is mined asks the resolver (when there is one) whether it landed,
+// falling back to receipts for our transactions. The first inclusion
+// or nonce invalidation ends the window; otherwise the bundle is recorded as not
+// included after the last block. Emits 'submitted', 'attempt' (after every target
+// block) and 'settled'.
+export class BundleSubmissionManager extends EventEmitter {
+  private submissions: Map<string, BundleSubmission> = new Map();
+  private drives: Set<Promise<void>> = new Set();
+  private wakers: Set<() => void> = new Set(); // Ends every waitForBlock on stop
+  private stopped = false;
+
+  constructor(
+    private chain: ChainProfile,
+    private providers: ProviderPool,
+    private transport: BundleTransport,
+    private simulator: BundleSimulator,
+    private wallet: WalletManager,
+    private blockWindow: number,
+    private resolver: BundleResolver | null = null,
+    private valueOf: TokenValuer | null = null
+  ) {
+    super();
+  }
+
+  async submit(
+    transactions: string[],
+    firstBlock?: number,
+    opportunity?: { id: string; type: string; bidShare?: number; profitTokens?: string[] }
+  ): Promise<BundleSubmission> {
+    const id = ethers.keccak256(ethers.concat(transactions.map(raw => ethers.keccak256(raw))));
+    const existing = this.submissions.get(id);
+    if (existing && existing.status === 'pending') {
+      return existing;
+    }
+
+    const start = firstBlock ?? await this.providers.getBlockNumber() + 1;
+    const submission: BundleSubmission = {
+      id,
+      chain: this.chain.name,
+      opportunityId: opportunity?.id,
+      opportunityType: opportunity?.type,
+      bidShare: opportunity?.bidShare,
+      profitTokens: opportunity?.profitTokens,
+      status: 'pending',
+      transactions,
+      firstBlock: start,
+      lastBlock: start + this.blockWindow - 1,
+      attempts: [],
+      createdAt: Date.now()
+    };
+    this.submissions.delete(id);
+    this.submissions.set(id, submission);
+    this.prune();
+
+    // Hold our nonces for the whole window instead of only the first block
+    await this.wallet.nonces.retarget(this.wallet.ownNonces(transactions), submission.lastBlock);
+    this.emit('submitted', submission);
+
+    const drive = this.drive(submission)
+      .catch(error => {
+        logger.error(`Bundle ${id} submission failed:`, error);
+        return this.settle(submission, 'not-included');
+      })
+      .finally(() => this.drives.delete(drive));
+    this.drives.add(drive);
+
+    return submission;
+  }
+
+  // Stops driving submissions once their current step is done. They stay pending: a
+  // bundle already handed to a relay may still land after the engine is gone.
+  async stop(): Promise<void> {
+    this.stopped = true;
+    for (const wake of this.wakers) wake();
+    await Promise.all(this.drives);
+  }
+
+  getSubmission(id: string): BundleSubmission | undefined {
+    return this.submissions.get(id);
+  }
+
+  getSubmissions(): BundleSubmission[] {
+    return [...this.submissions.values()].reverse();
+  }
+
+  private async drive(submission: BundleSubmission): Promise<void> {
+    for (let blockNumber = submission.firstBlock; blockNumber <= submission.lastBlock; blockNumber++) {
+      // Simulate on top of the parent head; skip blocks that were mined while we waited
+      const head = await this.waitForBlock(blockNumber - 1);
+      if (head === null) return;
+      if (head >= blockNumber) continue;
+
+      const attempt: BundleAttempt = { blockNumber, simulated: false, submitted: false, relays: [] };
+      submission.attempts.push(attempt);
+      const outcome = await this.attempt(submission, attempt);
+      this.emit('attempt', submission, attempt);
+      if (outcome) {
+        return this.settle(submission, outcome);
+      }
+    }
+
+    const submitted = submission.attempts.some(attempt => attempt.submitted);
+    return this.settle(submission, submitted ? 'not-included' : 'simulation-failed');
+  }
+
+  // One target block; returns the final status if this block settled the bundle
+  private async attempt(submission: BundleSubmission, attempt: BundleAttempt): Promise<BundleStatus | null> {
+    const { blockNumber } = attempt;
+    // A rollback under our nonces left a gap this bundle can never cross
+    if (!this.wallet.nonces.holds(this.wallet.ownNonces(submission.transactions))) {
+      attempt.error = 'Nonce reservation was invalidated';
+      return 'nonce-invalidated';
+    }
+
+    const labels = { chain: this.chain.name, mode: this.simulator.mode };
+    const observeSimulation = simulationDuration.startTimer(labels);
+    const simulation = await this.simulator.simulate(submission.transactions, blockNumber);
+    observeSimulation();
+    if (isSimulationError(simulation)) {
+      attempt.error = simulation.error.message;
+      simulationReverts.inc(labels);
+    } else {
+      attempt.simulation = {
+        gasUsed: simulation.totalGasUsed,
+        ethSentToCoinbase: ethers.formatEther(simulation.ethSentToCoinbase),
+        coinbaseDiff: ethers.formatEther(simulation.coinbaseDiff)
+      };
+      if (simulation.firstRevert) {
+        simulationReverts.inc(labels);
+        attempt.error = 'error' in simulation.firstRevert ? simulation.firstRevert.error : 'reverted';
+      }
+    }
+    if (attempt.error) {
+      return /nonce/i.test(attempt.error) ? 'nonce-invalidated' : null;
+    }
+    attempt.simulated = true;
+
+    if (this.simulator.mode === 'local') {
+      return 'simulated';
+    }
+
+    // Never rejects, so it can be left behind when the attempt ends early
+    const resolution = this.resolver?.resolve(submission.transactions, blockNumber) ?? Promise.resolve(null);
+    attempt.relays = await this.transport.sendBundle(submission.transactions, blockNumber);
+    attempt.submitted = attempt.relays.some(result => result.accepted);
+    if (!attempt.submitted) {
+      attempt.error = 'Rejected by every relay';
+      return null;
+    }
+
+    if (await this.waitForBlock(blockNumber) === null) return null;
+    const outcome = await this.checkInclusion(submission, blockNumber, await resolution);
+    if (outcome === 'pending') {
+      // Lost this block; note who built it so the loss can be explained later
+      const block = await this.providers.execute(provider => provider.getBlock(blockNumber));
+      if (block) {
+        attempt.blockBuilder = this.transport.builderOf(block)
+          ?? (ethers.toUtf8String(block.extraData, ethers.Utf8ErrorFuncs.ignore) || block.miner);
+      }
+      return null;
+    }
+    return outcome;
+  }
+
+  private async settle(submission: BundleSubmission, status: BundleStatus): Promise<void> {
+    if (submission.status !== 'pending') return;
+    submission.status = status;
+    submission.settledAt = Date.now();
+
+    // Included nonces are picked up by the wallet's next resync; everything else is handed back
+    if (status !== 'included') {
+      await this.wallet.nonces.rollbackNonces(this.wallet.ownNonces(submission.transactions));
+    }
+
+    bundlesSettled.inc({ chain: this.chain.name, status });
+    logger.info(`Bundle ${submission.id} on ${this.chain.name} settled as ${status}`, {
+      includedBlock: submission.includedBlock,
+      attempts: submission.attempts.length
+    });
+    this.emit('settled', submission);
+  }
+
+  // The relay's resolution decides when it has one. Otherwise the bundle is included once
+  // every transaction has a receipt. It can never land once another party's transaction
+  // (a sandwich's victim) was mined without ours, or once the sender's nonce of a missing
+  // transaction has moved past it
+  private async checkInclusion(
+    submission: BundleSubmission,
+    blockNumber: number,
+    resolution: BundleResolution | null
+  ): Promise<'included' | 'nonce-invalidated' | 'pending'> {
+    if (resolution === 'not-included') return 'pending';
+    if (resolution === 'nonce-too-high') return 'nonce-invalidated';
+
+    const parsed = submission.transactions.map(raw => ethers.Transaction.from(raw));
+    const receipts = await Promise.all(parsed.map(tx =>
+      this.providers.execute(provider => provider.getTransactionReceipt(tx.hash!))));
+
+    if (resolution === 'included' || receipts.every(receipt => receipt !== null)) {
+      const includedBlock = receipts.find(receipt => receipt !== null)?.blockNumber ?? blockNumber;
+      submission.includedBlock = includedBlock;
+      const block = await this.providers.execute(provider => provider.getBlock(includedBlock));
+      if (block) {
+        submission.includedBy = this.transport.recordInclusion(block) ?? undefined;
+      }
+
+      // A node lagging behind the relay may not serve every receipt yet
+      const own = receipts.filter((receipt): receipt is ethers.TransactionReceipt =>
+        receipt !== null && receipt.from.toLowerCase() === this.wallet.address.toLowerCase());
+      const gasUsed = own.reduce((total, receipt) => total + receipt.gasUsed, 0n);
+      const gasCost = own.reduce((total, receipt) => total + receipt.gasUsed * receipt.gasPrice, 0n);
+      submission.gasUsed = gasUsed.toString();
+      submission.gasCost = ethers.formatEther(gasCost);
+      const profit = await this.realizedProfit(submission.profitTokens ?? [], includedBlock);
+      if (profit !== null) {
+        submission.realizedProfit = ethers.formatEther(profit);
+      }
+      return 'included';
+    }
+
+    const address = this.wallet.address.toLowerCase();
+    const ours = parsed.map(tx => tx.from?.toLowerCase() === address);
+    if (parsed.some((tx, i) => !ours[i] && receipts[i] !== null) && parsed.some((tx, i) => ours[i] && receipts[i] === null)) {
+      return 'nonce-invalidated';
+    }
+
+    for (let i = 0; i < parsed.length; i++) {
+      if (receipts[i]) continue;
+      const tx = parsed[i];
+      const chainNonce = await this.providers.execute(provider => provider.getTransactionCount(tx.from!, 'latest'));
+      if (chainNonce > tx.nonce) return 'nonce-invalidated';
+    }
+    return 'pending';
+  }
+
+  // Change in the searcher wallet's holdings across the inclusion block, in the native
+  // coin: native plus wrapped native (gas is already netted out of the native balance),
+  // and every other profit token valued at its current price
+  private async realizedProfit(profitTokens: string[], includedBlock: number): Promise<bigint | null> {
+    const tokens = [this.chain.wrappedNative, ...profitTokens.filter(token => token.toLowerCase() !== this.chain.wrappedNative.toLowerCase())];
+    const [before, after] = await Promise.all([this.holdings(tokens, includedBlock - 1), this.holdings(tokens, includedBlock)]);
+
+    let profit = after.native - before.native + after.tokens[0] - before.tokens[0];
+    for (let i = 1; i < tokens.length; i++) {
+      const change = after.tokens[i] - before.tokens[i];
+      if (change === 0n) continue;
+      const value = this.valueOf ? await this.valueOf(tokens[i], change) : null;
+      if (value === null) {
+        logger.warn(`Cannot price ${tokens[i]} on ${this.chain.name}; realized profit left unset`);
+        return null;
+      }
+      profit += value;
+    }
+    return profit;
+  }
+
+  // Native balance and token balances of the searcher wallet at a block
+  private async holdings(tokens: string[], blockNumber: number): Promise<{ native: bigint; tokens: bigint[] }> {
+    const address = this.wallet.address;
+    return this.providers.execute(async provider => {
+      const [native, ...balances] = await Promise.all([
+        provider.getBalance(address, blockNumber),
+        ...tokens.map(token =>
+          new ethers.Contract(token, ERC20_BALANCE_ABI, provider).balanceOf(address, { blockTag: blockNumber }) as Promise<bigint>)
+      ]);
+      return { native, tokens: balances };
+    });
+  }
+
+  // The head once it reaches blockNumber; null when the manager was stopped first
+  private async waitForBlock(blockNumber: number): Promise<number | null> {
+    const head = await this.providers.getBlockNumber();
+    if (this.stopped) return null;
+    if (head >= blockNumber) return head;
+
+    const provider = this.providers.getProvider();
+    return new Promise(resolve => {
+      const done = (result: number | null) => {
+        provider.off('block', listener);
+        this.wakers.delete(wake);
+        resolve(result);
+      };
+      const listener = (mined: number) => {
+        if (mined >= blockNumber) done(mined);
+      };
+      const wake = () => done(null);
+      this.wakers.add(wake);
+      provider.on('block', listener);
+    });
+  }
+
+  private prune(): void {
+    for (const [id, submission] of this.submissions) {
+      if (this.submissions.size <= MAX_RETAINED) break;
+      if (submission.status !== 'pending') this.submissions.delete(id);
+    }
+  }
+}
@@ -0,0 +1,93 @@
+import path from 'path';
+import { ChainSettings, RouterSettings, config } from './config';
+import { ProviderPool } from './provider-pool';
+import { Dex } from './pool-state';
+
+// A configured chain under its config key (ethereum, arbitrum, base, ...)
+export interface ChainProfile extends ChainSettings {
+  name: string;
+}
+
+const profiles = new Map<string, ChainProfile>();
+const providerPools = new Map<string, ProviderPool>();
+const routerRegistries = new Map<string, Map<string, RouterSettings>>();
+
+// Thrown for chain names that are not configured; routes answer 404
+export class UnknownChainError extends Error {
+  constructor(readonly chain: string) {
+    super(`Unknown chain '${chain}' (configured: ${Object.keys(config.chains).join(', ')})`);
+    this.name = 'UnknownChainError';
+  }
+}
+
+export function getChain(name: string): ChainProfile {
+  const settings = config.chains[name];
+  if (!settings) throw new UnknownChainError(name);
+  let profile = profiles.get(name);
+  if (!profile) {
+    profile = { name, ...settings };
+    profiles.set(name, profile);
+  }
+  return profile;
+}
+
+// flashbots.relays is a single set of builders, so only one chain can submit through them
+export function enabledChains(): ChainProfile[] {
+  const chains = Object.keys(config.chains)
+    .filter(name => config.chains[name].enabled)
+    .map(getChain);
+  const relayChains = chains.filter(chain => chain.submission === 'relay');
+  if (relayChains.length > 1) {
+    throw new Error(`Only one enabled chain may use relay submission (${relayChains.map(chain => chain.name).join(', ')})`);
+  }
+  return chains;
+}
+
+// One provider pool per chain, created on first use so disabled chains cost nothing
+export function chainProviders(name: string): ProviderPool {
+  let pool = providerPools.get(name);
+  if (!pool) {
+    const chain = getChain(name);
+    pool = new ProviderPool(chain.rpcUrls, { chain: chain.name, chainId: chain.chainId });
+    providerPools.set(name, pool);
+  }
+  return pool;
+}
+
+// Routers the decoder recognizes, keyed by lowercased address
+export function routerRegistry(chain: ChainProfile): Map<string, RouterSettings> {
+  let registry = routerRegistries.get(chain.name);
+  if (!registry) {
+    registry = new Map(chain.routers.map(router => [router.address.toLowerCase(), router]));
+    routerRegistries.set(chain.name, registry);
+  }
+  return registry;
+}
+
+// Router our own swaps through a DEX's pools are sent to: the plain router for its kind,
+// SwapRouter02 for V3 pools where no V3 SwapRouter is configured
+export function routerForDex(chain: ChainProfile, dex: Dex): RouterSettings | null {
+  const venue = dex === 'sushiswap' ? 'sushiswap' : 'uniswap';
+  const kinds: RouterSettings['kind'][] = dex === 'uniswap-v3' ? ['v3', 'router02'] : ['v2'];
+  for (const kind of kinds) {
+    const router = chain.routers.find(candidate => candidate.venue === venue && candidate.kind === kind);
+    if (router) return router;
+  }
+  return null;
+}
+
+export function factoryFor(chain: ChainProfile, dex: Dex): string | null {
+  return chain.factories[dex] || null;
+}
+
+// Per-chain variant of a state file: data/gas-bids.json becomes data/gas-bids.base.json.
+// Ethereum keeps the plain name so state written before multi-chain support is reused.
+export function chainStatePath(filePath: string, chain: ChainProfile): string {
+  if (chain.name === 'ethereum') return filePath;
+  const ext = path.extname(filePath);
+  return `${filePath.slice(0, filePath.length - ext.length)}.${chain.name}${ext}`;
+}
+
+export function isWrappedNative(chain: ChainProfile, token: string): boolean {
+  return token.toLowerCase() === chain.wrappedNative.toLowerCase();
+}
@@ -0,0 +1,411 @@
+import fs from 'fs';
+import path from 'path';
+import dotenv from 'dotenv';
+import { ethers } from 'ethers';
+import { JsonSchema, validateSchema } from './schema';
+import { parseYaml } from './yaml';
+
+export type DeepPartial<T> = T extends unknown[] ? T : T extends object ? { [K in keyof T]?: DeepPartial<T[K]> } : T;
+
+// Checks beyond "same type as the default". Paths are dotted; '*' matches any key or
+// list index (flashbots.relays.*.url).
+export interface ConfigRules {
+  schemas?: Record<string, JsonSchema>; // Replace the shape check at that path
+  addresses?: string[]; // Checksummed or lowercase addresses; '' means unset
+  urls?: string[]; // http(s)/ws(s) URLs; '' means unset. Shown as origin only when redacted
+  privateKeys?: string[]; // 32-byte hex; '' means unset
+  openMaps?: string[]; // Sections whose keys are free-form (token prices, per-strategy limits)
+}
+
+// T is inferred from the defaults alone: the partial fromEnv result would otherwise
+// widen it, and the loaded config is always complete once merged over the defaults
+export interface LoadConfigOptions<T> {
+  defaults: T;
+  fromEnv: (env: EnvReader, defaults: NoInfer<T>) => DeepPartial<NoInfer<T>>;
+  rules: ConfigRules;
+  normalize?: (config: NoInfer<T>) => void; // Runs once the merged config is valid
+  env?: NodeJS.ProcessEnv; // process.env plus .env when omitted
+  argv?: string[]; // process.argv.slice(2) when omitted
+}
+
+export interface LoadedConfig<T> {
+  config: T;
+  profile: string;
+  sources: string[]; // In precedence order, lowest first
+}
+
+// Every problem found while loading, so a bad deployment is fixed in one pass
+export class ConfigError extends Error {
+  constructor(readonly issues: string[], readonly profile: string) {
+    super(`Invalid configuration (profile '${profile}'):\n${issues.map(issue => `  - ${issue}`).join('\n')}`);
+    this.name = 'ConfigError';
+  }
+}
+
+// Typed access to environment variables; malformed values are collected as issues
+// naming the variable instead of turning into NaN or a silent default. Empty values
+// count as unset.
+export class EnvReader {
+  readonly issues: string[] = [];
+
+  constructor(private env: NodeJS.ProcessEnv) {}
+
+  string(name: string): string | undefined {
+    const value = this.env[name];
+    return value === undefined || value === '' ? undefined : value;
+  }
+
+  number(name: string): number | undefined {
+    const value = this.string(name);
+    if (value === undefined) return undefined;
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed)) {
+      this.issues.push(`${name}: expected a number, got '${value}'`);
+      return undefined;
+    }
+    return parsed;
+  }
+
+  flag(name: string): boolean | undefined {
+    const value = this.string(name)?.toLowerCase();
+    if (value === undefined) return undefined;
+    if (['true', '1', 'yes'].includes(value)) return true;
+    if (['false', '0', 'no'].includes(value)) return false;
+    this.issues.push(`${name}: expected true or false, got '${value}'`);
+    return undefined;
+  }
+
+  // Comma-separated
+  list(name: string): string[] | undefined {
+    const value = this.string(name);
+    return value === undefined ? undefined : value.split(',').map(item => item.trim()).filter(Boolean);
+  }
+
+  json<T>(name: string): T | undefined {
+    const value = this.string(name);
+    if (value === undefined) return undefined;
+    try {
+      return JSON.parse(value);
+    } catch (error) {
+      this.issues.push(`${name}: not valid JSON (${error instanceof Error ? error.message : error})`);
+      return undefined;
+    }
+  }
+}
+
+const CONFIG_EXTENSIONS = ['.yaml', '.yml', '.json'];
+const PLACEHOLDER = /^(your[_-].*|.*[_-]here|change[_-]?me|replace[_-]?me|todo|x{3,}|<[^>]+>)$/i;
+const SECRET_KEY = /(key|secret|password|token)$/i;
+
+// Defaults, then config files, then environment variables, then CLI flags; each layer
+// overrides the one before it. Files are CONFIG_DIR/default.*, CONFIG_DIR/<profile>.*
+// and CONFIG_FILE (or --config), in that order, as YAML or JSON; a file's `profiles`
+// section applies on top of it for the active profile. The profile is --profile,
+// CONFIG_PROFILE or NODE_ENV. `--set path=value` overrides a single setting.
+export function loadConfig<T extends object>(options: LoadConfigOptions<T>): LoadedConfig<T> {
+  const env = options.env ?? loadDotenv();
+  const cli = parseArgs(options.argv ?? process.argv.slice(2));
+  const issues = [...cli.issues];
+  const profile = cli.profile || env.CONFIG_PROFILE || env.NODE_ENV || 'development';
+  const sources = ['defaults'];
+  let merged = clone(options.defaults) as Record<string, unknown>;
+
+  const directory = env.CONFIG_DIR || './config';
+  const files = ['default', profile]
+    .map(name => CONFIG_EXTENSIONS.map(extension => path.join(directory, name + extension)).find(file => fs.existsSync(file)))
+    .filter((file): file is string => !!file);
+  const explicit = cli.config || env.CONFIG_FILE;
+  if (explicit) {
+    if (fs.existsSync(explicit)) {
+      files.push(explicit);
+    } else {
+      issues.push(`Config file ${explicit} does not exist`);
+    }
+  }
+
+  for (const file of files) {
+    try {
+      const { profiles, ...values } = readConfigFile(file);
+      merged = merge(merged, values);
+      if (isPlainObject(profiles) && isPlainObject(profiles[profile])) {
+        merged = merge(merged, profiles[profile] as Record<string, unknown>);
+      }
+      sources.push(`file:${file}`);
+    } catch (error) {
+      issues.push(`${file}: ${error instanceof Error ? error.message : error}`);
+    }
+  }
+
+  const reader = new EnvReader(env);
+  merged = merge(merged, options.fromEnv(reader, options.defaults) as Record<string, unknown>);
+  issues.push(...reader.issues);
+  sources.push('env');
+
+  for (const { path: setting, value } of cli.overrides) {
+    const segments = setting.split('.');
+    const parent = getPath(merged, segments.slice(0, -1));
+    const key = segments[segments.length - 1];
+    if (!isPlainObject(parent) && !Array.isArray(parent)) {
+      issues.push(`--set ${setting}: unknown setting`);
+      continue;
+    }
+    (parent as Record<string, unknown>)[key] = coerce((parent as Record<string, unknown>)[key], value);
+  }
+  if (cli.overrides.length > 0) sources.push('cli');
+
+  issues.push(...validateConfig(merged, options.defaults, options.rules));
+  if (issues.length > 0) {
+    throw new ConfigError(issues, profile);
+  }
+
+  const config = merged as T;
+  options.normalize?.(config);
+  return { config, profile, sources };
+}
+
+// Type and shape against the defaults, then the format rules, then placeholders
+export function validateConfig(config: unknown, defaults: unknown, rules: ConfigRules): string[] {
+  const issues: string[] = [];
+  checkShape(config, defaults, '', rules, issues);
+
+  for (const pattern of rules.addresses || []) {
+    for (const [setting, value] of collect(config, pattern)) {
+      if (value !== '' && (typeof value !== 'string' || !ethers.isAddress(value))) {
+        issues.push(`${setting}: '${value}' is not an Ethereum address`);
+      }
+    }
+  }
+  for (const pattern of rules.urls || []) {
+    for (const [setting, value] of collect(config, pattern)) {
+      if (value !== '' && !isUrl(value)) {
+        issues.push(`${setting}: '${redactUrl(String(value))}' is not an http(s) or ws(s) URL`);
+      }
+    }
+  }
+  for (const pattern of rules.privateKeys || []) {
+    for (const [setting, value] of collect(config, pattern)) {
+      if (value !== '' && (typeof value !== 'string' || !/^(0x)?[0-9a-fA-F]{64}$/.test(value))) {
+        issues.push(`${setting}: not a 32-byte hex private key`);
+      }
+    }
+  }
+
+  walkStrings(config, '', (setting, value) => {
+    if (PLACEHOLDER.test(value.trim())) {
+      issues.push(`${setting}: '${value}' is a placeholder; set a real value or leave it empty`);
+    }
+  });
+  return [...new Set(issues)];
+}
+
+// Copy safe to serve: secrets (…Key, …Secret, …Password, …Token) are masked and URLs
+// cut to their origin, since RPC and relay URLs often embed API keys
+export function redactConfig<T>(config: T, rules: ConfigRules): T {
+  const copy = clone(config);
+  for (const pattern of rules.urls || []) {
+    for (const [setting, value] of collect(copy, pattern)) {
+      if (typeof value === 'string' && value !== '') {
+        setPath(copy, setting.split('.'), redactUrl(value));
+      }
+    }
+  }
+  const mask = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(mask);
+    if (!isPlainObject(value)) return value;
+    return Object.fromEntries(Object.entries(value).map(([key, item]) =>
+      [key, SECRET_KEY.test(key) && typeof item === 'string' && item !== '' ? '[redacted]' : mask(item)]));
+  };
+  return mask(copy) as T;
+}
+
+function checkShape(value: unknown, reference: unknown, setting: string, rules: ConfigRules, issues: string[]): void {
+  const schema = Object.entries(rules.schemas || {}).find(([pattern]) => matches(pattern, setting))?.[1];
+  if (schema) {
+    issues.push(...validateSchema(schema, value, setting).map(error => `${error.field}: ${error.message}`));
+    return;
+  }
+
+  if (Array.isArray(reference)) {
+    if (!Array.isArray(value)) {
+      issues.push(`${setting}: expected a list`);
+    } else if (reference.length > 0) {
+      value.forEach((item, i) => checkShape(item, reference[0], join(setting, String(i)), rules, issues));
+    }
+    return;
+  }
+
+  if (isPlainObject(reference)) {
+    if (!isPlainObject(value)) {
+      issues.push(`${setting || 'config'}: expected a section`);
+      return;
+    }
+    const open = (rules.openMaps || []).some(pattern => matches(pattern, setting));
+    const sample = Object.values(reference)[0];
+    for (const [key, item] of Object.entries(value)) {
+      if (key in reference) {
+        checkShape(item, reference[key], join(setting, key), rules, issues);
+      } else if (open) {
+        if (sample !== undefined) checkShape(item, sample, join(setting, key), rules, issues);
+      } else {
+        issues.push(`${join(setting, key)}: unknown setting`);
+      }
+    }
+    return;
+  }
+
+  if (typeof reference === 'number' && (typeof value !== 'number' || !Number.isFinite(value))) {
+    issues.push(`${setting}: expected a number, got ${describeValue(value)}`);
+  } else if (typeof reference === 'string' && typeof value !== 'string') {
+    issues.push(`${setting}: expected a string, got ${describeValue(value)}`);
+  } else if (typeof reference === 'boolean' && typeof value !== 'boolean') {
+    issues.push(`${setting}: expected true or false, got ${describeValue(value)}`);
+  }
+}
+
+interface ParsedArgs {
+  config?: string;
+  profile?: string;
+  overrides: Array<{ path: string; value: string }>;
+  issues: string[];
+}
+
+// Only --config, --profile and --set are ours; anything else belongs to the script
+function parseArgs(argv: string[]): ParsedArgs {
+  const parsed: ParsedArgs = { overrides: [], issues: [] };
+  for (let i = 0; i < argv.length; i++) {
+    const match = argv[i].match(/^--(config|profile|set)(?:=(.*))?$/);
+    if (!match) continue;
+    const value = match[2] ?? argv[++i];
+    if (value === undefined) {
+      parsed.issues.push(`--${match[1]} needs a value`);
+    } else if (match[1] === 'set') {
+      const separator = value.indexOf('=');
+      if (separator <= 0) {
+        parsed.issues.push(`--set ${value}: expected path=value`);
+      } else {
+        parsed.overrides.push({ path: value.slice(0, separator), value: value.slice(separator + 1) });
+      }
+    } else {
+      parsed[match[1] as 'config' | 'profile'] = value;
+    }
+  }
+  return parsed;
+}
+
+function readConfigFile(file: string): Record<string, unknown> {
+  const text = fs.readFileSync(file, 'utf8');
+  const values = file.endsWith('.json') ? JSON.parse(text) : parseYaml(text);
+  if (values === null) return {};
+  if (!isPlainObject(values)) {
+    throw new Error('expected a mapping of settings at the top level');
+  }
+  return values;
+}
+
+function loadDotenv(): NodeJS.ProcessEnv {
+  dotenv.config();
+  return process.env;
+}
+
+// CLI values take the type of the setting they replace
+function coerce(current: unknown, raw: string): unknown {
+  if (typeof current === 'number') return raw.trim() === '' ? NaN : Number(raw);
+  if (typeof current === 'boolean') return raw === 'true' ? true : raw === 'false' ? false : raw;
+  if (typeof current === 'string') return raw;
+  try {
+    return JSON.parse(raw);
+  } catch {
+    return Array.isArray(current) ? raw.split(',').map(item => item.trim()).filter(Boolean) : raw;
+  }
+}
+
+// Objects merge key by key; lists and scalars replace; undefined leaves the base alone
+function merge(base: Record<string, unknown>, override: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    if (value === undefined) continue;
+    result[key] = isPlainObject(value) && isPlainObject(result[key])
+      ? merge(result[key] as Record<string, unknown>, value)
+      : clone(value);
+  }
+  return result;
+}
+
+function collect(value: unknown, pattern: string): Array<[string, unknown]> {
+  const results: Array<[string, unknown]> = [];
+  const visit = (node: unknown, segments: string[], setting: string) => {
+    if (segments.length === 0) {
+      if (node !== undefined) results.push([setting, node]);
+      return;
+    }
+    if (!isPlainObject(node) && !Array.isArray(node)) return;
+    const [head, ...rest] = segments;
+    const keys = head === '*' ? Object.keys(node) : [head];
+    for (const key of keys) {
+      visit((node as Record<string, unknown>)[key], rest, join(setting, key));
+    }
+  };
+  visit(value, pattern.split('.'), '');
+  return results;
+}
+
+function walkStrings(value: unknown, setting: string, visit: (setting: string, value: string) => void): void {
+  if (typeof value === 'string') {
+    visit(setting, value);
+  } else if (Array.isArray(value) || isPlainObject(value)) {
+    for (const [key, item] of Object.entries(value)) {
+      walkStrings(item, join(setting, key), visit);
+    }
+  }
+}
+
+function getPath(value: unknown, segments: string[]): unknown {
+  return segments.reduce<unknown>((node, key) =>
+    isPlainObject(node) || Array.isArray(node) ? (node as Record<string, unknown>)[key] : undefined, value);
+}
+
+function setPath(value: unknown, segments: string[], item: unknown): void {
+  const parent = getPath(value, segments.slice(0, -1)) as Record<string, unknown>;
+  parent[segments[segments.length - 1]] = item;
+}
+
+function matches(pattern: string, setting: string): boolean {
+  const patternSegments = pattern.split('.');
+  const settingSegments = setting.split('.');
+  return patternSegments.length === settingSegments.length
+    && patternSegments.every((segment, i) => segment === '*' || segment === settingSegments[i]);
+}
+
+function isUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return ['http:', 'https:', 'ws:', 'wss:'].includes(new URL(value).protocol);
+  } catch {
+    return false;
+  }
+}
+
+function redactUrl(value: string): string {
+  try {
+    const url = new URL(value);
+    return url.pathname.length > 1 || url.search ? `${url.origin}/…` : url.origin;
+  } catch {
+    return '[invalid url]';
+  }
+}
+
+function describeValue(value: unknown): string {
+  return typeof value === 'number' ? String(value) : JSON.stringify(value);
+}
+
+function join(setting: string, key: string): string {
+  return setting ? `${setting}.${key}` : key;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function clone<T>(value: T): T {
+  return value === undefined ? value : JSON.parse(JSON.stringify(value));
+}
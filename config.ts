@@ -1,24 +1,725 @@
-// Define configuration settings for the Massive Trading Engine.
-export const config = {
+import { ConfigRules, DeepPartial, EnvReader, loadConfig, redactConfig } from './config-loader';
+
+export type StrategyName = 'sandwich' | 'arbitrage' | 'liquidation';
+
+export interface RelaySettings {
+    name: string;
+    url: string;
+    auth: 'flashbots' | 'bearer' | 'none';
+    apiKey?: string; // Bearer token for 'bearer' relays
+    match?: string[]; // Substrings of the builder's extraData or fee recipient
+    enabled?: boolean; // false keeps the relay configured but out of the fan-out
+    timeoutMs?: number; // eth_sendBundle timeout, 3000 unless set
+}
+
+export type SubmissionMode = 'relay' | 'sequencer' | 'mempool';
+export type TokenFlag = 'fee-on-transfer' | 'rebasing' | 'blacklistable' | 'honeypot';
+export type ChainSimulationMode = 'relay' | 'local' | 'rpc';
+export type FlashSource = 'aave' | 'balancer' | 'uniswap-v3';
+
+// A swap router whose calldata the decoder understands; the first router of a
+// venue and kind is also the one our own swaps are sent through
+export interface RouterSettings {
+    name: string;
+    address: string;
+    venue: 'uniswap' | 'sushiswap';
+    kind: 'v2' | 'v3' | 'router02' | 'universal';
+}
+
+export interface ChainSettings {
+    enabled: boolean;
+    chainId: number;
+    // Every configured RPC, used by the chain's provider pool for health-based routing
+    // and failover; the first one is also the local simulation fork
+    rpcUrls: string[];
+    // WebSocket endpoint for eth_subscribe("newPendingTransactions"); the pending block is polled without it
+    wsUrl: string;
+    // Interval between RPC health checks (block lag, latency)
+    healthCheckIntervalMs: number;
+    nativeSymbol: string;
+    // Wrapped native token; profits are measured in it and the native token
+    wrappedNative: string;
+    // USD stablecoin whose deepest pool against wrappedNative prices tokens in USD
+    usdStable: string;
+    // 'relay' sends bundles to the flashbots.relays builders (Ethereum only), 'sequencer'
+    // sends each transaction to sequencerUrl, 'mempool' broadcasts them through rpcUrls
+    submission: SubmissionMode;
+    sequencerUrl: string;
+    // 'relay' is Flashbots eth_callBundle, 'local' replays on the fork behind rpcUrls[0]
+    // without submitting, 'rpc' is eth_simulateV1 on the chain's own RPCs
+    simulation: ChainSimulationMode;
+    routers: RouterSettings[];
+    // Pair/pool factory per DEX (uniswap-v2, sushiswap, uniswap-v3); empty where it is not deployed
+    factories: Record<string, string>;
+    // Chainlink aggregators on this chain for chains whose native token is not ETH. Amounts
+    // there are converted to ETH before they meet the ETH-denominated strategy and risk limits.
+    priceFeeds: {
+        nativeUsd: string;
+        ethUsd: string;
+    };
+    // FlashExecutor.sol deployment (<CHAIN>_FLASH_EXECUTOR); strategies with flashLoan set
+    // borrow, trade and repay through it in one transaction
+    flashExecutor: string;
+    // Flash-loan lenders: Aave V3 Pool and Balancer Vault, empty where not deployed.
+    // Uniswap V3 loans come from a pool of the borrowed token found through factories.
+    flashLenders: {
+        aave: string;
+        balancer: string;
+    };
+}
+
+const MAINNET_ROUTERS: RouterSettings[] = [
+    { name: 'Uniswap V2 Router', address: '0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D', venue: 'uniswap', kind: 'v2' },
+    { name: 'SushiSwap Router', address: '0xd9e1cE17f2641f24aE83637ab66a2cca9C378B9F', venue: 'sushiswap', kind: 'v2' },
+    { name: 'Uniswap V3 Router', address: '0xE592427A0AEce92De3Edee1F18E0157C05861564', venue: 'uniswap', kind: 'v3' },
+    { name: 'Uniswap SwapRouter02', address: '0x68b3465833fb72A70ecDF485E0e4C7bD8665Fc45', venue: 'uniswap', kind: 'router02' },
+    { name: 'Uniswap Universal Router', address: '0xEf1c6E67703c7BD7107eed8303Fbe6EC2554BF6B', venue: 'uniswap', kind: 'universal' },
+    { name: 'Uniswap Universal Router', address: '0x3fC91A3afd70395Cd496C647d5a6CC9D4B2b7FAD', venue: 'uniswap', kind: 'universal' }
+];
+
+// Uniswap V3's canonical router and factory, deployed at the same address on most chains
+const UNISWAP_V3_ROUTER: RouterSettings = MAINNET_ROUTERS[2];
+const UNISWAP_ROUTER02: RouterSettings = MAINNET_ROUTERS[3];
+const UNISWAP_V3_FACTORY = '0x1F98431c8aD98523631AE4a59f267346ea31F984';
+const SUSHISWAP_L2_ROUTER: RouterSettings = {
+    name: 'SushiSwap Router', address: '0x1b02dA8Cb0d097eB8D57A175b88c7D8b47997506', venue: 'sushiswap', kind: 'v2'
+};
+const SUSHISWAP_L2_FACTORY = '0xc35DADB65012eC5796536bD9864eD8773aBc74C4';
+const NO_PRICE_FEEDS = { nativeUsd: '', ethUsd: '' };
+// Balancer's Vault has the same address everywhere; Aave V3's Pool differs per chain
+const BALANCER_VAULT = '0xBA12222222228d8Ba445958a75a0704d566BF2C8';
+const AAVE_V3_L2_POOL = '0x794a61358D6845594F94dc1DB02A252b5b4814aD';
+
+// Define configuration settings for the Massive Trading Engine. These are the defaults;
+// config-loader.ts layers config files (config/default.yaml, config/<profile>.yaml,
+// CONFIG_FILE), the environment variables read in fromEnv below and --set flags on top,
+// and refuses to start when the result breaks the rules at the end of this file.
+const defaults = {
     // ---------------- API Server Configuration ----------------
     server: {
-        port: 8080,
-        wsPort: 8081,
-        // Environment variable for production/development mode
-        environment: process.env.NODE_ENV || 'development'
+        port: 8080, // PORT
+        wsPort: 8081, // WS_PORT
+        // Profile name as well: production loads config/production.yaml
+        environment: 'development',
+        // Route modules mounted by the API server: engine (/api), mev (/mev), base44 (/trade, /market, /portfolio, /orders)
+        modules: {
+            engine: true,
+            mev: true,
+            base44: true
+        } as Record<string, boolean>
+    },
+
+    // ---------------- Chain Profiles ----------------
+    // One scanner and executor runs per enabled chain (CHAINS=ethereum,arbitrum). Only
+    // Ethereum is enabled by default; the L2 and Polygon RPCs are public endpoints meant
+    // to be replaced. Every profile has the same keys; unused ones are left empty.
+    chains: {
+        ethereum: {
+            enabled: true,
+            chainId: 1,
+            rpcUrls: ['http://localhost:8545'], // ETHEREUM_RPC_1..3
+            wsUrl: '', // ETHEREUM_WS_1
+            healthCheckIntervalMs: 10000,
+            nativeSymbol: 'ETH',
+            wrappedNative: '0xC02aaA39b223FE8D0A0e5C4F27eAD9083C756Cc2',
+            usdStable: '0xA0b86991c6218b36c1d19D4a2e9Eb0cE3606eB48', // USDC
+            submission: 'relay',
+            sequencerUrl: '',
+            simulation: 'relay', // SIMULATION_MODE
+            routers: MAINNET_ROUTERS,
+            factories: {
+                'uniswap-v2': '0x5C69bEe701ef814a2B6a3EDD4B1652CB9cc5aA6f',
+                'sushiswap': '0xC0AEe478e3658e2610c5F7A4A2E1777cE9e4f2Ac',
+                'uniswap-v3': UNISWAP_V3_FACTORY
+            },
+            priceFeeds: NO_PRICE_FEEDS,
+            flashExecutor: '', // ETHEREUM_FLASH_EXECUTOR
+            flashLenders: { aave: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2', balancer: BALANCER_VAULT }
+        },
+        arbitrum: {
+            enabled: false,
+            chainId: 42161,
+            rpcUrls: ['https://arb1.arbitrum.io/rpc'], // ARBITRUM_RPC_URLS
+            wsUrl: '', // ARBITRUM_WS_URL; the sequencer keeps no public mempool
+            healthCheckIntervalMs: 10000,
+            nativeSymbol: 'ETH',
+            wrappedNative: '0x82aF49447D8a07e3bd95BD0d56f35241523fBab1',
+            usdStable: '0xaf88d065e77c8cC2239327C5EDb3A432268e5831', // USDC
+            submission: 'sequencer',
+            sequencerUrl: 'https://arb1-sequencer.arbitrum.io/rpc',
+            simulation: 'rpc',
+            routers: [
+                { name: 'Uniswap V2 Router', address: '0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24', venue: 'uniswap', kind: 'v2' },
+                SUSHISWAP_L2_ROUTER,
+                UNISWAP_V3_ROUTER,
+                UNISWAP_ROUTER02
+            ],
+            factories: {
+                'uniswap-v2': '0xf1D7CC64Fb4452F05c498126312eBE29f30Fbcf9',
+                'sushiswap': SUSHISWAP_L2_FACTORY,
+                'uniswap-v3': UNISWAP_V3_FACTORY
+            },
+            priceFeeds: NO_PRICE_FEEDS,
+            flashExecutor: '',
+            flashLenders: { aave: AAVE_V3_L2_POOL, balancer: BALANCER_VAULT }
+        },
+        base: {
+            enabled: false,
+            chainId: 8453,
+            rpcUrls: ['https://mainnet.base.org'],
+            wsUrl: '',
+            healthCheckIntervalMs: 10000,
+            nativeSymbol: 'ETH',
+            wrappedNative: '0x4200000000000000000000000000000000000006',
+            usdStable: '0x833589fCD6eDb6E08f4c7C32D4f71b54bdA02913', // USDC
+            submission: 'sequencer',
+            sequencerUrl: 'https://mainnet-sequencer.base.org',
+            simulation: 'rpc',
+            // No V3 SwapRouter on Base; V3 swaps go through SwapRouter02
+            routers: [
+                { name: 'Uniswap V2 Router', address: '0x4752ba5DBc23f44D87826276BF6Fd6b1C372aD24', venue: 'uniswap', kind: 'v2' },
+                { name: 'Uniswap SwapRouter02', address: '0x2626664c2603336E57B271c5C0b26F421741e481', venue: 'uniswap', kind: 'router02' }
+            ],
+            factories: {
+                'uniswap-v2': '0x8909Dc15e40173Ff4699343b6eB8132c65e18eC6',
+                'sushiswap': '',
+                'uniswap-v3': '0x33128a8fC17869897dcE68Ed026d694621f6FDfD'
+            },
+            priceFeeds: NO_PRICE_FEEDS,
+            flashExecutor: '',
+            flashLenders: { aave: '0xA238Dd80C259a72e81d7e4664a9801593F98d1c5', balancer: BALANCER_VAULT }
+        },
+        optimism: {
+            enabled: false,
+            chainId: 10,
+            rpcUrls: ['https://mainnet.optimism.io'],
+            wsUrl: '',
+            healthCheckIntervalMs: 10000,
+            nativeSymbol: 'ETH',
+            wrappedNative: '0x4200000000000000000000000000000000000006',
+            usdStable: '0x0b2C639c533813f4Aa9D7837CAf62653d097Ff85', // USDC
+            submission: 'sequencer',
+            sequencerUrl: 'https://mainnet-sequencer.optimism.io',
+            simulation: 'rpc',
+            routers: [
+                { name: 'Uniswap V2 Router', address: '0x4A7b5Da61326A6379179b40d00F57E5bbDC962c2', venue: 'uniswap', kind: 'v2' },
+                UNISWAP_V3_ROUTER,
+                UNISWAP_ROUTER02
+            ],
+            factories: {
+                'uniswap-v2': '0x0c3c1c532F1e39EdF36BE9Fe0bE1410313E074Bf',
+                'sushiswap': '',
+                'uniswap-v3': UNISWAP_V3_FACTORY
+            },
+            priceFeeds: NO_PRICE_FEEDS,
+            flashExecutor: '',
+            flashLenders: { aave: AAVE_V3_L2_POOL, balancer: BALANCER_VAULT }
+        },
+        polygon: {
+            enabled: false,
+            chainId: 137,
+            rpcUrls: ['https://polygon-rpc.com'],
+            wsUrl: '',
+            healthCheckIntervalMs: 10000,
+            nativeSymbol: 'POL',
+            wrappedNative: '0x0d500B1d8E8eF31E21C99d1Db9A6444d3ADf1270',
+            usdStable: '0x3c499c542cEF5E3811e1192ce70d8cC03d5c3359', // USDC
+            submission: 'mempool',
+            sequencerUrl: '',
+            simulation: 'rpc',
+            routers: [
+                { name: 'Uniswap V2 Router', address: '0xedf6066a2b290C185783862C7F4776A2C8077AD1', venue: 'uniswap', kind: 'v2' },
+                SUSHISWAP_L2_ROUTER,
+                UNISWAP_V3_ROUTER,
+                UNISWAP_ROUTER02
+            ],
+            factories: {
+                'uniswap-v2': '0x9e5A52f57b3038F1B8EeE45F28b3C1967e22799C',
+                'sushiswap': SUSHISWAP_L2_FACTORY,
+                'uniswap-v3': UNISWAP_V3_FACTORY
+            },
+            priceFeeds: {
+                nativeUsd: '0xAB594600376Ec9fD91F8e885dADF0CE036862dE0', // MATIC / USD
+                ethUsd: '0xF9680D99D6C9589e2a93a78A04A279e509205945'
+            },
+            flashExecutor: '',
+            flashLenders: { aave: AAVE_V3_L2_POOL, balancer: BALANCER_VAULT }
+        }
+    } as Record<string, ChainSettings>,
+
+    // ---------------- Signer Configuration ----------------
+    signer: {
+        // 'keystore' (encrypted JSON keystore unlocked at startup), 'remote' (HTTP signer, see
+        // remote-signer.ts) or 'private-key' (WALLET_PRIVATE_KEY; development only)
+        backend: 'private-key' as 'keystore' | 'remote' | 'private-key',
+        privateKey: '',
+        keystorePath: '',
+        keystorePassword: '',
+        remoteUrl: 'http://localhost:18600',
+        // Bearer token for the remote signer; `npm run remote-signer` will not start without one
+        remoteToken: '',
+        // Relay reputation key, kept apart from the funded key. An ephemeral one is
+        // generated when neither is set, so reputation does not survive restarts.
+        authKeystorePath: '',
+        authKeystorePassword: '',
+        authPrivateKey: ''
+    },
+
+    // ---------------- Treasury Configuration ----------------
+    treasury: {
+        // Where POST /api/chains/:chain/withdraw sends the flash executor's balance
+        // (PROFIT_WALLET_ADDRESS); the route refuses withdrawals while it is empty
+        profitWalletAddress: ''
     },
 
-    // ---------------- Ethereum Network Configuration ----------------
-    ethereum: {
-        // Main RPC URL for block monitoring and general reads
-        rpcUrl: process.env.ETHEREUM_RPC_1 || 'http://localhost:8545',
+    // ---------------- Gas Configuration ----------------
+    // Fees are bid by gas-bidder.ts: the predicted base fee plus a share of the profit
+    // left after it, paid as priority fee or as a transfer to block.coinbase
+    gas: {
+        // 'priority-fee' raises maxPriorityFeePerGas; 'coinbase' appends a payCoinbase() call
+        // to coinbasePayer carrying the tip (GAS_BID_MODE)
+        bidMode: 'priority-fee' as 'priority-fee' | 'coinbase',
+        // Contract whose payCoinbase() forwards msg.value to block.coinbase (COINBASE_PAYER_ADDRESS)
+        coinbasePayer: '',
+        // Starting share of the post-base-fee profit offered to builders (GAS_PROFIT_SHARE);
+        // learned per builder within [minProfitShare, maxProfitShare] from inclusion history
+        profitShare: 0.5,
+        minProfitShare: 0.1,
+        maxProfitShare: 0.9,
+        // How far one inclusion (down) or lost block (up) moves a builder's share
+        learningStep: 0.02,
+        // Tip floor; opportunities that cannot pay it are skipped (GAS_MIN_PRIORITY_FEE_GWEI)
+        minPriorityFeeGwei: 0.1,
+        // Extra maxFeePerGas headroom on top of the base fee rise the block window allows (GAS_PRICE_MULTIPLIER)
+        priceMultiplier: 1,
+        // Per-builder inclusion history
+        bidStatePath: './data/gas-bids.json'
     },
 
     // ---------------- MEV/Flashbots Configuration ----------------
     flashbots: {
         // Official Flashbots relay endpoint
-        relayUrl: process.env.FLASHBOTS_RELAY || 'https://relay.flashbots.net',
-        // Minimum profit (in ETH) required for the engine to submit a bundle
-        minProfitThreshold: 0.001 
+        relayUrl: 'https://relay.flashbots.net',
+        // Consecutive blocks a bundle is retargeted to before it counts as not included
+        blockWindow: 3,
+        // Builders and relays every bundle is fanned out to. auth: 'flashbots' signs the
+        // body with the X-Flashbots-Signature header, 'bearer' sends apiKey, 'none' sends nothing.
+        // `match` strings identify the builder in a block's extraData or fee recipient.
+        // BUNDLE_RELAYS replaces the list with a JSON array of the same shape (e.g. a local mock relay).
+        relays: [
+            { name: 'flashbots', url: 'https://relay.flashbots.net', auth: 'flashbots', match: ['flashbots'] },
+            { name: 'beaverbuild', url: 'https://rpc.beaverbuild.org', auth: 'none', match: ['beaverbuild'] },
+            { name: 'titan', url: 'https://rpc.titanbuilder.xyz', auth: 'flashbots', match: ['titan'] },
+            { name: 'rsync', url: 'https://rsync-builder.xyz', auth: 'flashbots', match: ['rsync'] }
+        ] as RelaySettings[],
+        // A relay is dropped once it has accepted this many bundles without ever including one
+        // while other relays have
+        dropRelayAfter: 50
+    },
+
+    // ---------------- Mempool Streaming Configuration ----------------
+    mempool: {
+        // Pending transactions fetched and analyzed concurrently
+        concurrency: 8,
+        // Hashes buffered while all slots are busy; further hashes are dropped
+        maxQueueSize: 2000
+    },
+
+    // ---------------- Strategy Configuration ----------------
+    // One section per strategy. minProfitEth is the estimated profit (net of gas) an
+    // opportunity needs before it is reported; risk.maxNotionalEth caps its size.
+    strategies: {
+        sandwich: {
+            enabled: true,
+            minProfitEth: 0.001
+        },
+        arbitrage: {
+            enabled: true,
+            minProfitEth: 0.001,
+            // Pending swaps moving less WETH than this are not worth backrunning
+            minVictimSizeEth: 5,
+            // Upper bound for the WETH put into a single arbitrage cycle
+            maxInputEth: 50,
+            // Submit profitable arbitrage bundles from the scanner without operator action
+            autoExecute: false,
+            // Borrow the WETH for each cycle through the chain's flash executor instead of the wallet
+            flashLoan: false
+        },
+        liquidation: {
+            // Track Aave/Compound borrowers and emit liquidation opportunities
+            enabled: false,
+            // Chain the markets below are deployed on; liquidations are only scanned there
+            chain: 'ethereum',
+            minProfitEth: 0.001,
+            aavePool: '0x87870Bca3F3fD6335C3F4ce8392D69350B4fA4E2',
+            aaveDataProvider: '0x7B4EB56E7CD4b454BA8ff71E4518426369a138a3',
+            aaveOracle: '0x54586bE62E3c3580375aE3723C145253060Ca0C2',
+            // Compound V3 markets (cUSDCv3, cWETHv3)
+            comets: ['0xc3d688B66703497DAA19211EEdff47f25384cdc3', '0xA17581A9E3356d9A858b789D68B4d866e593aE94'],
+            // Borrow the debt asset through the chain's flash executor instead of repaying from the wallet
+            flashLoan: false,
+            // Blocks of history replayed at startup to discover existing borrowers
+            backfillBlocks: 50000
+        }
+    },
+
+    // ---------------- Flash Loans ----------------
+    // Lender flash-funded bundles borrow from (FLASH_LOAN_SOURCE): 'balancer' (governance-set
+    // fee, currently none), 'aave' (FLASHLOAN_PREMIUM_TOTAL) or 'uniswap-v3' (the fee tier of
+    // a pool of the borrowed token that the route itself does not trade through)
+    flashLoans: {
+        source: 'balancer' as FlashSource
+    },
+
+    // ---------------- Risk Configuration ----------------
+    risk: {
+        // Largest price deviation a trade may accept
+        maxSlippagePercent: 1,
+        // Bundles expected to earn less than this (in USD, net of gas) are not sent
+        minProfitUsd: 10,
+        // Largest ETH value a single bundle of each strategy may put at risk
+        maxNotionalEth: {
+            sandwich: 50,
+            arbitrage: 50,
+            liquidation: 100,
+            manual: 10
+        } as Record<string, number>,
+        // Largest USD value of a single Base44 trade
+        maxTradeNotionalUsd: 50000,
+        // Gas paid by included bundles over the trailing hour; exceeding it trips the kill switch
+        maxGasSpendPerHourEth: 0.5,
+        // Net realized loss per UTC day that trips the kill switch
+        dailyLossCapEth: 1,
+        // Chainlink ETH/USD aggregator that converts minProfitUsd and Base44 trade PnL, and the
+        // chain it is read on; independent of which chains and strategies are running
+        ethUsdFeed: '0x5f4eC3Df9cbd43714FE2740f5E3616155c5b8419',
+        ethUsdChain: 'ethereum',
+        // Token addresses (or Base44 symbols); an empty allow list allows everything
+        allowedTokens: [] as string[],
+        deniedTokens: [] as string[],
+        // Kill switch state survives restarts until an operator resets it; the gas and
+        // PnL windows are kept in risk-windows.json in the same directory
+        killSwitchPath: './data/kill-switch.json'
+    },
+
+    // ---------------- Base44 Configuration ----------------
+    base44: {
+        // 'live' sends orders to Base44 and surfaces its errors; 'paper' quotes real Base44
+        // prices but fills against the simulated portfolio below; 'offline' does the same
+        // with the static prices in offlinePrices and never touches the network
+        mode: 'paper' as 'live' | 'paper' | 'offline',
+        apiUrl: 'https://api.base44.com/v1',
+        apiKey: '',
+        paper: {
+            // Portfolio, resting orders and realized PnL survive restarts
+            statePath: './data/paper-portfolio.json',
+            startingCashUsd: 100000,
+            // Fills are this much worse than the quote
+            slippageBps: 10,
+            // Charged on every fill's notional
+            feeBps: 10
+        },
+        // USD reference prices for offline mode; BASE44_OFFLINE_PRICES replaces them with a JSON object
+        offlinePrices: {
+            ETH: 3000,
+            WETH: 3000,
+            BTC: 60000,
+            WBTC: 60000,
+            USDC: 1,
+            USDT: 1,
+            DAI: 1
+        } as Record<string, number>
+    },
+
+    // ---------------- Token Registry ----------------
+    // Metadata, prices and safety flags of every token the analyzer meets, per chain
+    tokens: {
+        // Metadata and screening results; other chains use tokens.<chain>.json next to it (TOKEN_CACHE_PATH)
+        cachePath: './data/tokens.json',
+        // anvil/hardhat fork per chain that tokens are screened on with a buy, transfer and
+        // sell (<CHAIN>_FORK_URL). Screening snapshots and reverts the fork, so it should not
+        // be the fork local bundle simulation runs on. Chains without one are not screened.
+        forkUrls: {} as Record<string, string>,
+        // Native coin (in ETH) spent on the screening buy
+        screenAmountEth: 0.05,
+        // A sell losing at least this much to token-side fees counts as a honeypot
+        honeypotTaxBps: 5000,
+        // Flags that make the analyzer skip a swap. USDC and USDT are blacklistable, so
+        // that flag is reported but not acted on unless added here.
+        blockFlags: ['fee-on-transfer', 'rebasing', 'honeypot'] as TokenFlag[],
+        // Skip swaps through tokens still waiting for their first screening (TOKEN_SKIP_UNSCREENED)
+        skipUnscreened: true,
+        // Screenings older than this are redone the next time the token is seen
+        rescreenAfterHours: 24,
+        // Prices are re-quoted from pool state after this
+        priceTtlMs: 30000
+    },
+
+    // ---------------- Ledger Configuration ----------------
+    ledger: {
+        // Append-only JSON-lines file holding opportunities, simulations, bundles and outcomes
+        path: './data/ledger.jsonl',
+        // Newest entries kept in memory (LEDGER_MEMORY_ENTRIES); older queries read the file
+        memoryEntries: 10000
+    },
+
+    // ---------------- WebSocket Event Feed ----------------
+    feed: {
+        // Recent events kept per topic and replayable on subscribe
+        replaySize: 100,
+        // Ping interval; clients that miss one are disconnected
+        heartbeatMs: 15000,
+        // Events are skipped for a client whose unsent data exceeds this
+        maxBufferedBytes: 1000000
+    },
+
+    // ---------------- API Authentication ----------------
+    auth: {
+        // Only for local development; every route is open when disabled (AUTH_DISABLED)
+        enabled: true,
+        // Hashed API keys, managed with `npm run auth -- create <name> <roles>`
+        keysPath: './data/api-keys.json',
+        // HS256 secret for tokens issued by POST /auth/token; JWTs are rejected when empty
+        jwtSecret: '',
+        jwtTtlSeconds: 3600,
+        // Every privileged call (operator/treasury routes), allowed or refused
+        auditLogPath: './data/audit.jsonl',
+        // Per-client limit on mutating routes
+        rateLimit: {
+            windowMs: 60000,
+            max: 30
+        }
     }
 };
+
+export type EngineConfig = typeof defaults;
+
+// ---------------- Environment Variables ----------------
+// Unset (or empty) variables leave the file/default value alone
+function fromEnv(env: EnvReader, base: EngineConfig): DeepPartial<EngineConfig> {
+    const rpcUrls = ['ETHEREUM_RPC_1', 'ETHEREUM_RPC_2', 'ETHEREUM_RPC_3']
+        .map(name => env.string(name))
+        .filter((url): url is string => !!url);
+    const enabledChains = env.list('CHAINS');
+    const chainPrefix = (name: string) => name.toUpperCase().replace(/[^A-Z0-9]/g, '_');
+    // <CHAIN>_RPC_URLS and <CHAIN>_WS_URL for every profile; Ethereum keeps its older names too
+    const chains = Object.fromEntries(Object.keys(base.chains).map(name => {
+        const prefix = chainPrefix(name);
+        return [name, {
+            enabled: enabledChains ? enabledChains.includes(name) : undefined,
+            rpcUrls: env.list(`${prefix}_RPC_URLS`) ?? (name === 'ethereum' && rpcUrls.length > 0 ? rpcUrls : undefined),
+            wsUrl: env.string(`${prefix}_WS_URL`) ?? (name === 'ethereum' ? env.string('ETHEREUM_WS_1') : undefined),
+            simulation: name === 'ethereum' ? env.string('SIMULATION_MODE') as ChainSimulationMode | undefined : undefined,
+            flashExecutor: env.string(`${prefix}_FLASH_EXECUTOR`)
+        }];
+    }));
+    const forkUrls = Object.fromEntries(Object.keys(base.chains)
+        .map(name => [name, env.string(`${chainPrefix(name)}_FORK_URL`)])
+        .filter(([, url]) => url));
+    const flashbotsRelay = env.string('FLASHBOTS_RELAY');
+    const authDisabled = env.flag('AUTH_DISABLED');
+
+    return {
+        server: {
+            port: env.number('PORT'),
+            wsPort: env.number('WS_PORT'),
+            environment: env.string('NODE_ENV'),
+            modules: {
+                engine: env.flag('API_ENGINE_ENABLED'),
+                mev: env.flag('API_MEV_ENABLED'),
+                base44: env.flag('API_BASE44_ENABLED')
+            } as Record<string, boolean>
+        },
+        chains: chains as DeepPartial<Record<string, ChainSettings>>,
+        signer: {
+            backend: env.string('SIGNER_BACKEND') as EngineConfig['signer']['backend'] | undefined,
+            privateKey: env.string('WALLET_PRIVATE_KEY'),
+            keystorePath: env.string('KEYSTORE_PATH'),
+            keystorePassword: env.string('KEYSTORE_PASSWORD'),
+            remoteUrl: env.string('REMOTE_SIGNER_URL'),
+            remoteToken: env.string('REMOTE_SIGNER_TOKEN'),
+            authKeystorePath: env.string('FLASHBOTS_AUTH_KEYSTORE'),
+            authKeystorePassword: env.string('FLASHBOTS_AUTH_KEYSTORE_PASSWORD') ?? env.string('KEYSTORE_PASSWORD'),
+            authPrivateKey: env.string('FLASHBOTS_AUTH_KEY')
+        },
+        treasury: {
+            profitWalletAddress: env.string('PROFIT_WALLET_ADDRESS')
+        },
+        gas: {
+            bidMode: env.string('GAS_BID_MODE') as EngineConfig['gas']['bidMode'] | undefined,
+            coinbasePayer: env.string('COINBASE_PAYER_ADDRESS'),
+            profitShare: env.number('GAS_PROFIT_SHARE'),
+            minPriorityFeeGwei: env.number('GAS_MIN_PRIORITY_FEE_GWEI'),
+            priceMultiplier: env.number('GAS_PRICE_MULTIPLIER'),
+            bidStatePath: env.string('GAS_BID_STATE_PATH')
+        },
+        flashbots: {
+            relayUrl: flashbotsRelay,
+            // FLASHBOTS_RELAY also moves the default flashbots entry unless BUNDLE_RELAYS replaces the list
+            relays: env.json<RelaySettings[]>('BUNDLE_RELAYS') ?? (flashbotsRelay
+                ? base.flashbots.relays.map(relay => relay.name === 'flashbots' ? { ...relay, url: flashbotsRelay } : relay)
+                : undefined)
+        },
+        strategies: {
+            arbitrage: {
+                autoExecute: env.flag('ARBITRAGE_AUTO_EXECUTE'),
+                flashLoan: env.flag('ARBITRAGE_FLASH_LOAN')
+            },
+            liquidation: {
+                enabled: env.flag('LIQUIDATIONS_ENABLED'),
+                flashLoan: env.flag('LIQUIDATION_FLASH_LOAN')
+            }
+        },
+        flashLoans: {
+            source: env.string('FLASH_LOAN_SOURCE') as FlashSource | undefined
+        },
+        risk: {
+            maxSlippagePercent: env.number('MAX_SLIPPAGE_PERCENT'),
+            minProfitUsd: env.number('MIN_PROFIT_USD'),
+            ethUsdFeed: env.string('RISK_ETH_USD_FEED'),
+            ethUsdChain: env.string('RISK_ETH_USD_CHAIN'),
+            allowedTokens: env.list('RISK_TOKEN_ALLOWLIST'),
+            deniedTokens: env.list('RISK_TOKEN_DENYLIST'),
+            killSwitchPath: env.string('KILL_SWITCH_PATH')
+        },
+        base44: {
+            mode: env.string('BASE44_MODE') as EngineConfig['base44']['mode'] | undefined,
+            apiUrl: env.string('BASE44_API_URL'),
+            apiKey: env.string('BASE44_API_KEY'),
+            paper: {
+                statePath: env.string('PAPER_PORTFOLIO_PATH'),
+                startingCashUsd: env.number('PAPER_STARTING_CASH_USD'),
+                slippageBps: env.number('PAPER_SLIPPAGE_BPS'),
+                feeBps: env.number('PAPER_FEE_BPS')
+            },
+            offlinePrices: env.json<Record<string, number>>('BASE44_OFFLINE_PRICES')
+        },
+        tokens: {
+            cachePath: env.string('TOKEN_CACHE_PATH'),
+            forkUrls: Object.keys(forkUrls).length > 0 ? forkUrls as Record<string, string> : undefined,
+            skipUnscreened: env.flag('TOKEN_SKIP_UNSCREENED')
+        },
+        ledger: {
+            path: env.string('LEDGER_PATH'),
+            memoryEntries: env.number('LEDGER_MEMORY_ENTRIES')
+        },
+        auth: {
+            enabled: authDisabled === undefined ? undefined : !authDisabled,
+            keysPath: env.string('API_KEYS_PATH'),
+            jwtSecret: env.string('AUTH_JWT_SECRET'),
+            auditLogPath: env.string('AUDIT_LOG_PATH')
+        }
+    };
+}
+
+// ---------------- Validation Rules ----------------
+const port = { type: 'integer', minimum: 1, maximum: 65535 } as const;
+
+export const configRules: ConfigRules = {
+    schemas: {
+        'server.port': port,
+        'server.wsPort': port,
+        'signer.backend': { type: 'string', enum: ['keystore', 'remote', 'private-key'] },
+        'chains.*.chainId': { type: 'integer', minimum: 1 },
+        'chains.*.rpcUrls': { type: 'array', minItems: 1, items: { type: 'string' } },
+        'chains.*.submission': { type: 'string', enum: ['relay', 'sequencer', 'mempool'] },
+        'chains.*.simulation': { type: 'string', enum: ['relay', 'local', 'rpc'] },
+        'chains.*.routers': {
+            type: 'array',
+            items: {
+                type: 'object',
+                required: ['name', 'address', 'venue', 'kind'],
+                additionalProperties: false,
+                properties: {
+                    name: { type: 'string' },
+                    address: { type: 'string' },
+                    venue: { type: 'string', enum: ['uniswap', 'sushiswap'] },
+                    kind: { type: 'string', enum: ['v2', 'v3', 'router02', 'universal'] }
+                }
+            }
+        },
+        'base44.mode': { type: 'string', enum: ['live', 'paper', 'offline'] },
+        'flashLoans.source': { type: 'string', enum: ['aave', 'balancer', 'uniswap-v3'] },
+        'gas.bidMode': { type: 'string', enum: ['priority-fee', 'coinbase'] },
+        'gas.profitShare': { type: 'number', minimum: 0, maximum: 0.99 },
+        'gas.minProfitShare': { type: 'number', minimum: 0, maximum: 0.99 },
+        'gas.maxProfitShare': { type: 'number', minimum: 0, maximum: 0.99 },
+        'gas.learningStep': { type: 'number', minimum: 0, maximum: 0.5 },
+        'gas.minPriorityFeeGwei': { type: 'number', minimum: 0 },
+        'gas.priceMultiplier': { type: 'number', minimum: 1, maximum: 10 },
+        'ledger.memoryEntries': { type: 'integer', minimum: 1 },
+        'risk.maxSlippagePercent': { type: 'number', minimum: 0, maximum: 100 },
+        'tokens.screenAmountEth': { type: 'number', minimum: 0 },
+        'tokens.honeypotTaxBps': { type: 'integer', minimum: 1, maximum: 10000 },
+        'tokens.blockFlags': {
+            type: 'array',
+            items: { type: 'string', enum: ['fee-on-transfer', 'rebasing', 'blacklistable', 'honeypot'] }
+        },
+        'flashbots.blockWindow': { type: 'integer', minimum: 1, maximum: 25 },
+        'flashbots.relays': {
+            type: 'array',
+            minItems: 1,
+            items: {
+                type: 'object',
+                required: ['name', 'url', 'auth'],
+                additionalProperties: false,
+                properties: {
+                    name: { type: 'string', minLength: 1 },
+                    url: { type: 'string' },
+                    auth: { type: 'string', enum: ['flashbots', 'bearer', 'none'] },
+                    apiKey: { type: 'string' },
+                    match: { type: 'array', items: { type: 'string' } },
+                    enabled: { type: 'boolean' },
+                    timeoutMs: { type: 'integer', minimum: 1 }
+                }
+            }
+        }
+    },
+    addresses: [
+        'chains.*.wrappedNative',
+        'chains.*.usdStable',
+        'chains.*.routers.*.address',
+        'chains.*.factories.*',
+        'chains.*.priceFeeds.*',
+        'chains.*.flashExecutor',
+        'chains.*.flashLenders.*',
+        'treasury.profitWalletAddress',
+        'gas.coinbasePayer',
+        'risk.ethUsdFeed',
+        'strategies.liquidation.aavePool',
+        'strategies.liquidation.aaveDataProvider',
+        'strategies.liquidation.aaveOracle',
+        'strategies.liquidation.comets.*'
+    ],
+    urls: [
+        'chains.*.rpcUrls.*',
+        'chains.*.wsUrl',
+        'chains.*.sequencerUrl',
+        'tokens.forkUrls.*',
+        'signer.remoteUrl',
+        'flashbots.relayUrl',
+        'flashbots.relays.*.url',
+        'base44.apiUrl'
+    ],
+    privateKeys: ['signer.privateKey', 'signer.authPrivateKey'],
+    openMaps: ['server.modules', 'chains', 'chains.*.factories', 'risk.maxNotionalEth', 'tokens.forkUrls', 'base44.offlinePrices']
+};
+
+const loaded = loadConfig({
+    defaults,
+    fromEnv,
+    rules: configRules,
+    normalize: settings => {
+        settings.risk.allowedTokens = settings.risk.allowedTokens.map(token => token.toLowerCase());
+        settings.risk.deniedTokens = settings.risk.deniedTokens.map(token => token.toLowerCase());
+    }
+});
+
+export const config: EngineConfig = loaded.config;
+export const configProfile = loaded.profile;
+export const configSources = loaded.sources;
+
+// Effective configuration with secrets masked, for GET /api/config
+export function redactedConfig(): EngineConfig {
+    return redactConfig(config, configRules);
+}
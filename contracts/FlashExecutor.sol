@@ -0,0 +1,212 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.20;
+
+// Flash-loan funded executor for the MEV engine (client and deployment in flash-executor.ts).
+// The owner calls execute() with a loan and a route of calls: the contract borrows from
+// the chosen lender, runs the route with the borrowed funds, repays the loan plus its fee
+// and reverts unless its balance of profitToken grew by at least minProfit. The profit is
+// sent to the owner at the end, so the contract holds nothing between executions and a
+// route step may spend "everything the contract holds" of a token.
+
+interface IERC20 {
+    function balanceOf(address account) external view returns (uint256);
+    function transfer(address to, uint256 amount) external returns (bool);
+    function approve(address spender, uint256 amount) external returns (bool);
+}
+
+interface IAavePool {
+    function flashLoanSimple(address receiver, address asset, uint256 amount, bytes calldata params, uint16 referralCode) external;
+}
+
+interface IBalancerVault {
+    function flashLoan(address recipient, address[] calldata tokens, uint256[] calldata amounts, bytes calldata userData) external;
+}
+
+interface IUniswapV3Pool {
+    function token0() external view returns (address);
+    function flash(address recipient, uint256 amount0, uint256 amount1, bytes calldata data) external;
+}
+
+contract FlashExecutor {
+    enum Source { None, Aave, Balancer, UniswapV3 }
+
+    struct Loan {
+        Source source;
+        address lender; // Aave Pool, Balancer Vault or the Uniswap V3 pool lending the token
+        address token;
+        uint256 amount;
+    }
+
+    // One call of the route. When patchToken is set, the contract's balance of it is
+    // written into data at patchOffset first, so a step can spend exactly what the
+    // steps before it produced.
+    struct Step {
+        address target;
+        uint256 value;
+        bytes data;
+        address patchToken;
+        uint256 patchOffset;
+    }
+
+    address public immutable owner;
+
+    // Lender of the loan in flight; any other callback is refused
+    address private activeLender;
+
+    event Executed(address indexed profitToken, uint256 profit);
+
+    error NotOwner();
+    error UnexpectedCallback();
+    error BadPatch(uint256 index);
+    error StepFailed(uint256 index, bytes reason);
+    error InsufficientProfit(int256 profit, uint256 minProfit);
+    error TransferFailed();
+
+    modifier onlyOwner() {
+        if (msg.sender != owner) revert NotOwner();
+        _;
+    }
+
+    constructor() {
+        owner = msg.sender;
+    }
+
+    receive() external payable {}
+
+    // msg.value is available to the route (e.g. to wrap) but does not count as profit
+    function execute(Loan calldata loan, Step[] calldata steps, address profitToken, uint256 minProfit)
+        external
+        payable
+        onlyOwner
+        returns (uint256 profit)
+    {
+        uint256 before = _balance(profitToken);
+
+        if (loan.source == Source.None) {
+            _run(steps);
+        } else {
+            activeLender = loan.lender;
+            bytes memory route = abi.encode(steps);
+            if (loan.source == Source.Aave) {
+                IAavePool(loan.lender).flashLoanSimple(address(this), loan.token, loan.amount, route, 0);
+            } else if (loan.source == Source.Balancer) {
+                address[] memory tokens = new address[](1);
+                uint256[] memory amounts = new uint256[](1);
+                tokens[0] = loan.token;
+                amounts[0] = loan.amount;
+                IBalancerVault(loan.lender).flashLoan(address(this), tokens, amounts, route);
+            } else {
+                bool isToken0 = IUniswapV3Pool(loan.lender).token0() == loan.token;
+                IUniswapV3Pool(loan.lender).flash(
+                    address(this),
+                    isToken0 ? loan.amount : 0,
+                    isToken0 ? 0 : loan.amount,
+                    abi.encode(loan.token, loan.amount, isToken0, route)
+                );
+            }
+            // The callback clears it; a lender that never called back did not lend
+            if (activeLender != address(0)) revert UnexpectedCallback();
+        }
+
+        uint256 balance = _balance(profitToken);
+        if (balance < before + minProfit) {
+            revert InsufficientProfit(int256(balance) - int256(before), minProfit);
+        }
+        profit = balance - before;
+        if (profit > 0) _send(profitToken, msg.sender, profit);
+        emit Executed(profitToken, profit);
+    }
+
+    // Aave V3 flashLoanSimple: the pool pulls amount + premium after we return
+    function executeOperation(address asset, uint256 amount, uint256 premium, address initiator, bytes calldata params)
+        external
+        returns (bool)
+    {
+        _enter(initiator);
+        _run(abi.decode(params, (Step[])));
+        _approve(asset, msg.sender, amount + premium);
+        return true;
+    }
+
+    // Balancer V2 Vault: repaid by transferring amount + fee back before returning
+    function receiveFlashLoan(
+        address[] calldata tokens,
+        uint256[] calldata amounts,
+        uint256[] calldata feeAmounts,
+        bytes calldata userData
+    ) external {
+        _enter(address(this));
+        _run(abi.decode(userData, (Step[])));
+        _send(tokens[0], msg.sender, amounts[0] + feeAmounts[0]);
+    }
+
+    // Uniswap V3 pool flash: repaid like Balancer, the fee is the pool's fee tier
+    function uniswapV3FlashCallback(uint256 fee0, uint256 fee1, bytes calldata data) external {
+        _enter(address(this));
+        (address token, uint256 amount, bool isToken0, bytes memory route) = abi.decode(data, (address, uint256, bool, bytes));
+        _run(abi.decode(route, (Step[])));
+        _send(token, msg.sender, amount + (isToken0 ? fee0 : fee1));
+    }
+
+    // Recovers tokens (address(0) for the native coin) left behind by a route
+    function withdraw(address token, address to, uint256 amount) external onlyOwner {
+        _send(token, to, amount);
+    }
+
+    // Lets the contract double as gas.coinbasePayer
+    function payCoinbase() external payable {
+        (bool ok, ) = block.coinbase.call{value: msg.value}("");
+        if (!ok) revert TransferFailed();
+    }
+
+    function _enter(address initiator) private {
+        if (msg.sender != activeLender || initiator != address(this)) {
+            revert UnexpectedCallback();
+        }
+        activeLender = address(0);
+    }
+
+    function _run(Step[] memory steps) private {
+        for (uint256 i = 0; i < steps.length; i++) {
+            Step memory step = steps[i];
+            bytes memory data = step.data;
+            if (step.patchToken != address(0)) {
+                if (step.patchOffset + 32 > data.length) revert BadPatch(i);
+                uint256 amount = IERC20(step.patchToken).balanceOf(address(this));
+                uint256 offset = step.patchOffset;
+                assembly {
+                    mstore(add(add(data, 32), offset), amount)
+                }
+            }
+            (bool ok, bytes memory reason) = step.target.call{value: step.value}(data);
+            if (!ok) revert StepFailed(i, reason);
+        }
+    }
+
+    function _balance(address token) private view returns (uint256) {
+        return token == address(0) ? address(this).balance : IERC20(token).balanceOf(address(this));
+    }
+
+    // Tolerates tokens that return nothing from transfer/approve (USDT)
+    function _send(address token, address to, uint256 amount) private {
+        bool ok;
+        bytes memory result;
+        if (token == address(0)) {
+            (ok, result) = to.call{value: amount}("");
+        } else {
+            (ok, result) = token.call(abi.encodeCall(IERC20.transfer, (to, amount)));
+        }
+        if (!ok || (result.length > 0 && token != address(0) && !abi.decode(result, (bool)))) revert TransferFailed();
+    }
+
+    // USDT-style tokens refuse to change a non-zero allowance, so reset it first when needed
+    function _approve(address token, address spender, uint256 amount) private {
+        if (_tryApprove(token, spender, amount)) return;
+        if (!_tryApprove(token, spender, 0) || !_tryApprove(token, spender, amount)) revert TransferFailed();
+    }
+
+    function _tryApprove(address token, address spender, uint256 amount) private returns (bool) {
+        (bool ok, bytes memory result) = token.call(abi.encodeCall(IERC20.approve, (spender, amount)));
+        return ok && (result.length == 0 || abi.decode(result, (bool)));
+    }
+}
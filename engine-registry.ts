@@ -0,0 +1,110 @@
+import { config } from './config';
+import logger from './logger';
+import { FlashbotsMEVExecutor, MEVOpportunity } from './flashbots';
+import { MempoolWatcher } from './mempool-watcher';
+import { ProviderPool } from './provider-pool';
+import { ChainProfile, chainProviders } from './chains';
+import { ledger } from './ledger';
+import { riskManager } from './risk-manager';
+import { EngineSigners } from './signer';
+import { eventFeed } from './event-feed';
+import { tokenRegistries } from './token-registry';
+
+// One scanner and executor per running chain, keyed by chain name (see config.chains).
+// index.ts starts the enabled chains at boot; the route modules read the registry from
+// here rather than from the entrypoint.
+export interface ChainEngine {
+  chain: ChainProfile;
+  providers: ProviderPool;
+  executor: FlashbotsMEVExecutor;
+  mempool: MempoolWatcher | null;
+  scanTimer: NodeJS.Timeout | null;
+}
+
+export const chainEngines = new Map<string, ChainEngine>();
+
+// Signers loaded at boot; chains started later through the API run with the same ones
+let engineSigners: EngineSigners | null = null;
+
+export function setEngineSigners(signers: EngineSigners): void {
+  engineSigners = signers;
+}
+
+export function getEngineSigners(): EngineSigners | null {
+  return engineSigners;
+}
+
+async function handleOpportunities(executor: FlashbotsMEVExecutor, opportunities: MEVOpportunity[]) {
+  if (opportunities.length === 0) return;
+
+  logger.info(`Found ${opportunities.length} MEV opportunities on ${executor.chain.name}`, opportunities.map(o => ({ id: o.id, type: o.type, profit: o.profit })));
+  for (const opportunity of opportunities) {
+    if (config.strategies.arbitrage.autoExecute && opportunity.type === 'arbitrage' && !riskManager.isHalted()) {
+      try {
+        await executor.executeOpportunity(opportunity);
+      } catch (error) {
+        logger.warn(`Opportunity ${opportunity.id} not executed:`, error instanceof Error ? error.message : error);
+      }
+    } else {
+      // Not submitted, so its reserved nonces must not hold up later bundles
+      await executor.releaseNonces(opportunity.transactions);
+    }
+  }
+}
+
+export async function startChain(chain: ChainProfile, signers: EngineSigners): Promise<ChainEngine> {
+  const providers = chainProviders(chain.name);
+  providers.startMonitoring(chain.healthCheckIntervalMs);
+  const executor = new FlashbotsMEVExecutor(chain, providers, signers, ledger, riskManager);
+  await executor.initializeFlashbots();
+  eventFeed.followBlocks(providers, chain.name);
+
+  const engine: ChainEngine = { chain, providers, executor, mempool: null, scanTimer: null };
+  chainEngines.set(chain.name, engine);
+  tokenRegistries.set(chain.name, executor.tokens);
+
+  // While the kill switch is engaged the scanner stays idle
+  if (chain.wsUrl) {
+    // Stream the mempool; liquidations are block-driven and still checked on an interval
+    engine.mempool = new MempoolWatcher(
+      chain.wsUrl,
+      async tx => {
+        if (riskManager.isHalted()) return;
+        await handleOpportunities(executor, await executor.analyzePendingTransaction(tx));
+      },
+      { ...config.mempool, chain: chain.name }
+    );
+    engine.mempool.start();
+    engine.scanTimer = setInterval(async () => {
+      if (riskManager.isHalted()) return;
+      try {
+        await handleOpportunities(executor, await executor.createLiquidationOpportunities());
+      } catch (error) {
+        // An RPC outage skips this round; the next tick tries again
+        logger.error(`Scan on ${chain.name} failed:`, error);
+      }
+    }, 5000);
+  } else {
+    engine.scanTimer = setInterval(async () => {
+      if (riskManager.isHalted()) return;
+      try {
+        await handleOpportunities(executor, await executor.scanMEVOpportunities());
+      } catch (error) {
+        // An RPC outage skips this round; the next tick tries again
+        logger.error(`Scan on ${chain.name} failed:`, error);
+      }
+    }, 5000);
+  }
+  logger.info(`MEV executor running on ${chain.name} (chain id ${chain.chainId}, ${chain.submission} submission)`);
+  return engine;
+}
+
+export async function stopChain(engine: ChainEngine): Promise<void> {
+  chainEngines.delete(engine.chain.name);
+  if (engine.scanTimer) clearInterval(engine.scanTimer);
+  eventFeed.unfollowBlocks(engine.chain.name);
+  await engine.mempool?.stop();
+  await engine.executor.stop();
+  engine.providers.stopMonitoring();
+  tokenRegistries.delete(engine.chain.name);
+}
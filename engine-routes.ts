@@ -0,0 +1,218 @@
+import { Router, Request, Response } from 'express';
+import { ethers } from 'ethers';
+import { ChainEngine, chainEngines, getEngineSigners, startChain, stopChain } from './engine-registry';
+import { chainProviders, enabledChains, getChain } from './chains';
+import { config, configProfile, configSources, redactedConfig } from './config';
+import { rateLimit, requireRole } from './auth';
+import { validate } from './api-middleware';
+import { RouteDoc } from './openapi';
+import { riskManager } from './risk-manager';
+import { TokenRegistry, UnknownTokenError, tokenRegistries } from './token-registry';
+import {
+  ChainStateSchema,
+  EffectiveConfigSchema,
+  TokenDetailsSchema,
+  TokenInfoSchema,
+  TokenParamsSchema,
+  TokensQuerySchema,
+  WithdrawBody,
+  WithdrawBodySchema,
+  WithdrawalSchema,
+  chainEnvelope,
+  envelope
+} from './api-schemas';
+import logger from './logger';
+
+// Engine state and per-chain start/stop, configuration, the token registries and profit
+// withdrawals, mounted under /api
+const router = Router();
+
+// Engine status: running chains with their RPC endpoint health, and the kill switch
+router.get('/status', requireRole('read'), (req: Request, res: Response) => {
+  res.json({
+    uptime: process.uptime(),
+    halted: riskManager.isHalted(),
+    chains: [...chainEngines.keys()],
+    // RPC endpoint health per enabled chain
+    providerHealth: Object.fromEntries(enabledChains().map(chain => [chain.name, chainProviders(chain.name).getHealthStatus()]))
+  });
+});
+
+// Effective configuration after files, environment and CLI overrides, secrets masked
+router.get('/config', requireRole('read'), (req: Request, res: Response) => {
+  res.json({
+    success: true,
+    data: { profile: configProfile, sources: configSources, config: redactedConfig() }
+  });
+});
+
+// ---------------- Chain lifecycle ----------------
+// Chains being started; a start takes a while and a second request must not run it twice
+const starting = new Set<string>();
+
+function knownChain(req: Request, res: Response): string | null {
+  const name = req.params.chain;
+  if (!config.chains[name]) {
+    res.status(404).json({ success: false, error: `Unknown chain '${name}'`, details: { chains: Object.keys(config.chains) } });
+    return null;
+  }
+  return name;
+}
+
+// Starts the executor and scanner on a configured chain with the signers loaded at boot
+router.post('/chains/:chain/start', requireRole('operator'), rateLimit(), async (req: Request, res: Response) => {
+  const name = knownChain(req, res);
+  if (!name) return;
+  if (chainEngines.has(name) || starting.has(name)) {
+    return res.status(409).json({ success: false, error: `MEV executor already running on ${name}` });
+  }
+  const signers = getEngineSigners();
+  if (!signers) {
+    return res.status(503).json({ success: false, error: 'No signer configured' });
+  }
+
+  starting.add(name);
+  try {
+    await startChain(getChain(name), signers);
+    res.json({ success: true, chain: name, data: { name, running: true } });
+  } catch (error) {
+    logger.error(`Failed to start the MEV executor on ${name}:`, error);
+    res.status(500).json({ success: false, error: `Failed to start the MEV executor on ${name}` });
+  } finally {
+    starting.delete(name);
+  }
+});
+
+// Stops scanning and submitting on one chain; bundles in flight finish their current step
+router.post('/chains/:chain/stop', requireRole('operator'), rateLimit(), async (req: Request, res: Response) => {
+  const name = knownChain(req, res);
+  if (!name) return;
+  const engine = chainEngines.get(name);
+  if (!engine) {
+    return res.status(409).json({ success: false, error: `MEV executor not running on ${name}` });
+  }
+
+  try {
+    await stopChain(engine);
+    res.json({ success: true, chain: name, data: { name, running: false } });
+  } catch (error) {
+    logger.error(`Failed to stop the MEV executor on ${name}:`, error);
+    res.status(500).json({ success: false, error: `Failed to stop the MEV executor on ${name}` });
+  }
+});
+
+// Running engine of a configured chain; 503 while it is stopped
+function runningEngine(req: Request, res: Response): ChainEngine | null {
+  const name = knownChain(req, res);
+  if (!name) return null;
+  const engine = chainEngines.get(name);
+  if (!engine) {
+    res.status(503).json({ success: false, error: `MEV executor not running on ${name}` });
+    return null;
+  }
+  return engine;
+}
+
+// Sends the chain's flash executor balance of one token to treasury.profitWalletAddress
+router.post('/chains/:chain/withdraw', requireRole('treasury'), rateLimit(), validate({ body: WithdrawBodySchema }), async (req: Request, res: Response) => {
+  const to = config.treasury.profitWalletAddress;
+  if (!to) {
+    return res.status(409).json({ success: false, error: 'No profit wallet configured (PROFIT_WALLET_ADDRESS)' });
+  }
+  const engine = runningEngine(req, res);
+  if (!engine) return;
+  if (!engine.chain.flashExecutor) {
+    return res.status(409).json({ success: false, error: `No flash executor deployed on ${engine.chain.name}` });
+  }
+
+  const { token } = req.body as WithdrawBody;
+  try {
+    const withdrawal = await engine.executor.withdrawProfits(token === 'native' ? ethers.ZeroAddress : ethers.getAddress(token), to);
+    if (!withdrawal) {
+      return res.status(409).json({ success: false, error: `Flash executor on ${engine.chain.name} holds no ${token}` });
+    }
+    res.json({ success: true, chain: engine.chain.name, data: withdrawal });
+  } catch (error) {
+    logger.error(`Withdrawal on ${engine.chain.name} failed:`, error);
+    res.status(500).json({ success: false, error: 'Failed to withdraw' });
+  }
+});
+
+// Token registry of a running chain; 404 for unknown chains, 503 while the chain's executor is not running
+function resolveRegistry(req: Request, res: Response): TokenRegistry | null {
+  const name = knownChain(req, res);
+  if (!name) return null;
+  const registry = tokenRegistries.get(name);
+  if (!registry) {
+    res.status(503).json({ success: false, error: `MEV executor not running on ${name}` });
+    return null;
+  }
+  return registry;
+}
+
+// Tokens the running chains have met, with their safety flags
+router.get('/tokens', requireRole('read'), validate({ query: TokensQuerySchema }), (req: Request, res: Response) => {
+  const { chain, symbol, flagged } = req.query as { chain?: string; symbol?: string; flagged?: boolean };
+
+  let tokens = [...tokenRegistries.values()]
+    .filter(registry => !chain || registry.chain.name === chain)
+    .flatMap(registry => registry.list());
+  if (symbol) {
+    tokens = tokens.filter(token => token.symbol.toLowerCase() === symbol.toLowerCase());
+  }
+  if (flagged !== undefined) {
+    tokens = tokens.filter(token => (token.flags.length > 0) === flagged);
+  }
+
+  res.json({ success: true, data: tokens });
+});
+
+// One token's metadata, flags and current price; unknown tokens are looked up on the spot
+router.get('/tokens/:chain/:address', requireRole('read'), validate({ params: TokenParamsSchema }), async (req: Request, res: Response) => {
+  const registry = resolveRegistry(req, res);
+  if (!registry) return;
+
+  try {
+    const token = await registry.resolve(req.params.address);
+    const price = await registry.price(token.address);
+    res.json({ success: true, chain: registry.chain.name, data: { ...token, price } });
+  } catch (error) {
+    if (error instanceof UnknownTokenError) {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    logger.error('Error looking up token:', error);
+    res.status(500).json({ success: false, error: 'Failed to look up token' });
+  }
+});
+
+// Screen a token again on the chain's fork now, instead of when its screening is next due
+router.post('/tokens/:chain/:address/screen', requireRole('operator'), rateLimit(), validate({ params: TokenParamsSchema }), async (req: Request, res: Response) => {
+  const registry = resolveRegistry(req, res);
+  if (!registry) return;
+  if (!registry.canScreen) {
+    return res.status(409).json({ success: false, error: `No screening fork configured for ${registry.chain.name}` });
+  }
+
+  try {
+    res.json({ success: true, chain: registry.chain.name, data: await registry.screen(req.params.address) });
+  } catch (error) {
+    if (error instanceof UnknownTokenError) {
+      return res.status(404).json({ success: false, error: error.message });
+    }
+    logger.error('Error screening token:', error);
+    res.status(500).json({ success: false, error: 'Failed to screen token' });
+  }
+});
+
+export const docs: RouteDoc[] = [
+  { method: 'get', path: '/status', summary: 'Running chains, kill switch and RPC health', role: 'read' },
+  { method: 'post', path: '/chains/:chain/start', summary: 'Start the MEV executor and scanner on a chain', role: 'operator', response: chainEnvelope(ChainStateSchema) },
+  { method: 'post', path: '/chains/:chain/stop', summary: 'Stop the MEV executor and scanner on a chain', role: 'operator', response: chainEnvelope(ChainStateSchema) },
+  { method: 'post', path: '/chains/:chain/withdraw', summary: "Send the flash executor's balance of a token to the profit wallet", role: 'treasury', body: WithdrawBodySchema, response: chainEnvelope(WithdrawalSchema) },
+  { method: 'get', path: '/config', summary: 'Effective configuration with secrets redacted', role: 'read', response: envelope(EffectiveConfigSchema) },
+  { method: 'get', path: '/tokens', summary: 'Tokens known to the running chains, with safety flags', role: 'read', query: TokensQuerySchema, response: envelope({ type: 'array', items: TokenInfoSchema }) },
+  { method: 'get', path: '/tokens/:chain/:address', summary: 'Token metadata, flags and price in native coin, ETH and USD', role: 'read', response: chainEnvelope(TokenDetailsSchema) },
+  { method: 'post', path: '/tokens/:chain/:address/screen', summary: 'Re-screen a token on the chain fork (buy, transfer, sell)', role: 'operator', response: chainEnvelope(TokenInfoSchema) }
+];
+
+export default router;
@@ -0,0 +1,304 @@
+import { IncomingMessage } from 'http';
+import WebSocket, { Server as WebSocketServer } from 'ws';
+import { ethers } from 'ethers';
+import { config } from './config';
+import { Principal, resolveCredential } from './auth';
+import { Ledger, LedgerEntry } from './ledger';
+import { KillSwitchState, RiskManager, RiskViolation } from './risk-manager';
+import { ProviderPool } from './provider-pool';
+import logger from './logger';
+
+export type FeedTopic = 'opportunities' | 'bundles' | 'trades' | 'blocks' | 'risk';
+export const FEED_TOPICS: FeedTopic[] = ['opportunities', 'bundles', 'trades', 'blocks', 'risk'];
+
+export interface FeedEvent {
+  seq: number;
+  topic: FeedTopic;
+  event: string; // detected, submitted, attempt, settled, executed, tripped, ...
+  timestamp: number;
+  chain?: string; // Chain the event happened on; absent for engine-wide events (risk, trades)
+  opportunityType?: string; // sandwich | arbitrage | liquidation, when the event concerns one
+  profit?: string; // ETH; what the minProfit filter compares against
+  data: unknown;
+}
+
+// Per-client; events without a profit, opportunity type or chain are never filtered out by them
+export interface FeedFilters {
+  minProfit?: number; // ETH
+  types?: string[]; // Opportunity types
+  chains?: string[];
+}
+
+interface FeedClient {
+  socket: WebSocket;
+  principal: Principal | null;
+  topics: Set<FeedTopic>;
+  filters: FeedFilters;
+  alive: boolean;
+}
+
+// Client messages:
+//   { "op": "subscribe", "topics": ["opportunities"], "filters": { "minProfit": 0.01, "types": ["arbitrage"], "chains": ["base"] }, "replay": 20 }
+//   { "op": "unsubscribe", "topics": ["opportunities"] }
+//   { "op": "ping" }
+// Server messages: { "op": "event", ...FeedEvent }, { "op": "subscribed", "topics" },
+// { "op": "heartbeat", "timestamp" }, { "op": "pong" } and { "op": "error", "error" }.
+// Connections authenticate like the HTTP API (Authorization/X-API-Key headers, or
+// ?token= for browsers) and need the read role.
+export class EventFeed {
+  private seq = 0;
+  private history = new Map<FeedTopic, FeedEvent[]>();
+  private clients = new Set<FeedClient>();
+  private heartbeat: NodeJS.Timeout | null = null;
+  private blockSources = new Map<string, { provider: ethers.JsonRpcProvider; listener: (blockNumber: number) => void }>();
+
+  constructor(
+    private settings = config.feed,
+    private resolve: (credential: string) => Principal | null = resolveCredential
+  ) {}
+
+  publish(topic: FeedTopic, event: string, data: unknown, meta: Pick<FeedEvent, 'chain' | 'opportunityType' | 'profit'> = {}): FeedEvent {
+    const feedEvent: FeedEvent = { seq: ++this.seq, topic, event, timestamp: Date.now(), ...meta, data };
+
+    const recent = this.history.get(topic) || [];
+    recent.push(feedEvent);
+    if (recent.length > this.settings.replaySize) recent.shift();
+    this.history.set(topic, recent);
+
+    for (const client of this.clients) {
+      if (client.topics.has(topic) && matchesFilters(feedEvent, client.filters)) {
+        this.send(client, { op: 'event', ...feedEvent });
+      }
+    }
+    return feedEvent;
+  }
+
+  // Opportunities and bundle lifecycle events, as the scanner and submission path record them
+  followLedger(ledger: Ledger): void {
+    ledger.on('recorded', (entry: LedgerEntry) => {
+      const meta = { chain: entry.chain, opportunityType: entry.type };
+      switch (entry.kind) {
+        case 'opportunity':
+          this.publish('opportunities', 'detected', entry, { ...meta, profit: entry.data.profitEth as string | undefined });
+          break;
+        case 'submission':
+          this.publish('bundles', 'submitted', entry, meta);
+          break;
+        case 'simulation':
+          this.publish('bundles', 'attempt', entry, meta);
+          break;
+        case 'outcome':
+          this.publish('bundles', 'settled', entry, { ...meta, profit: entry.data.realizedProfitEth as string | undefined });
+          break;
+      }
+    });
+  }
+
+  followRisk(risk: RiskManager): void {
+    risk.on('violation', (violation: RiskViolation) => this.publish('risk', 'violation', { message: violation.message, halted: violation.halted }));
+    risk.on('tripped', (state: KillSwitchState) => this.publish('risk', 'tripped', state));
+    risk.on('reset', (state: KillSwitchState) => this.publish('risk', 'reset', state));
+  }
+
+  // New heads of one chain; called once per running chain
+  followBlocks(providers: ProviderPool, chain: string): void {
+    if (this.blockSources.has(chain)) return;
+    const listener = (blockNumber: number) => {
+      providers.execute(provider => provider.getBlock(blockNumber))
+        .then(block => block && this.publish('blocks', 'new', {
+          chain,
+          number: block.number,
+          hash: block.hash,
+          timestamp: block.timestamp,
+          baseFeePerGas: block.baseFeePerGas?.toString(),
+          gasUsed: block.gasUsed.toString(),
+          gasLimit: block.gasLimit.toString(),
+          transactions: block.transactions.length,
+          miner: block.miner
+        }, { chain }))
+        .catch(error => logger.warn(`Feed could not load ${chain} block ${blockNumber}:`, error instanceof Error ? error.message : error));
+    };
+    const source = { provider: providers.getProvider(), listener };
+    this.blockSources.set(chain, source);
+    source.provider.on('block', listener);
+  }
+
+  unfollowBlocks(chain: string): void {
+    const source = this.blockSources.get(chain);
+    if (!source) return;
+    source.provider.off('block', source.listener);
+    this.blockSources.delete(chain);
+  }
+
+  attach(server: WebSocketServer): void {
+    server.on('connection', (socket: WebSocket, request: IncomingMessage) => this.onConnection(socket, request));
+
+    if (!this.heartbeat) {
+      // A client that has not answered the previous ping is gone; terminate it
+      this.heartbeat = setInterval(() => {
+        for (const client of this.clients) {
+          if (!client.alive) {
+            client.socket.terminate();
+            this.clients.delete(client);
+            continue;
+          }
+          client.alive = false;
+          client.socket.ping();
+          this.send(client, { op: 'heartbeat', timestamp: Date.now() });
+        }
+      }, this.settings.heartbeatMs);
+    }
+  }
+
+  close(): void {
+    for (const source of this.blockSources.values()) {
+      source.provider.off('block', source.listener);
+    }
+    this.blockSources.clear();
+    if (this.heartbeat) {
+      clearInterval(this.heartbeat);
+      this.heartbeat = null;
+    }
+    for (const client of this.clients) {
+      client.socket.terminate();
+    }
+    this.clients.clear();
+  }
+
+  getClientCount(): number {
+    return this.clients.size;
+  }
+
+  private onConnection(socket: WebSocket, request: IncomingMessage): void {
+    const principal = authenticateUpgrade(request, this.resolve);
+    if (config.auth.enabled && !principal?.roles.includes('read')) {
+      socket.close(principal ? 4403 : 4401, principal ? "Role 'read' required" : 'Authentication required');
+      return;
+    }
+
+    const client: FeedClient = { socket, principal, topics: new Set(), filters: {}, alive: true };
+    this.clients.add(client);
+    logger.info(`Feed client connected${principal ? ` (${principal.name})` : ''}`);
+
+    socket.on('pong', () => { client.alive = true; });
+    socket.on('message', raw => this.onMessage(client, raw.toString()));
+    socket.on('close', () => this.clients.delete(client));
+    socket.on('error', error => {
+      logger.error('Feed client error:', error);
+      this.clients.delete(client);
+    });
+  }
+
+  // Runs inside the socket's 'message' listener, where a throw would take the process down
+  private onMessage(client: FeedClient, raw: string): void {
+    try {
+      this.handleMessage(client, raw);
+    } catch (error) {
+      logger.warn('Feed client message failed:', error);
+      this.send(client, { op: 'error', error: 'Message could not be handled' });
+    }
+  }
+
+  private handleMessage(client: FeedClient, raw: string): void {
+    let message: unknown;
+    try {
+      message = JSON.parse(raw);
+    } catch {
+      return this.send(client, { op: 'error', error: 'Messages must be JSON' });
+    }
+    if (!isRecord(message)) {
+      return this.send(client, { op: 'error', error: 'Messages must be JSON objects' });
+    }
+
+    const topics: unknown[] = Array.isArray(message.topics) ? message.topics : [];
+    const unknown = topics.filter(topic => !FEED_TOPICS.includes(topic as FeedTopic));
+    if (unknown.length > 0) {
+      return this.send(client, { op: 'error', error: `Unknown topics: ${unknown.join(', ')} (expected ${FEED_TOPICS.join(', ')})` });
+    }
+
+    switch (message.op) {
+      case 'subscribe': {
+        for (const topic of topics) client.topics.add(topic as FeedTopic);
+        if (isRecord(message.filters)) {
+          client.filters = parseFilters(message.filters);
+        }
+        this.send(client, { op: 'subscribed', topics: [...client.topics], filters: client.filters });
+        this.replay(client, topics as FeedTopic[], Number(message.replay) || 0);
+        break;
+      }
+      case 'unsubscribe':
+        for (const topic of topics) client.topics.delete(topic as FeedTopic);
+        this.send(client, { op: 'subscribed', topics: [...client.topics], filters: client.filters });
+        break;
+      case 'ping':
+        this.send(client, { op: 'pong', timestamp: Date.now() });
+        break;
+      default:
+        this.send(client, { op: 'error', error: `Unknown op ${String(message.op)}` });
+    }
+  }
+
+  // The last `count` matching events across the requested topics, oldest first
+  private replay(client: FeedClient, topics: FeedTopic[], count: number): void {
+    const limit = Math.min(Math.max(count, 0), this.settings.replaySize);
+    if (limit === 0) return;
+
+    const events = topics
+      .flatMap(topic => this.history.get(topic) || [])
+      .filter(event => matchesFilters(event, client.filters))
+      .sort((a, b) => a.seq - b.seq)
+      .slice(-limit);
+    for (const event of events) {
+      this.send(client, { op: 'event', replay: true, ...event });
+    }
+  }
+
+  // Slow consumers miss events rather than growing the server's send buffer without bound
+  private send(client: FeedClient, message: object): void {
+    if (client.socket.readyState !== WebSocket.OPEN || client.socket.bufferedAmount > this.settings.maxBufferedBytes) {
+      return;
+    }
+    client.socket.send(JSON.stringify(message));
+  }
+}
+
+function authenticateUpgrade(request: IncomingMessage, resolve: (credential: string) => Principal | null): Principal | null {
+  const header = request.headers.authorization;
+  const apiKey = request.headers['x-api-key'];
+  const token = new URL(request.url || '/', 'http://localhost').searchParams.get('token');
+  const credential = header?.startsWith('Bearer ') ? header.slice(7).trim() : (typeof apiKey === 'string' ? apiKey : token);
+  return credential ? resolve(credential) : null;
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseFilters(raw: Record<string, unknown>): FeedFilters {
+  const filters: FeedFilters = {};
+  if (raw.minProfit !== undefined && Number.isFinite(Number(raw.minProfit))) {
+    filters.minProfit = Number(raw.minProfit);
+  }
+  if (Array.isArray(raw.types)) {
+    filters.types = raw.types.map(String);
+  }
+  if (Array.isArray(raw.chains)) {
+    filters.chains = raw.chains.map(String);
+  }
+  return filters;
+}
+
+function matchesFilters(event: FeedEvent, filters: FeedFilters): boolean {
+  if (filters.minProfit !== undefined && event.profit !== undefined && Number(event.profit) < filters.minProfit) {
+    return false;
+  }
+  if (filters.types && event.opportunityType !== undefined && !filters.types.includes(event.opportunityType)) {
+    return false;
+  }
+  if (filters.chains && event.chain !== undefined && !filters.chains.includes(event.chain)) {
+    return false;
+  }
+  return true;
+}
+
+export const eventFeed = new EventFeed();
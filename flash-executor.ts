@@ -0,0 +1,420 @@
+import fs from 'fs';
+import { ethers } from 'ethers';
+import { FlashSource, config } from './config';
+import { ChainProfile, chainProviders, getChain, isWrappedNative } from './chains';
+import { ProviderPool } from './provider-pool';
+import { PoolState, PoolStateCache, quoteExactInput } from './pool-state';
+import { EncodedCall, SwapCallParams, encodeApprove, encodeExactInputSwap, exactInputAmountOffset, swapRouter } from './swap-encoder';
+import { loadSigners } from './signer';
+import logger from './logger';
+
+// Client for contracts/FlashExecutor.sol. The engine's wallet owns the deployment and sends
+// it one transaction per bundle: borrow, run the route, repay, check the minimum profit.
+
+export const FLASH_EXECUTOR_ABI = [
+  'function owner() view returns (address)',
+  'function execute((uint8 source, address lender, address token, uint256 amount) loan, (address target, uint256 value, bytes data, address patchToken, uint256 patchOffset)[] steps, address profitToken, uint256 minProfit) payable returns (uint256 profit)',
+  'function withdraw(address token, address to, uint256 amount)',
+  'function payCoinbase() payable',
+  'event Executed(address indexed profitToken, uint256 profit)',
+  'error NotOwner()',
+  'error UnexpectedCallback()',
+  'error BadPatch(uint256 index)',
+  'error StepFailed(uint256 index, bytes reason)',
+  'error InsufficientProfit(int256 profit, uint256 minProfit)',
+  'error TransferFailed()'
+];
+
+export const FLASH_SOURCES: FlashSource[] = ['balancer', 'aave', 'uniswap-v3'];
+
+// Gas of execute() itself: the loan round trip, the profit check and transfer
+export const FLASH_LOAN_GAS = 200000n;
+
+const EXECUTOR = new ethers.Interface(FLASH_EXECUTOR_ABI);
+const AAVE_POOL = new ethers.Interface(['function FLASHLOAN_PREMIUM_TOTAL() view returns (uint128)']);
+const BALANCER_VAULT = new ethers.Interface(['function getProtocolFeesCollector() view returns (address)']);
+const BALANCER_FEES = new ethers.Interface(['function getFlashLoanFeePercentage() view returns (uint256)']);
+const ERC20 = new ethers.Interface(['function balanceOf(address account) view returns (uint256)']);
+const WRAPPED_NATIVE = new ethers.Interface(['function deposit() payable']);
+
+// Loan.source in the contract
+const SOURCE_IDS: Record<FlashSource, number> = { 'aave': 1, 'balancer': 2, 'uniswap-v3': 3 };
+
+// Lender fees change only through governance
+const FEE_TTL_MS = 3600000;
+
+export interface FlashLoan {
+  source: FlashSource;
+  lender: string;
+  token: string;
+  amount: bigint;
+  fee: bigint; // Owed on top of amount, in token units
+}
+
+export interface ExecutorStep {
+  target: string;
+  value: bigint;
+  data: string;
+  // When set, the executor's balance of this token replaces the 32 bytes at patchOffset
+  patchToken: string;
+  patchOffset: number;
+}
+
+export interface ExecutorRoute {
+  steps: ExecutorStep[];
+  pools: PoolState[];
+  amountOut: bigint; // Quoted for the amountIn the route was planned with
+}
+
+export function callStep(call: EncodedCall): ExecutorStep {
+  return { target: call.to, value: call.value, data: call.data, patchToken: ethers.ZeroAddress, patchOffset: 0 };
+}
+
+export function approveStep(token: string, spender: string, amount: bigint): ExecutorStep {
+  return callStep(encodeApprove(token, spender, amount));
+}
+
+// Router approval plus an exact-input swap paid by the executor. With spendBalance the
+// swap's amountIn is replaced on-chain by everything the executor then holds of tokenIn,
+// which is how a hop spends the unknown output of the step before it.
+export function swapSteps(chain: ChainProfile, params: SwapCallParams, spendBalance: boolean = false): ExecutorStep[] {
+  const router = swapRouter(chain, params.pool.dex).address;
+  const swap = callStep(encodeExactInputSwap(chain, { ...params, payWithEth: false }));
+  return [
+    approveStep(params.tokenIn, router, spendBalance ? ethers.MaxUint256 : params.amountIn),
+    spendBalance ? { ...swap, patchToken: params.tokenIn, patchOffset: exactInputAmountOffset(chain, params.pool) } : swap
+  ];
+}
+
+// Wraps `amount` of the native coin sent along with execute(), e.g. to cover a loan fee
+export function wrapNativeStep(chain: ChainProfile, amount: bigint): ExecutorStep {
+  return callStep({ to: chain.wrappedNative, data: WRAPPED_NATIVE.encodeFunctionData('deposit'), value: amount });
+}
+
+// Sells everything the executor holds of tokenIn for tokenOut through the cached pool
+// quoting best for `amountIn`: a direct pool, or two hops through the wrapped native
+// token. The hops carry no minimum of their own; execute()'s min-profit check covers the
+// route. Null when no pool connects the tokens.
+export async function planRoute(
+  chain: ChainProfile,
+  pools: PoolStateCache,
+  tokenIn: string,
+  tokenOut: string,
+  amountIn: bigint,
+  recipient: string,
+  deadline: number
+): Promise<ExecutorRoute | null> {
+  if (tokenIn.toLowerCase() === tokenOut.toLowerCase()) {
+    return { steps: [], pools: [], amountOut: amountIn };
+  }
+
+  const candidates: Array<Array<{ pool: PoolState; tokenIn: string; tokenOut: string; amountIn: bigint }>> = [];
+  const direct = await bestHop(pools, tokenIn, tokenOut, amountIn);
+  if (direct) candidates.push([{ pool: direct.pool, tokenIn, tokenOut, amountIn }]);
+
+  const via = chain.wrappedNative;
+  if (!isWrappedNative(chain, tokenIn) && !isWrappedNative(chain, tokenOut)) {
+    const first = await bestHop(pools, tokenIn, via, amountIn);
+    const second = first && await bestHop(pools, via, tokenOut, first.amountOut);
+    if (first && second) {
+      candidates.push([
+        { pool: first.pool, tokenIn, tokenOut: via, amountIn },
+        { pool: second.pool, tokenIn: via, tokenOut, amountIn: first.amountOut }
+      ]);
+    }
+  }
+  if (candidates.length === 0) return null;
+
+  const quoted = candidates.map(hops => {
+    const last = hops[hops.length - 1];
+    return { hops, amountOut: quoteExactInput(last.pool, last.tokenIn, last.amountIn).amountOut };
+  });
+  const best = quoted.reduce((a, b) => (b.amountOut > a.amountOut ? b : a));
+
+  return {
+    steps: best.hops.flatMap(hop => swapSteps(chain, { ...hop, amountOutMin: 0n, recipient, deadline }, true)),
+    pools: best.hops.map(hop => hop.pool),
+    amountOut: best.amountOut
+  };
+}
+
+async function bestHop(pools: PoolStateCache, tokenIn: string, tokenOut: string, amountIn: bigint): Promise<{ pool: PoolState; amountOut: bigint } | null> {
+  let best: { pool: PoolState; amountOut: bigint } | null = null;
+  for (const pool of await pools.findPools(tokenIn, tokenOut)) {
+    try {
+      const { amountOut } = quoteExactInput(pool, tokenIn, amountIn);
+      if (!best || amountOut > best.amountOut) best = { pool, amountOut };
+    } catch {
+      // Swap runs past the loaded V3 ticks; the pool is too shallow for it
+    }
+  }
+  return best;
+}
+
+// Borrows from the configured flash source and encodes execute() calls for one deployment
+export class FlashExecutorClient {
+  private feeRates: Map<string, { rate: [bigint, bigint]; at: number }> = new Map();
+
+  constructor(
+    readonly chain: ChainProfile,
+    private providers: ProviderPool,
+    private pools: PoolStateCache,
+    readonly address: string = chain.flashExecutor,
+    readonly source: FlashSource = config.flashLoans.source
+  ) {
+    if (!address) throw new Error(`No flash executor deployed on ${chain.name} (chains.${chain.name}.flashExecutor)`);
+    if (source !== 'uniswap-v3' && !chain.flashLenders[source]) {
+      throw new Error(`Flash-loan source ${source} is not configured on ${chain.name}`);
+    }
+  }
+
+  // Loan of `amount` token from the configured source. A Uniswap V3 pool is locked while it
+  // lends, so `avoid` lists the pools the route trades through and those are never picked.
+  async borrow(token: string, amount: bigint, avoid: string[] = []): Promise<FlashLoan> {
+    const lender = this.source === 'uniswap-v3'
+      ? await this.lendingPool(token, amount, avoid)
+      : this.chain.flashLenders[this.source];
+    const [numerator, denominator] = await this.feeRate(lender);
+    const fee = (amount * numerator + denominator - 1n) / denominator;
+    return { source: this.source, lender, token, amount, fee };
+  }
+
+  encodeExecute(loan: FlashLoan, steps: ExecutorStep[], profitToken: string, minProfit: bigint, value: bigint = 0n): EncodedCall {
+    return {
+      to: this.address,
+      data: EXECUTOR.encodeFunctionData('execute', [
+        { source: SOURCE_IDS[loan.source], lender: loan.lender, token: loan.token, amount: loan.amount },
+        steps,
+        profitToken,
+        minProfit
+      ]),
+      value
+    };
+  }
+
+  // What the contract holds of `token`; ZeroAddress is the native coin
+  async balanceOf(token: string): Promise<bigint> {
+    if (token === ethers.ZeroAddress) {
+      return this.providers.execute(provider => provider.getBalance(this.address));
+    }
+    const [balance] = await this.read(token, ERC20, 'balanceOf', [this.address]);
+    return balance;
+  }
+
+  encodeWithdraw(token: string, to: string, amount: bigint): EncodedCall {
+    return { to: this.address, data: EXECUTOR.encodeFunctionData('withdraw', [token, to, amount]), value: 0n };
+  }
+
+  // Fee per borrowed unit as a fraction, rounded up by borrow() like the lenders do
+  private async feeRate(lender: string): Promise<[bigint, bigint]> {
+    const cached = this.feeRates.get(lender.toLowerCase());
+    if (cached && Date.now() - cached.at < FEE_TTL_MS) return cached.rate;
+
+    let rate: [bigint, bigint];
+    if (this.source === 'aave') {
+      const [premium] = await this.read(lender, AAVE_POOL, 'FLASHLOAN_PREMIUM_TOTAL');
+      rate = [premium, 10000n];
+    } else if (this.source === 'balancer') {
+      const [collector] = await this.read(lender, BALANCER_VAULT, 'getProtocolFeesCollector');
+      const [percentage] = await this.read(collector, BALANCER_FEES, 'getFlashLoanFeePercentage');
+      rate = [percentage, 10n ** 18n];
+    } else {
+      const pool = this.pools.getPool(lender);
+      if (pool?.kind !== 'v3') throw new Error(`Uniswap V3 pool ${lender} is not loaded`);
+      rate = [BigInt(pool.fee), 1000000n];
+    }
+    this.feeRates.set(lender.toLowerCase(), { rate, at: Date.now() });
+    return rate;
+  }
+
+  // Cheapest V3 pool holding enough of the token, paired with the wrapped native coin (or,
+  // for the wrapped native coin itself, the USD stablecoin)
+  private async lendingPool(token: string, amount: bigint, avoid: string[]): Promise<string> {
+    const pair = isWrappedNative(this.chain, token) ? this.chain.usdStable : this.chain.wrappedNative;
+    const avoided = new Set(avoid.map(address => address.toLowerCase()));
+    const candidates = (await this.pools.findPools(token, pair))
+      .filter(pool => pool.kind === 'v3' && !avoided.has(pool.address.toLowerCase()))
+      .sort((a, b) => (a.kind === 'v3' && b.kind === 'v3' ? a.fee - b.fee : 0));
+
+    for (const pool of candidates) {
+      const [balance] = await this.read(token, ERC20, 'balanceOf', [pool.address]);
+      if (balance >= amount) return pool.address;
+    }
+    throw new Error(`No Uniswap V3 pool on ${this.chain.name} can lend ${amount} of ${token}`);
+  }
+
+  private async read(to: string, iface: ethers.Interface, method: string, args: unknown[] = []): Promise<ethers.Result> {
+    const data = await this.providers.execute(provider => provider.call({ to, data: iface.encodeFunctionData(method, args) }));
+    return iface.decodeFunctionResult(method, data);
+  }
+}
+
+// Creation bytecode from a Foundry (out/FlashExecutor.sol/FlashExecutor.json) or Hardhat artifact
+export function readBytecode(artifactPath: string): string {
+  const artifact = JSON.parse(fs.readFileSync(artifactPath, 'utf8'));
+  const bytecode: unknown = typeof artifact.bytecode === 'string' ? artifact.bytecode : artifact.bytecode?.object;
+  if (typeof bytecode !== 'string' || !/^(0x)?([0-9a-fA-F]{2})+$/.test(bytecode)) {
+    throw new Error(`${artifactPath} has no creation bytecode (compile contracts/FlashExecutor.sol first)`);
+  }
+  return bytecode.startsWith('0x') ? bytecode : `0x${bytecode}`;
+}
+
+// Deploys the executor from `signer`, which becomes its owner
+export async function deployFlashExecutor(signer: ethers.Signer, bytecode: string): Promise<string> {
+  const contract = await new ethers.ContractFactory(FLASH_EXECUTOR_ABI, bytecode, signer).deploy();
+  await contract.waitForDeployment();
+  return contract.getAddress();
+}
+
+// Custom error of a reverted execute(), e.g. InsufficientProfit(-1200, 0)
+export function describeRevert(error: unknown): string {
+  const data = revertData(error);
+  if (data && data.length >= 10) {
+    const parsed = EXECUTOR.parseError(data);
+    if (parsed) return `${parsed.name}(${parsed.args.map(arg => String(arg)).join(', ')})`;
+  }
+  if (!(error instanceof Error)) return String(error);
+  return 'shortMessage' in error && typeof error.shortMessage === 'string' ? error.shortMessage : error.message;
+}
+
+// Revert data as ethers reports it: on the error itself, or on the node's JSON-RPC error
+function revertData(error: unknown): string | undefined {
+  const field = (value: unknown, key: string): unknown =>
+    typeof value === 'object' && value !== null && key in value ? (value as Record<string, unknown>)[key] : undefined;
+  const data = field(error, 'data') ?? field(field(field(error, 'info'), 'error'), 'data') ?? field(field(error, 'error'), 'data');
+  return typeof data === 'string' ? data : undefined;
+}
+
+// Deploys a fresh executor on a fork (anvil or hardhat) from an impersonated owner and runs
+// a loan from every source, a flash-funded round trip through the wrapped native coin's
+// stablecoin pools and a min-profit revert. Returns whether every check passed.
+export async function forkCheck(chain: ChainProfile, bytecode: string, forkUrl: string, amountEth: number): Promise<boolean> {
+  const fork = new ethers.JsonRpcProvider(forkUrl, chain.chainId, { staticNetwork: true });
+  const owner = ethers.Wallet.createRandom().address;
+  await fork.send('hardhat_setBalance', [owner, ethers.toQuantity(ethers.parseEther('1000'))]);
+  await fork.send('hardhat_impersonateAccount', [owner]);
+  const signer = await fork.getSigner(owner);
+  const executor = await deployFlashExecutor(signer, bytecode);
+  logger.info(`Deployed FlashExecutor at ${executor} on the ${chain.name} fork`);
+
+  const providers = new ProviderPool([forkUrl], { chain: chain.name, chainId: chain.chainId });
+  const pools = new PoolStateCache(providers, chain);
+  const token = chain.wrappedNative;
+  const amount = ethers.parseEther(amountEth.toString());
+  let passed = true;
+
+  const check = async (name: string, run: () => Promise<string>) => {
+    try {
+      logger.info(`PASS ${name}: ${await run()}`);
+    } catch (error) {
+      passed = false;
+      logger.error(`FAIL ${name}: ${describeRevert(error)}`);
+    }
+  };
+  const send = async (call: EncodedCall) => {
+    const receipt = await (await signer.sendTransaction(call)).wait();
+    return `gas ${receipt?.gasUsed}`;
+  };
+
+  // The fee is sent along and wrapped, so an empty route repays itself
+  for (const source of FLASH_SOURCES) {
+    if (source !== 'uniswap-v3' && !chain.flashLenders[source]) continue;
+    await check(`${source} loan`, async () => {
+      const client = new FlashExecutorClient(chain, providers, pools, executor, source);
+      const loan = await client.borrow(token, amount);
+      return `fee ${loan.fee}, ${await send(client.encodeExecute(loan, [wrapNativeStep(chain, loan.fee)], token, 0n, loan.fee))}`;
+    });
+  }
+
+  const client = new FlashExecutorClient(chain, providers, pools, executor);
+  await check(`${client.source} round trip`, async () => {
+    const deadline = Math.floor(Date.now() / 1000) + 600;
+    const out = await planRoute(chain, pools, token, chain.usdStable, amount, executor, deadline);
+    if (!out) throw new Error(`No pool between ${token} and ${chain.usdStable}`);
+    const back = await planRoute(chain, pools, chain.usdStable, token, out.amountOut, executor, deadline);
+    if (!back) throw new Error(`No pool between ${chain.usdStable} and ${token}`);
+    const loan = await client.borrow(token, amount, [...out.pools, ...back.pools].map(pool => pool.address));
+    // Pay for the round trip's losses: the quoted shortfall twice over, plus the fee
+    const shortfall = amount > back.amountOut ? amount - back.amountOut : 0n;
+    const value = shortfall * 2n + loan.fee;
+    const steps = [...out.steps, ...back.steps, wrapNativeStep(chain, value)];
+    return send(client.encodeExecute(loan, steps, token, 0n, value));
+  });
+
+  await check('min-profit revert', async () => {
+    const loan = await client.borrow(token, amount);
+    const call = client.encodeExecute(loan, [wrapNativeStep(chain, loan.fee)], token, 1n, loan.fee);
+    try {
+      await fork.call({ ...call, from: owner });
+    } catch (error) {
+      const reason = describeRevert(error);
+      if (reason.startsWith('InsufficientProfit')) return reason;
+      throw error;
+    }
+    throw new Error('execute() did not revert below minProfit');
+  });
+
+  await fork.send('hardhat_stopImpersonatingAccount', [owner]);
+  return passed;
+}
+
+// Usage: flash-executor deploy <artifact.json> [--chain NAME]
+//        flash-executor withdraw <token|native> [--to ADDRESS] [--chain NAME]
+//        flash-executor fork-check <artifact.json> --fork URL [--chain NAME] [--amount ETH]
+if (require.main === module) {
+  const args = process.argv.slice(2);
+  const flag = (name: string) => {
+    const index = args.indexOf(name);
+    return index >= 0 ? args[index + 1] : undefined;
+  };
+  const [command, target] = args;
+  const chain = getChain(flag('--chain') ?? 'ethereum');
+
+  const run = async (): Promise<boolean> => {
+    if (command === 'fork-check' && target && flag('--fork')) {
+      return forkCheck(chain, readBytecode(target), flag('--fork')!, Number(flag('--amount') ?? 1));
+    }
+
+    const signers = await loadSigners();
+    if (!signers) throw new Error('No signer configured (SIGNER_BACKEND / WALLET_PRIVATE_KEY)');
+    const signer = signers.signer.connect(chainProviders(chain.name).getProvider());
+
+    if (command === 'deploy' && target) {
+      const address = await deployFlashExecutor(signer, readBytecode(target));
+      logger.info(`Deployed FlashExecutor at ${address} on ${chain.name}, owned by ${signers.signer.address}`);
+      console.log(`${chain.name.toUpperCase().replace(/[^A-Z0-9]/g, '_')}_FLASH_EXECUTOR=${address}`);
+      return true;
+    }
+
+    if (command === 'withdraw' && target) {
+      if (!chain.flashExecutor) throw new Error(`No flash executor configured on ${chain.name}`);
+      const token = target === 'native' ? ethers.ZeroAddress : ethers.getAddress(target);
+      const provider = signer.provider!;
+      const balance = token === ethers.ZeroAddress
+        ? await provider.getBalance(chain.flashExecutor)
+        : ERC20.decodeFunctionResult('balanceOf', await provider.call({
+          to: token, data: ERC20.encodeFunctionData('balanceOf', [chain.flashExecutor])
+        }))[0] as bigint;
+      const to = flag('--to') ?? signers.signer.address;
+      const tx = await signer.sendTransaction({
+        to: chain.flashExecutor,
+        data: EXECUTOR.encodeFunctionData('withdraw', [token, to, balance])
+      });
+      await tx.wait();
+      logger.info(`Withdrew ${balance} of ${target} from ${chain.flashExecutor} to ${to} (${tx.hash})`);
+      return true;
+    }
+
+    logger.error('Usage: flash-executor deploy <artifact.json> [--chain NAME]\n' +
+      '       flash-executor withdraw <token|native> [--to ADDRESS] [--chain NAME]\n' +
+      '       flash-executor fork-check <artifact.json> --fork URL [--chain NAME] [--amount ETH]');
+    return false;
+  };
+
+  run()
+    .then(ok => process.exit(ok ? 0 : 1))
+    .catch(error => {
+      logger.error('flash-executor failed:', error);
+      process.exit(1);
+    });
+}
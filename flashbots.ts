@@ -1,190 +1,1072 @@
 import { ethers } from 'ethers';
+import { randomUUID } from 'crypto';
 import { FlashbotsBundleProvider } from '@flashbots/ethers-provider-bundle';
 import winston from 'winston';
+import { StrategyName, config } from './config';
+import {
+  BundleSimulator,
+  LocalForkSimulator,
+  RelayBundleSimulator,
+  RpcBundleSimulator,
+  isSimulationError
+} from './bundle-simulator';
+import { ProviderPool } from './provider-pool';
+import { ChainProfile, chainStatePath, routerRegistry } from './chains';
+import { SwapDescriptor, decodeSwapTransaction } from './swap-decoder';
+import { PoolStateCache, quoteExactInput } from './pool-state';
+import { ArbitragePlan } from './arbitrage-strategy';
+import { OpportunityDetector, SWAP_GAS_LIMIT, SandwichEstimate } from './opportunity-detector';
+import { LiquidationCandidate, LiquidationEngine } from './liquidation-engine';
+import { EncodedCall, encodeApprove, encodeExactInputSwap, getAllowance, swapRouter } from './swap-encoder';
+import { FLASH_LOAN_GAS, FlashExecutorClient, approveStep, callStep, planRoute, swapSteps } from './flash-executor';
+import { WalletManager } from './wallet';
+import { EngineSigners } from './signer';
+import {
+  BundleAttempt,
+  BundleSubmission,
+  BundleSubmissionManager,
+  BundleTransport,
+  FlashbotsBundleResolver
+} from './bundle-submission';
+import { RelayFanout, RelayStats } from './relay-fanout';
+import { TransactionBroadcaster } from './tx-broadcaster';
+import { Ledger } from './ledger';
+import { TokenRef, TokenRegistry } from './token-registry';
+import { BundleRiskInput, RiskManager, RiskViolation } from './risk-manager';
+import { BidSummary, GasBid, GasBidder, summarizeBid } from './gas-bidder';
+import {
+  bundleRequests,
+  bundleStatsRequests,
+  gasSpent,
+  opportunitiesDetected,
+  pendingTransactionsSeen,
+  realizedProfit,
+  scanDuration,
+  swapsSkipped
+} from './metrics';
 
-interface BundleRequest {
-  transactions: ethers.Transaction[];
-  blockNumber: number;
+const APPROVE_GAS_LIMIT = 60000n;
+const LIQUIDATION_GAS_LIMIT = 800000n;
+const ETH_RATE_TTL_MS = 60000;
+const DEADLINE_SECONDS = 120;
+// Blocks a withdrawal's nonce stays reserved while it waits in the public mempool
+const WITHDRAWAL_BLOCKS = 25;
+// Opportunities kept for GET /:chain/opportunities
+const DETECTED_HISTORY = 100;
+// Fixed-point precision of the ETH-per-native rate when it is applied to wei amounts
+const RATE_PRECISION = 1e12;
+const CHAINLINK_AGGREGATOR_ABI = [
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'
+];
+
+function minProfit(strategy: StrategyName): bigint {
+  return ethers.parseEther(config.strategies[strategy].minProfitEth.toString());
+}
+
+// A bundle's own calls before signing, with the bid that prices them
+interface PricedCalls {
+  calls: Array<EncodedCall & { gasLimit: bigint }>;
+  bid: GasBid;
+}
+
+// A liquidation's calls, with the tokens its profit lands in
+interface LiquidationCalls extends PricedCalls {
+  profitTokens: string[];
+}
+
+interface SandwichCalls extends PricedCalls {
+  ahead: number; // Leading calls that go in front of the victim's transaction
 }
 
-interface MEVOpportunity {
+// Every token the decoded legs trade, lowercased
+function swapTokens(swaps: SwapDescriptor[]): string[] {
+  return [...new Set(swaps.flatMap(swap => swap.path.map(token => token.toLowerCase())))];
+}
+
+export interface BundleRequest {
+  transactions: string[]; // Signed, RLP-encoded transactions
+  blockNumber?: number; // First target block; defaults to the next block
+  opportunity?: MEVOpportunity; // Detected opportunity the bundle realizes, if any
+}
+
+export interface MEVOpportunity {
+  id: string;
+  chain: string;
   type: 'sandwich' | 'arbitrage' | 'liquidation';
-  profit: string;
-  transactions: ethers.Transaction[];
+  profit: string; // In the chain's native coin
+  profitEth: string; // The same at the current ETH/native rate; what ETH limits compare against
+  targetTxHash?: string; // Pending transaction the opportunity reacts to, if any
+  swaps: SwapDescriptor[]; // Decoded swap legs of the target transaction
+  tokens?: TokenRef[]; // Symbol and decimals of the traded tokens, where the registry knows them
+  amountIn?: string; // Optimal front-run size in the native coin
+  // Signed bundle, for opportunities that may be auto-executed. Scanned sandwiches stay
+  // empty: POST /sandwich builds and signs them, and signing here would reserve nonces
+  // ahead of an arbitrage found alongside that handing them back would invalidate.
+  transactions: string[];
   targetBlock: number;
+  bid?: BidSummary; // Fees the profit was computed with
+  profitTokens?: string[]; // Tokens besides the wrapped native coin the profit is held in (liquidations)
 }
 
+export interface Withdrawal {
+  token: string; // ZeroAddress for the native coin
+  to: string;
+  amount: string; // Base units
+  hash: string; // Sent, not yet mined
+}
+
+// One executor runs per enabled chain. On the relay chain (Ethereum) bundles go to the
+// Flashbots-style builders; on the others the same bundles are sent to the sequencer or
+// the public mempool by a TransactionBroadcaster, simulated with eth_simulateV1 and bid
+// in priority fees only. Amounts stay in the chain's native coin; they are converted
+// with the chain's Chainlink feeds wherever they meet the ETH-denominated strategy and
+// risk limits.
 export class FlashbotsMEVExecutor {
-  private provider: ethers.JsonRpcProvider;
-  private flashbotsProvider!: FlashbotsBundleProvider; // Use definite assignment assertion as it's set in initialize
-  private wallet: ethers.Wallet;
+  private providers: ProviderPool;
+  private flashbotsProvider: FlashbotsBundleProvider | null = null; // Relay chains only, set in initializeFlashbots
+  private wallet: WalletManager;
   private logger: winston.Logger;
+  private simulator: BundleSimulator | null = null;
+  private submissions: BundleSubmissionManager | null = null;
+  private transport: BundleTransport;
+  private pools: PoolStateCache;
+  private detector: OpportunityDetector;
+  private liquidations: LiquidationEngine | null = null;
+  private executor: FlashExecutorClient | null = null; // When chains.<name>.flashExecutor is deployed
+  private bidder: GasBidder;
+  readonly tokens: TokenRegistry;
+  private ethRate = { value: 1, at: 0 };
+  private detected: MEVOpportunity[] = []; // Newest last
+  private stopped = false;
 
-  constructor(rpcUrl: string, privateKey: string) {
-    this.provider = new ethers.JsonRpcProvider(rpcUrl);
-    this.wallet = new ethers.Wallet(privateKey, this.provider);
+  constructor(
+    readonly chain: ChainProfile,
+    providers: ProviderPool,
+    private signers: EngineSigners,
+    private ledger: Ledger,
+    private risk: RiskManager
+  ) {
+    if (chain.simulation === 'relay' && chain.submission !== 'relay') {
+      throw new Error(`chains.${chain.name}.simulation 'relay' needs submission 'relay'; use 'rpc' or 'local'`);
+    }
+    this.providers = providers;
+    this.wallet = new WalletManager(signers.signer, providers);
+    this.pools = new PoolStateCache(providers, chain);
+    this.detector = new OpportunityDetector(this.pools, () => this.ethPerNative);
+    this.tokens = new TokenRegistry(chain, providers, this.pools, () => this.ethPerNative);
+    // Only builders take coinbase transfers; sequencers and the mempool order by priority fee
+    this.bidder = new GasBidder(providers, {
+      ...config.gas,
+      bidMode: chain.submission === 'relay' ? config.gas.bidMode : 'priority-fee',
+      bidStatePath: chainStatePath(config.gas.bidStatePath, chain)
+    });
+    this.transport = chain.submission === 'relay'
+      ? new RelayFanout(config.flashbots.relays, signers.authSigner, config.flashbots.dropRelayAfter)
+      : new TransactionBroadcaster(chain, providers);
+    if (config.strategies.liquidation.enabled && chain.name === config.strategies.liquidation.chain) {
+      this.liquidations = new LiquidationEngine(providers, chain);
+    }
     this.logger = winston.createLogger({
       level: 'info',
       format: winston.format.json(),
+      defaultMeta: { chain: chain.name },
       transports: [new winston.transports.Console()]
     });
+    if (chain.flashExecutor) {
+      this.executor = new FlashExecutorClient(chain, providers, this.pools);
+    } else if (config.strategies.arbitrage.flashLoan || config.strategies.liquidation.flashLoan) {
+      this.logger.warn(`No flash executor deployed on ${chain.name}; flash-loan strategies trade from the wallet here`);
+    }
+    if (config.strategies.sandwich.enabled && !this.canSandwich) {
+      this.logger.warn(`Sandwiches are off on ${chain.name}: ${chain.submission} submission cannot order them around the victim`);
+    }
+
+    if (chain.simulation === 'local') {
+      this.simulator = new LocalForkSimulator(chain.rpcUrls[0]);
+    } else if (chain.simulation === 'rpc') {
+      this.simulator = new RpcBundleSimulator(providers);
+    }
+  }
+
+  // A sandwich only works as an atomic bundle with the victim's transaction between our
+  // legs. Sequencers and the public mempool take transactions one by one, so the legs
+  // could land apart from the victim (or the back-run alone).
+  get canSandwich(): boolean {
+    return this.chain.submission === 'relay';
+  }
+
+  // ETH per unit of the chain's native coin, as of the last refresh; 1 on ETH chains
+  get ethPerNative(): number {
+    return this.ethRate.value;
   }
 
   async initializeFlashbots() {
     try {
-      this.flashbotsProvider = await FlashbotsBundleProvider.create(
-        this.provider,
-        this.wallet
+      if (this.chain.submission === 'relay') {
+        this.flashbotsProvider = await FlashbotsBundleProvider.create(
+          this.providers.getProvider(),
+          this.signers.authSigner,
+          config.flashbots.relayUrl
+        );
+        if (!this.simulator) {
+          this.simulator = new RelayBundleSimulator(this.flashbotsProvider);
+        }
+      }
+      await this.refreshEthRate();
+      this.submissions = new BundleSubmissionManager(
+        this.chain,
+        this.providers,
+        this.transport,
+        this.simulator!,
+        this.wallet,
+        config.flashbots.blockWindow,
+        this.flashbotsProvider ? new FlashbotsBundleResolver(this.flashbotsProvider) : null,
+        (token, amount) => this.nativeValue(token, amount)
       );
-      this.logger.info('Flashbots provider initialized');
+      this.recordBundleLifecycle(this.submissions);
+      this.learnBids(this.submissions);
+      // Realized gas and PnL feed the risk layer's hourly gas budget and daily loss cap. A
+      // profit that could not be priced counts as the gas alone lost.
+      this.submissions.on('settled', (submission: BundleSubmission) => {
+        if (submission.gasCost) {
+          const gasCost = this.toEth(ethers.parseEther(submission.gasCost));
+          const profit = submission.realizedProfit ? this.toEth(ethers.parseEther(submission.realizedProfit)) : -gasCost;
+          this.risk.recordOutcome(gasCost, profit);
+          gasSpent.inc({ chain: this.chain.name }, Number(ethers.formatEther(gasCost)));
+          realizedProfit.add({ chain: this.chain.name }, Number(ethers.formatEther(profit)));
+        }
+      });
+      this.pools.start();
+      this.wallet.start();
+      if (this.liquidations) {
+        const liquidations = this.liquidations;
+        const head = await this.providers.getBlockNumber();
+        liquidations.backfill(head - config.strategies.liquidation.backfillBlocks, head)
+          .then(() => {
+            if (!this.stopped) liquidations.start();
+          })
+          .catch(error => this.logger.error('Liquidation backfill failed:', error));
+      }
+      this.logger.info(`MEV executor initialized on ${this.chain.name}`, {
+        submission: this.chain.submission,
+        simulationMode: this.simulator!.mode
+      });
     } catch (error) {
-      this.logger.error('Failed to initialize Flashbots:', error);
+      this.logger.error(`Failed to initialize the MEV executor on ${this.chain.name}:`, error);
       throw error;
     }
   }
 
-  async executeBundle(bundleRequest: BundleRequest): Promise<boolean> {
+  // Detaches the block listeners and loops initializeFlashbots started and waits for
+  // in-flight liquidation scans and bundle drives to finish their current step
+  async stop(): Promise<void> {
+    this.stopped = true;
+    this.pools.stop();
+    this.wallet.stop();
+    await Promise.all([this.liquidations?.stop(), this.submissions?.stop()]);
+  }
+
+  // Starts multi-block submission; the returned record is updated as blocks settle.
+  // Throws RiskViolation when the risk layer refuses the bundle, and whatever decoding
+  // the transactions threw when they are not valid signed transactions.
+  async executeBundle(bundleRequest: BundleRequest): Promise<BundleSubmission | null> {
+    try {
+      await this.risk.checkBundle(await this.bundleRiskInput(bundleRequest));
+    } catch (error) {
+      if (error instanceof RiskViolation) {
+        this.logger.warn('Bundle rejected by risk checks:', error.message);
+        bundleRequests.inc({ chain: this.chain.name, outcome: 'risk_rejected' });
+      } else {
+        this.logger.error('Bundle could not be checked:', error);
+        bundleRequests.inc({ chain: this.chain.name, outcome: 'failed' });
+      }
+      await this.releaseNonces(bundleRequest.transactions);
+      throw error;
+    }
+
     try {
-      const bundle = await this.flashbotsProvider.sendBundle(
+      if (!this.submissions) {
+        throw new Error('Bundle submission manager not initialized');
+      }
+
+      const submission = await this.submissions.submit(
         bundleRequest.transactions,
-        bundleRequest.blockNumber
+        bundleRequest.blockNumber,
+        bundleRequest.opportunity && {
+          id: bundleRequest.opportunity.id,
+          type: bundleRequest.opportunity.type,
+          bidShare: bundleRequest.opportunity.bid?.share,
+          profitTokens: bundleRequest.opportunity.profitTokens
+        }
       );
+      this.logger.info('Bundle submitted', {
+        bundleId: submission.id,
+        firstBlock: submission.firstBlock,
+        lastBlock: submission.lastBlock
+      });
+      bundleRequests.inc({ chain: this.chain.name, outcome: 'submitted' });
+      return submission;
+    } catch (error) {
+      this.logger.error('Bundle execution failed:', error);
+      bundleRequests.inc({ chain: this.chain.name, outcome: 'failed' });
+      await this.releaseNonces(bundleRequest.transactions);
+      return null;
+    }
+  }
+
+  // Every submission, per-block simulation/relay attempt and final outcome goes to the ledger
+  private recordBundleLifecycle(submissions: BundleSubmissionManager): void {
+    submissions.on('submitted', (submission: BundleSubmission) => this.ledger.record({
+      kind: 'submission',
+      chain: submission.chain,
+      bundleId: submission.id,
+      opportunityId: submission.opportunityId,
+      type: submission.opportunityType,
+      status: submission.status,
+      blockNumber: submission.firstBlock,
+      data: {
+        firstBlock: submission.firstBlock,
+        lastBlock: submission.lastBlock,
+        transactions: submission.transactions
+      }
+    }));
 
-      const simulation = await bundle.simulate();
-      
-      if (simulation.firstRevert) {
-        this.logger.warn('Bundle simulation failed:', simulation.firstRevert);
-        return false;
+    submissions.on('attempt', (submission: BundleSubmission, attempt: BundleAttempt) => this.ledger.record({
+      kind: 'simulation',
+      chain: submission.chain,
+      bundleId: submission.id,
+      opportunityId: submission.opportunityId,
+      type: submission.opportunityType,
+      blockNumber: attempt.blockNumber,
+      data: { ...attempt }
+    }));
+
+    submissions.on('settled', (submission: BundleSubmission) => this.ledger.record({
+      kind: 'outcome',
+      chain: submission.chain,
+      bundleId: submission.id,
+      opportunityId: submission.opportunityId,
+      type: submission.opportunityType,
+      status: submission.status,
+      blockNumber: submission.includedBlock ?? submission.lastBlock,
+      data: {
+        includedBlock: submission.includedBlock,
+        includedBy: submission.includedBy,
+        gasUsed: submission.gasUsed,
+        gasCost: submission.gasCost,
+        realizedProfit: submission.realizedProfit,
+        realizedProfitEth: submission.realizedProfit
+          && ethers.formatEther(this.toEth(ethers.parseEther(submission.realizedProfit))),
+        attempts: submission.attempts.length
       }
+    }));
+  }
 
-      this.logger.info('Bundle simulation success:', {
-        gasUsed: simulation.totalGasUsed.toString(),
-        ethSentToCoinbase: simulation.totalEthSentToCoinbase.toString()
+  // Builder outcomes of bundles the bidder priced. Only builders that accepted the bundle
+  // count as outbidding us; a block from one we never reached says nothing about the bid.
+  private learnBids(submissions: BundleSubmissionManager): void {
+    submissions.on('attempt', (submission: BundleSubmission, attempt: BundleAttempt) => {
+      const builder = attempt.blockBuilder;
+      if (submission.bidShare === undefined || !builder) return;
+      if (attempt.relays.some(result => result.accepted && result.relay === builder)) {
+        this.bidder.recordLoss(builder, submission.bidShare);
+      }
+    });
+
+    submissions.on('settled', (submission: BundleSubmission) => {
+      if (submission.bidShare !== undefined && submission.status === 'included' && submission.includedBy) {
+        this.bidder.recordInclusion(submission.includedBy, submission.bidShare);
+      }
+    });
+  }
+
+  private recordOpportunities(opportunities: MEVOpportunity[]): MEVOpportunity[] {
+    this.detected.push(...opportunities);
+    this.detected.splice(0, this.detected.length - DETECTED_HISTORY);
+    for (const opportunity of opportunities) {
+      opportunitiesDetected.inc({ chain: this.chain.name, type: opportunity.type });
+      this.ledger.record({
+        kind: 'opportunity',
+        chain: this.chain.name,
+        opportunityId: opportunity.id,
+        type: opportunity.type,
+        blockNumber: opportunity.targetBlock,
+        data: { ...opportunity }
       });
+    }
+    return opportunities;
+  }
+
+  // What the scanner found most recently, newest first. Reading them neither scans nor
+  // signs, so it reserves no nonces and records nothing.
+  getDetectedOpportunities(): MEVOpportunity[] {
+    return [...this.detected].reverse();
+  }
+
+  getSubmission(bundleId: string): BundleSubmission | undefined {
+    return this.submissions?.getSubmission(bundleId);
+  }
+
+  // Builder relays on relay chains; the single sequencer/mempool sender elsewhere
+  getRelayStats(): RelayStats[] {
+    return this.transport.getStats();
+  }
+
+  // Next-block base fee prediction, current bid share and per-builder bid history
+  async getGasStatus() {
+    const baseFee = await this.bidder.nextBaseFee();
+    return {
+      mode: this.bidder.mode,
+      nextBaseFeeGwei: ethers.formatUnits(baseFee, 'gwei'),
+      share: this.bidder.currentShare(),
+      builders: this.bidder.getStats()
+    };
+  }
 
-      return true;
+  // Sends the flash executor's whole balance of `token` to `to` as a public transaction.
+  // Its nonce is reserved like a bundle's, for long enough to be mined; null when the
+  // contract holds none of the token.
+  async withdrawProfits(token: string, to: string): Promise<Withdrawal | null> {
+    if (!this.executor) throw new Error(`No flash executor deployed on ${this.chain.name}`);
+    const executor = this.executor;
+    const amount = await executor.balanceOf(token);
+    if (amount === 0n) return null;
+
+    const call = executor.encodeWithdraw(token, to, amount);
+    const gasLimit = await this.providers.execute(provider => provider.estimateGas({ ...call, from: this.wallet.address }));
+    const reservation = await this.wallet.nonces.reserve(1, await this.providers.getBlockNumber() + WITHDRAWAL_BLOCKS);
+    try {
+      const signed = await this.wallet.signTransaction({
+        ...call,
+        ...await this.bidder.baselineFees(),
+        gasLimit,
+        chainId: this.chain.chainId,
+        type: 2,
+        nonce: reservation.first
+      });
+      const hash = await this.providers.send('eth_sendRawTransaction', [signed]) as string;
+      this.logger.info(`Withdrawing ${amount} of ${token} from ${executor.address} to ${to} (${hash})`);
+      return { token, to, amount: amount.toString(), hash };
     } catch (error) {
-      this.logger.error('Bundle execution failed:', error);
-      return false;
+      await this.wallet.nonces.rollback(reservation);
+      throw error;
+    }
+  }
+
+  // Value, worst-case gas and slippage tolerance of our own transactions, plus what the
+  // opportunity (if any) expects, all converted to ETH for the risk limits
+  private async bundleRiskInput(bundleRequest: BundleRequest): Promise<BundleRiskInput> {
+    const address = this.wallet.address.toLowerCase();
+    const own = bundleRequest.transactions
+      .map(raw => ethers.Transaction.from(raw))
+      .filter(tx => tx.from?.toLowerCase() === address);
+    let notional = own.reduce((total, tx) => total + tx.value, 0n);
+    const maxGasCost = own.reduce((total, tx) => total + tx.gasLimit * (tx.maxFeePerGas ?? tx.gasPrice ?? 0n), 0n);
+    const slippagePercent = await this.swapSlippage(own);
+
+    const opportunity = bundleRequest.opportunity;
+    if (!opportunity) {
+      return { strategy: 'manual', notional: this.toEth(notional), maxGasCost: this.toEth(maxGasCost), tokens: [], slippagePercent };
+    }
+
+    if (opportunity.amountIn) {
+      const amountIn = ethers.parseEther(opportunity.amountIn);
+      if (amountIn > notional) notional = amountIn;
     }
+    const weth = this.chain.wrappedNative.toLowerCase();
+    const tokens = swapTokens(opportunity.swaps).filter(token => token !== weth);
+    return {
+      strategy: opportunity.type,
+      notional: this.toEth(notional),
+      maxGasCost: this.toEth(maxGasCost),
+      expectedProfit: this.toEth(ethers.parseEther(opportunity.profit)),
+      tokens,
+      slippagePercent
+    };
   }
 
+  // Loosest tolerance among our exact-input router swaps: how far below the output quoted
+  // against current pool state each swap's minimum lets it fill. Swaps through unknown
+  // pools, and the flash executor's internal legs, are not covered.
+  private async swapSlippage(own: ethers.Transaction[]): Promise<number | undefined> {
+    let worst: number | undefined;
+    for (const swap of own.flatMap(tx => decodeSwapTransaction(tx, routerRegistry(this.chain)))) {
+      if (!swap.exactInput) continue;
+
+      let quoted: bigint | null = BigInt(swap.amountIn);
+      for (let hop = 0; hop < swap.path.length - 1 && quoted !== null; hop++) {
+        const hopSwap = { ...swap, path: [swap.path[hop], swap.path[hop + 1]], fees: swap.fees.slice(hop, hop + 1) };
+        const pool = await this.pools.resolveSwapPool(hopSwap);
+        try {
+          quoted = pool ? quoteExactInput(pool, swap.path[hop], quoted).amountOut : null;
+        } catch {
+          quoted = null;
+        }
+      }
+      if (!quoted) continue;
+
+      const tolerance = Number((quoted - BigInt(swap.amountOut)) * 10000n / quoted) / 100;
+      worst = worst === undefined ? tolerance : Math.max(worst, tolerance);
+    }
+    return worst;
+  }
+
+  // Hands a bundle's nonces back to the wallet once it will not be submitted
+  async releaseNonces(signedTransactions: string[]): Promise<void> {
+    try {
+      const nonces = this.wallet.ownNonces(signedTransactions);
+      if (nonces.length > 0) {
+        await this.wallet.nonces.rollbackNonces(nonces);
+      }
+    } catch (error) {
+      this.logger.error('Failed to release bundle nonces:', error);
+    }
+  }
+
+  // Sandwiches a pending swap at a front-run size (in the native coin) picked by the
+  // operator; null when the swap cannot be sandwiched at that size or would not pay for it
   async createSandwichBundle(targetTx: string, amountIn: string): Promise<BundleRequest | null> {
+    if (!this.canSandwich) {
+      this.logger.warn(`Sandwiches need relay submission; ${this.chain.name} uses ${this.chain.submission}`, { targetTx });
+      return null;
+    }
     try {
-      // Front-run transaction
-      const frontRunTx = await this.createFrontRunTransaction(targetTx, amountIn);
-      // Back-run transaction  
-      const backRunTx = await this.createBackRunTransaction(targetTx, amountIn);
-
-      const currentBlock = await this.provider.getBlockNumber();
-      
-      // Sign transactions with the executor's wallet
-      // NOTE: In a real application, you might use a separate signer/wallet here
-      const signedFrontRunTx = await this.wallet.signTransaction(frontRunTx);
-      const signedBackRunTx = await this.wallet.signTransaction(backRunTx);
-      
-      return {
-        transactions: [signedFrontRunTx, signedBackRunTx],
-        blockNumber: currentBlock + 1
-      };
+      const victim = await this.providers.execute(provider => provider.getTransaction(targetTx));
+      if (!victim || victim.blockNumber !== null) {
+        this.logger.warn('Sandwich target is not a pending transaction', { targetTx });
+        return null;
+      }
+
+      const swaps = decodeSwapTransaction(victim, routerRegistry(this.chain));
+      if (swaps.length === 0 || this.tokens.blockedTokens(swapTokens(swaps)).length > 0) {
+        this.logger.warn('Sandwich target is not a swap through tradable tokens', { targetTx });
+        return null;
+      }
+
+      const baseFee = await this.bidder.nextBaseFee();
+      const estimate = await this.detector.quoteSandwich(swaps[0], ethers.parseEther(amountIn), baseFee);
+      const built = estimate ? await this.walletSandwichCalls(estimate) : null;
+      if (!built) {
+        this.logger.warn('Sandwich does not pay for itself at this size', { targetTx, amountIn });
+        return null;
+      }
+
+      const targetBlock = await this.providers.getBlockNumber() + 1;
+      return { transactions: await this.signSandwich(victim, built, targetBlock), blockNumber: targetBlock };
     } catch (error) {
       this.logger.error('Failed to create sandwich bundle:', error);
       return null;
     }
   }
 
-  private async createFrontRunTransaction(targetTx: string, amountIn: string): Promise<ethers.TransactionRequest> {
-    // Implementation for front-run transaction
-    const gasPrice = await this.provider.getFeeData();
-    
-    return {
-      to: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D", // Uniswap V2 Router
-      data: "0x...", // Swap function data
-      gasLimit: 200000,
-      maxFeePerGas: gasPrice.maxFeePerGas || ethers.parseUnits("50", "gwei"),
-      maxPriorityFeePerGas: gasPrice.maxPriorityFeePerGas || ethers.parseUnits("2", "gwei"),
-      value: ethers.parseEther(amountIn),
-      chainId: 1,
-      from: this.wallet.address,
-      nonce: await this.provider.getTransactionCount(this.wallet.address)
-    } as ethers.TransactionRequest;
-  }
-
-  private async createBackRunTransaction(targetTx: string, amountIn: string): Promise<ethers.TransactionRequest> {
-    // Implementation for back-run transaction
-    const gasPrice = await this.provider.getFeeData();
-    
-    return {
-      to: "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D", // Uniswap V2 Router
-      data: "0x...", // Swap back function data
-      gasLimit: 200000,
-      maxFeePerGas: gasPrice.maxFeePerGas || ethers.parseUnits("50", "gwei"),
-      maxPriorityFeePerGas: gasPrice.maxPriorityFeePerGas || ethers.parseUnits("2", "gwei"),
-      value: 0,
-      chainId: 1,
-      from: this.wallet.address,
-      nonce: await this.provider.getTransactionCount(this.wallet.address) + 1 // Ensure higher nonce for sequential execution
-    } as ethers.TransactionRequest;
-  }
-
   async scanMEVOpportunities(): Promise<MEVOpportunity[]> {
     const opportunities: MEVOpportunity[] = [];
+    const observeScan = scanDuration.startTimer({ chain: this.chain.name });
     
     try {
       // Scan pending transactions for MEV opportunities
-      const pendingBlock = await this.provider.send("eth_getBlockByNumber", ["pending", true]);
-      
-      if (pendingBlock && pendingBlock.transactions) {
-        // Iterate over the first 10 pending transactions
-        for (const tx of pendingBlock.transactions.slice(0, 10)) {
-          if (typeof tx !== 'string') { // Ensure tx is a full transaction object if using Ethers 6 provider.send
-            const opportunity = await this.analyzeTransaction(tx.hash);
-            if (opportunity) {
-              opportunities.push(opportunity);
-            }
-          }
+      const pendingBlock = await this.providers.send("eth_getBlockByNumber", ["pending", true]);
+      const transactions = typeof pendingBlock === 'object' && pendingBlock !== null && 'transactions' in pendingBlock &&
+        Array.isArray(pendingBlock.transactions) ? pendingBlock.transactions as unknown[] : [];
+
+      // Iterate over the first 10 pending transactions; full objects, since hydration was requested
+      for (const tx of transactions.slice(0, 10)) {
+        if (typeof tx === 'object' && tx !== null && 'hash' in tx && typeof tx.hash === 'string') {
+          pendingTransactionsSeen.inc({ chain: this.chain.name, source: 'pending-block' });
+          opportunities.push(...await this.analyzeTransaction(tx.hash));
         }
       }
+
+      opportunities.push(...await this.createLiquidationOpportunities());
     } catch (error) {
       this.logger.error('MEV scanning failed:', error);
     }
 
+    observeScan();
     return opportunities;
   }
 
-  private async analyzeTransaction(txHash: string): Promise<MEVOpportunity | null> {
+  private async analyzeTransaction(txHash: string): Promise<MEVOpportunity[]> {
+    try {
+      const tx = await this.providers.execute(provider => provider.getTransaction(txHash));
+      return tx ? await this.analyzePendingTransaction(tx) : [];
+    } catch (error) {
+      this.logger.error('Transaction analysis failed:', error);
+      return [];
+    }
+  }
+
+  // Entry point for streamed mempool transactions, which arrive already fetched
+  async analyzePendingTransaction(tx: ethers.TransactionResponse): Promise<MEVOpportunity[]> {
     try {
-      const tx = await this.provider.getTransaction(txHash);
-      if (!tx || !tx.to) return null;
+      if (!tx.to) return [];
 
-      // Check if it's a DEX transaction
-      const dexAddresses = [
-        "0x7a250d5630B4cF539739dF2C5dAcb4c659F2488D", // Uniswap V2 Router
-        "0xE592427A0AEce92De3Edee1F18E0157C05861564", // Uniswap V3 Router
-      ].map(addr => addr.toLowerCase());
+      const swaps = decodeSwapTransaction(tx, routerRegistry(this.chain));
+      if (swaps.length === 0) return [];
 
-      if (tx.to && dexAddresses.includes(tx.to.toLowerCase())) {
-        return {
-          type: 'sandwich',
-          profit: "0.1", // Estimated profit in ETH
-          transactions: [], // Transactions array would be populated after sandwich creation
-          targetBlock: await this.provider.getBlockNumber() + 1
-        };
+      // A leg through a honeypot or fee-taking token would not settle as simulated
+      const blocked = this.tokens.blockedTokens(swapTokens(swaps));
+      if (blocked.length > 0) {
+        const reason = blocked.some(token => token.reason === 'flagged') ? 'flagged' : 'unscreened';
+        swapsSkipped.inc({ chain: this.chain.name, reason });
+        this.logger.debug('Skipping swap through blocked tokens', { txHash: tx.hash, tokens: blocked });
+        return [];
       }
 
-      return null;
+      // The detector nets out the base fee only; the builder's share is bid below
+      await this.refreshEthRate();
+      const baseFee = await this.bidder.nextBaseFee();
+      const { sandwich: estimate, arbitrage: plan } = await this.detector.detect(swaps, baseFee);
+
+      const opportunities: MEVOpportunity[] = [];
+      const { sandwich, arbitrage: arbitrageSettings } = config.strategies;
+      const targetBlock = await this.providers.getBlockNumber() + 1;
+
+      if (estimate && sandwich.enabled && this.canSandwich) {
+        const opportunity = await this.createSandwichOpportunity(tx, swaps, estimate, targetBlock);
+        if (opportunity) opportunities.push(opportunity);
+      }
+
+      if (plan && arbitrageSettings.enabled) {
+        const arbitrage = await this.createArbitrageOpportunity(tx, swaps, plan, targetBlock);
+        if (arbitrage) opportunities.push(arbitrage);
+      }
+
+      return this.recordOpportunities(opportunities);
     } catch (error) {
       this.logger.error('Transaction analysis failed:', error);
+      return [];
+    }
+  }
+
+  // Backrun bundle: the victim transaction followed by our buy/sell legs across the two
+  // pools, sent from the wallet or, with strategies.arbitrage.flashLoan, as one executor call
+  private async createArbitrageOpportunity(
+    victim: ethers.TransactionResponse,
+    swaps: SwapDescriptor[],
+    plan: ArbitragePlan,
+    targetBlock: number
+  ): Promise<MEVOpportunity | null> {
+    const executor = this.flashExecutor('arbitrage');
+    const built = executor ? await this.flashArbitrageCalls(executor, plan) : await this.walletArbitrageCalls(plan);
+    if (!built) return null;
+    const { calls, bid } = built;
+
+    // Checked before reserving, so a dropped backrun never holds nonces
+    if (this.toEth(bid.netProfit) < minProfit('arbitrage')) {
+      this.logger.debug('Arbitrage below profit threshold', {
+        txHash: victim.hash,
+        netProfit: ethers.formatEther(bid.netProfit)
+      });
+      return null;
+    }
+
+    const payment = this.bidder.coinbasePaymentCall(bid);
+    if (payment) calls.push(payment);
+    const signed = await this.signCalls(calls, bid, targetBlock);
+
+    return {
+      id: randomUUID(),
+      chain: this.chain.name,
+      type: 'arbitrage',
+      profit: ethers.formatEther(bid.netProfit),
+      profitEth: ethers.formatEther(this.toEth(bid.netProfit)),
+      targetTxHash: victim.hash,
+      swaps,
+      tokens: this.tokens.refs(swapTokens(swaps)),
+      amountIn: ethers.formatEther(plan.amountIn),
+      transactions: [ethers.Transaction.from(victim).serialized, ...signed],
+      targetBlock,
+      bid: summarizeBid(bid)
+    };
+  }
+
+  // Sandwich found by the scanner: priced with our buy in the victim's pool just ahead of
+  // it and the sale of everything bought right behind it, but left unsigned
+  private async createSandwichOpportunity(
+    victim: ethers.TransactionResponse,
+    swaps: SwapDescriptor[],
+    estimate: SandwichEstimate,
+    targetBlock: number
+  ): Promise<MEVOpportunity | null> {
+    const built = await this.walletSandwichCalls(estimate);
+    if (!built || this.toEth(built.bid.netProfit) < minProfit('sandwich')) {
+      this.logger.debug('Sandwich below profit threshold', {
+        txHash: victim.hash,
+        netProfit: ethers.formatEther(built?.bid.netProfit ?? estimate.netProfit)
+      });
+      return null;
+    }
+
+    return {
+      id: randomUUID(),
+      chain: this.chain.name,
+      type: 'sandwich',
+      profit: ethers.formatEther(built.bid.netProfit), // Estimated profit, net of gas and builder bid
+      profitEth: ethers.formatEther(this.toEth(built.bid.netProfit)),
+      targetTxHash: victim.hash,
+      swaps,
+      tokens: this.tokens.refs(swapTokens(swaps)),
+      amountIn: ethers.formatEther(estimate.amountIn),
+      transactions: [],
+      targetBlock,
+      bid: summarizeBid(built.bid)
+    };
+  }
+
+  // Front-run (plus an approval when the router cannot spend the token yet), then the
+  // back-run and the builder payment. The front-run must buy exactly as much as was sized,
+  // and the back-run reverts the bundle unless it returns the stake, gas and bid.
+  private async walletSandwichCalls(estimate: SandwichEstimate): Promise<SandwichCalls | null> {
+    const weth = this.chain.wrappedNative;
+    const deadline = Math.floor(Date.now() / 1000) + DEADLINE_SECONDS;
+    const router = swapRouter(this.chain, estimate.pool.dex).address;
+
+    const calls: Array<EncodedCall & { gasLimit: bigint }> = [{
+      ...encodeExactInputSwap(this.chain, {
+        pool: estimate.pool,
+        tokenIn: weth,
+        tokenOut: estimate.token,
+        amountIn: estimate.amountIn,
+        amountOutMin: estimate.tokenAmount,
+        recipient: this.wallet.address,
+        deadline,
+        payWithEth: true
+      }),
+      gasLimit: SWAP_GAS_LIMIT
+    }];
+
+    const allowance = await this.providers.execute(provider =>
+      getAllowance(provider, estimate.token, this.wallet.address, router));
+    if (allowance < estimate.tokenAmount) {
+      calls.push({ ...encodeApprove(estimate.token, router, ethers.MaxUint256), gasLimit: APPROVE_GAS_LIMIT });
+    }
+    const ahead = calls.length;
+
+    const bid = await this.bidder.bid(estimate.grossProfit, calls.reduce((total, call) => total + call.gasLimit, SWAP_GAS_LIMIT));
+    if (!bid) return null;
+    calls.push({
+      ...encodeExactInputSwap(this.chain, {
+        pool: estimate.pool,
+        tokenIn: estimate.token,
+        tokenOut: weth,
+        amountIn: estimate.tokenAmount,
+        amountOutMin: estimate.amountIn + bid.totalCost,
+        recipient: this.wallet.address,
+        deadline
+      }),
+      gasLimit: SWAP_GAS_LIMIT
+    });
+    const payment = this.bidder.coinbasePaymentCall(bid);
+    if (payment) calls.push(payment);
+    return { calls, bid, ahead };
+  }
+
+  // Our signed legs with the victim's transaction in between
+  private async signSandwich(victim: ethers.TransactionResponse, built: SandwichCalls, targetBlock: number): Promise<string[]> {
+    const signed = await this.signCalls(built.calls, built.bid, targetBlock);
+    return [...signed.slice(0, built.ahead), ethers.Transaction.from(victim).serialized, ...signed.slice(built.ahead)];
+  }
+
+  // Signs the calls at the bid's fees with freshly reserved, consecutive nonces; the
+  // reservation is handed back if any of them cannot be signed
+  private async signCalls(calls: Array<EncodedCall & { gasLimit: bigint }>, bid: GasBid, targetBlock: number): Promise<string[]> {
+    const reservation = await this.wallet.nonces.reserve(calls.length, targetBlock);
+    try {
+      return await Promise.all(calls.map((call, i) => this.wallet.signTransaction({
+        ...call,
+        ...this.feeFields(bid),
+        chainId: this.chain.chainId,
+        type: 2,
+        nonce: reservation.first + i
+      })));
+    } catch (error) {
+      await this.wallet.nonces.rollback(reservation);
+      throw error;
+    }
+  }
+
+  private async walletArbitrageCalls(plan: ArbitragePlan): Promise<PricedCalls | null> {
+    const weth = this.chain.wrappedNative;
+    const deadline = Math.floor(Date.now() / 1000) + DEADLINE_SECONDS;
+    const sellRouter = swapRouter(this.chain, plan.sellPool.dex).address;
+
+    const calls: Array<EncodedCall & { gasLimit: bigint }> = [{
+      ...encodeExactInputSwap(this.chain, {
+        pool: plan.buyPool,
+        tokenIn: weth,
+        tokenOut: plan.token,
+        amountIn: plan.amountIn,
+        amountOutMin: plan.tokenAmount,
+        recipient: this.wallet.address,
+        deadline,
+        payWithEth: true
+      }),
+      gasLimit: SWAP_GAS_LIMIT
+    }];
+
+    const allowance = await this.providers.execute(provider =>
+      getAllowance(provider, plan.token, this.wallet.address, sellRouter));
+    if (allowance < plan.tokenAmount) {
+      calls.push({ ...encodeApprove(plan.token, sellRouter, ethers.MaxUint256), gasLimit: APPROVE_GAS_LIMIT });
+    }
+
+    const bid = await this.bidder.bid(plan.grossProfit, calls.reduce((total, call) => total + call.gasLimit, SWAP_GAS_LIMIT));
+    if (!bid) return null;
+    calls.push({
+      ...encodeExactInputSwap(this.chain, {
+        pool: plan.sellPool,
+        tokenIn: plan.token,
+        tokenOut: weth,
+        amountIn: plan.tokenAmount,
+        // Revert the whole bundle unless the cycle pays for its own gas and bid
+        amountOutMin: plan.amountIn + bid.totalCost,
+        recipient: this.wallet.address,
+        deadline
+      }),
+      gasLimit: SWAP_GAS_LIMIT
+    });
+    return { calls, bid };
+  }
+
+  // The executor borrows plan.amountIn WETH, buys through one pool, sells everything it
+  // bought through the other and repays; it reverts unless gas and bid are left over
+  private async flashArbitrageCalls(
+    executor: FlashExecutorClient,
+    plan: ArbitragePlan
+  ): Promise<PricedCalls | null> {
+    const weth = this.chain.wrappedNative;
+    const deadline = Math.floor(Date.now() / 1000) + DEADLINE_SECONDS;
+    const loan = await executor.borrow(weth, plan.amountIn, [plan.buyPool.address, plan.sellPool.address]);
+    const steps = [
+      ...swapSteps(this.chain, {
+        pool: plan.buyPool,
+        tokenIn: weth,
+        tokenOut: plan.token,
+        amountIn: plan.amountIn,
+        amountOutMin: plan.tokenAmount,
+        recipient: executor.address,
+        deadline
+      }),
+      ...swapSteps(this.chain, {
+        pool: plan.sellPool,
+        tokenIn: plan.token,
+        tokenOut: weth,
+        amountIn: plan.tokenAmount,
+        amountOutMin: 0n,
+        recipient: executor.address,
+        deadline
+      }, true)
+    ];
+
+    const gasLimit = FLASH_LOAN_GAS + 2n * (SWAP_GAS_LIMIT + APPROVE_GAS_LIMIT);
+    const bid = await this.bidder.bid(plan.grossProfit - loan.fee, gasLimit);
+    if (!bid) return null;
+    return { calls: [{ ...executor.encodeExecute(loan, steps, weth, bid.totalCost), gasLimit }], bid };
+  }
+
+  // Signed liquidation bundles for every currently liquidatable position worth its gas
+  async createLiquidationOpportunities(): Promise<MEVOpportunity[]> {
+    const liquidations = this.liquidations;
+    if (!liquidations) return [];
+    const candidates = liquidations.getCandidates();
+    if (candidates.length === 0) return [];
+
+    await this.refreshEthRate();
+    const nativePriceUsd = await liquidations.getNativePriceUsd();
+    const baseFee = await this.bidder.nextBaseFee();
+    const targetBlock = await this.providers.getBlockNumber() + 1;
+
+    const executor = this.flashExecutor('liquidation');
+    const profitable: LiquidationCalls[] = [];
+    for (const candidate of candidates) {
+      const entry = executor
+        ? await this.flashLiquidationCalls(executor, liquidations, candidate, baseFee)
+        : this.walletLiquidationCalls(liquidations, candidate, nativePriceUsd, baseFee);
+      if (!entry || this.toEth(entry.bid.netProfit) < minProfit('liquidation')) continue;
+      const payment = this.bidder.coinbasePaymentCall(entry.bid);
+      if (payment) entry.calls.push(payment);
+      profitable.push(entry);
+    }
+    if (profitable.length === 0) return [];
+
+    // Each candidate is an alternative bundle, so all of them share one reservation
+    const reservation = await this.wallet.nonces.reserve(
+      Math.max(...profitable.map(({ calls }) => calls.length)),
+      targetBlock
+    );
+
+    const opportunities: MEVOpportunity[] = [];
+    try {
+      for (const { calls, bid, profitTokens } of profitable) {
+        const transactions = await Promise.all(calls.map((call, i) => this.wallet.signTransaction({
+          ...call,
+          ...this.feeFields(bid),
+          chainId: this.chain.chainId,
+          type: 2,
+          nonce: reservation.first + i
+        })));
+
+        opportunities.push({
+          id: randomUUID(),
+          chain: this.chain.name,
+          type: 'liquidation',
+          profit: ethers.formatEther(bid.netProfit),
+          profitEth: ethers.formatEther(this.toEth(bid.netProfit)),
+          swaps: [],
+          transactions,
+          targetBlock,
+          bid: summarizeBid(bid),
+          profitTokens
+        });
+      }
+    } catch (error) {
+      await this.wallet.nonces.rollback(reservation);
+      throw error;
+    }
+
+    return this.recordOpportunities(opportunities);
+  }
+
+  // Repays the debt from the wallet, which must hold the debt asset and have approved the
+  // market. The wallet pays in the debt asset and receives the collateral.
+  private walletLiquidationCalls(
+    liquidations: LiquidationEngine,
+    candidate: LiquidationCandidate,
+    nativePriceUsd: number,
+    baseFee: bigint
+  ): LiquidationCalls | null {
+    const calls: Array<EncodedCall & { gasLimit: bigint }> = liquidations
+      .buildLiquidationCall(candidate, this.wallet.address)
+      .map(call => ({ ...call, gasLimit: LIQUIDATION_GAS_LIMIT }));
+    const bonus = ethers.parseEther((candidate.expectedBonusUsd / nativePriceUsd).toFixed(18));
+    const bid = this.bidder.price(bonus, LIQUIDATION_GAS_LIMIT * BigInt(calls.length), baseFee);
+    return bid && { calls, bid, profitTokens: [candidate.debtAsset, candidate.collateralAsset] };
+  }
+
+  // The executor borrows the debt asset, liquidates, sells the seized collateral back into
+  // the debt asset and repays. Profit is what the sale quotes above debt and loan fee, and
+  // stays in the debt asset, which the executor sends to the owner; it reverts unless the
+  // profit covers gas and bid.
+  private async flashLiquidationCalls(
+    executor: FlashExecutorClient,
+    liquidations: LiquidationEngine,
+    candidate: LiquidationCandidate,
+    baseFee: bigint
+  ): Promise<LiquidationCalls | null> {
+    try {
+      const deadline = Math.floor(Date.now() / 1000) + DEADLINE_SECONDS;
+      const route = await planRoute(
+        this.chain, this.pools, candidate.collateralAsset, candidate.debtAsset, candidate.expectedCollateral, executor.address, deadline
+      );
+      const [debt, price] = await Promise.all([this.tokens.resolve(candidate.debtAsset), this.tokens.price(candidate.debtAsset)]);
+      if (!route || !price) return null;
+
+      const loan = await executor.borrow(candidate.debtAsset, candidate.debtToCover, route.pools.map(pool => pool.address));
+      const surplus = route.amountOut - candidate.debtToCover - loan.fee;
+      if (surplus <= 0n) return null;
+      const liquidationCalls = liquidations.buildLiquidationCall(candidate, executor.address);
+      const steps = [
+        approveStep(candidate.debtAsset, candidate.market, candidate.debtToCover),
+        ...liquidationCalls.map(callStep),
+        ...route.steps
+      ];
+
+      const gasLimit = FLASH_LOAN_GAS + APPROVE_GAS_LIMIT + LIQUIDATION_GAS_LIMIT * BigInt(liquidationCalls.length) +
+        BigInt(route.pools.length) * (SWAP_GAS_LIMIT + APPROVE_GAS_LIMIT);
+      const grossProfit = ethers.parseEther((Number(ethers.formatUnits(surplus, debt.decimals)) * price.native).toFixed(18));
+      const bid = this.bidder.price(grossProfit, gasLimit, baseFee);
+      if (!bid) return null;
+      const floor = ethers.parseUnits(
+        (Number(ethers.formatEther(bid.totalCost)) / price.native).toFixed(debt.decimals), debt.decimals
+      );
+      return {
+        calls: [{ ...executor.encodeExecute(loan, steps, candidate.debtAsset, floor), gasLimit }],
+        bid,
+        profitTokens: [candidate.debtAsset]
+      };
+    } catch (error) {
+      this.logger.warn(`Cannot flash-fund the liquidation of ${candidate.borrower}:`, error);
       return null;
     }
   }
 
-  async getBundleStats(bundleHash: string): Promise<any> {
+  // Submits a fully built opportunity through the regular bundle path
+  async executeOpportunity(opportunity: MEVOpportunity): Promise<BundleSubmission | null> {
+    if (opportunity.transactions.length === 0) {
+      this.logger.warn('Opportunity has no signed transactions', { type: opportunity.type });
+      return null;
+    }
+    return this.executeBundle({
+      transactions: opportunity.transactions,
+      blockNumber: opportunity.targetBlock,
+      opportunity
+    });
+  }
+
+  // The executor when `strategy` is flash-loan funded on this chain; null trades from the wallet
+  private flashExecutor(strategy: 'arbitrage' | 'liquidation'): FlashExecutorClient | null {
+    return config.strategies[strategy].flashLoan ? this.executor : null;
+  }
+
+  private feeFields(bid: GasBid): { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint } {
+    return { maxFeePerGas: bid.maxFeePerGas, maxPriorityFeePerGas: bid.maxPriorityFeePerGas };
+  }
+
+  // A token amount (negative for a decrease) in the native coin at the registry's price
+  private async nativeValue(token: string, amount: bigint): Promise<bigint | null> {
     try {
-      const result = await this.flashbotsProvider.getBundleStats(bundleHash);
+      const [info, price] = await Promise.all([this.tokens.resolve(token), this.tokens.price(token)]);
+      if (!price) return null;
+      return ethers.parseEther((Number(ethers.formatUnits(amount, info.decimals)) * price.native).toFixed(18));
+    } catch (error) {
+      this.logger.warn(`Cannot price ${token}:`, error instanceof Error ? error.message : error);
+      return null;
+    }
+  }
+
+  private toEth(amount: bigint): bigint {
+    const rate = this.ethRate.value;
+    return rate === 1 ? amount : amount * BigInt(Math.round(rate * RATE_PRECISION)) / BigInt(RATE_PRECISION);
+  }
+
+  // Native/USD over ETH/USD from the chain's Chainlink feeds, at most once a minute.
+  // Chains without feeds (native coin is ETH) keep 1; a failed read keeps the last rate.
+  private async refreshEthRate(): Promise<void> {
+    const { nativeUsd, ethUsd } = this.chain.priceFeeds;
+    if (!nativeUsd || !ethUsd || Date.now() - this.ethRate.at < ETH_RATE_TTL_MS) return;
+    try {
+      const [native, eth] = await this.providers.execute(provider => Promise.all([nativeUsd, ethUsd].map(feed =>
+        new ethers.Contract(feed, CHAINLINK_AGGREGATOR_ABI, provider).latestRoundData())));
+      // Both feeds quote USD with the same decimals
+      this.ethRate = { value: Number(native.answer) / Number(eth.answer), at: Date.now() };
+    } catch (error) {
+      this.logger.warn(`Could not refresh the ${this.chain.nativeSymbol}/ETH rate, keeping ${this.ethRate.value}:`,
+        error instanceof Error ? error.message : error);
+    }
+  }
+
+  // Builder-side stats exist only for bundles sent through the relay
+  get supportsBundleStats(): boolean {
+    return this.flashbotsProvider !== null;
+  }
+
+  // Defaults to the last block a tracked submission targeted
+  async getBundleStats(bundleHash: string, blockNumber?: number): Promise<any> {
+    try {
+      if (!this.flashbotsProvider) {
+        throw new Error(`Bundle stats are not available on ${this.chain.name} (${this.chain.submission} submission)`);
+      }
+      const targetBlock = blockNumber ?? this.getSubmission(bundleHash)?.lastBlock;
+      if (targetBlock === undefined) {
+        throw new Error(`No target block known for bundle ${bundleHash}`);
+      }
+      const result = await this.flashbotsProvider.getBundleStatsV2(bundleHash, targetBlock);
+      bundleStatsRequests.inc({ outcome: 'ok' });
       return result;
     } catch (error) {
       this.logger.error('Failed to get bundle stats:', error);
+      bundleStatsRequests.inc({ outcome: 'error' });
       return null;
     }
   }
@@ -0,0 +1,279 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { config } from './config';
+import { ProviderPool } from './provider-pool';
+import { bidShare, builderBidOutcomes } from './metrics';
+import logger from './logger';
+
+export type GasSettings = typeof config.gas;
+export type BidMode = 'priority-fee' | 'coinbase';
+
+// Fees for one bundle. Costs are in wei and cover every transaction we sign,
+// including the coinbase payment in coinbase mode.
+export interface GasBid {
+  mode: BidMode;
+  share: number; // Of the profit left after the base fee
+  baseFeePerGas: bigint; // Predicted for the target block
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+  coinbasePayment: bigint; // 0 in priority-fee mode
+  gasLimit: bigint;
+  totalCost: bigint; // At the predicted base fee
+  maxCost: bigint; // If the base fee rises all the way to maxFeePerGas; never above the gross profit
+  netProfit: bigint; // Gross profit minus totalCost
+}
+
+// JSON-safe form of a bid, attached to opportunities and reported by the API
+export interface BidSummary {
+  mode: BidMode;
+  share: number;
+  baseFeeGwei: string;
+  maxFeeGwei: string;
+  priorityFeeGwei: string;
+  coinbasePayment: string; // ETH
+  totalCost: string; // ETH
+  maxCost: string; // ETH
+}
+
+export interface BuilderBidStats {
+  builder: string; // Relay name from flashbots.relays
+  included: number;
+  lost: number; // Blocks it built without our bundle after accepting it
+  share: number; // What it has taken to land a bundle with this builder
+  updatedAt: number;
+}
+
+interface ParentBlock {
+  number: number;
+  baseFeePerGas: bigint | null;
+  gasUsed: bigint;
+  gasLimit: bigint;
+}
+
+// Extra gas for the payCoinbase() call appended in coinbase mode
+export const COINBASE_PAYMENT_GAS = 40000n;
+const COINBASE_PAYER_ABI = ['function payCoinbase() payable'];
+
+const BASE_FEE_CHANGE_DENOMINATOR = 8n;
+const ELASTICITY_MULTIPLIER = 2n;
+const SHARE_PRECISION = 10000;
+
+// EIP-1559: the base fee moves by up to 1/8 per block towards keeping blocks half full.
+// Pre-London chains have no base fee and predict 0.
+export function predictBaseFee(parent: Omit<ParentBlock, 'number'>): bigint {
+  if (parent.baseFeePerGas === null) return 0n;
+  const baseFee = parent.baseFeePerGas;
+  const target = parent.gasLimit / ELASTICITY_MULTIPLIER;
+  if (target === 0n || parent.gasUsed === target) return baseFee;
+
+  if (parent.gasUsed > target) {
+    const delta = baseFee * (parent.gasUsed - target) / target / BASE_FEE_CHANGE_DENOMINATOR;
+    return baseFee + (delta > 1n ? delta : 1n);
+  }
+  return baseFee - baseFee * (target - parent.gasUsed) / target / BASE_FEE_CHANGE_DENOMINATOR;
+}
+
+export function summarizeBid(bid: GasBid): BidSummary {
+  return {
+    mode: bid.mode,
+    share: bid.share,
+    baseFeeGwei: ethers.formatUnits(bid.baseFeePerGas, 'gwei'),
+    maxFeeGwei: ethers.formatUnits(bid.maxFeePerGas, 'gwei'),
+    priorityFeeGwei: ethers.formatUnits(bid.maxPriorityFeePerGas, 'gwei'),
+    coinbasePayment: ethers.formatEther(bid.coinbasePayment),
+    totalCost: ethers.formatEther(bid.totalCost),
+    maxCost: ethers.formatEther(bid.maxCost)
+  };
+}
+
+// Prices our bundles. The next base fee is predicted from the parent block and always
+// paid; of the profit left over, a share goes to the builder as priority fee or as a
+// direct block.coinbase transfer. maxFeePerGas leaves room for the base fee to rise
+// across the whole block window, but is clipped so that even the worst case never
+// costs more than the opportunity's gross profit. The share starts at profitShare and
+// is learned per builder: a builder that includes us at some share is offered a little
+// less next time, one that builds a block without our accepted bundle a little more.
+// The bid uses the average over builders, weighted by how many of our target blocks
+// each has built. Builder history is written to disk so it survives restarts.
+export class GasBidder {
+  private builders: Map<string, BuilderBidStats> = new Map();
+  private parent: ParentBlock | null = null;
+  private payer = new ethers.Interface(COINBASE_PAYER_ABI);
+
+  constructor(private providers: ProviderPool, private settings: GasSettings = config.gas) {
+    if (!['priority-fee', 'coinbase'].includes(settings.bidMode)) {
+      throw new Error(`Unknown GAS_BID_MODE '${settings.bidMode}' (expected priority-fee or coinbase)`);
+    }
+    if (settings.bidMode === 'coinbase' && !settings.coinbasePayer) {
+      throw new Error('gas.bidMode coinbase needs gas.coinbasePayer (COINBASE_PAYER_ADDRESS)');
+    }
+    if (!(settings.minProfitShare <= settings.profitShare && settings.profitShare <= settings.maxProfitShare)) {
+      throw new Error('gas.profitShare must lie between gas.minProfitShare and gas.maxProfitShare');
+    }
+    this.load();
+    bidShare.set({ chain: this.providers.chain }, this.currentShare());
+  }
+
+  get mode(): BidMode {
+    return this.settings.bidMode;
+  }
+
+  // Base fee of the block after the current head; the head is fetched once per block
+  async nextBaseFee(): Promise<bigint> {
+    const head = await this.providers.getBlockNumber();
+    if (!this.parent || this.parent.number !== head) {
+      const block = await this.providers.execute(provider => provider.getBlock(head));
+      if (!block) throw new Error(`Block ${head} not available for base fee prediction`);
+      this.parent = { number: block.number, baseFeePerGas: block.baseFeePerGas, gasUsed: block.gasUsed, gasLimit: block.gasLimit };
+    }
+    return predictBaseFee(this.parent);
+  }
+
+  // Fees for transactions whose profit we do not know (manual bundles): the minimum tip
+  async baselineFees(): Promise<{ maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }> {
+    const priorityFee = this.minPriorityFee();
+    return { maxFeePerGas: this.maxBaseFee(await this.nextBaseFee()) + priorityFee, maxPriorityFeePerGas: priorityFee };
+  }
+
+  // `gasLimit` covers the strategy's own transactions; null when the opportunity cannot pay
+  // the base fee and the minimum tip
+  async bid(grossProfit: bigint, gasLimit: bigint): Promise<GasBid | null> {
+    return this.price(grossProfit, gasLimit, await this.nextBaseFee());
+  }
+
+  price(grossProfit: bigint, gasLimit: bigint, baseFeePerGas: bigint): GasBid | null {
+    const mode = this.settings.bidMode;
+    const totalGas = mode === 'coinbase' ? gasLimit + COINBASE_PAYMENT_GAS : gasLimit;
+    const baseCost = totalGas * baseFeePerGas;
+    const surplus = grossProfit - baseCost;
+    if (surplus <= 0n) return null;
+
+    const share = this.currentShare();
+    const minTip = totalGas * this.minPriorityFee();
+    let tip = surplus * BigInt(Math.round(share * SHARE_PRECISION)) / BigInt(SHARE_PRECISION);
+    if (tip < minTip) tip = minTip;
+    if (tip >= surplus) return null;
+
+    // Coinbase mode keeps the minimum priority fee and moves the rest into the transfer
+    const priorityFee = mode === 'coinbase' ? this.minPriorityFee() : tip / totalGas;
+    const coinbasePayment = mode === 'coinbase' ? tip - minTip : 0n;
+    const totalCost = totalGas * (baseFeePerGas + priorityFee) + coinbasePayment;
+
+    let maxFeePerGas = this.maxBaseFee(baseFeePerGas) + priorityFee;
+    const affordable = (grossProfit - coinbasePayment) / totalGas;
+    if (maxFeePerGas > affordable) maxFeePerGas = affordable;
+
+    return {
+      mode,
+      share,
+      baseFeePerGas,
+      maxFeePerGas,
+      maxPriorityFeePerGas: priorityFee,
+      coinbasePayment,
+      gasLimit: totalGas,
+      totalCost,
+      maxCost: totalGas * maxFeePerGas + coinbasePayment,
+      netProfit: grossProfit - totalCost
+    };
+  }
+
+  // The call that hands a coinbase-mode bid to the block's builder; null in priority-fee mode
+  coinbasePaymentCall(bid: GasBid): { to: string; data: string; value: bigint; gasLimit: bigint } | null {
+    if (bid.mode !== 'coinbase' || bid.coinbasePayment === 0n) return null;
+    return {
+      to: this.settings.coinbasePayer,
+      data: this.payer.encodeFunctionData('payCoinbase'),
+      value: bid.coinbasePayment,
+      gasLimit: COINBASE_PAYMENT_GAS
+    };
+  }
+
+  // A builder included a bundle bid at `share`: try a little less with it next time
+  recordInclusion(builder: string, share: number): void {
+    const stats = this.builderStats(builder);
+    stats.included++;
+    stats.share = this.clampShare(Math.min(stats.share, share) - this.settings.learningStep);
+    this.update(stats, 'included');
+  }
+
+  // A builder that accepted our bundle built the target block without it: outbid
+  recordLoss(builder: string, share: number): void {
+    const stats = this.builderStats(builder);
+    stats.lost++;
+    stats.share = this.clampShare(Math.max(stats.share, share) + this.settings.learningStep);
+    this.update(stats, 'lost');
+  }
+
+  currentShare(): number {
+    let blocks = 0;
+    let weighted = 0;
+    for (const stats of this.builders.values()) {
+      const built = stats.included + stats.lost;
+      blocks += built;
+      weighted += stats.share * built;
+    }
+    return blocks === 0 ? this.settings.profitShare : this.clampShare(weighted / blocks);
+  }
+
+  getStats(): BuilderBidStats[] {
+    return [...this.builders.values()].map(stats => ({ ...stats }));
+  }
+
+  private builderStats(builder: string): BuilderBidStats {
+    let stats = this.builders.get(builder);
+    if (!stats) {
+      stats = { builder, included: 0, lost: 0, share: this.settings.profitShare, updatedAt: Date.now() };
+      this.builders.set(builder, stats);
+    }
+    return stats;
+  }
+
+  private update(stats: BuilderBidStats, outcome: 'included' | 'lost'): void {
+    stats.updatedAt = Date.now();
+    builderBidOutcomes.inc({ builder: stats.builder, outcome });
+    bidShare.set({ chain: this.providers.chain }, this.currentShare());
+    this.save();
+  }
+
+  private clampShare(share: number): number {
+    const clamped = Math.min(Math.max(share, this.settings.minProfitShare), this.settings.maxProfitShare);
+    return Math.round(clamped * SHARE_PRECISION) / SHARE_PRECISION;
+  }
+
+  private minPriorityFee(): bigint {
+    return ethers.parseUnits(this.settings.minPriorityFeeGwei.toString(), 'gwei');
+  }
+
+  // Highest base fee the bundle can meet over the block window (+12.5% per block), times priceMultiplier
+  private maxBaseFee(baseFeePerGas: bigint): bigint {
+    let fee = baseFeePerGas;
+    for (let i = 1; i < config.flashbots.blockWindow; i++) {
+      fee = fee * 9n / 8n + 1n;
+    }
+    return fee * BigInt(Math.round(this.settings.priceMultiplier * 1000)) / 1000n;
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.settings.bidStatePath)) return;
+    try {
+      const saved: BuilderBidStats[] = JSON.parse(fs.readFileSync(this.settings.bidStatePath, 'utf8'));
+      for (const stats of saved) {
+        this.builders.set(stats.builder, { ...stats, share: this.clampShare(stats.share) });
+      }
+      logger.info(`Loaded bid history for ${this.builders.size} builders from ${this.settings.bidStatePath}`);
+    } catch (error) {
+      // Losing the history only costs some relearning; start over from profitShare
+      logger.warn(`Ignoring unreadable bid history ${this.settings.bidStatePath}:`, error);
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.settings.bidStatePath), { recursive: true });
+      fs.writeFileSync(this.settings.bidStatePath, JSON.stringify(this.getStats(), null, 2));
+    } catch (error) {
+      logger.error('Failed to persist bid history:', error);
+    }
+  }
+}
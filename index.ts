@@ -1,147 +1,79 @@
-import { apiServerWithBase44 } from './api/serverWithBase44';
+import { apiServer } from './server';
 import { config } from './config';
-import logger from './utils/logger';
-import { FlashbotsMEVExecutor } from './mev/flashbots';
-import axios from 'axios';
-
-// ---------------- Base44 Connector ----------------
-class Base44Connector {
-  private apiKey: string;
-  private baseURL: string;
-
-  constructor() {
-    this.apiKey = process.env.BASE44_API_KEY || 'demo-key';
-    this.baseURL = process.env.BASE44_API_URL || 'https://api.base44.com/v1';
-  }
-
-  async connect(): Promise<boolean> {
-    try {
-      await axios.get(`${this.baseURL}/health`, {
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      logger.info('Base44 connected successfully');
-      return true;
-    } catch {
-      logger.warn('Base44 connection failed - using demo mode');
-      return false;
-    }
-  }
-
-  async getMarketData(token: string): Promise<any> {
-    try {
-      const response = await axios.get(`${this.baseURL}/market/${token}`, {
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      return response.data;
-    } catch {
-      logger.warn(`Base44 market data unavailable for ${token} - using simulated data`);
-      return {
-        token,
-        price: Math.random() * 1000,
-        volume: Math.random() * 1000000,
-        change24h: (Math.random() - 0.5) * 10,
-      };
-    }
-  }
-
-  async executeTrade(params: {
-    token: string;
-    amount: string;
-    side: 'buy' | 'sell';
-    price?: string;
-  }): Promise<any> {
-    try {
-      const response = await axios.post(`${this.baseURL}/trade`, params, {
-        headers: {
-          Authorization: `Bearer ${this.apiKey}`,
-          'Content-Type': 'application/json',
-        },
-      });
-      logger.info(`Trade executed: ${params.side} ${params.amount} ${params.token}`);
-      return response.data;
-    } catch {
-      logger.warn('Base44 trade failed - simulating trade execution');
-      return {
-        success: true,
-        orderId: `demo_${Date.now()}`,
-        executedPrice: params.price || Math.random() * 1000,
-        executedAmount: params.amount,
-        status: 'filled',
-      };
-    }
-  }
-}
-
-export const base44Connector = new Base44Connector();
+import logger from './logger';
+import { enabledChains } from './chains';
+import { ledger } from './ledger';
+import { riskManager } from './risk-manager';
+import { loadSigners } from './signer';
+import { eventFeed } from './event-feed';
+import { base44Connector } from './base44-connector';
+import { chainEngines, setEngineSigners, startChain, stopChain } from './engine-registry';
 
 // ---------------- Flashbots MEV Integration ----------------
-export let flashbotsExecutor: FlashbotsMEVExecutor | null = null;
-
 async function initializeFlashbots() {
   try {
-    const privateKey = process.env.WALLET_PRIVATE_KEY;
-    const rpcUrl = process.env.ETHEREUM_RPC_1 || 'https://eth-mainnet.g.alchemy.com/v2/demo';
-
-    if (privateKey && privateKey !== 'your_private_key_here') {
-      flashbotsExecutor = new FlashbotsMEVExecutor(rpcUrl, privateKey);
-      await flashbotsExecutor.initializeFlashbots();
-      logger.info('Flashbots MEV executor initialized');
-
-      setInterval(async () => {
-        if (flashbotsExecutor) {
-          const opportunities = await flashbotsExecutor.scanMEVOpportunities();
-          if (opportunities.length > 0) {
-            logger.info(`Found ${opportunities.length} MEV opportunities`, opportunities);
-          }
-        }
-      }, 5000);
-    } else {
-      logger.warn('Flashbots MEV disabled - no valid private key provided');
+    const signers = await loadSigners();
+    if (!signers) {
+      logger.warn('Flashbots MEV disabled - no signer configured');
+      return;
+    }
+    setEngineSigners(signers);
+
+    // A chain that fails to start is logged and skipped; the others keep running
+    for (const chain of enabledChains()) {
+      try {
+        await startChain(chain, signers);
+      } catch (error) {
+        logger.error(`Failed to start the MEV executor on ${chain.name}:`, error);
+      }
     }
   } catch (error) {
     logger.error('Failed to initialize Flashbots MEV:', error);
   }
 }
 
-// ---------------- Graceful shutdown ----------------
-function setupGracefulShutdown(stopFn: () => void) {
-  process.on('SIGINT', () => {
-    logger.info('Received SIGINT, shutting down gracefully...');
-    stopFn();
-    process.exit(0);
-  });
+// ---------------- WebSocket Event Feed ----------------
+// Opportunities and bundles arrive through the ledger, kill switch changes and
+// refusals from the risk manager; trades and blocks are published where they happen
+eventFeed.followLedger(ledger);
+eventFeed.followRisk(riskManager);
 
-  process.on('SIGTERM', () => {
-    logger.info('Received SIGTERM, shutting down gracefully...');
-    stopFn();
-    process.exit(0);
-  });
+// ---------------- Graceful shutdown ----------------
+function setupGracefulShutdown(stopFn: () => Promise<void>) {
+  const shutdown = (signal: string) => {
+    logger.info(`Received ${signal}, shutting down gracefully...`);
+    stopFn()
+      .catch(error => logger.error('Error during shutdown:', error))
+      .finally(() => process.exit(0));
+  };
+
+  process.once('SIGINT', () => shutdown('SIGINT'));
+  process.once('SIGTERM', () => shutdown('SIGTERM'));
 }
 
-setupGracefulShutdown(() => apiServerWithBase44.stop());
+setupGracefulShutdown(async () => {
+  // Stop taking requests first so nothing new reaches the executor while it winds down
+  await apiServer.stop();
+  await Promise.all([...chainEngines.values()].map(stopChain));
+  ledger.close();
+});
 
 // ---------------- Start Application ----------------
 async function startApp() {
   try {
     logger.info('Starting Massive Trading Engine...');
 
-    // Connect to Base44
+    // Connect to Base44; in live and paper mode its trades and quotes fail until it is reachable
     const base44Connected = await base44Connector.connect();
     if (!base44Connected) {
-      logger.warn('Base44 connection failed, continuing with limited functionality');
+      logger.warn(`Base44 unavailable in ${base44Connector.mode} mode; its routes will return errors`);
     }
 
     // Initialize Flashbots MEV
     await initializeFlashbots();
 
-    // Start API server with Base44
-    apiServerWithBase44.start();
+    // Start the API server (engine, MEV and Base44 route modules)
+    await apiServer.start();
 
     logger.info('Massive Trading Engine started successfully!');
     logger.info(`API Server: http://localhost:${config.server.port}`);
@@ -0,0 +1,240 @@
+import fs from 'fs';
+import { EventEmitter } from 'events';
+import path from 'path';
+import readline from 'readline';
+import { StringDecoder } from 'string_decoder';
+import { config } from './config';
+import logger from './logger';
+
+export type LedgerKind = 'opportunity' | 'simulation' | 'submission' | 'outcome';
+
+export interface LedgerEntry {
+  seq: number;
+  kind: LedgerKind;
+  timestamp: number;
+  chain?: string; // Absent on entries written before multi-chain support, which are all Ethereum
+  opportunityId?: string;
+  bundleId?: string;
+  type?: string; // Opportunity type: sandwich, arbitrage, liquidation
+  status?: string; // Bundle status for submissions and outcomes
+  blockNumber?: number;
+  data: Record<string, unknown>;
+}
+
+export interface LedgerFilter {
+  chain?: string;
+  kind?: LedgerKind;
+  type?: string;
+  status?: string;
+  bundleId?: string;
+  opportunityId?: string;
+  fromBlock?: number;
+  toBlock?: number;
+  since?: number; // Unix ms
+  until?: number;
+}
+
+export interface LedgerPage {
+  total: number;
+  limit: number;
+  offset: number;
+  items: LedgerEntry[];
+}
+
+// Everything recorded about one bundle, in the order it happened
+export interface BundleHistory {
+  bundleId: string;
+  opportunity?: LedgerEntry;
+  submission?: LedgerEntry;
+  simulations: LedgerEntry[];
+  outcome?: LedgerEntry;
+}
+
+export const MAX_PAGE_SIZE = 500;
+
+// Append-only JSON-lines ledger of opportunities, simulations, submissions and
+// outcomes. The newest `memoryEntries` entries are kept in memory and answer most
+// queries; older ones are read back from the file when a query reaches past them.
+// Appends go through a single write stream. Every new entry is also emitted as
+// 'recorded' for live consumers such as the WebSocket feed.
+export class Ledger extends EventEmitter {
+  private entries: LedgerEntry[] = []; // Oldest first
+  private evicted = 0; // Entries, from the start of the file, that are no longer in memory
+  private seq = 0;
+  private stream: fs.WriteStream | null = null;
+
+  constructor(private filePath: string, private memoryEntries: number = config.ledger.memoryEntries) {
+    super();
+    this.load();
+  }
+
+  record(entry: Omit<LedgerEntry, 'seq' | 'timestamp'>): LedgerEntry {
+    const line = JSON.stringify({ seq: this.seq + 1, timestamp: Date.now(), ...entry }, bigintReplacer);
+    // Keep the serialized form in memory too, so live and replayed entries look the same
+    const stored: LedgerEntry = JSON.parse(line);
+    this.remember(stored);
+    this.writer().write(line + '\n');
+    this.emit('recorded', stored);
+    return stored;
+  }
+
+  // Newest first
+  async query(filter: LedgerFilter = {}, limit = 50, offset = 0): Promise<LedgerPage> {
+    const pageSize = Math.min(Math.max(limit, 1), MAX_PAGE_SIZE);
+    const recent = this.entries.filter(entry => matchesFilter(entry, filter)).reverse();
+    if (this.evicted === 0) {
+      return { total: recent.length, limit: pageSize, offset, items: recent.slice(offset, offset + pageSize) };
+    }
+
+    // The total, and the part of the page past the in-memory matches, come from the file.
+    // Only the newest `wanted` older matches can land on the page, so only they are kept.
+    const wanted = Math.max(offset + pageSize - recent.length, 0);
+    const kept: LedgerEntry[] = [];
+    let olderTotal = 0;
+    await this.scanEvicted(entry => {
+      if (!matchesFilter(entry, filter)) return;
+      if (wanted > 0) kept[olderTotal % wanted] = entry;
+      olderTotal++;
+    });
+
+    const older: LedgerEntry[] = [];
+    for (let i = olderTotal - 1; i >= Math.max(olderTotal - wanted, 0); i--) {
+      older.push(kept[i % wanted]);
+    }
+    const matches = recent.concat(older);
+    return { total: recent.length + olderTotal, limit: pageSize, offset, items: matches.slice(offset, offset + pageSize) };
+  }
+
+  async getBundleHistory(bundleId: string): Promise<BundleHistory | null> {
+    const entries = await this.find(entry => entry.bundleId === bundleId);
+    if (entries.length === 0) return null;
+
+    const submission = entries.filter(entry => entry.kind === 'submission').pop();
+    const opportunityId = submission?.opportunityId;
+    const [opportunity] = opportunityId
+      ? await this.find(entry => entry.kind === 'opportunity' && entry.opportunityId === opportunityId)
+      : [];
+    return {
+      bundleId,
+      opportunity,
+      submission,
+      simulations: entries.filter(entry => entry.kind === 'simulation'),
+      outcome: entries.filter(entry => entry.kind === 'outcome').pop()
+    };
+  }
+
+  close(): void {
+    this.stream?.end();
+    this.stream = null;
+  }
+
+  // Matching entries, oldest first, reading the file only when entries were evicted
+  private async find(predicate: (entry: LedgerEntry) => boolean): Promise<LedgerEntry[]> {
+    const older: LedgerEntry[] = [];
+    if (this.evicted > 0) {
+      await this.scanEvicted(entry => {
+        if (predicate(entry)) older.push(entry);
+      });
+    }
+    return older.concat(this.entries.filter(predicate));
+  }
+
+  private remember(entry: LedgerEntry): void {
+    this.seq++;
+    this.entries.push(entry);
+    if (this.entries.length > this.memoryEntries) {
+      this.entries.shift();
+      this.evicted++;
+    }
+  }
+
+  // Streams the entries that only the file still holds; the appended rest is never read
+  private async scanEvicted(visit: (entry: LedgerEntry) => void): Promise<void> {
+    const evicted = this.evicted;
+    const lines = readline.createInterface({ input: fs.createReadStream(this.filePath), crlfDelay: Infinity });
+    let seen = 0;
+    for await (const line of lines) {
+      if (seen >= evicted) break;
+      const entry = parseLine(line);
+      if (!entry) continue;
+      seen++;
+      visit(entry);
+    }
+    lines.close();
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.filePath)) return;
+
+    let corrupt = 0;
+    readLinesSync(this.filePath, line => {
+      const entry = parseLine(line);
+      if (entry) {
+        this.remember(entry);
+      } else if (line.trim()) {
+        corrupt++;
+      }
+    });
+    if (corrupt > 0) {
+      logger.warn(`Skipped ${corrupt} corrupt ledger lines in ${this.filePath}`);
+    }
+    logger.info(`Loaded ${this.seq} ledger entries from ${this.filePath} (${this.entries.length} kept in memory)`);
+  }
+
+  private writer(): fs.WriteStream {
+    if (!this.stream) {
+      fs.mkdirSync(path.dirname(this.filePath), { recursive: true });
+      this.stream = fs.createWriteStream(this.filePath, { flags: 'a' });
+      this.stream.on('error', error => logger.error('Ledger write failed:', error));
+    }
+    return this.stream;
+  }
+}
+
+function parseLine(line: string): LedgerEntry | null {
+  if (!line.trim()) return null;
+  try {
+    return JSON.parse(line);
+  } catch {
+    return null;
+  }
+}
+
+// Line by line without holding the whole file, which can be far larger than the memory window
+function readLinesSync(filePath: string, visit: (line: string) => void): void {
+  const fd = fs.openSync(filePath, 'r');
+  const buffer = Buffer.alloc(1 << 20);
+  const decoder = new StringDecoder('utf8');
+  let rest = '';
+  try {
+    let read: number;
+    while ((read = fs.readSync(fd, buffer, 0, buffer.length, null)) > 0) {
+      const lines = (rest + decoder.write(buffer.subarray(0, read))).split('\n');
+      rest = lines.pop()!;
+      lines.forEach(visit);
+    }
+    visit(rest + decoder.end());
+  } finally {
+    fs.closeSync(fd);
+  }
+}
+
+function matchesFilter(entry: LedgerEntry, filter: LedgerFilter): boolean {
+  if (filter.chain && (entry.chain ?? 'ethereum') !== filter.chain) return false;
+  if (filter.kind && entry.kind !== filter.kind) return false;
+  if (filter.type && entry.type !== filter.type) return false;
+  if (filter.status && entry.status !== filter.status) return false;
+  if (filter.bundleId && entry.bundleId !== filter.bundleId) return false;
+  if (filter.opportunityId && entry.opportunityId !== filter.opportunityId) return false;
+  if (filter.fromBlock !== undefined && (entry.blockNumber === undefined || entry.blockNumber < filter.fromBlock)) return false;
+  if (filter.toBlock !== undefined && (entry.blockNumber === undefined || entry.blockNumber > filter.toBlock)) return false;
+  if (filter.since !== undefined && entry.timestamp < filter.since) return false;
+  if (filter.until !== undefined && entry.timestamp > filter.until) return false;
+  return true;
+}
+
+function bigintReplacer(key: string, value: unknown): unknown {
+  return typeof value === 'bigint' ? value.toString() : value;
+}
+
+export const ledger = new Ledger(config.ledger.path);
@@ -0,0 +1,441 @@
+import { ethers } from 'ethers';
+import { config } from './config';
+import { ProviderPool } from './provider-pool';
+import { ChainProfile } from './chains';
+import logger from './logger';
+
+export type LendingProtocol = 'aave-v3' | 'compound-v3';
+
+export interface LiquidationCandidate {
+  protocol: LendingProtocol;
+  market: string; // Aave Pool or Comet address
+  borrower: string;
+  healthFactor: number;
+  debtAsset: string;
+  collateralAsset: string;
+  debtToCover: bigint; // In debt asset units
+  expectedCollateral: bigint; // In collateral asset units
+  expectedBonusUsd: number;
+  blockNumber: number;
+}
+
+interface TrackedPosition {
+  protocol: LendingProtocol;
+  market: string;
+  borrower: string;
+  healthFactor: number | null;
+}
+
+interface AaveReserve {
+  asset: string;
+  decimals: bigint;
+  liquidationThreshold: bigint;
+  liquidationBonus: bigint; // 10500 = 5% bonus
+}
+
+const AAVE_POOL = new ethers.Interface([
+  'event Supply(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint16 indexed referralCode)',
+  'event Borrow(address indexed reserve, address user, address indexed onBehalfOf, uint256 amount, uint8 interestRateMode, uint256 borrowRate, uint16 indexed referralCode)',
+  'event Repay(address indexed reserve, address indexed user, address indexed repayer, uint256 amount, bool useATokens)',
+  'event Withdraw(address indexed reserve, address indexed user, address indexed to, uint256 amount)',
+  'event LiquidationCall(address indexed collateralAsset, address indexed debtAsset, address indexed user, uint256 debtToCover, uint256 liquidatedCollateralAmount, address liquidator, bool receiveAToken)',
+  'function getReservesList() view returns (address[])',
+  'function getUserAccountData(address user) view returns (uint256 totalCollateralBase, uint256 totalDebtBase, uint256 availableBorrowsBase, uint256 currentLiquidationThreshold, uint256 ltv, uint256 healthFactor)',
+  'function liquidationCall(address collateralAsset, address debtAsset, address user, uint256 debtToCover, bool receiveAToken)'
+]);
+
+const AAVE_DATA_PROVIDER = new ethers.Interface([
+  'function getReserveConfigurationData(address asset) view returns (uint256 decimals, uint256 ltv, uint256 liquidationThreshold, uint256 liquidationBonus, uint256 reserveFactor, bool usageAsCollateralEnabled, bool borrowingEnabled, bool stableBorrowRateEnabled, bool isActive, bool isFrozen)',
+  'function getUserReserveData(address asset, address user) view returns (uint256 currentATokenBalance, uint256 currentStableDebt, uint256 currentVariableDebt, uint256 principalStableDebt, uint256 scaledVariableDebt, uint256 stableBorrowRate, uint256 liquidityRate, uint40 stableRateLastUpdated, bool usageAsCollateralEnabled)'
+]);
+
+const AAVE_ORACLE = new ethers.Interface([
+  'function getAssetsPrices(address[] assets) view returns (uint256[])'
+]);
+
+const COMET = new ethers.Interface([
+  'event Withdraw(address indexed src, address indexed to, uint256 amount)',
+  'event SupplyCollateral(address indexed from, address indexed dst, address indexed asset, uint256 amount)',
+  'event WithdrawCollateral(address indexed src, address indexed to, address indexed asset, uint256 amount)',
+  'event AbsorbDebt(address indexed absorber, address indexed borrower, uint256 basePaidOut, uint256 usdValue)',
+  'function baseToken() view returns (address)',
+  'function baseTokenPriceFeed() view returns (address)',
+  'function numAssets() view returns (uint8)',
+  'function getAssetInfo(uint8 i) view returns ((uint8 offset, address asset, address priceFeed, uint64 scale, uint64 borrowCollateralFactor, uint64 liquidateCollateralFactor, uint64 liquidationFactor, uint128 supplyCap))',
+  'function getPrice(address priceFeed) view returns (uint256)',
+  'function userCollateral(address account, address asset) view returns (uint128 balance, uint128 reserved)',
+  'function borrowBalanceOf(address account) view returns (uint256)',
+  'function isLiquidatable(address account) view returns (bool)',
+  'function storeFrontPriceFactor() view returns (uint256)',
+  'function quoteCollateral(address asset, uint256 baseAmount) view returns (uint256)',
+  'function absorb(address absorber, address[] accounts)',
+  'function buyCollateral(address asset, uint256 minAmount, uint256 baseAmount, address recipient)'
+]);
+
+const ERC20_DECIMALS = new ethers.Interface(['function decimals() view returns (uint8)']);
+
+// Chainlink aggregators emit this on every price update
+const ANSWER_UPDATED_TOPIC = ethers.id('AnswerUpdated(int256,uint256,uint256)');
+
+const AAVE_POSITION_TOPICS = ['Supply', 'Borrow', 'Repay', 'Withdraw', 'LiquidationCall']
+  .map(name => AAVE_POOL.getEvent(name)!.topicHash);
+const COMET_POSITION_TOPICS = ['Withdraw', 'SupplyCollateral', 'WithdrawCollateral', 'AbsorbDebt']
+  .map(name => COMET.getEvent(name)!.topicHash);
+
+// Aave V3 allows 100% of the debt to be repaid once HF drops below 0.95
+const AAVE_CLOSE_FACTOR_HF_THRESHOLD = 0.95;
+const FACTOR_SCALE = 10n ** 18n;
+const PERCENTAGE_FACTOR = 10000n;
+const BATCH_SIZE = 50;
+
+// Tracks Aave V3 and Compound V3 borrowers from pool events, recomputes their
+// health whenever a Chainlink price moves and keeps the set of positions that
+// can currently be liquidated, sized for the most profitable debt/collateral pair.
+export class LiquidationEngine {
+  private positions: Map<string, TrackedPosition> = new Map();
+  private candidates: Map<string, LiquidationCandidate> = new Map();
+  private aaveReserves: AaveReserve[] | null = null;
+  private blockListener: ((blockNumber: number) => void) | null = null;
+  private watchedProvider: ethers.JsonRpcProvider | null = null;
+  private scans: Set<Promise<void>> = new Set();
+
+  constructor(private providers: ProviderPool, private chain: ChainProfile) {}
+
+  start(): void {
+    if (this.blockListener) return;
+    this.watchedProvider = this.providers.getProvider();
+    this.blockListener = (blockNumber: number) => {
+      const scan = this.onBlock(blockNumber)
+        .catch(error => {
+          logger.error(`Liquidation scan failed at block ${blockNumber}:`, error);
+        })
+        .finally(() => this.scans.delete(scan));
+      this.scans.add(scan);
+    };
+    this.watchedProvider.on('block', this.blockListener);
+  }
+
+  // Resolves once the scans already under way have finished
+  async stop(): Promise<void> {
+    if (this.blockListener && this.watchedProvider) {
+      this.watchedProvider.off('block', this.blockListener);
+    }
+    this.blockListener = null;
+    this.watchedProvider = null;
+    await Promise.all(this.scans);
+  }
+
+  getCandidates(): LiquidationCandidate[] {
+    return [...this.candidates.values()].sort((a, b) => b.expectedBonusUsd - a.expectedBonusUsd);
+  }
+
+  getTrackedPositionCount(): number {
+    return this.positions.size;
+  }
+
+  // Replays historical position events so borrowers opened before startup are tracked
+  async backfill(fromBlock: number, toBlock: number, step: number = 2000): Promise<void> {
+    for (let start = fromBlock; start <= toBlock; start += step) {
+      await this.collectBorrowers(start, Math.min(start + step - 1, toBlock));
+    }
+    await this.recompute([...this.positions.values()], toBlock);
+  }
+
+  async onBlock(blockNumber: number): Promise<void> {
+    const newPositions = await this.collectBorrowers(blockNumber, blockNumber);
+
+    const priceUpdates = await this.providers.execute(provider => provider.getLogs({
+      topics: [ANSWER_UPDATED_TOPIC],
+      fromBlock: blockNumber,
+      toBlock: blockNumber
+    }));
+
+    // A price move can flip any position; otherwise only re-check the borrowers that just acted
+    const toCheck = priceUpdates.length > 0 ? [...this.positions.values()] : newPositions;
+    if (toCheck.length > 0) {
+      await this.recompute(toCheck, blockNumber);
+    }
+  }
+
+  // Price of the chain's native coin in USD from the Aave oracle, used to express bonuses in it
+  async getNativePriceUsd(): Promise<number> {
+    const [[price]] = await this.call(config.strategies.liquidation.aaveOracle, AAVE_ORACLE, 'getAssetsPrices', [[this.chain.wrappedNative]]);
+    return Number(price) / 1e8;
+  }
+
+  // Liquidation calls for a candidate. `liquidator` sends them and pays the debt: the
+  // wallet, or the flash executor when liquidations are flash-loan funded.
+  buildLiquidationCall(candidate: LiquidationCandidate, liquidator: string): { to: string; data: string; value: bigint }[] {
+    if (candidate.protocol === 'aave-v3') {
+      return [{
+        to: candidate.market,
+        data: AAVE_POOL.encodeFunctionData('liquidationCall', [
+          candidate.collateralAsset, candidate.debtAsset, candidate.borrower, candidate.debtToCover, false
+        ]),
+        value: 0n
+      }];
+    }
+
+    // Comet: absorb the account, then buy its collateral at the store-front discount
+    return [
+      {
+        to: candidate.market,
+        data: COMET.encodeFunctionData('absorb', [liquidator, [candidate.borrower]]),
+        value: 0n
+      },
+      {
+        to: candidate.market,
+        data: COMET.encodeFunctionData('buyCollateral', [
+          candidate.collateralAsset, candidate.expectedCollateral, candidate.debtToCover, liquidator
+        ]),
+        value: 0n
+      }
+    ];
+  }
+
+  private async collectBorrowers(fromBlock: number, toBlock: number): Promise<TrackedPosition[]> {
+    const { aavePool, comets } = config.strategies.liquidation;
+    const logs = await this.providers.execute(provider => provider.getLogs({
+      address: [aavePool, ...comets],
+      topics: [[...AAVE_POSITION_TOPICS, ...COMET_POSITION_TOPICS]],
+      fromBlock,
+      toBlock
+    }));
+
+    const touched = new Map<string, TrackedPosition>();
+    for (const log of logs) {
+      const isAave = log.address.toLowerCase() === aavePool.toLowerCase();
+      const borrower = isAave ? this.aaveBorrowerFromLog(log) : this.cometBorrowerFromLog(log);
+      if (!borrower) continue;
+
+      const position: TrackedPosition = {
+        protocol: isAave ? 'aave-v3' : 'compound-v3',
+        market: ethers.getAddress(log.address),
+        borrower: ethers.getAddress(borrower),
+        healthFactor: null
+      };
+      const key = this.positionKey(position);
+      if (!this.positions.has(key)) this.positions.set(key, position);
+      touched.set(key, this.positions.get(key)!);
+    }
+
+    return [...touched.values()];
+  }
+
+  private aaveBorrowerFromLog(log: ethers.Log): string | null {
+    const parsed = AAVE_POOL.parseLog(log);
+    if (!parsed) return null;
+    switch (parsed.name) {
+      case 'Supply':
+      case 'Borrow':
+        return parsed.args.onBehalfOf;
+      default:
+        return parsed.args.user;
+    }
+  }
+
+  private cometBorrowerFromLog(log: ethers.Log): string | null {
+    const parsed = COMET.parseLog(log);
+    if (!parsed) return null;
+    switch (parsed.name) {
+      case 'Withdraw':
+      case 'WithdrawCollateral':
+        return parsed.args.src;
+      case 'SupplyCollateral':
+        return parsed.args.dst;
+      default:
+        return parsed.args.borrower;
+    }
+  }
+
+  private async recompute(positions: TrackedPosition[], blockNumber: number): Promise<void> {
+    for (let i = 0; i < positions.length; i += BATCH_SIZE) {
+      await Promise.all(positions.slice(i, i + BATCH_SIZE).map(async position => {
+        const key = this.positionKey(position);
+        try {
+          const candidate = position.protocol === 'aave-v3'
+            ? await this.evaluateAave(position, blockNumber)
+            : await this.evaluateComet(position, blockNumber);
+
+          if (candidate) {
+            if (!this.candidates.has(key)) {
+              logger.info(`Liquidatable ${position.protocol} position found`, {
+                borrower: position.borrower,
+                healthFactor: candidate.healthFactor,
+                expectedBonusUsd: candidate.expectedBonusUsd
+              });
+            }
+            this.candidates.set(key, candidate);
+          } else {
+            this.candidates.delete(key);
+          }
+        } catch (error) {
+          logger.warn(`Failed to evaluate ${position.protocol} position ${position.borrower}: ${(error as Error).message}`);
+        }
+      }));
+    }
+  }
+
+  private async evaluateAave(position: TrackedPosition, blockNumber: number): Promise<LiquidationCandidate | null> {
+    const { aaveDataProvider, aaveOracle } = config.strategies.liquidation;
+
+    const account = await this.call(position.market, AAVE_POOL, 'getUserAccountData', [position.borrower]);
+    const healthFactor = Number(ethers.formatEther(account.healthFactor));
+    position.healthFactor = healthFactor;
+
+    if (account.totalDebtBase === 0n) {
+      // Closed positions are dropped; they are picked up again on their next event
+      this.positions.delete(this.positionKey(position));
+      return null;
+    }
+    if (healthFactor >= 1) return null;
+
+    const reserves = await this.getAaveReserves(position.market);
+    const [prices] = await this.call(aaveOracle, AAVE_ORACLE, 'getAssetsPrices', [reserves.map(r => r.asset)]);
+    const userReserves = await Promise.all(
+      reserves.map(r => this.call(aaveDataProvider, AAVE_DATA_PROVIDER, 'getUserReserveData', [r.asset, position.borrower]))
+    );
+
+    // Values below are in the oracle base currency (USD, 8 decimals)
+    let bestDebt: { reserve: AaveReserve; price: bigint; value: bigint } | null = null;
+    const collaterals: Array<{ reserve: AaveReserve; price: bigint; value: bigint }> = [];
+
+    reserves.forEach((reserve, i) => {
+      const data = userReserves[i];
+      const price: bigint = prices[i];
+      const unit = 10n ** reserve.decimals;
+      const debt: bigint = data.currentStableDebt + data.currentVariableDebt;
+      const debtValue = (debt * price) / unit;
+      if (debt > 0n && (!bestDebt || debtValue > bestDebt.value)) {
+        bestDebt = { reserve, price, value: debtValue };
+      }
+      if (data.currentATokenBalance > 0n && data.usageAsCollateralEnabled && reserve.liquidationThreshold > 0n) {
+        collaterals.push({ reserve, price, value: (data.currentATokenBalance * price) / unit });
+      }
+    });
+
+    const debt = bestDebt as { reserve: AaveReserve; price: bigint; value: bigint } | null;
+    if (!debt || collaterals.length === 0) return null;
+
+    const closeFactor = healthFactor < AAVE_CLOSE_FACTOR_HF_THRESHOLD ? PERCENTAGE_FACTOR : PERCENTAGE_FACTOR / 2n;
+    let best: LiquidationCandidate | null = null;
+
+    for (const collateral of collaterals) {
+      let debtToCoverValue = (debt.value * closeFactor) / PERCENTAGE_FACTOR;
+      let collateralValue = (debtToCoverValue * collateral.reserve.liquidationBonus) / PERCENTAGE_FACTOR;
+      if (collateralValue > collateral.value) {
+        collateralValue = collateral.value;
+        debtToCoverValue = (collateralValue * PERCENTAGE_FACTOR) / collateral.reserve.liquidationBonus;
+      }
+
+      const bonusUsd = Number(collateralValue - debtToCoverValue) / 1e8;
+      if (!best || bonusUsd > best.expectedBonusUsd) {
+        best = {
+          protocol: 'aave-v3',
+          market: position.market,
+          borrower: position.borrower,
+          healthFactor,
+          debtAsset: debt.reserve.asset,
+          collateralAsset: collateral.reserve.asset,
+          debtToCover: (debtToCoverValue * 10n ** debt.reserve.decimals) / debt.price,
+          expectedCollateral: (collateralValue * 10n ** collateral.reserve.decimals) / collateral.price,
+          expectedBonusUsd: bonusUsd,
+          blockNumber
+        };
+      }
+    }
+
+    return best;
+  }
+
+  private async evaluateComet(position: TrackedPosition, blockNumber: number): Promise<LiquidationCandidate | null> {
+    const comet = position.market;
+    const [liquidatable] = await this.call(comet, COMET, 'isLiquidatable', [position.borrower]);
+    if (!liquidatable) {
+      position.healthFactor = null;
+      return null;
+    }
+
+    const [[baseToken], [baseFeed], [numAssets], [storeFrontPriceFactor], [borrowBalance]] = await Promise.all([
+      this.call(comet, COMET, 'baseToken', []),
+      this.call(comet, COMET, 'baseTokenPriceFeed', []),
+      this.call(comet, COMET, 'numAssets', []),
+      this.call(comet, COMET, 'storeFrontPriceFactor', []),
+      this.call(comet, COMET, 'borrowBalanceOf', [position.borrower])
+    ]);
+    const [basePrice]: bigint[] = await this.call(comet, COMET, 'getPrice', [baseFeed]);
+    const baseScale = 10n ** BigInt(await this.decimals(baseToken));
+
+    let best: LiquidationCandidate | null = null;
+    let liquidationCapacity = 0n;
+
+    for (let i = 0; i < Number(numAssets); i++) {
+      const [info] = await this.call(comet, COMET, 'getAssetInfo', [i]);
+      const collateral: bigint = (await this.call(comet, COMET, 'userCollateral', [position.borrower, info.asset])).balance;
+      if (collateral === 0n) continue;
+
+      const [price]: bigint[] = await this.call(comet, COMET, 'getPrice', [info.priceFeed]);
+      const value = (collateral * price) / info.scale; // USD, 8 decimals
+      liquidationCapacity += (value * info.liquidateCollateralFactor) / FACTOR_SCALE;
+
+      // buyCollateral sells at price * (1 - storeFront * (1 - liquidationFactor))
+      const discount = (storeFrontPriceFactor * (FACTOR_SCALE - info.liquidationFactor)) / FACTOR_SCALE;
+      const bonusUsd = Number((value * discount) / FACTOR_SCALE) / 1e8;
+      const costValue = value - (value * discount) / FACTOR_SCALE;
+
+      if (!best || bonusUsd > best.expectedBonusUsd) {
+        best = {
+          protocol: 'compound-v3',
+          market: comet,
+          borrower: position.borrower,
+          healthFactor: 0,
+          debtAsset: baseToken,
+          collateralAsset: info.asset,
+          debtToCover: (costValue * baseScale) / basePrice,
+          expectedCollateral: collateral,
+          expectedBonusUsd: bonusUsd,
+          blockNumber
+        };
+      }
+    }
+
+    const borrowValue = ((borrowBalance as bigint) * basePrice) / baseScale;
+    if (best && borrowValue > 0n) {
+      // Comet has no health factor; report the same collateral/debt ratio Aave uses
+      best.healthFactor = Number(liquidationCapacity) / Number(borrowValue);
+      position.healthFactor = best.healthFactor;
+    }
+    return best;
+  }
+
+  private async getAaveReserves(pool: string): Promise<AaveReserve[]> {
+    if (this.aaveReserves) return this.aaveReserves;
+
+    const [assets] = await this.call(pool, AAVE_POOL, 'getReservesList', []);
+    this.aaveReserves = await Promise.all((assets as string[]).map(async asset => {
+      const data = await this.call(config.strategies.liquidation.aaveDataProvider, AAVE_DATA_PROVIDER, 'getReserveConfigurationData', [asset]);
+      return {
+        asset,
+        decimals: data.decimals,
+        liquidationThreshold: data.liquidationThreshold,
+        liquidationBonus: data.liquidationBonus
+      };
+    }));
+    return this.aaveReserves;
+  }
+
+  private async decimals(token: string): Promise<number> {
+    const [decimals] = await this.call(token, ERC20_DECIMALS, 'decimals', []);
+    return Number(decimals);
+  }
+
+  private async call(to: string, iface: ethers.Interface, method: string, args: ReadonlyArray<unknown>): Promise<ethers.Result> {
+    const data = iface.encodeFunctionData(method, args);
+    const result = await this.providers.execute(provider => provider.call({ to, data }));
+    return iface.decodeFunctionResult(method, result);
+  }
+
+  private positionKey(position: { protocol: LendingProtocol; market: string; borrower: string }): string {
+    return `${position.protocol}:${position.market}:${position.borrower}`.toLowerCase();
+  }
+}
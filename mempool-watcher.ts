@@ -0,0 +1,222 @@
+import { EventEmitter } from 'events';
+import { ethers } from 'ethers';
+import logger from './logger';
+import { pendingTransactionsSeen } from './metrics';
+
+export interface MempoolWatcherOptions {
+  // Concurrent eth_getTransactionByHash + analysis slots
+  concurrency: number;
+  // Hashes waiting for a slot; beyond this new hashes are dropped
+  maxQueueSize: number;
+  // How many recent hashes are remembered for de-duplication
+  dedupeWindow: number;
+  reconnectDelayMs: number;
+  // Chain the feed belongs to, for logs and metrics
+  chain: string;
+}
+
+export interface MempoolMetrics {
+  connected: boolean;
+  seen: number; // Unique hashes
+  duplicates: number;
+  dropped: number; // Queue was full, or the socket closed before it was fetched
+  fetched: number;
+  notFound: number; // Mined or evicted before we could fetch it
+  fetchErrors: number;
+  processed: number;
+  handlerErrors: number;
+  queueDepth: number;
+  inFlight: number;
+  reconnects: number;
+}
+
+const DEFAULT_OPTIONS: MempoolWatcherOptions = {
+  concurrency: 8,
+  maxQueueSize: 2000,
+  dedupeWindow: 50000,
+  reconnectDelayMs: 3000,
+  chain: 'ethereum'
+};
+
+export type PendingTransactionHandler = (tx: ethers.TransactionResponse) => Promise<void>;
+
+// ethers' WebSocketLike leaves out onclose, which the ws socket it opens has
+type ClosableWebSocket = ethers.WebSocketLike & { onclose: null | (() => void) };
+
+// Streams pending transactions from an eth_subscribe("newPendingTransactions")
+// WebSocket feed into a handler. Hashes are de-duplicated, fetched with bounded
+// concurrency and dropped (and counted) when the handler cannot keep up.
+export class MempoolWatcher extends EventEmitter {
+  private provider: ethers.WebSocketProvider | null = null;
+  private options: MempoolWatcherOptions;
+  private queue: string[] = [];
+  private seen: Set<string> = new Set();
+  private inFlight = 0;
+  private running = false;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private metrics: MempoolMetrics = {
+    connected: false,
+    seen: 0,
+    duplicates: 0,
+    dropped: 0,
+    fetched: 0,
+    notFound: 0,
+    fetchErrors: 0,
+    processed: 0,
+    handlerErrors: 0,
+    queueDepth: 0,
+    inFlight: 0,
+    reconnects: 0
+  };
+
+  constructor(
+    private wsUrl: string,
+    private handler: PendingTransactionHandler,
+    options: Partial<MempoolWatcherOptions> = {}
+  ) {
+    super();
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+  }
+
+  start(): void {
+    if (this.running) return;
+    this.running = true;
+    this.connect();
+  }
+
+  async stop(): Promise<void> {
+    this.running = false;
+    if (this.reconnectTimer) {
+      clearTimeout(this.reconnectTimer);
+      this.reconnectTimer = null;
+    }
+    this.queue = [];
+    if (this.provider) {
+      await this.provider.destroy();
+      this.provider = null;
+    }
+    this.metrics.connected = false;
+  }
+
+  getMetrics(): MempoolMetrics {
+    return { ...this.metrics, queueDepth: this.queue.length, inFlight: this.inFlight };
+  }
+
+  private connect(): void {
+    try {
+      this.provider = new ethers.WebSocketProvider(this.wsUrl);
+      this.provider.on('pending', (hash: string) => this.enqueue(hash));
+
+      const socket = this.provider.websocket as ClosableWebSocket;
+      socket.onclose = () => this.scheduleReconnect('closed');
+      socket.onerror = (error: unknown) => {
+        logger.error(`Mempool WebSocket error on ${this.options.chain}:`, error);
+        this.scheduleReconnect('errored');
+      };
+
+      // Connected once the socket has opened and the node answers a request over it; a
+      // provider replaced by a reconnect in the meantime no longer counts
+      const provider = this.provider;
+      provider.getBlockNumber()
+        .then(() => {
+          if (this.provider !== provider) return;
+          this.metrics.connected = true;
+          logger.info(`Mempool watcher subscribed to newPendingTransactions on ${this.options.chain}`);
+        })
+        .catch(error => {
+          if (this.provider !== provider) return;
+          this.scheduleReconnect(`never became ready (${error instanceof Error ? error.message : String(error)})`);
+        });
+    } catch (error) {
+      logger.error(`Mempool watcher failed to connect on ${this.options.chain}:`, error);
+      this.scheduleReconnect('failed to connect');
+    }
+  }
+
+  private scheduleReconnect(reason: string): void {
+    this.metrics.connected = false;
+    if (!this.running || this.reconnectTimer) return;
+
+    logger.warn(`Mempool WebSocket on ${this.options.chain} ${reason}, reconnecting in ${this.options.reconnectDelayMs}ms`);
+    const stale = this.provider;
+    this.provider = null;
+    stale?.destroy().catch(() => undefined);
+
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null;
+      this.metrics.reconnects++;
+      this.connect();
+    }, this.options.reconnectDelayMs);
+  }
+
+  private enqueue(hash: string): void {
+    if (this.seen.has(hash)) {
+      this.metrics.duplicates++;
+      return;
+    }
+    this.remember(hash);
+    this.metrics.seen++;
+    pendingTransactionsSeen.inc({ chain: this.options.chain, source: 'mempool' });
+
+    if (this.queue.length >= this.options.maxQueueSize) {
+      this.metrics.dropped++;
+      this.emit('dropped', hash);
+      return;
+    }
+
+    this.queue.push(hash);
+    this.drain();
+  }
+
+  // Insertion-ordered Set doubles as a FIFO for evicting the oldest hashes
+  private remember(hash: string): void {
+    this.seen.add(hash);
+    if (this.seen.size > this.options.dedupeWindow) {
+      const oldest = this.seen.values().next().value;
+      if (oldest !== undefined) this.seen.delete(oldest);
+    }
+  }
+
+  private drain(): void {
+    while (this.inFlight < this.options.concurrency && this.queue.length > 0) {
+      const hash = this.queue.shift()!;
+      this.inFlight++;
+      this.process(hash).finally(() => {
+        this.inFlight--;
+        this.drain();
+      });
+    }
+  }
+
+  private async process(hash: string): Promise<void> {
+    // The socket closed while the hash was queued; the reconnected feed starts afresh
+    const provider = this.provider;
+    if (!provider) {
+      this.metrics.dropped++;
+      this.emit('dropped', hash);
+      return;
+    }
+
+    let tx: ethers.TransactionResponse | null;
+    try {
+      tx = await provider.getTransaction(hash);
+    } catch {
+      this.metrics.fetchErrors++;
+      return;
+    }
+
+    if (!tx) {
+      this.metrics.notFound++;
+      return;
+    }
+    this.metrics.fetched++;
+
+    try {
+      await this.handler(tx);
+      this.metrics.processed++;
+    } catch (error) {
+      this.metrics.handlerErrors++;
+      logger.error(`Pending transaction handler failed for ${hash}:`, error);
+    }
+  }
+}
@@ -0,0 +1,210 @@
+// Prometheus text exposition (format 0.0.4) for the MEV pipeline, served at GET /metrics.
+// Counters, gauges and histograms keyed by label values; the modules that own each
+// stage import the metric they update, so nothing here knows about the engine.
+
+type Labels = Record<string, string>;
+
+const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+abstract class Metric {
+  abstract readonly type: 'counter' | 'gauge' | 'histogram';
+
+  constructor(readonly name: string, readonly help: string, readonly labelNames: string[] = []) {}
+
+  abstract render(): string[];
+
+  // Unlabelled series are exported as 0 before their first update so they exist from the first scrape
+  protected renderValues(values: Map<string, number>): string[] {
+    if (values.size === 0 && this.labelNames.length === 0) {
+      return [`${this.name} 0`];
+    }
+    return [...values].map(([key, value]) => `${this.name}${this.format(key)} ${value}`);
+  }
+
+  protected key(labels: Labels): string {
+    return JSON.stringify(this.labelNames.map(name => labels[name] ?? ''));
+  }
+
+  protected format(key: string, extra: Labels = {}): string {
+    const values: string[] = JSON.parse(key);
+    const pairs = [
+      ...this.labelNames.map((name, i) => [name, values[i]]),
+      ...Object.entries(extra)
+    ].map(([name, value]) => `${name}="${escapeLabel(value)}"`);
+    return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+  }
+}
+
+export class Counter extends Metric {
+  readonly type = 'counter';
+  private values = new Map<string, number>();
+
+  inc(labels: Labels = {}, amount: number = 1): void {
+    if (amount < 0) throw new Error(`Counter ${this.name} cannot decrease`);
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) || 0) + amount);
+  }
+
+  render(): string[] {
+    return this.renderValues(this.values);
+  }
+}
+
+export class Gauge extends Metric {
+  readonly type = 'gauge';
+  private values = new Map<string, number>();
+
+  set(labels: Labels, value: number): void {
+    this.values.set(this.key(labels), value);
+  }
+
+  add(labels: Labels, amount: number): void {
+    const key = this.key(labels);
+    this.values.set(key, (this.values.get(key) || 0) + amount);
+  }
+
+  render(): string[] {
+    return this.renderValues(this.values);
+  }
+}
+
+interface HistogramSeries {
+  counts: number[]; // Per bucket, not cumulative
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric {
+  readonly type = 'histogram';
+  private series = new Map<string, HistogramSeries>();
+
+  constructor(name: string, help: string, labelNames: string[] = [], private buckets: number[] = DEFAULT_BUCKETS) {
+    super(name, help, labelNames);
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = this.key(labels);
+    let series = this.series.get(key);
+    if (!series) {
+      series = { counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+      this.series.set(key, series);
+    }
+    const bucket = this.buckets.findIndex(bound => value <= bound);
+    if (bucket >= 0) series.counts[bucket]++;
+    series.sum += value;
+    series.count++;
+  }
+
+  // Observes the time until the returned function is called, in seconds
+  startTimer(labels: Labels = {}): (extra?: Labels) => void {
+    const startedAt = process.hrtime.bigint();
+    return (extra: Labels = {}) => {
+      this.observe({ ...labels, ...extra }, Number(process.hrtime.bigint() - startedAt) / 1e9);
+    };
+  }
+
+  render(): string[] {
+    const lines: string[] = [];
+    for (const [key, series] of this.series) {
+      let cumulative = 0;
+      this.buckets.forEach((bound, i) => {
+        cumulative += series.counts[i];
+        lines.push(`${this.name}_bucket${this.format(key, { le: String(bound) })} ${cumulative}`);
+      });
+      lines.push(`${this.name}_bucket${this.format(key, { le: '+Inf' })} ${series.count}`);
+      lines.push(`${this.name}_sum${this.format(key)} ${series.sum}`);
+      lines.push(`${this.name}_count${this.format(key)} ${series.count}`);
+    }
+    return lines;
+  }
+}
+
+export class MetricsRegistry {
+  private metrics = new Map<string, Metric>();
+
+  counter(name: string, help: string, labelNames: string[] = []): Counter {
+    return this.register(new Counter(name, help, labelNames));
+  }
+
+  gauge(name: string, help: string, labelNames: string[] = []): Gauge {
+    return this.register(new Gauge(name, help, labelNames));
+  }
+
+  histogram(name: string, help: string, labelNames: string[] = [], buckets?: number[]): Histogram {
+    return this.register(new Histogram(name, help, labelNames, buckets));
+  }
+
+  render(): string {
+    const lines: string[] = [];
+    for (const metric of this.metrics.values()) {
+      lines.push(`# HELP ${metric.name} ${metric.help}`, `# TYPE ${metric.name} ${metric.type}`, ...metric.render());
+    }
+    return `${lines.join('\n')}\n`;
+  }
+
+  private register<T extends Metric>(metric: T): T {
+    if (this.metrics.has(metric.name)) {
+      throw new Error(`Metric ${metric.name} is already registered`);
+    }
+    this.metrics.set(metric.name, metric);
+    return metric;
+  }
+}
+
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+export const metricsRegistry = new MetricsRegistry();
+
+// ---------------- Mempool and detection ----------------
+export const pendingTransactionsSeen = metricsRegistry.counter(
+  'mev_pending_transactions_seen_total', 'Pending transactions seen: unique hashes from the mempool feed, every pending-block scan entry', ['chain', 'source']);
+export const opportunitiesDetected = metricsRegistry.counter(
+  'mev_opportunities_detected_total', 'Opportunities above the profit threshold', ['chain', 'type']);
+export const scanDuration = metricsRegistry.histogram(
+  'mev_scan_duration_seconds', 'scanMEVOpportunities wall time', ['chain']);
+export const swapsSkipped = metricsRegistry.counter(
+  'mev_swaps_skipped_total', 'Decoded swaps not analyzed because a token is flagged or not yet screened', ['chain', 'reason']);
+
+// ---------------- Token registry ----------------
+export const tokenScreenings = metricsRegistry.counter(
+  'mev_token_screenings_total', 'Fork screenings by verdict (clean, flagged, failed)', ['chain', 'result']);
+
+// ---------------- Simulation and submission ----------------
+export const simulationDuration = metricsRegistry.histogram(
+  'mev_simulation_duration_seconds', 'Bundle simulation latency', ['chain', 'mode']);
+export const simulationReverts = metricsRegistry.counter(
+  'mev_simulation_reverts_total', 'Simulations that failed or had a reverting transaction', ['chain', 'mode']);
+export const bundleRequests = metricsRegistry.counter(
+  'mev_bundle_requests_total', 'executeBundle calls by outcome (submitted, risk_rejected, failed)', ['chain', 'outcome']);
+export const bundlesSubmitted = metricsRegistry.counter(
+  'mev_bundles_submitted_total', 'eth_sendBundle calls per relay, or sequencer/mempool sends per chain', ['relay', 'result']);
+export const bundlesIncluded = metricsRegistry.counter(
+  'mev_bundles_included_total', 'Included bundles per builder (unknown when no relay matched)', ['relay']);
+export const bundlesSettled = metricsRegistry.counter(
+  'mev_bundles_settled_total', 'Settled bundles by final status', ['chain', 'status']);
+export const bundleStatsRequests = metricsRegistry.counter(
+  'mev_bundle_stats_requests_total', 'getBundleStats calls by outcome', ['outcome']);
+export const realizedProfit = metricsRegistry.gauge(
+  'mev_realized_profit_eth', 'Cumulative realized profit of included bundles in ETH, net of gas; can go negative', ['chain']);
+export const gasSpent = metricsRegistry.counter(
+  'mev_gas_spent_eth_total', 'Gas paid by our transactions in included bundles, in ETH', ['chain']);
+
+// ---------------- Gas bidding ----------------
+export const bidShare = metricsRegistry.gauge(
+  'mev_bid_share', 'Share of post-base-fee profit currently bid to builders', ['chain']);
+export const builderBidOutcomes = metricsRegistry.counter(
+  'mev_builder_bid_outcomes_total', 'Bid outcomes learned per builder (included, lost)', ['builder', 'outcome']);
+
+// ---------------- RPC ----------------
+export const rpcDuration = metricsRegistry.histogram(
+  'rpc_request_duration_seconds', 'RPC latency per endpoint (host only; paths can embed API keys)', ['chain', 'endpoint', 'host', 'result']);
+
+// ---------------- Base44 ----------------
+export const base44Requests = metricsRegistry.counter(
+  'base44_requests_total', 'Base44 API calls by operation and outcome (ok, error)', ['operation', 'outcome']);
+export const base44PaperOrders = metricsRegistry.counter(
+  'base44_paper_orders_total', 'Simulated orders in paper/offline mode by resulting status', ['mode', 'status']);
@@ -1,23 +1,204 @@
 
-import { Router } from 'express';
-import { flashbotsExecutor } from '../index';
-import logger from '../utils/logger';
+import { Request, Response, Router } from 'express';
+import { ethers } from 'ethers';
+import { ChainEngine, chainEngines } from './engine-registry';
+import logger from './logger';
+import { config } from './config';
+import { getChain } from './chains';
+import { LedgerFilter, ledger } from './ledger';
+import { RiskViolation, riskManager } from './risk-manager';
+import { rateLimit, requireRole } from './auth';
+import { validate } from './api-middleware';
+import { FieldError } from './schema';
+import { RouteDoc } from './openapi';
+import {
+  BundleAcceptedSchema,
+  BundleStatsQuerySchema,
+  BundleSubmissionSchema,
+  ChainSummarySchema,
+  ExecuteBundleBody,
+  ExecuteBundleBodySchema,
+  GasStatusSchema,
+  HistoryQuerySchema,
+  KillSwitchSchema,
+  LedgerPageSchema,
+  RiskKillBodySchema,
+  RiskResetBodySchema,
+  SandwichBody,
+  SandwichBodySchema,
+  chainEnvelope,
+  envelope
+} from './api-schemas';
 
 const router = Router();
 
-// Get MEV opportunities
-router.get('/opportunities', async (req, res) => {
+// Running engine for the :chain parameter; answers 404 for unknown chains and 503 for
+// configured chains whose executor is not running (disabled, no signer, failed to start)
+function resolveEngine(req: Request, res: Response): ChainEngine | null {
+  const name = req.params.chain;
+  if (!config.chains[name]) {
+    res.status(404).json({
+      success: false,
+      error: `Unknown chain '${name}'`,
+      details: { chains: Object.keys(config.chains) }
+    });
+    return null;
+  }
+
+  const engine = chainEngines.get(name);
+  if (!engine) {
+    res.status(503).json({
+      success: false,
+      error: `MEV executor not running on ${name}`
+    });
+    return null;
+  }
+  return engine;
+}
+
+// ExecuteBundleBodySchema only checks for hex; every entry must also decode as a signed transaction
+function transactionErrors(transactions: string[]): FieldError[] {
+  const errors: FieldError[] = [];
+  transactions.forEach((raw, i) => {
+    const field = `body.transactions[${i}]`;
+    try {
+      if (!ethers.Transaction.from(raw).signature) {
+        errors.push({ field, message: 'transaction is not signed' });
+      }
+    } catch (error) {
+      errors.push({ field, message: `not a transaction: ${error instanceof Error ? error.message : error}` });
+    }
+  });
+  return errors;
+}
+
+// ---------------- Engine-wide routes ----------------
+// Ledger query, filtered and paginated (see HistoryQuerySchema)
+router.get('/history', requireRole('read'), validate({ query: HistoryQuerySchema }), async (req, res) => {
   try {
-    if (!flashbotsExecutor) {
-      return res.status(503).json({
+    const { limit = 50, offset = 0, ...filter } = req.query as LedgerFilter & { limit?: number; offset?: number };
+
+    const page = await ledger.query(filter, limit, offset);
+    res.json({
+      success: true,
+      data: page.items,
+      total: page.total,
+      limit: page.limit,
+      offset: page.offset
+    });
+  } catch (error) {
+    logger.error('Ledger history endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to read the ledger'
+    });
+  }
+});
+
+// Full recorded lifecycle of one bundle: opportunity, per-block attempts, outcome
+router.get('/bundles/:id', requireRole('read'), async (req, res) => {
+  try {
+    const history = await ledger.getBundleHistory(req.params.id);
+    if (!history) {
+      return res.status(404).json({
         success: false,
-        error: 'Flashbots MEV executor not available'
+        error: 'Bundle not found in ledger'
       });
     }
 
-    const opportunities = await flashbotsExecutor.scanMEVOpportunities();
     res.json({
       success: true,
+      data: history
+    });
+  } catch (error) {
+    logger.error('Bundle history endpoint error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Failed to read the ledger'
+    });
+  }
+});
+
+// Risk limits, hourly gas, daily PnL and kill switch state
+router.get('/risk', requireRole('read'), (req, res) => {
+  res.json({
+    success: true,
+    data: riskManager.getStatus()
+  });
+});
+
+// Engage the kill switch by hand
+router.post('/risk/kill', requireRole('operator'), rateLimit(), validate({ body: RiskKillBodySchema }), (req, res) => {
+  riskManager.trip(req.body?.reason || 'Engaged by operator');
+  res.json({
+    success: true,
+    data: riskManager.getStatus().killSwitch
+  });
+});
+
+// Resume trading after the kill switch tripped
+router.post('/risk/reset', requireRole('operator'), rateLimit(), validate({ body: RiskResetBodySchema }), (req, res) => {
+  // Attributed to the authenticated key unless the body names the operator
+  const operator = req.body?.operator || res.locals.principal?.name;
+  if (!operator) {
+    return res.status(400).json({
+      success: false,
+      error: 'operator is required'
+    });
+  }
+
+  riskManager.reset(operator);
+  res.json({
+    success: true,
+    data: riskManager.getStatus().killSwitch
+  });
+});
+
+// Configured chains and whether an executor is running on each
+router.get('/chains', requireRole('read'), (req, res) => {
+  res.json({
+    success: true,
+    data: Object.keys(config.chains).map(name => {
+      const chain = getChain(name);
+      const engine = chainEngines.get(name);
+      return {
+        name,
+        chainId: chain.chainId,
+        nativeSymbol: chain.nativeSymbol,
+        submission: chain.submission,
+        simulation: chain.simulation,
+        enabled: chain.enabled,
+        running: engine !== undefined,
+        ethPerNative: engine?.executor.ethPerNative
+      };
+    })
+  });
+});
+
+// MEV status
+router.get('/status', requireRole('read'), (req, res) => {
+  res.json({
+    success: true,
+    data: {
+      mevEnabled: chainEngines.size > 0,
+      chains: [...chainEngines.keys()],
+      service: 'Flashbots MEV',
+      version: '1.0.0'
+    }
+  });
+});
+
+// ---------------- Chain-scoped routes (/:chain/...) ----------------
+// Opportunities the scanner detected most recently; a read must not sign bundles or reserve nonces
+router.get('/:chain/opportunities', requireRole('read'), async (req, res) => {
+  try {
+    const engine = resolveEngine(req, res);
+    if (!engine) return;
+
+    const opportunities = engine.executor.getDetectedOpportunities();
+    res.json({
+      success: true,
+      chain: engine.chain.name,
       data: opportunities,
       count: opportunities.length
     });
@@ -25,31 +206,26 @@ router.get('/opportunities', async (req, res) => {
     logger.error('MEV opportunities endpoint error:', error);
     res.status(500).json({
       success: false,
-      error: 'Failed to scan MEV opportunities'
+      error: 'Failed to list MEV opportunities'
     });
   }
 });
 
 // Create sandwich bundle
-router.post('/sandwich', async (req, res) => {
+router.post('/:chain/sandwich', requireRole('operator'), rateLimit(), validate({ body: SandwichBodySchema }), async (req, res) => {
   try {
-    const { targetTx, amountIn } = req.body;
+    const { targetTx, amountIn }: SandwichBody = req.body;
     
-    if (!flashbotsExecutor) {
-      return res.status(503).json({
-        success: false,
-        error: 'Flashbots MEV executor not available'
-      });
-    }
-
-    if (!targetTx || !amountIn) {
-      return res.status(400).json({
+    const engine = resolveEngine(req, res);
+    if (!engine) return;
+    if (!engine.executor.canSandwich) {
+      return res.status(409).json({
         success: false,
-        error: 'targetTx and amountIn are required'
+        error: `Sandwiches need relay submission; ${engine.chain.name} uses ${engine.chain.submission}`
       });
     }
 
-    const bundle = await flashbotsExecutor.createSandwichBundle(targetTx, amountIn);
+    const bundle = await engine.executor.createSandwichBundle(targetTx, amountIn);
     
     if (!bundle) {
       return res.status(400).json({
@@ -60,6 +236,7 @@ router.post('/sandwich', async (req, res) => {
 
     res.json({
       success: true,
+      chain: engine.chain.name,
       data: bundle
     });
   } catch (error) {
@@ -72,27 +249,52 @@ router.post('/sandwich', async (req, res) => {
 });
 
 // Execute bundle
-router.post('/execute', async (req, res) => {
+router.post('/:chain/execute', requireRole('operator'), rateLimit(), validate({ body: ExecuteBundleBodySchema }), async (req, res) => {
   try {
-    const { transactions, blockNumber } = req.body;
+    const { transactions, blockNumber }: ExecuteBundleBody = req.body;
     
-    if (!flashbotsExecutor) {
-      return res.status(503).json({
+    const engine = resolveEngine(req, res);
+    if (!engine) return;
+
+    const errors = transactionErrors(transactions);
+    if (errors.length > 0) {
+      return res.status(400).json({
         success: false,
-        error: 'Flashbots MEV executor not available'
+        error: 'Invalid signed transactions',
+        details: errors
       });
     }
 
-    const success = await flashbotsExecutor.executeBundle({
+    const submission = await engine.executor.executeBundle({
       transactions,
       blockNumber
     });
 
-    res.json({
-      success,
-      message: success ? 'Bundle executed successfully' : 'Bundle execution failed'
+    if (!submission) {
+      return res.status(400).json({
+        success: false,
+        error: 'Bundle submission failed'
+      });
+    }
+
+    // Poll GET /:chain/bundle/:bundleId for the outcome
+    res.status(202).json({
+      success: true,
+      chain: engine.chain.name,
+      data: {
+        bundleId: submission.id,
+        status: submission.status,
+        firstBlock: submission.firstBlock,
+        lastBlock: submission.lastBlock
+      }
     });
   } catch (error) {
+    if (error instanceof RiskViolation) {
+      return res.status(error.halted ? 423 : 403).json({
+        success: false,
+        error: error.message
+      });
+    }
     logger.error('Bundle execution endpoint error:', error);
     res.status(500).json({
       success: false,
@@ -101,22 +303,48 @@ router.post('/execute', async (req, res) => {
   }
 });
 
-// Get bundle stats
-router.get('/bundle/:bundleHash/stats', async (req, res) => {
+// Get submission status and per-block attempts
+router.get('/:chain/bundle/:bundleId', requireRole('read'), (req, res) => {
+  const engine = resolveEngine(req, res);
+  if (!engine) return;
+
+  const submission = engine.executor.getSubmission(req.params.bundleId);
+  if (!submission) {
+    return res.status(404).json({
+      success: false,
+      error: 'Bundle not found'
+    });
+  }
+
+  res.json({
+    success: true,
+    chain: engine.chain.name,
+    data: submission
+  });
+});
+
+// Get bundle stats (relay chains only)
+router.get('/:chain/bundle/:bundleHash/stats', requireRole('read'), validate({ query: BundleStatsQuerySchema }), async (req, res) => {
   try {
     const { bundleHash } = req.params;
+    // validate() has already coerced it to an integer
+    const { blockNumber } = req.query as { blockNumber?: number };
     
-    if (!flashbotsExecutor) {
-      return res.status(503).json({
+    const engine = resolveEngine(req, res);
+    if (!engine) return;
+
+    if (!engine.executor.supportsBundleStats) {
+      return res.status(409).json({
         success: false,
-        error: 'Flashbots MEV executor not available'
+        error: `Bundle stats are only available for relay submission; ${engine.chain.name} uses ${engine.chain.submission}`
       });
     }
 
-    const stats = await flashbotsExecutor.getBundleStats(bundleHash);
+    const stats = await engine.executor.getBundleStats(bundleHash, blockNumber);
     
     res.json({
       success: true,
+      chain: engine.chain.name,
       data: stats
     });
   } catch (error) {
@@ -128,16 +356,72 @@ router.get('/bundle/:bundleHash/stats', async (req, res) => {
   }
 });
 
-// MEV status
-router.get('/status', (req, res) => {
+// Per-builder acceptance and inclusion counts (the sequencer or mempool sender on other chains)
+router.get('/:chain/relays', requireRole('read'), (req, res) => {
+  const engine = resolveEngine(req, res);
+  if (!engine) return;
+
   res.json({
     success: true,
-    data: {
-      mevEnabled: flashbotsExecutor !== null,
-      service: 'Flashbots MEV',
-      version: '1.0.0'
-    }
+    chain: engine.chain.name,
+    data: engine.executor.getRelayStats()
   });
 });
 
+// Base fee prediction, current bid share and what each builder has taken to include us
+router.get('/:chain/gas', requireRole('read'), async (req, res) => {
+  const engine = resolveEngine(req, res);
+  if (!engine) return;
+
+  try {
+    res.json({
+      success: true,
+      chain: engine.chain.name,
+      data: await engine.executor.getGasStatus()
+    });
+  } catch (error) {
+    logger.error('Gas status endpoint error:', error);
+    res.status(502).json({
+      success: false,
+      error: 'Failed to predict the next base fee'
+    });
+  }
+});
+
+// Mempool stream metrics (seen, duplicates, dropped, queue depth)
+router.get('/:chain/mempool', requireRole('read'), (req, res) => {
+  const engine = resolveEngine(req, res);
+  if (!engine) return;
+  if (!engine.mempool) {
+    return res.status(503).json({
+      success: false,
+      error: `Mempool streaming not enabled on ${engine.chain.name}`
+    });
+  }
+
+  res.json({
+    success: true,
+    chain: engine.chain.name,
+    data: engine.mempool.getMetrics()
+  });
+});
+
+export const docs: RouteDoc[] = [
+  { method: 'get', path: '/history', summary: 'Query the opportunity and bundle ledger (all chains unless filtered)', role: 'read', query: HistoryQuerySchema, response: LedgerPageSchema },
+  { method: 'get', path: '/bundles/:id', summary: 'Recorded lifecycle of one bundle', role: 'read', response: envelope({ type: 'object' }) },
+  { method: 'get', path: '/risk', summary: 'Risk limits, gas spend, daily PnL and kill switch state', role: 'read', response: envelope({ type: 'object' }) },
+  { method: 'post', path: '/risk/kill', summary: 'Engage the kill switch', role: 'operator', body: RiskKillBodySchema, response: envelope(KillSwitchSchema) },
+  { method: 'post', path: '/risk/reset', summary: 'Reset the kill switch', role: 'operator', body: RiskResetBodySchema, response: envelope(KillSwitchSchema) },
+  { method: 'get', path: '/chains', summary: 'Configured chains and their executors', role: 'read', response: envelope({ type: 'array', items: ChainSummarySchema }) },
+  { method: 'get', path: '/status', summary: 'MEV executor status', role: 'read', response: envelope({ type: 'object' }) },
+  { method: 'get', path: '/:chain/opportunities', summary: 'MEV opportunities the scanner detected most recently, newest first', role: 'read', response: chainEnvelope({ type: 'array', items: { type: 'object' } }) },
+  { method: 'post', path: '/:chain/sandwich', summary: 'Build a signed sandwich bundle around a pending transaction', role: 'operator', body: SandwichBodySchema, response: chainEnvelope({ type: 'object' }) },
+  { method: 'post', path: '/:chain/execute', summary: 'Submit signed transactions as a bundle over the block window', role: 'operator', body: ExecuteBundleBodySchema, response: chainEnvelope(BundleAcceptedSchema), status: 202 },
+  { method: 'get', path: '/:chain/bundle/:bundleId', summary: 'Submission status and per-block attempts', role: 'read', response: chainEnvelope(BundleSubmissionSchema) },
+  { method: 'get', path: '/:chain/bundle/:bundleHash/stats', summary: 'Flashbots relay stats for a bundle (relay chains only)', role: 'read', query: BundleStatsQuerySchema, response: chainEnvelope({ type: 'object' }) },
+  { method: 'get', path: '/:chain/relays', summary: 'Per-relay acceptance and inclusion counts', role: 'read', response: chainEnvelope({ type: 'array', items: { type: 'object' } }) },
+  { method: 'get', path: '/:chain/gas', summary: 'Next base fee, bid share and per-builder bid history', role: 'read', response: chainEnvelope(GasStatusSchema) },
+  { method: 'get', path: '/:chain/mempool', summary: 'Mempool stream metrics', role: 'read', response: chainEnvelope({ type: 'object' }) }
+];
+
 export default router;
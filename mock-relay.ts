@@ -0,0 +1,129 @@
+import express, { Request, Response } from 'express';
+import { Server } from 'http';
+import { ethers } from 'ethers';
+import logger from './logger';
+
+// Bundle as received by the mock, with the searcher address recovered from its signature
+export interface ReceivedBundle {
+  relay: string;
+  txs: string[];
+  blockNumber: number;
+  signer: string | null;
+  receivedAt: number;
+}
+
+export interface MockRelayOptions {
+  name: string;
+  port: number;
+  // 'accept' answers with a bundle hash, 'reject' with a JSON-RPC error
+  behaviour: 'accept' | 'reject';
+  // Reject eth_sendBundle without a valid X-Flashbots-Signature header
+  requireSignature: boolean;
+}
+
+// Stand-in for a block builder / relay endpoint so the fan-out can be exercised
+// locally: point BUNDLE_RELAYS at one or more of these. Received bundles are listed
+// at GET /bundles.
+export function startMockRelay(options: Partial<MockRelayOptions> = {}): { server: Server; received: ReceivedBundle[] } {
+  const settings: MockRelayOptions = {
+    name: 'mock',
+    port: 18545,
+    behaviour: 'accept',
+    requireSignature: false,
+    ...options
+  };
+  const received: ReceivedBundle[] = [];
+  const app = express();
+  app.use(express.text({ type: '*/*' }));
+
+  app.post('/', (req: Request, res: Response) => {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(req.body);
+    } catch {
+      return res.status(400).json({ jsonrpc: '2.0', id: null, error: { code: -32700, message: 'parse error' } });
+    }
+    if (!isJsonRpcRequest(parsed)) {
+      return res.status(400).json({ jsonrpc: '2.0', id: null, error: { code: -32600, message: 'invalid request' } });
+    }
+    const payload = parsed;
+
+    const reply = (body: object) => res.json({ jsonrpc: '2.0', id: payload.id, ...body });
+    const signer = recoverSigner(req.header('X-Flashbots-Signature'), req.body);
+
+    switch (payload.method) {
+      case 'eth_sendBundle': {
+        if (settings.requireSignature && !signer) {
+          return reply({ error: { code: -32600, message: 'missing or invalid X-Flashbots-Signature' } });
+        }
+        if (settings.behaviour === 'reject') {
+          return reply({ error: { code: -32000, message: `${settings.name} rejected bundle` } });
+        }
+
+        const bundle = payload.params?.[0];
+        if (!isBundleParams(bundle)) {
+          return reply({ error: { code: -32602, message: 'expected { txs: string[], blockNumber }' } });
+        }
+        const { txs, blockNumber } = bundle;
+        received.push({ relay: settings.name, txs, blockNumber: Number(blockNumber), signer, receivedAt: Date.now() });
+        const bundleHash = ethers.keccak256(ethers.concat(txs.map(raw => ethers.keccak256(raw))));
+        return reply({ result: { bundleHash } });
+      }
+      case 'eth_callBundle':
+        return reply({ result: { results: [], totalGasUsed: 0, coinbaseDiff: '0', bundleGasPrice: '0' } });
+      default:
+        return reply({ error: { code: -32601, message: `method ${payload.method} not supported` } });
+    }
+  });
+
+  app.get('/bundles', (req: Request, res: Response) => {
+    res.json({ success: true, data: received });
+  });
+
+  const server = app.listen(settings.port, () => {
+    logger.info(`Mock relay '${settings.name}' (${settings.behaviour}) listening on port ${settings.port}`);
+  });
+  return { server, received };
+}
+
+interface JsonRpcRequest {
+  id: string | number | null;
+  method: string;
+  params?: unknown[];
+}
+
+function isJsonRpcRequest(value: unknown): value is JsonRpcRequest {
+  if (typeof value !== 'object' || value === null) return false;
+  const { id, method, params } = value as Record<string, unknown>;
+  return (id === null || typeof id === 'string' || typeof id === 'number')
+    && typeof method === 'string'
+    && (params === undefined || Array.isArray(params));
+}
+
+function isBundleParams(value: unknown): value is { txs: string[]; blockNumber: string | number } {
+  if (typeof value !== 'object' || value === null) return false;
+  const { txs, blockNumber } = value as Record<string, unknown>;
+  return Array.isArray(txs) && txs.every(tx => typeof tx === 'string')
+    && (typeof blockNumber === 'string' || typeof blockNumber === 'number');
+}
+
+// X-Flashbots-Signature is "<address>:<signature over id(body)>"
+function recoverSigner(header: string | undefined, body: string): string | null {
+  if (!header) return null;
+  const [address, signature] = header.split(':');
+  try {
+    const recovered = ethers.verifyMessage(ethers.id(body), signature);
+    return recovered.toLowerCase() === address.toLowerCase() ? recovered : null;
+  } catch {
+    return null;
+  }
+}
+
+if (require.main === module) {
+  startMockRelay({
+    name: process.env.MOCK_RELAY_NAME || 'mock',
+    port: Number(process.env.MOCK_RELAY_PORT) || 18545,
+    behaviour: process.env.MOCK_RELAY_BEHAVIOUR === 'reject' ? 'reject' : 'accept',
+    requireSignature: process.env.MOCK_RELAY_REQUIRE_SIGNATURE === 'true'
+  });
+}
@@ -0,0 +1,167 @@
+import { ethers } from 'ethers';
+import { ProviderPool } from './provider-pool';
+import logger from './logger';
+
+export interface NonceReservation {
+  id: number;
+  first: number;
+  count: number;
+  targetBlock: number;
+}
+
+export interface InFlightSummary {
+  targetBlock: number;
+  reservations: number;
+  nonces: number[];
+}
+
+// Hands out nonces for one account. Reservations are serialized so overlapping
+// bundle builders never receive the same nonce; each reservation is tied to the
+// block its bundle targets. After every block the manager resyncs from chain:
+// reservations below the on-chain nonce were included, reservations whose target
+// block has passed without inclusion are rolled back. A rollback that leaves a gap
+// under later reservations invalidates those too, since their nonces can no longer
+// land; their bundles find out through holds().
+export class NonceManager {
+  private next: number | null = null;
+  private chainNonce = 0;
+  private reservations: Map<number, NonceReservation> = new Map();
+  private nextId = 1;
+  private lock: Promise<unknown> = Promise.resolve();
+  private blockListener: ((blockNumber: number) => void) | null = null;
+  private watchedProvider: ethers.JsonRpcProvider | null = null;
+
+  constructor(private address: string, private providers: ProviderPool) {}
+
+  reserve(count: number, targetBlock: number): Promise<NonceReservation> {
+    return this.exclusive(async () => {
+      if (this.next === null) {
+        await this.refreshChainNonce('pending');
+        this.next = this.chainNonce;
+      }
+
+      const reservation = { id: this.nextId++, first: this.next, count, targetBlock };
+      this.next += count;
+      this.reservations.set(reservation.id, reservation);
+      return reservation;
+    });
+  }
+
+  // Gives back a reservation whose bundle was abandoned or not included
+  rollback(reservation: NonceReservation): Promise<void> {
+    return this.exclusive(async () => {
+      const live = this.reservations.get(reservation.id);
+      if (live) this.release([live]);
+    });
+  }
+
+  // Rolls back whichever reservations hold any of the given nonces
+  rollbackNonces(nonces: number[]): Promise<void> {
+    return this.exclusive(async () => {
+      const dropped = [...this.reservations.values()].filter(reservation =>
+        nonces.some(nonce => nonce >= reservation.first && nonce < reservation.first + reservation.count));
+      if (dropped.length > 0) this.release(dropped);
+    });
+  }
+
+  // Keeps reservations alive while their bundle is retargeted to later blocks
+  retarget(nonces: number[], targetBlock: number): Promise<void> {
+    return this.exclusive(async () => {
+      for (const reservation of this.reservations.values()) {
+        if (nonces.some(nonce => nonce >= reservation.first && nonce < reservation.first + reservation.count)) {
+          reservation.targetBlock = Math.max(reservation.targetBlock, targetBlock);
+        }
+      }
+    });
+  }
+
+  resync(blockNumber: number): Promise<void> {
+    return this.exclusive(async () => {
+      await this.refreshChainNonce('latest');
+
+      const expired: NonceReservation[] = [];
+      for (const reservation of [...this.reservations.values()]) {
+        if (reservation.first + reservation.count <= this.chainNonce) {
+          this.reservations.delete(reservation.id);
+        } else if (reservation.targetBlock < blockNumber) {
+          logger.debug(`Rolled back nonces ${reservation.first}-${reservation.first + reservation.count - 1} for block ${reservation.targetBlock}`);
+          expired.push(reservation);
+        }
+      }
+      this.release(expired);
+    });
+  }
+
+  // Whether every one of these nonces still belongs to a live reservation
+  holds(nonces: number[]): boolean {
+    const live = [...this.reservations.values()];
+    return nonces.every(nonce => live.some(reservation =>
+      nonce >= reservation.first && nonce < reservation.first + reservation.count));
+  }
+
+  start(): void {
+    if (this.blockListener) return;
+    this.watchedProvider = this.providers.getProvider();
+    this.blockListener = (blockNumber: number) => {
+      this.resync(blockNumber).catch(error => logger.error(`Nonce resync failed at block ${blockNumber}:`, error));
+    };
+    this.watchedProvider.on('block', this.blockListener);
+  }
+
+  stop(): void {
+    if (this.blockListener && this.watchedProvider) {
+      this.watchedProvider.off('block', this.blockListener);
+    }
+    this.blockListener = null;
+    this.watchedProvider = null;
+  }
+
+  getInFlight(): InFlightSummary[] {
+    const byBlock = new Map<number, InFlightSummary>();
+    for (const reservation of this.reservations.values()) {
+      const summary = byBlock.get(reservation.targetBlock)
+        ?? { targetBlock: reservation.targetBlock, reservations: 0, nonces: [] };
+      summary.reservations++;
+      for (let i = 0; i < reservation.count; i++) summary.nonces.push(reservation.first + i);
+      byBlock.set(reservation.targetBlock, summary);
+    }
+    return [...byBlock.values()].sort((a, b) => a.targetBlock - b.targetBlock);
+  }
+
+  // Drops reservations that will not be mined. Reservations above the lowest dropped
+  // nonce would wait on it forever, so they go as well and the next reservation reuses
+  // the freed nonces.
+  private release(dropped: NonceReservation[]): void {
+    let gap = Infinity;
+    for (const reservation of dropped) {
+      this.reservations.delete(reservation.id);
+      if (reservation.first >= this.chainNonce) gap = Math.min(gap, reservation.first);
+    }
+    for (const reservation of [...this.reservations.values()]) {
+      if (reservation.first > gap) {
+        this.reservations.delete(reservation.id);
+        logger.debug(`Invalidated nonces ${reservation.first}-${reservation.first + reservation.count - 1}: nonce ${gap} was rolled back`);
+      }
+    }
+    this.recomputeNext();
+  }
+
+  // Next nonce is the chain nonce unless live reservations already extend past it
+  private recomputeNext(): void {
+    let next = this.chainNonce;
+    for (const reservation of this.reservations.values()) {
+      next = Math.max(next, reservation.first + reservation.count);
+    }
+    this.next = next;
+  }
+
+  private async refreshChainNonce(blockTag: 'latest' | 'pending'): Promise<void> {
+    this.chainNonce = await this.providers.execute(provider => provider.getTransactionCount(this.address, blockTag));
+  }
+
+  private exclusive<T>(operation: () => Promise<T>): Promise<T> {
+    const result = this.lock.then(operation);
+    this.lock = result.catch(() => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,120 @@
+import { JsonSchema } from './schema';
+import { namedSchemas } from './api-schemas';
+import { Role } from './auth';
+
+// One documented operation. Paths use express syntax (/bundle/:bundleId) relative to
+// the module's basePath; body/query/response reference the same schemas the routes
+// validate with.
+export interface RouteDoc {
+  method: 'get' | 'post';
+  path: string;
+  summary: string;
+  role?: Role; // Omitted for open routes
+  body?: JsonSchema;
+  query?: JsonSchema;
+  response?: JsonSchema;
+  status?: number; // Success status, 200 unless set
+}
+
+export interface DocumentedModule {
+  name: string;
+  basePath: string;
+  docs: RouteDoc[];
+}
+
+const ERROR_STATUSES: Record<number, string> = {
+  400: 'Invalid request',
+  401: 'Authentication required',
+  403: 'Missing role or refused by risk checks',
+  429: 'Rate limit exceeded'
+};
+
+// OpenAPI 3.0 document for the mounted modules
+export function buildOpenApiDocument(modules: DocumentedModule[], version: string): object {
+  const paths: Record<string, Record<string, object>> = {};
+
+  for (const module of modules) {
+    for (const doc of module.docs) {
+      const path = joinPath(module.basePath, doc.path);
+      paths[path] = paths[path] || {};
+      paths[path][doc.method] = operation(module.name, doc, path);
+    }
+  }
+
+  return {
+    openapi: '3.0.3',
+    info: { title: 'Massive Trading Engine API', version },
+    components: {
+      schemas: Object.fromEntries(Object.entries(namedSchemas).map(([name, schema]) => [name, withRefs(schema, false)])),
+      securitySchemes: {
+        bearer: { type: 'http', scheme: 'bearer', description: 'API key (mte_...) or JWT from POST /auth/token' },
+        apiKey: { type: 'apiKey', in: 'header', name: 'X-API-Key' }
+      }
+    },
+    paths
+  };
+}
+
+function operation(tag: string, doc: RouteDoc, path: string): object {
+  const responses: Record<string, object> = {
+    [doc.status || 200]: {
+      description: 'Success',
+      content: { 'application/json': { schema: doc.response ? withRefs(doc.response) : { type: 'object' } } }
+    }
+  };
+  const errors = [
+    ...(doc.body || doc.query ? [400] : []),
+    ...(doc.role ? [401, 403] : []),
+    ...(doc.method === 'post' && doc.role && doc.role !== 'read' ? [429] : [])
+  ];
+  for (const status of errors) {
+    responses[status] = {
+      description: ERROR_STATUSES[status],
+      content: { 'application/json': { schema: { $ref: '#/components/schemas/ErrorResponse' } } }
+    };
+  }
+
+  const parameters = [
+    ...(path.match(/\{(\w+)\}/g) || []).map(param => ({
+      name: param.slice(1, -1), in: 'path', required: true, schema: { type: 'string' }
+    })),
+    ...Object.entries(doc.query?.properties || {}).map(([name, schema]) => ({
+      name, in: 'query', required: doc.query?.required?.includes(name) ?? false, schema
+    }))
+  ];
+
+  return {
+    tags: [tag],
+    summary: doc.summary,
+    ...(doc.role ? { security: [{ bearer: [] }, { apiKey: [] }], 'x-required-role': doc.role } : {}),
+    ...(parameters.length > 0 ? { parameters } : {}),
+    ...(doc.body ? { requestBody: { required: true, content: { 'application/json': { schema: withRefs(doc.body) } } } } : {}),
+    responses
+  };
+}
+
+// Named schemas are referenced instead of inlined wherever they appear
+function withRefs(schema: JsonSchema, asRef: boolean = true): object {
+  const name = Object.keys(namedSchemas).find(key => namedSchemas[key] === schema);
+  if (name && asRef) {
+    return { $ref: `#/components/schemas/${name}` };
+  }
+
+  const result: Record<string, unknown> = { ...schema };
+  if (schema.properties) {
+    result.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, withRefs(value)]));
+  }
+  if (schema.items) {
+    result.items = withRefs(schema.items);
+  }
+  if (typeof schema.additionalProperties === 'object') {
+    result.additionalProperties = withRefs(schema.additionalProperties);
+  }
+  return result;
+}
+
+// Express paths to OpenAPI templates: /mev + /bundle/:id -> /mev/bundle/{id}
+function joinPath(basePath: string, path: string): string {
+  const joined = `${basePath.replace(/\/$/, '')}${path}`.replace(/:(\w+)/g, '{$1}');
+  return joined || '/';
+}
@@ -0,0 +1,119 @@
+import { SwapDescriptor } from './swap-decoder';
+import { PoolState, PoolStateCache, quoteExactInput } from './pool-state';
+import { ArbitragePlan, BackrunArbitrageStrategy } from './arbitrage-strategy';
+
+// Gas limit assumed for each swap leg we send
+export const SWAP_GAS_LIMIT = 200000n;
+
+export interface SandwichEstimate {
+  pool: PoolState; // The victim's pool, as cached before the front-run
+  token: string; // Bought by the front-run and sold back by the back-run
+  amountIn: bigint; // Front-run size in WETH (the chain's wrapped native token)
+  tokenAmount: bigint; // Front-run output, sold in full by the back-run
+  grossProfit: bigint;
+  netProfit: bigint; // After gas for the front- and back-run legs
+}
+
+export interface Detection {
+  sandwich: SandwichEstimate | null;
+  arbitrage: ArbitragePlan | null; // Only sized for swaps large enough to backrun
+}
+
+// Detection half of the opportunity pipeline: sizes sandwich and backrun
+// opportunities for a transaction's decoded swaps against cached pool state. It signs
+// nothing and reads nothing beyond the pool cache, so the live executor and the
+// offline backtester run exactly the same logic.
+export class OpportunityDetector {
+  readonly arbitrage: BackrunArbitrageStrategy;
+
+  constructor(private pools: PoolStateCache, ethPerNative: () => number = () => 1) {
+    this.arbitrage = new BackrunArbitrageStrategy(pools, ethPerNative);
+  }
+
+  async detect(swaps: SwapDescriptor[], gasPrice: bigint): Promise<Detection> {
+    if (swaps.length === 0) {
+      return { sandwich: null, arbitrage: null };
+    }
+
+    const sandwich = await this.estimateSandwich(swaps[0], gasPrice);
+    const arbitrage = this.arbitrage.isLargeSwap(swaps[0])
+      ? await this.arbitrage.findOpportunity(swaps[0])
+      : null;
+    return { sandwich, arbitrage };
+  }
+
+  // Sizes a WETH-funded sandwich around a single-hop exact-input swap using cached
+  // pool state: the largest front-run that keeps the victim above its amountOutMin
+  // bounds the search, then the profit-maximizing size within it is picked.
+  async estimateSandwich(swap: SwapDescriptor, gasPrice: bigint): Promise<SandwichEstimate | null> {
+    const pool = await this.sandwichPool(swap);
+    if (!pool) return null;
+
+    const victimIn = BigInt(swap.amountIn);
+    const victimMinOut = BigInt(swap.amountOut);
+    const safeSimulate = (frontRunIn: bigint) => simulateSandwich(pool, swap, frontRunIn);
+
+    // Largest front-run the victim's slippage tolerance allows
+    let low = 0n;
+    let high = victimIn * 10n;
+    for (let i = 0; i < 64 && high - low > 1n; i++) {
+      const mid = (low + high) / 2n;
+      const result = safeSimulate(mid);
+      if (result && result.victimOut >= victimMinOut) low = mid; else high = mid;
+    }
+    if (low === 0n) return null;
+
+    // Profit is concave in the front-run size; ternary search inside the feasible range
+    let left = 0n;
+    let right = low;
+    for (let i = 0; i < 64 && right - left > 2n; i++) {
+      const m1 = left + (right - left) / 3n;
+      const m2 = right - (right - left) / 3n;
+      if (safeSimulate(m1)!.profit < safeSimulate(m2)!.profit) left = m1; else right = m2;
+    }
+    const amountIn = (left + right) / 2n;
+    const { profit: grossProfit, tokenAmount } = safeSimulate(amountIn)!;
+    const netProfit = grossProfit - gasPrice * SWAP_GAS_LIMIT * 2n;
+
+    return { pool, token: swap.path[1], amountIn, tokenAmount, grossProfit, netProfit };
+  }
+
+  // The same sandwich at a front-run size chosen by the caller; null when that size would
+  // push the victim below its amountOutMin (or the swap cannot be sandwiched)
+  async quoteSandwich(swap: SwapDescriptor, amountIn: bigint, gasPrice: bigint): Promise<SandwichEstimate | null> {
+    const pool = await this.sandwichPool(swap);
+    if (!pool) return null;
+
+    const result = simulateSandwich(pool, swap, amountIn);
+    if (!result || result.victimOut < BigInt(swap.amountOut)) return null;
+    const netProfit = result.profit - gasPrice * SWAP_GAS_LIMIT * 2n;
+    return { pool, token: swap.path[1], amountIn, tokenAmount: result.tokenAmount, grossProfit: result.profit, netProfit };
+  }
+
+  // Only single-hop exact-input swaps paid in WETH are sandwiched
+  private async sandwichPool(swap: SwapDescriptor): Promise<PoolState | null> {
+    const weth = this.pools.chain.wrappedNative.toLowerCase();
+    if (!swap.exactInput || swap.path.length !== 2 || swap.path[0].toLowerCase() !== weth) {
+      return null;
+    }
+    return this.pools.resolveSwapPool(swap);
+  }
+}
+
+// Front-run, victim and back-run through one pool; null when the swaps run past the
+// loaded V3 ticks
+function simulateSandwich(
+  pool: PoolState,
+  swap: SwapDescriptor,
+  frontRunIn: bigint
+): { profit: bigint; victimOut: bigint; tokenAmount: bigint } | null {
+  const [tokenIn, tokenOut] = swap.path;
+  try {
+    const front = quoteExactInput(pool, tokenIn, frontRunIn);
+    const victim = quoteExactInput(front.pool, tokenIn, BigInt(swap.amountIn));
+    const back = quoteExactInput(victim.pool, tokenOut, front.amountOut);
+    return { profit: back.amountOut - frontRunIn, victimOut: victim.amountOut, tokenAmount: front.amountOut };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,245 @@
+import fs from 'fs';
+import path from 'path';
+import { randomUUID } from 'crypto';
+import { config } from './config';
+import logger from './logger';
+
+export type PaperSettings = typeof config.base44.paper;
+
+export type PaperOrderStatus = 'open' | 'filled' | 'rejected' | 'cancelled';
+
+export interface PaperOrder {
+  id: string;
+  token: string;
+  side: 'buy' | 'sell';
+  amount: string;
+  limitPrice?: string; // USD per token; unset for market orders
+  status: PaperOrderStatus;
+  createdAt: number;
+  closedAt?: number;
+  quotePrice?: number; // Quote the fill was priced from
+  fillPrice?: number; // Quote plus slippage
+  feeUsd?: number;
+  realizedPnlUsd?: number; // Set on filled sells, net of fees
+  reason?: string; // Why a rejected order was refused
+}
+
+interface PaperPosition {
+  amount: number;
+  costUsd: number; // Cost basis, buy fees included
+}
+
+interface PaperState {
+  cashUsd: number;
+  positions: Record<string, PaperPosition>;
+  realizedPnlUsd: number; // Net of fees
+  feesPaidUsd: number;
+  openOrders: PaperOrder[];
+  recentOrders: PaperOrder[]; // Closed orders, newest first
+  fills: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface PortfolioSnapshot {
+  cashUsd: number;
+  positions: Array<{ token: string; amount: number; avgPriceUsd: number; markPriceUsd?: number; unrealizedPnlUsd?: number }>;
+  realizedPnlUsd: number;
+  unrealizedPnlUsd: number;
+  feesPaidUsd: number;
+  equityUsd: number; // Cash plus positions at their marks (cost basis where no mark is known)
+  openOrders: PaperOrder[];
+  recentOrders: PaperOrder[];
+  fills: number;
+  createdAt: number;
+  updatedAt: number;
+}
+
+const RECENT_ORDERS = 100;
+const DUST = 1e-12;
+
+// Symbols are case-insensitive, addresses are compared lowercased
+export function tokenKey(token: string): string {
+  const trimmed = token.trim();
+  return trimmed.startsWith('0x') ? trimmed.toLowerCase() : trimmed.toUpperCase();
+}
+
+// Simulated book and portfolio for Base44 paper/offline trading. Orders fill at the
+// quote they are given plus slippage, pay a fee on their notional, and limit orders
+// the quote does not reach rest in the book until a later quote crosses them. State
+// is written to disk after every change so PnL carries across restarts.
+export class PaperPortfolio {
+  private state: PaperState;
+
+  constructor(private settings: PaperSettings = config.base44.paper) {
+    this.state = this.load();
+  }
+
+  // Returns the order as it stands after matching against `quote`
+  place(params: { token: string; side: 'buy' | 'sell'; amount: string; price?: string }, quote: number): PaperOrder {
+    const order: PaperOrder = {
+      id: `paper_${randomUUID()}`,
+      token: tokenKey(params.token),
+      side: params.side,
+      amount: params.amount,
+      limitPrice: params.price,
+      status: 'open',
+      createdAt: Date.now()
+    };
+
+    this.execute(order, quote);
+    if (order.status === 'open') {
+      this.state.openOrders.push(order);
+    }
+    this.save();
+    return order;
+  }
+
+  // Fills (or rejects) resting orders for `token` that `quote` now crosses
+  match(token: string, quote: number): PaperOrder[] {
+    const key = tokenKey(token);
+    const closed: PaperOrder[] = [];
+    for (const order of this.state.openOrders.filter(open => open.token === key)) {
+      this.execute(order, quote);
+      if (order.status !== 'open') closed.push(order);
+    }
+    if (closed.length > 0) {
+      this.state.openOrders = this.state.openOrders.filter(order => order.status === 'open');
+      this.save();
+    }
+    return closed;
+  }
+
+  cancel(orderId: string): PaperOrder | null {
+    const order = this.state.openOrders.find(open => open.id === orderId);
+    if (!order) return null;
+    this.state.openOrders = this.state.openOrders.filter(open => open !== order);
+    this.close(order, 'cancelled');
+    this.save();
+    return order;
+  }
+
+  openTokens(): string[] {
+    return [...new Set([...Object.keys(this.state.positions), ...this.state.openOrders.map(order => order.token)])];
+  }
+
+  // `marks` maps token keys to current USD prices; positions without one are valued at cost
+  snapshot(marks: Record<string, number> = {}): PortfolioSnapshot {
+    let unrealizedPnlUsd = 0;
+    let positionsValue = 0;
+    const positions = Object.entries(this.state.positions).map(([token, position]) => {
+      const avgPriceUsd = position.costUsd / position.amount;
+      const mark = marks[token];
+      if (mark === undefined) {
+        positionsValue += position.costUsd;
+        return { token, amount: position.amount, avgPriceUsd };
+      }
+      const unrealized = mark * position.amount - position.costUsd;
+      unrealizedPnlUsd += unrealized;
+      positionsValue += mark * position.amount;
+      return { token, amount: position.amount, avgPriceUsd, markPriceUsd: mark, unrealizedPnlUsd: unrealized };
+    });
+
+    return {
+      cashUsd: this.state.cashUsd,
+      positions,
+      realizedPnlUsd: this.state.realizedPnlUsd,
+      unrealizedPnlUsd,
+      feesPaidUsd: this.state.feesPaidUsd,
+      equityUsd: this.state.cashUsd + positionsValue,
+      openOrders: [...this.state.openOrders],
+      recentOrders: [...this.state.recentOrders],
+      fills: this.state.fills,
+      createdAt: this.state.createdAt,
+      updatedAt: this.state.updatedAt
+    };
+  }
+
+  // Leaves the order open when a limit is not reached; otherwise fills or rejects it
+  private execute(order: PaperOrder, quote: number): void {
+    const slippage = this.settings.slippageBps / 10000;
+    const fillPrice = order.side === 'buy' ? quote * (1 + slippage) : quote * (1 - slippage);
+    if (order.limitPrice !== undefined) {
+      const limit = Number(order.limitPrice);
+      if (order.side === 'buy' ? fillPrice > limit : fillPrice < limit) return;
+    }
+
+    const amount = Number(order.amount);
+    const notional = amount * fillPrice;
+    const fee = notional * this.settings.feeBps / 10000;
+    const position = this.state.positions[order.token] || { amount: 0, costUsd: 0 };
+
+    if (order.side === 'buy') {
+      if (this.state.cashUsd + DUST < notional + fee) {
+        order.reason = `Insufficient paper cash: $${(notional + fee).toFixed(2)} needed, $${this.state.cashUsd.toFixed(2)} available`;
+        return this.close(order, 'rejected');
+      }
+      this.state.cashUsd -= notional + fee;
+      position.amount += amount;
+      position.costUsd += notional + fee;
+    } else {
+      if (position.amount + DUST < amount) {
+        order.reason = `Insufficient paper position: ${amount} ${order.token} needed, ${position.amount} held`;
+        return this.close(order, 'rejected');
+      }
+      const costBasis = position.costUsd * Math.min(amount / position.amount, 1);
+      order.realizedPnlUsd = notional - fee - costBasis;
+      this.state.cashUsd += notional - fee;
+      this.state.realizedPnlUsd += order.realizedPnlUsd;
+      position.amount -= amount;
+      position.costUsd -= costBasis;
+    }
+
+    if (position.amount > DUST) {
+      this.state.positions[order.token] = position;
+    } else {
+      delete this.state.positions[order.token];
+    }
+    this.state.feesPaidUsd += fee;
+    this.state.fills++;
+    order.quotePrice = quote;
+    order.fillPrice = fillPrice;
+    order.feeUsd = fee;
+    this.close(order, 'filled');
+  }
+
+  private close(order: PaperOrder, status: PaperOrderStatus): void {
+    order.status = status;
+    order.closedAt = Date.now();
+    this.state.recentOrders.unshift(order);
+    this.state.recentOrders.length = Math.min(this.state.recentOrders.length, RECENT_ORDERS);
+  }
+
+  private load(): PaperState {
+    if (fs.existsSync(this.settings.statePath)) {
+      // An unreadable file is not replaced with a fresh portfolio: that would erase its PnL
+      try {
+        return JSON.parse(fs.readFileSync(this.settings.statePath, 'utf8'));
+      } catch (error) {
+        throw new Error(`Paper portfolio ${this.settings.statePath} is unreadable: ${error instanceof Error ? error.message : error}`);
+      }
+    }
+    logger.info(`Starting a new paper portfolio with $${this.settings.startingCashUsd}`);
+    return {
+      cashUsd: this.settings.startingCashUsd,
+      positions: {},
+      realizedPnlUsd: 0,
+      feesPaidUsd: 0,
+      openOrders: [],
+      recentOrders: [],
+      fills: 0,
+      createdAt: Date.now(),
+      updatedAt: Date.now()
+    };
+  }
+
+  private save(): void {
+    this.state.updatedAt = Date.now();
+    try {
+      fs.mkdirSync(path.dirname(this.settings.statePath), { recursive: true });
+      fs.writeFileSync(this.settings.statePath, JSON.stringify(this.state, null, 2));
+    } catch (error) {
+      logger.error('Failed to persist paper portfolio:', error);
+    }
+  }
+}
@@ -0,0 +1,425 @@
+import { ethers } from 'ethers';
+import { ProviderPool } from './provider-pool';
+import { ChainProfile, factoryFor } from './chains';
+import { getAmountOut, swapExactInputV3, MIN_TICK, MAX_TICK } from './amm-math';
+import { SwapDescriptor } from './swap-decoder';
+import logger from './logger';
+
+export type Dex = 'uniswap-v2' | 'sushiswap' | 'uniswap-v3';
+
+export interface V2PoolState {
+  kind: 'v2';
+  dex: Dex;
+  address: string;
+  token0: string;
+  token1: string;
+  reserve0: bigint;
+  reserve1: bigint;
+  feeBps: number;
+  blockNumber: number;
+}
+
+export interface V3PoolState {
+  kind: 'v3';
+  dex: Dex;
+  address: string;
+  token0: string;
+  token1: string;
+  fee: number; // Hundredths of a bip, as stored by the pool
+  tickSpacing: number;
+  sqrtPriceX96: bigint;
+  tick: number;
+  liquidity: bigint;
+  ticks: Map<number, bigint>; // Initialized tick -> liquidityNet
+  tickRange: [number, number]; // Range covered by the loaded tick bitmap words
+  blockNumber: number;
+}
+
+export type PoolState = V2PoolState | V3PoolState;
+
+export interface QuoteResult {
+  amountOut: bigint;
+  pool: PoolState; // Pool state after the swap, for chaining simulated swaps
+}
+
+export const V3_FEE_TIERS = [100, 500, 3000, 10000];
+
+const V2_PAIR_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)'
+];
+const V3_POOL_ABI = [
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function fee() view returns (uint24)',
+  'function tickSpacing() view returns (int24)',
+  'function liquidity() view returns (uint128)',
+  'function slot0() view returns (uint160 sqrtPriceX96, int24 tick, uint16 observationIndex, uint16 observationCardinality, uint16 observationCardinalityNext, uint8 feeProtocol, bool unlocked)',
+  'function tickBitmap(int16 wordPosition) view returns (uint256)',
+  'function ticks(int24 tick) view returns (uint128 liquidityGross, int128 liquidityNet, uint256 feeGrowthOutside0X128, uint256 feeGrowthOutside1X128, int56 tickCumulativeOutside, uint160 secondsPerLiquidityOutsideX128, uint32 secondsOutside, bool initialized)'
+];
+const V2_FACTORY_ABI = ['function getPair(address tokenA, address tokenB) view returns (address)'];
+const V3_FACTORY_ABI = ['function getPool(address tokenA, address tokenB, uint24 fee) view returns (address)'];
+
+const POOL_EVENTS = new ethers.Interface([
+  'event Sync(uint112 reserve0, uint112 reserve1)',
+  'event Swap(address indexed sender, address indexed recipient, int256 amount0, int256 amount1, uint160 sqrtPriceX96, uint128 liquidity, int24 tick)',
+  'event Mint(address sender, address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)',
+  'event Burn(address indexed owner, int24 indexed tickLower, int24 indexed tickUpper, uint128 amount, uint256 amount0, uint256 amount1)'
+]);
+const SYNC_TOPIC = POOL_EVENTS.getEvent('Sync')!.topicHash;
+const V3_SWAP_TOPIC = POOL_EVENTS.getEvent('Swap')!.topicHash;
+const V3_MINT_TOPIC = POOL_EVENTS.getEvent('Mint')!.topicHash;
+const V3_BURN_TOPIC = POOL_EVENTS.getEvent('Burn')!.topicHash;
+
+// Serialized pool state as stored in fixtures: bigints as decimal strings, V3
+// ticks as [tick, liquidityNet] pairs
+export type V2PoolStateJson = Omit<V2PoolState, 'reserve0' | 'reserve1'> & { reserve0: string; reserve1: string };
+export type V3PoolStateJson = Omit<V3PoolState, 'sqrtPriceX96' | 'liquidity' | 'ticks'> & {
+  sqrtPriceX96: string;
+  liquidity: string;
+  ticks: [number, string][];
+};
+export type PoolStateJson = V2PoolStateJson | V3PoolStateJson;
+
+// Caches V2 reserves and V3 slot0/liquidity/ticks for watched pools. State is
+// patched from Sync/Swap logs on every new block; V3 tick data is reloaded
+// whenever a Mint or Burn touches the pool. Logs only move state forward one block at
+// a time, so after a skipped block, a reorg or a failed refresh every pool is marked
+// stale: stale pools are hidden from lookups until they have been re-read from chain
+// (on the next block, or when resolved again). Pairs are resolved through the chain's
+// factories; DEXes the chain has no factory for are skipped. Without a provider
+// pool the cache is offline: it serves only states handed to load() and resolves
+// no other pairs.
+export class PoolStateCache {
+  private pools: Map<string, PoolState> = new Map();
+  private stale: Set<string> = new Set();
+  private syncedBlock: number | null = null; // Last block whose logs were applied
+  private pairLookups: Map<string, string | null> = new Map();
+  private blockListener: ((blockNumber: number) => void) | null = null;
+  private watchedProvider: ethers.JsonRpcProvider | null = null;
+  private lock: Promise<unknown> = Promise.resolve();
+
+  // Number of tick bitmap words loaded on each side of the current tick
+  constructor(private providers: ProviderPool | null, readonly chain: ChainProfile, private tickWordRadius: number = 1) {}
+
+  // Replaces cached state with the given pools (e.g. a fixture snapshot) and
+  // registers them for pair resolution
+  load(states: PoolState[]): void {
+    for (const state of states) {
+      this.pools.set(state.address.toLowerCase(), state);
+      const fee = state.kind === 'v3' ? state.fee : undefined;
+      this.pairLookups.set(pairKey(state.dex, state.token0, state.token1, fee), state.address);
+    }
+  }
+
+  getPool(address: string): PoolState | undefined {
+    const key = address.toLowerCase();
+    return this.stale.has(key) ? undefined : this.pools.get(key);
+  }
+
+  getPools(): PoolState[] {
+    return [...this.pools.entries()].filter(([key]) => !this.stale.has(key)).map(([, pool]) => pool);
+  }
+
+  async watchV2Pool(address: string, dex: Dex = 'uniswap-v2', feeBps: number = 30): Promise<V2PoolState> {
+    const existing = this.getPool(address);
+    if (existing?.kind === 'v2') return existing;
+
+    const state = await this.rpc().execute(async provider => {
+      const pair = new ethers.Contract(address, V2_PAIR_ABI, provider);
+      const [token0, token1, reserves, blockNumber] = await Promise.all([
+        pair.token0(), pair.token1(), pair.getReserves(), provider.getBlockNumber()
+      ]);
+      return {
+        kind: 'v2' as const,
+        dex,
+        address: ethers.getAddress(address),
+        token0: ethers.getAddress(token0),
+        token1: ethers.getAddress(token1),
+        reserve0: reserves.reserve0 as bigint,
+        reserve1: reserves.reserve1 as bigint,
+        feeBps,
+        blockNumber
+      };
+    });
+
+    this.pools.set(address.toLowerCase(), state);
+    this.stale.delete(address.toLowerCase());
+    return state;
+  }
+
+  async watchV3Pool(address: string): Promise<V3PoolState> {
+    const existing = this.getPool(address);
+    if (existing?.kind === 'v3') return existing;
+
+    const state = await this.loadV3Pool(address);
+    this.pools.set(address.toLowerCase(), state);
+    this.stale.delete(address.toLowerCase());
+    return state;
+  }
+
+  // Resolves a pair through its factory and starts watching it; null if the pool does not exist
+  async resolvePool(dex: Dex, tokenA: string, tokenB: string, fee?: number): Promise<PoolState | null> {
+    const address = await this.lookupPair(dex, tokenA, tokenB, fee);
+    if (!address) return null;
+    return dex === 'uniswap-v3' ? this.watchV3Pool(address) : this.watchV2Pool(address, dex);
+  }
+
+  // Pool a single-hop swap trades against
+  resolveSwapPool(swap: SwapDescriptor): Promise<PoolState | null> {
+    const [tokenIn, tokenOut] = swap.path;
+    if (swap.fees.length > 0) {
+      return this.resolvePool('uniswap-v3', tokenIn, tokenOut, swap.fees[0]);
+    }
+    return this.resolvePool(swap.venue === 'sushiswap' ? 'sushiswap' : 'uniswap-v2', tokenIn, tokenOut);
+  }
+
+  // Finds (and starts watching) every known pool trading the given pair
+  async findPools(tokenA: string, tokenB: string): Promise<PoolState[]> {
+    const candidates = await Promise.all([
+      this.resolvePool('uniswap-v2', tokenA, tokenB),
+      this.resolvePool('sushiswap', tokenA, tokenB),
+      ...V3_FEE_TIERS.map(fee => this.resolvePool('uniswap-v3', tokenA, tokenB, fee))
+    ]);
+    return candidates.filter((pool): pool is PoolState => pool !== null);
+  }
+
+  start(): void {
+    if (this.blockListener) return;
+    this.watchedProvider = this.rpc().getProvider();
+    // One block at a time, so logs are never applied out of order
+    this.blockListener = (blockNumber: number) => {
+      const update = this.lock.then(() => this.onBlock(blockNumber));
+      this.lock = update.catch(error =>
+        logger.error(`Pool state refresh failed on ${this.chain.name} at block ${blockNumber}:`, error));
+    };
+    this.watchedProvider.on('block', this.blockListener);
+  }
+
+  stop(): void {
+    if (this.blockListener && this.watchedProvider) {
+      this.watchedProvider.off('block', this.blockListener);
+    }
+    this.blockListener = null;
+    this.watchedProvider = null;
+  }
+
+  // Applies the block's Sync/Swap logs to cached state, reloads V3 ticks on Mint/Burn
+  // and re-reads stale pools
+  async onBlock(blockNumber: number): Promise<void> {
+    if (this.pools.size === 0) return;
+
+    if (this.syncedBlock !== null && blockNumber !== this.syncedBlock + 1) {
+      logger.warn(`Pool state on ${this.chain.name} jumped from block ${this.syncedBlock} to ${blockNumber}; re-reading pools`);
+      this.markStale();
+    }
+    this.syncedBlock = blockNumber;
+
+    try {
+      await this.applyLogs(blockNumber);
+    } catch (error) {
+      this.markStale();
+      throw error;
+    }
+    await this.refreshStale();
+  }
+
+  private async applyLogs(blockNumber: number): Promise<void> {
+    const logs = await this.rpc().execute(provider => provider.getLogs({
+      address: [...this.pools.values()].map(pool => pool.address),
+      topics: [[SYNC_TOPIC, V3_SWAP_TOPIC, V3_MINT_TOPIC, V3_BURN_TOPIC]],
+      fromBlock: blockNumber,
+      toBlock: blockNumber
+    }));
+
+    const reloadTicks = new Set<string>();
+    for (const log of logs) {
+      const pool = this.pools.get(log.address.toLowerCase());
+      if (!pool) continue;
+      const topic = log.topics[0];
+
+      if (pool.kind === 'v2' && topic === SYNC_TOPIC) {
+        const event = POOL_EVENTS.decodeEventLog('Sync', log.data, log.topics);
+        pool.reserve0 = event.reserve0;
+        pool.reserve1 = event.reserve1;
+      } else if (pool.kind === 'v3' && topic === V3_SWAP_TOPIC) {
+        const event = POOL_EVENTS.decodeEventLog('Swap', log.data, log.topics);
+        pool.sqrtPriceX96 = event.sqrtPriceX96;
+        pool.liquidity = event.liquidity;
+        pool.tick = Number(event.tick);
+      } else if (pool.kind === 'v3' && (topic === V3_MINT_TOPIC || topic === V3_BURN_TOPIC)) {
+        reloadTicks.add(log.address.toLowerCase());
+      }
+      pool.blockNumber = blockNumber;
+    }
+
+    for (const pool of this.pools.values()) {
+      // Reload when liquidity changed or the price moved outside the loaded ticks
+      if (pool.kind === 'v3' && (reloadTicks.has(pool.address.toLowerCase())
+        || pool.tick < pool.tickRange[0] || pool.tick >= pool.tickRange[1])) {
+        this.pools.set(pool.address.toLowerCase(), await this.loadV3Pool(pool.address));
+      }
+    }
+  }
+
+  private markStale(): void {
+    for (const key of this.pools.keys()) this.stale.add(key);
+  }
+
+  // A pool that cannot be re-read stays hidden and is tried again on the next block
+  private async refreshStale(): Promise<void> {
+    await Promise.all([...this.stale].map(async key => {
+      const pool = this.pools.get(key);
+      if (!pool) {
+        this.stale.delete(key);
+        return;
+      }
+      try {
+        if (pool.kind === 'v2') {
+          await this.watchV2Pool(pool.address, pool.dex, pool.feeBps);
+        } else {
+          await this.watchV3Pool(pool.address);
+        }
+      } catch (error) {
+        logger.warn(`Could not re-read pool ${pool.address} on ${this.chain.name}:`, error instanceof Error ? error.message : error);
+      }
+    }));
+  }
+
+  private async lookupPair(dex: Dex, tokenA: string, tokenB: string, fee?: number): Promise<string | null> {
+    const [t0, t1] = tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+    const key = pairKey(dex, tokenA, tokenB, fee);
+    if (this.pairLookups.has(key)) return this.pairLookups.get(key)!;
+    const factory = factoryFor(this.chain, dex);
+    if (!this.providers || !factory) return null;
+
+    const address: string = await this.providers.execute(provider => dex === 'uniswap-v3'
+      ? new ethers.Contract(factory, V3_FACTORY_ABI, provider).getPool(t0, t1, fee)
+      : new ethers.Contract(factory, V2_FACTORY_ABI, provider).getPair(t0, t1));
+    const result = address === ethers.ZeroAddress ? null : address;
+    this.pairLookups.set(key, result);
+    return result;
+  }
+
+  private async loadV3Pool(address: string): Promise<V3PoolState> {
+    return this.rpc().execute(async provider => {
+      const pool = new ethers.Contract(address, V3_POOL_ABI, provider);
+      const [token0, token1, fee, tickSpacing, liquidity, slot0, blockNumber] = await Promise.all([
+        pool.token0(), pool.token1(), pool.fee(), pool.tickSpacing(), pool.liquidity(), pool.slot0(),
+        provider.getBlockNumber()
+      ]);
+
+      const spacing = Number(tickSpacing);
+      const tick = Number(slot0.tick);
+      const compressed = Math.floor(tick / spacing);
+      const centerWord = compressed >> 8;
+      const firstWord = centerWord - this.tickWordRadius;
+      const lastWord = centerWord + this.tickWordRadius;
+
+      // Each bitmap word covers 256 compressed ticks; collect the initialized ones
+      const initializedTicks: number[] = [];
+      const words = await Promise.all(
+        Array.from({ length: lastWord - firstWord + 1 }, (_, i) => pool.tickBitmap(firstWord + i))
+      );
+      words.forEach((word: bigint, i) => {
+        for (let bit = 0; bit < 256; bit++) {
+          if ((word >> BigInt(bit)) & 1n) {
+            initializedTicks.push(((firstWord + i) * 256 + bit) * spacing);
+          }
+        }
+      });
+
+      const tickInfos = await Promise.all(initializedTicks.map(t => pool.ticks(t)));
+      const ticks = new Map<number, bigint>();
+      initializedTicks.forEach((t, i) => ticks.set(t, tickInfos[i].liquidityNet));
+
+      return {
+        kind: 'v3' as const,
+        dex: 'uniswap-v3' as Dex,
+        address: ethers.getAddress(address),
+        token0: ethers.getAddress(token0),
+        token1: ethers.getAddress(token1),
+        fee: Number(fee),
+        tickSpacing: spacing,
+        sqrtPriceX96: slot0.sqrtPriceX96,
+        tick,
+        liquidity,
+        ticks,
+        tickRange: [
+          Math.max(MIN_TICK, firstWord * 256 * spacing),
+          Math.min(MAX_TICK, (lastWord + 1) * 256 * spacing - 1)
+        ] as [number, number],
+        blockNumber
+      };
+    });
+  }
+
+  private rpc(): ProviderPool {
+    if (!this.providers) {
+      throw new Error('Pool state cache is offline');
+    }
+    return this.providers;
+  }
+}
+
+function pairKey(dex: Dex, tokenA: string, tokenB: string, fee?: number): string {
+  const [t0, t1] = tokenA.toLowerCase() < tokenB.toLowerCase() ? [tokenA, tokenB] : [tokenB, tokenA];
+  return `${dex}:${t0}:${t1}:${fee ?? ''}`.toLowerCase();
+}
+
+export function poolStateToJson(pool: PoolState): PoolStateJson {
+  if (pool.kind === 'v2') {
+    return { ...pool, reserve0: pool.reserve0.toString(), reserve1: pool.reserve1.toString() };
+  }
+  return {
+    ...pool,
+    sqrtPriceX96: pool.sqrtPriceX96.toString(),
+    liquidity: pool.liquidity.toString(),
+    ticks: [...pool.ticks].map(([tick, liquidityNet]) => [tick, liquidityNet.toString()])
+  };
+}
+
+// Fixtures are hand-written, so the kind is checked rather than trusted
+export function poolStateFromJson(json: PoolStateJson): PoolState {
+  if (json.kind === 'v2') {
+    return { ...json, reserve0: BigInt(json.reserve0), reserve1: BigInt(json.reserve1) };
+  }
+  if (json.kind === 'v3') {
+    return {
+      ...json,
+      sqrtPriceX96: BigInt(json.sqrtPriceX96),
+      liquidity: BigInt(json.liquidity),
+      ticks: new Map(json.ticks.map(([tick, liquidityNet]) => [tick, BigInt(liquidityNet)]))
+    };
+  }
+  const unknown: { kind?: unknown; address?: unknown } = json;
+  throw new Error(`Unknown pool kind ${String(unknown.kind)} in ${String(unknown.address)}`);
+}
+
+// Exact-input quote against a cached (or simulated) pool state. Pure: the
+// returned pool is a new object reflecting the state after the swap.
+export function quoteExactInput(pool: PoolState, tokenIn: string, amountIn: bigint): QuoteResult {
+  const zeroForOne = tokenIn.toLowerCase() === pool.token0.toLowerCase();
+  if (!zeroForOne && tokenIn.toLowerCase() !== pool.token1.toLowerCase()) {
+    throw new Error(`Token ${tokenIn} is not traded by pool ${pool.address}`);
+  }
+
+  if (pool.kind === 'v2') {
+    const [reserveIn, reserveOut] = zeroForOne ? [pool.reserve0, pool.reserve1] : [pool.reserve1, pool.reserve0];
+    const amountOut = getAmountOut(amountIn, reserveIn, reserveOut, pool.feeBps);
+    return {
+      amountOut,
+      pool: zeroForOne
+        ? { ...pool, reserve0: pool.reserve0 + amountIn, reserve1: pool.reserve1 - amountOut }
+        : { ...pool, reserve0: pool.reserve0 - amountOut, reserve1: pool.reserve1 + amountIn }
+    };
+  }
+
+  const result = swapExactInputV3(pool, pool.ticks, pool.tickRange, pool.fee, zeroForOne, amountIn);
+  return {
+    amountOut: result.amountOut,
+    pool: { ...pool, sqrtPriceX96: result.sqrtPriceX96, tick: result.tick, liquidity: result.liquidity }
+  };
+}
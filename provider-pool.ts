@@ -0,0 +1,244 @@
+import { ethers } from 'ethers';
+import logger from './logger';
+import { rpcDuration } from './metrics';
+
+export interface EndpointHealth {
+  name: string;
+  host: string;
+  healthy: boolean;
+  latencyMs: number;
+  errorRate: number;
+  blockNumber: number;
+  blockLag: number;
+  consecutiveFailures: number;
+  score: number;
+  lastError: string | null;
+  lastCheckedAt: number | null;
+}
+
+export interface ProviderPoolOptions {
+  // Number of recent calls used to compute each endpoint's error rate
+  errorWindow: number;
+  // Consecutive failures before an endpoint is taken out of rotation
+  maxConsecutiveFailures: number;
+  // How long a failed endpoint sits out before it is retried
+  cooldownMs: number;
+  // Endpoints further behind the best head than this are treated as unhealthy
+  maxBlockLag: number;
+  // Chain name for logs and metrics; with chainId set, endpoints skip network detection
+  chain: string;
+  chainId?: number;
+}
+
+const DEFAULT_OPTIONS: ProviderPoolOptions = {
+  errorWindow: 50,
+  maxConsecutiveFailures: 3,
+  cooldownMs: 30000,
+  maxBlockLag: 3,
+  chain: 'ethereum'
+};
+
+// JSON-RPC error codes for an overloaded or failing node: limit exceeded, internal error
+const ENDPOINT_RPC_CODES = new Set([-32005, -32603]);
+const ENDPOINT_RPC_MESSAGE = /rate limit|too many requests|exceeded .*capacity|timed? ?out|header not found|missing trie node/i;
+
+// Whether an error says the endpoint failed (unreachable, timed out, 5xx or 429,
+// throttled, missing state) rather than giving a deterministic answer to the request
+export function isEndpointFailure(error: unknown): boolean {
+  if (ethers.isError(error, 'TIMEOUT') || ethers.isError(error, 'NETWORK_ERROR') || ethers.isError(error, 'SERVER_ERROR')) {
+    return true;
+  }
+  if (ethers.isError(error, 'UNKNOWN_ERROR')) {
+    // The node's JSON-RPC error, which ethers could not map to a known code
+    const rpc: unknown = error.error;
+    if (typeof rpc !== 'object' || rpc === null) return true;
+    const code = 'code' in rpc ? rpc.code : undefined;
+    const message = 'message' in rpc ? rpc.message : undefined;
+    return (typeof code === 'number' && ENDPOINT_RPC_CODES.has(code))
+      || (typeof message === 'string' && ENDPOINT_RPC_MESSAGE.test(message));
+  }
+  // Socket errors from the HTTP client (ECONNREFUSED, ECONNRESET, ENOTFOUND, ...)
+  return error instanceof Error && 'syscall' in error;
+}
+
+class RpcEndpoint {
+  readonly provider: ethers.JsonRpcProvider;
+  latencyMs = 0;
+  blockNumber = 0;
+  consecutiveFailures = 0;
+  cooldownUntil = 0;
+  lastError: string | null = null;
+  lastCheckedAt: number | null = null;
+  private outcomes: boolean[] = [];
+
+  constructor(readonly name: string, readonly url: string, readonly chain: string, private errorWindow: number, chainId?: number) {
+    this.provider = new ethers.JsonRpcProvider(url, chainId, { staticNetwork: true });
+  }
+
+  get host(): string {
+    // Only expose the host: RPC paths usually embed the API key
+    try {
+      return new URL(this.url).host;
+    } catch {
+      return 'invalid-url';
+    }
+  }
+
+  get errorRate(): number {
+    if (this.outcomes.length === 0) return 0;
+    return this.outcomes.filter(ok => !ok).length / this.outcomes.length;
+  }
+
+  recordSuccess(latencyMs: number): void {
+    rpcDuration.observe({ chain: this.chain, endpoint: this.name, host: this.host, result: 'ok' }, latencyMs / 1000);
+    // Exponentially weighted so a single slow call does not dominate
+    this.latencyMs = this.latencyMs === 0 ? latencyMs : this.latencyMs * 0.8 + latencyMs * 0.2;
+    this.consecutiveFailures = 0;
+    this.pushOutcome(true);
+  }
+
+  recordFailure(error: unknown, latencyMs: number, maxConsecutiveFailures: number, cooldownMs: number): void {
+    rpcDuration.observe({ chain: this.chain, endpoint: this.name, host: this.host, result: 'error' }, latencyMs / 1000);
+    this.consecutiveFailures++;
+    this.lastError = error instanceof Error ? error.message : String(error);
+    this.pushOutcome(false);
+    if (this.consecutiveFailures >= maxConsecutiveFailures) {
+      this.cooldownUntil = Date.now() + cooldownMs;
+    }
+  }
+
+  private pushOutcome(ok: boolean): void {
+    this.outcomes.push(ok);
+    if (this.outcomes.length > this.errorWindow) {
+      this.outcomes.shift();
+    }
+  }
+}
+
+export class ProviderPool {
+  private endpoints: RpcEndpoint[];
+  private options: ProviderPoolOptions;
+  private monitorInterval: NodeJS.Timeout | null = null;
+
+  constructor(rpcUrls: string[], options: Partial<ProviderPoolOptions> = {}) {
+    if (rpcUrls.length === 0) {
+      throw new Error('ProviderPool requires at least one RPC URL');
+    }
+    this.options = { ...DEFAULT_OPTIONS, ...options };
+    this.endpoints = rpcUrls.map((url, i) =>
+      new RpcEndpoint(`rpc-${i + 1}`, url, this.options.chain, this.options.errorWindow, this.options.chainId));
+  }
+
+  get chain(): string {
+    return this.options.chain;
+  }
+
+  // Healthiest provider, for consumers that need a plain ethers provider (signers, Flashbots)
+  getProvider(): ethers.JsonRpcProvider {
+    return this.rankEndpoints()[0].provider;
+  }
+
+  // Runs a read against the healthiest endpoint, failing over to the next one when the
+  // endpoint itself failed. Answers any node would give (reverts, nonce and balance
+  // errors, bad arguments) are rethrown at once and do not count against the endpoint.
+  async execute<T>(operation: (provider: ethers.JsonRpcProvider) => Promise<T>): Promise<T> {
+    let lastError: unknown;
+
+    for (const endpoint of this.rankEndpoints()) {
+      const startedAt = Date.now();
+      try {
+        const result = await operation(endpoint.provider);
+        endpoint.recordSuccess(Date.now() - startedAt);
+        return result;
+      } catch (error) {
+        if (!isEndpointFailure(error)) {
+          endpoint.recordSuccess(Date.now() - startedAt);
+          throw error;
+        }
+        endpoint.recordFailure(error, Date.now() - startedAt, this.options.maxConsecutiveFailures, this.options.cooldownMs);
+        logger.warn(`RPC ${this.options.chain}/${endpoint.name} (${endpoint.host}) failed, failing over: ${endpoint.lastError}`);
+        lastError = error;
+      }
+    }
+
+    throw lastError;
+  }
+
+  getBlockNumber(): Promise<number> {
+    return this.execute(provider => provider.getBlockNumber());
+  }
+
+  // Raw JSON-RPC call; the result is whatever the node returned, for the caller to narrow
+  send(method: string, params: unknown[]): Promise<unknown> {
+    return this.execute(provider => provider.send(method, params));
+  }
+
+  // Polls every endpoint for its head so block lag is known even for idle endpoints
+  async checkHealth(): Promise<void> {
+    await Promise.all(this.endpoints.map(async endpoint => {
+      const startedAt = Date.now();
+      try {
+        endpoint.blockNumber = await endpoint.provider.getBlockNumber();
+        endpoint.recordSuccess(Date.now() - startedAt);
+      } catch (error) {
+        endpoint.recordFailure(error, Date.now() - startedAt, this.options.maxConsecutiveFailures, this.options.cooldownMs);
+      } finally {
+        endpoint.lastCheckedAt = Date.now();
+      }
+    }));
+  }
+
+  startMonitoring(intervalMs: number = 10000): void {
+    if (this.monitorInterval) return;
+    this.checkHealth().catch(error => logger.error(`RPC health check failed on ${this.options.chain}:`, error));
+    this.monitorInterval = setInterval(() => {
+      this.checkHealth().catch(error => logger.error(`RPC health check failed on ${this.options.chain}:`, error));
+    }, intervalMs);
+  }
+
+  stopMonitoring(): void {
+    if (this.monitorInterval) {
+      clearInterval(this.monitorInterval);
+      this.monitorInterval = null;
+    }
+  }
+
+  getHealthStatus(): EndpointHealth[] {
+    const head = this.bestBlockNumber();
+    return this.endpoints.map(endpoint => ({
+      name: endpoint.name,
+      host: endpoint.host,
+      healthy: this.isHealthy(endpoint, head),
+      latencyMs: Math.round(endpoint.latencyMs),
+      errorRate: endpoint.errorRate,
+      blockNumber: endpoint.blockNumber,
+      blockLag: head - endpoint.blockNumber,
+      consecutiveFailures: endpoint.consecutiveFailures,
+      score: this.score(endpoint, head),
+      lastError: endpoint.lastError,
+      lastCheckedAt: endpoint.lastCheckedAt
+    }));
+  }
+
+  private bestBlockNumber(): number {
+    return Math.max(...this.endpoints.map(endpoint => endpoint.blockNumber));
+  }
+
+  private isHealthy(endpoint: RpcEndpoint, head: number): boolean {
+    return Date.now() >= endpoint.cooldownUntil && head - endpoint.blockNumber <= this.options.maxBlockLag;
+  }
+
+  // Lower is better: latency in ms, plus a second per 10% errors and per block behind
+  private score(endpoint: RpcEndpoint, head: number): number {
+    return Math.round(endpoint.latencyMs + endpoint.errorRate * 10000 + (head - endpoint.blockNumber) * 1000);
+  }
+
+  // Healthy endpoints first, best score first; unhealthy ones stay as a last resort
+  private rankEndpoints(): RpcEndpoint[] {
+    const head = this.bestBlockNumber();
+    return [...this.endpoints].sort((a, b) => {
+      const healthDiff = Number(this.isHealthy(b, head)) - Number(this.isHealthy(a, head));
+      return healthDiff !== 0 ? healthDiff : this.score(a, head) - this.score(b, head);
+    });
+  }
+}
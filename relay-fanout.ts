@@ -0,0 +1,167 @@
+import axios from 'axios';
+import { ethers } from 'ethers';
+import logger from './logger';
+import { bundlesIncluded, bundlesSubmitted } from './metrics';
+
+export type RelayAuth = 'flashbots' | 'bearer' | 'none';
+
+export interface RelayConfig {
+  name: string;
+  url: string;
+  auth: RelayAuth;
+  apiKey?: string; // Bearer token for 'bearer' relays
+  match?: string[]; // Substrings of the builder's extraData or fee recipient
+  enabled?: boolean; // false keeps the relay out of the fan-out
+  timeoutMs?: number;
+}
+
+export interface RelayResult {
+  relay: string;
+  accepted: boolean;
+  error?: string;
+  latencyMs: number;
+}
+
+export interface RelayStats {
+  name: string;
+  url: string;
+  enabled: boolean;
+  submitted: number;
+  accepted: number;
+  rejected: number;
+  included: number;
+  avgLatencyMs: number;
+  lastError?: string;
+}
+
+const REQUEST_TIMEOUT_MS = 3000;
+
+// A single builder or relay speaking eth_sendBundle
+class BundleRelay {
+  readonly stats: RelayStats;
+  private latencyTotal = 0;
+
+  constructor(readonly config: RelayConfig, private authSigner: ethers.Signer) {
+    this.stats = {
+      name: config.name,
+      url: config.url,
+      enabled: config.enabled !== false,
+      submitted: 0,
+      accepted: 0,
+      rejected: 0,
+      included: 0,
+      avgLatencyMs: 0
+    };
+  }
+
+  async sendBundle(signedTransactions: string[], blockNumber: number): Promise<RelayResult> {
+    const body = JSON.stringify({
+      jsonrpc: '2.0',
+      id: 1,
+      method: 'eth_sendBundle',
+      params: [{ txs: signedTransactions, blockNumber: ethers.toQuantity(blockNumber) }]
+    });
+    const started = Date.now();
+    this.stats.submitted++;
+
+    try {
+      const response = await axios.post(this.config.url, body, {
+        headers: await this.headers(body),
+        timeout: this.config.timeoutMs ?? REQUEST_TIMEOUT_MS
+      });
+      if (response.data?.error) {
+        throw new Error(response.data.error.message || JSON.stringify(response.data.error));
+      }
+      this.stats.accepted++;
+      bundlesSubmitted.inc({ relay: this.config.name, result: 'accepted' });
+      return { relay: this.config.name, accepted: true, latencyMs: this.recordLatency(started) };
+    } catch (error) {
+      const message = axios.isAxiosError(error)
+        ? error.response?.data?.error?.message || error.message
+        : error instanceof Error ? error.message : String(error);
+      this.stats.rejected++;
+      bundlesSubmitted.inc({ relay: this.config.name, result: 'rejected' });
+      this.stats.lastError = message;
+      return { relay: this.config.name, accepted: false, error: message, latencyMs: this.recordLatency(started) };
+    }
+  }
+
+  // Does this builder's block signature (extraData or fee recipient) name us?
+  built(extraData: string, feeRecipient: string): boolean {
+    const haystack = `${extraData} ${feeRecipient}`.toLowerCase();
+    return (this.config.match || []).some(token => haystack.includes(token.toLowerCase()));
+  }
+
+  private async headers(body: string): Promise<Record<string, string>> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.config.auth === 'flashbots') {
+      const signature = await this.authSigner.signMessage(ethers.id(body));
+      headers['X-Flashbots-Signature'] = `${await this.authSigner.getAddress()}:${signature}`;
+    } else if (this.config.auth === 'bearer' && this.config.apiKey) {
+      headers.Authorization = `Bearer ${this.config.apiKey}`;
+    }
+    return headers;
+  }
+
+  private recordLatency(started: number): number {
+    const latency = Date.now() - started;
+    this.latencyTotal += latency;
+    this.stats.avgLatencyMs = Math.round(this.latencyTotal / this.stats.submitted);
+    return latency;
+  }
+}
+
+// Sends every bundle to all enabled builders/relays at once and keeps per-builder
+// acceptance and inclusion counts. Builders that keep accepting bundles but never
+// land one while others do are dropped from the fan-out.
+export class RelayFanout {
+  private relays: BundleRelay[];
+
+  constructor(configs: RelayConfig[], authSigner: ethers.Signer, private dropAfter: number) {
+    this.relays = configs.map(relayConfig => new BundleRelay(relayConfig, authSigner));
+  }
+
+  async sendBundle(signedTransactions: string[], blockNumber: number): Promise<RelayResult[]> {
+    const active = this.relays.filter(relay => relay.stats.enabled);
+    return Promise.all(active.map(relay => relay.sendBundle(signedTransactions, blockNumber)));
+  }
+
+  // Name of the configured relay whose builder produced the block, if any
+  builderOf(block: ethers.Block): string | null {
+    return this.findBuilder(block)?.config.name ?? null;
+  }
+
+  // Credits the builder of a block that included one of our bundles; returns its name
+  recordInclusion(block: ethers.Block): string | null {
+    const builder = this.findBuilder(block);
+    if (!builder) {
+      const extraData = ethers.toUtf8String(block.extraData, ethers.Utf8ErrorFuncs.ignore);
+      bundlesIncluded.inc({ relay: 'unknown' });
+      logger.info(`Bundle included in block ${block.number} by an unknown builder`, { extraData, miner: block.miner });
+      return null;
+    }
+
+    builder.stats.included++;
+    bundlesIncluded.inc({ relay: builder.config.name });
+    this.dropSilentRelays();
+    return builder.config.name;
+  }
+
+  getStats(): RelayStats[] {
+    return this.relays.map(relay => ({ ...relay.stats }));
+  }
+
+  private findBuilder(block: ethers.Block): BundleRelay | undefined {
+    const extraData = ethers.toUtf8String(block.extraData, ethers.Utf8ErrorFuncs.ignore);
+    return this.relays.find(relay => relay.built(extraData, block.miner));
+  }
+
+  private dropSilentRelays(): void {
+    for (const relay of this.relays) {
+      if (relay.stats.enabled && relay.stats.included === 0 && relay.stats.accepted >= this.dropAfter) {
+        relay.stats.enabled = false;
+        logger.warn(`Dropping relay ${relay.config.name}: ${relay.stats.accepted} bundles accepted, none included`);
+      }
+    }
+  }
+}
@@ -0,0 +1,87 @@
+import express, { Request, Response } from 'express';
+import { Server } from 'http';
+import { ethers } from 'ethers';
+import { config } from './config';
+import { loadKeystoreSigner } from './signer';
+import logger from './logger';
+
+export interface RemoteSignerOptions {
+  port: number;
+  // Interface to bind; loopback unless another host is configured explicitly
+  host?: string;
+  wallet: ethers.Wallet;
+  // Required on every request as `Authorization: Bearer <token>`
+  token: string;
+}
+
+// Local stand-in for a remote signer, serving the protocol RemoteSigner speaks from a
+// key held in this process. Run it next to the engine (SIGNER_BACKEND=remote) to keep the
+// funded key out of the engine process, or swap it for an HSM/KMS-backed service.
+// It signs anything for whoever can reach it, so it refuses to start without a token.
+export function startRemoteSigner(options: RemoteSignerOptions): Server {
+  const { wallet, token } = options;
+  const host = options.host || '127.0.0.1';
+  if (!token) {
+    throw new Error('The remote signer needs a bearer token (REMOTE_SIGNER_TOKEN)');
+  }
+  const app = express();
+  app.use(express.json());
+
+  app.post('/', async (req: Request, res: Response) => {
+    const { id, method, params = [] } = req.body || {};
+    const reply = (body: object) => res.json({ jsonrpc: '2.0', id: id ?? null, ...body });
+
+    if (req.header('authorization') !== `Bearer ${token}`) {
+      return res.status(401).json({ jsonrpc: '2.0', id: id ?? null, error: { code: -32001, message: 'unauthorized' } });
+    }
+
+    try {
+      switch (method) {
+        case 'signer_accounts':
+          return reply({ result: [wallet.address] });
+        case 'signer_signTransaction': {
+          const tx = ethers.Transaction.from(params[0]);
+          tx.signature = wallet.signingKey.sign(tx.unsignedHash);
+          logger.info(`Remote signer signed transaction nonce ${tx.nonce} to ${tx.to}`);
+          return reply({ result: tx.serialized });
+        }
+        case 'signer_signMessage':
+          return reply({ result: await wallet.signMessage(ethers.getBytes(params[0])) });
+        case 'signer_signTypedData': {
+          const { domain, types, message } = params[0];
+          const { EIP712Domain, ...messageTypes } = types;
+          return reply({ result: await wallet.signTypedData(domain, messageTypes, message) });
+        }
+        default:
+          return reply({ error: { code: -32601, message: `method ${method} not found` } });
+      }
+    } catch (error) {
+      return reply({ error: { code: -32602, message: error instanceof Error ? error.message : String(error) } });
+    }
+  });
+
+  return app.listen(options.port, host, () => {
+    logger.info(`Remote signer for ${wallet.address} listening on ${host}:${options.port}`);
+  });
+}
+
+// Signs with KEYSTORE_PATH/KEYSTORE_PASSWORD, or WALLET_PRIVATE_KEY when no keystore is set
+if (require.main === module) {
+  const settings = config.signer;
+  const wallet = settings.keystorePath
+    ? loadKeystoreSigner(settings.keystorePath, settings.keystorePassword)
+    // Inside the chain, so a missing or malformed key is reported like a bad keystore
+    : Promise.resolve().then(() => new ethers.Wallet(settings.privateKey));
+
+  wallet
+    .then(key => startRemoteSigner({
+      port: Number(process.env.REMOTE_SIGNER_PORT) || 18600,
+      host: process.env.REMOTE_SIGNER_HOST,
+      wallet: key,
+      token: settings.remoteToken
+    }))
+    .catch(error => {
+      logger.error('Failed to start remote signer:', error);
+      process.exit(1);
+    });
+}
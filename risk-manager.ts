@@ -0,0 +1,306 @@
+import fs from 'fs';
+import { EventEmitter } from 'events';
+import path from 'path';
+import { ethers } from 'ethers';
+import { config } from './config';
+import { ProviderPool } from './provider-pool';
+import { chainProviders } from './chains';
+import logger from './logger';
+
+export type RiskConfig = typeof config.risk;
+
+export interface BundleRiskInput {
+  strategy: string; // sandwich | arbitrage | liquidation | manual
+  notional: bigint; // Wei put at risk by the bundle
+  maxGasCost: bigint; // Wei, gasLimit * maxFeePerGas of our transactions
+  expectedProfit?: bigint; // Wei, net of gas
+  tokens: string[];
+  slippagePercent?: number; // Loosest minimum-output tolerance among our own swaps
+}
+
+export interface TradeRiskInput {
+  token: string;
+  amount: string;
+  price: string; // USD per token: the limit price, else the quote a market order fills at
+  slippagePercent?: number;
+}
+
+export interface KillSwitchState {
+  engaged: boolean;
+  reason?: string;
+  trippedAt?: number;
+  resetAt?: number;
+  resetBy?: string;
+}
+
+export interface RiskStatus {
+  killSwitch: KillSwitchState;
+  gasSpentLastHourEth: string;
+  realizedPnlTodayEth: string;
+  limits: RiskConfig;
+}
+
+// On-disk form of the gas and PnL windows; wei amounts as decimal strings
+interface RiskWindowsFile {
+  gasSpends: Array<{ at: number; wei: string }>;
+  pnlDay: string;
+  realizedPnl: string;
+}
+
+// Thrown for anything the risk layer refuses; `halted` means the kill switch is engaged
+export class RiskViolation extends Error {
+  constructor(message: string, readonly halted: boolean = false) {
+    super(message);
+    this.name = 'RiskViolation';
+  }
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const ETH_PRICE_TTL_MS = 60000;
+const CHAINLINK_AGGREGATOR_ABI = [
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'
+];
+
+// Pre-trade checks for every outgoing bundle and Base44 trade, plus a kill switch
+// that trips on the hourly gas and daily loss limits; the daily loss counts bundle
+// and Base44 PnL alike. The kill switch is persisted to disk and stays engaged across
+// restarts until an operator resets it; the gas and PnL windows are persisted next
+// to it so a restart does not reset the budgets.
+// Emits 'violation' for every refusal and 'tripped'/'reset' with the kill switch state.
+export class RiskManager extends EventEmitter {
+  private killSwitch: KillSwitchState = { engaged: false };
+  private gasSpends: Array<{ at: number; wei: bigint }> = [];
+  private pnlDay = '';
+  private realizedPnl = 0n;
+  private ethPrice: { usd: number; at: number } | null = null;
+
+  constructor(private providers: ProviderPool, private limits: RiskConfig = config.risk) {
+    super();
+    this.loadKillSwitch();
+    this.loadWindows();
+  }
+
+  isHalted(): boolean {
+    return this.killSwitch.engaged;
+  }
+
+  async checkBundle(input: BundleRiskInput): Promise<void> {
+    this.assertNotHalted();
+
+    const maxNotional = this.limits.maxNotionalEth[input.strategy] ?? this.limits.maxNotionalEth.manual;
+    if (input.notional > ethers.parseEther(maxNotional.toString())) {
+      throw this.violation(`${input.strategy} notional ${ethers.formatEther(input.notional)} ETH exceeds ${maxNotional} ETH`);
+    }
+
+    const gasBudget = ethers.parseEther(this.limits.maxGasSpendPerHourEth.toString());
+    if (this.gasSpentLastHour() + input.maxGasCost > gasBudget) {
+      throw this.violation(`Bundle gas would exceed the ${this.limits.maxGasSpendPerHourEth} ETH hourly gas budget`);
+    }
+
+    this.assertTokensAllowed(input.tokens);
+    this.assertSlippageAllowed(input.slippagePercent);
+
+    if (input.expectedProfit !== undefined) {
+      const profitUsd = Number(ethers.formatEther(input.expectedProfit)) * await this.getEthPriceUsd();
+      if (profitUsd < this.limits.minProfitUsd) {
+        throw this.violation(`Expected profit $${profitUsd.toFixed(2)} is below the $${this.limits.minProfitUsd} minimum`);
+      }
+    }
+  }
+
+  checkTrade(input: TradeRiskInput): void {
+    this.assertNotHalted();
+    this.assertTokensAllowed(input.token ? [input.token] : []);
+    this.assertSlippageAllowed(input.slippagePercent);
+
+    // A trade the cap cannot be applied to is refused, not waved through
+    const notionalUsd = Number(input.amount) * Number(input.price);
+    if (!Number.isFinite(notionalUsd) || notionalUsd < 0) {
+      throw this.violation(`Trade notional cannot be determined from amount ${input.amount} at price ${input.price}`);
+    }
+    if (notionalUsd > this.limits.maxTradeNotionalUsd) {
+      throw this.violation(`Trade notional $${notionalUsd} exceeds $${this.limits.maxTradeNotionalUsd}`);
+    }
+  }
+
+  // Settled bundle outcome: gas counts against the hourly budget, PnL against the daily cap
+  recordOutcome(gasCostWei: bigint, realizedProfitWei: bigint): void {
+    this.rollDay();
+    this.gasSpends.push({ at: Date.now(), wei: gasCostWei });
+    this.realizedPnl += realizedProfitWei;
+    this.gasSpentLastHour();
+    this.saveWindows();
+
+    const gasBudget = ethers.parseEther(this.limits.maxGasSpendPerHourEth.toString());
+    if (this.gasSpentLastHour() > gasBudget) {
+      this.trip(`Gas spend over the last hour exceeded ${this.limits.maxGasSpendPerHourEth} ETH`);
+    }
+    if (this.realizedPnl < -ethers.parseEther(this.limits.dailyLossCapEth.toString())) {
+      this.trip(`Realized loss today exceeded ${this.limits.dailyLossCapEth} ETH`);
+    }
+  }
+
+  // Realized PnL of a filled Base44 trade, converted to ETH at the ETH/USD feed. A loss
+  // that cannot be converted halts trading rather than escaping the daily cap.
+  async recordTradePnl(realizedPnlUsd: number): Promise<void> {
+    if (realizedPnlUsd === 0) return;
+    let ethPriceUsd: number;
+    try {
+      ethPriceUsd = await this.getEthPriceUsd();
+    } catch (error) {
+      logger.error(`Could not price a Base44 trade PnL of $${realizedPnlUsd}:`, error);
+      if (realizedPnlUsd < 0) this.trip(`Base44 trade loss of $${-realizedPnlUsd} could not be priced in ETH`);
+      return;
+    }
+    // Digits past 1e-12 ETH would only carry floating-point noise
+    this.recordOutcome(0n, ethers.parseEther((realizedPnlUsd / ethPriceUsd).toFixed(12)));
+  }
+
+  trip(reason: string): void {
+    if (this.killSwitch.engaged) return;
+    this.killSwitch = { engaged: true, reason, trippedAt: Date.now() };
+    this.saveKillSwitch();
+    logger.error(`Kill switch engaged: ${reason}`);
+    this.emit('tripped', { ...this.killSwitch });
+  }
+
+  reset(operator: string): void {
+    this.killSwitch = { engaged: false, resetAt: Date.now(), resetBy: operator };
+    this.saveKillSwitch();
+    logger.warn(`Kill switch reset by ${operator}`);
+    this.emit('reset', { ...this.killSwitch });
+  }
+
+  getStatus(): RiskStatus {
+    this.rollDay();
+    return {
+      killSwitch: { ...this.killSwitch },
+      gasSpentLastHourEth: ethers.formatEther(this.gasSpentLastHour()),
+      realizedPnlTodayEth: ethers.formatEther(this.realizedPnl),
+      limits: this.limits
+    };
+  }
+
+  private violation(message: string, halted: boolean = false): RiskViolation {
+    const violation = new RiskViolation(message, halted);
+    this.emit('violation', violation);
+    return violation;
+  }
+
+  private assertNotHalted(): void {
+    if (this.killSwitch.engaged) {
+      throw this.violation(`Kill switch engaged: ${this.killSwitch.reason}`, true);
+    }
+  }
+
+  private assertTokensAllowed(tokens: string[]): void {
+    for (const token of tokens.map(t => t.toLowerCase())) {
+      if (this.limits.deniedTokens.includes(token)) {
+        throw this.violation(`Token ${token} is on the deny list`);
+      }
+      if (this.limits.allowedTokens.length > 0 && !this.limits.allowedTokens.includes(token)) {
+        throw this.violation(`Token ${token} is not on the allow list`);
+      }
+    }
+  }
+
+  private assertSlippageAllowed(slippagePercent: number | undefined): void {
+    if (slippagePercent !== undefined && slippagePercent > this.limits.maxSlippagePercent) {
+      throw this.violation(`Slippage ${slippagePercent}% exceeds the ${this.limits.maxSlippagePercent}% limit`);
+    }
+  }
+
+  private gasSpentLastHour(): bigint {
+    const cutoff = Date.now() - HOUR_MS;
+    this.gasSpends = this.gasSpends.filter(spend => spend.at >= cutoff);
+    return this.gasSpends.reduce((total, spend) => total + spend.wei, 0n);
+  }
+
+  // Realized PnL resets at the start of each UTC day
+  private rollDay(): void {
+    const today = new Date().toISOString().slice(0, 10);
+    if (today !== this.pnlDay) {
+      this.pnlDay = today;
+      this.realizedPnl = 0n;
+    }
+  }
+
+  // From the risk.ethUsdFeed aggregator, at most once a minute
+  private async getEthPriceUsd(): Promise<number> {
+    if (this.ethPrice && Date.now() - this.ethPrice.at < ETH_PRICE_TTL_MS) {
+      return this.ethPrice.usd;
+    }
+    const [round, decimals] = await this.providers.execute(provider => {
+      const feed = new ethers.Contract(this.limits.ethUsdFeed, CHAINLINK_AGGREGATOR_ABI, provider);
+      return Promise.all([feed.latestRoundData(), feed.decimals()]);
+    });
+    const usd = Number(ethers.formatUnits(round.answer, decimals));
+    if (!(usd > 0)) {
+      throw new Error(`ETH/USD feed ${this.limits.ethUsdFeed} answered ${round.answer}`);
+    }
+    this.ethPrice = { usd, at: Date.now() };
+    return usd;
+  }
+
+  private loadKillSwitch(): void {
+    try {
+      if (fs.existsSync(this.limits.killSwitchPath)) {
+        this.killSwitch = JSON.parse(fs.readFileSync(this.limits.killSwitchPath, 'utf8'));
+        if (this.killSwitch.engaged) {
+          logger.warn(`Kill switch is engaged from a previous run: ${this.killSwitch.reason}`);
+        }
+      }
+    } catch (error) {
+      // An unreadable state file must not silently re-enable trading
+      this.killSwitch = { engaged: true, reason: 'Kill switch state file unreadable', trippedAt: Date.now() };
+      logger.error('Failed to read kill switch state:', error);
+    }
+  }
+
+  private saveKillSwitch(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.limits.killSwitchPath), { recursive: true });
+      fs.writeFileSync(this.limits.killSwitchPath, JSON.stringify(this.killSwitch, null, 2));
+    } catch (error) {
+      logger.error('Failed to persist kill switch state:', error);
+    }
+  }
+
+  private get windowsPath(): string {
+    return path.join(path.dirname(this.limits.killSwitchPath), 'risk-windows.json');
+  }
+
+  private loadWindows(): void {
+    try {
+      if (!fs.existsSync(this.windowsPath)) return;
+      const windows: RiskWindowsFile = JSON.parse(fs.readFileSync(this.windowsPath, 'utf8'));
+      this.gasSpends = windows.gasSpends.map(spend => ({ at: spend.at, wei: BigInt(spend.wei) }));
+      this.pnlDay = windows.pnlDay;
+      this.realizedPnl = BigInt(windows.realizedPnl);
+    } catch (error) {
+      // Without the windows the budgets would start from zero, so halt instead
+      this.gasSpends = [];
+      this.realizedPnl = 0n;
+      logger.error('Failed to read risk window state:', error);
+      this.trip('Risk window state file unreadable');
+    }
+  }
+
+  private saveWindows(): void {
+    const windows: RiskWindowsFile = {
+      gasSpends: this.gasSpends.map(spend => ({ at: spend.at, wei: spend.wei.toString() })),
+      pnlDay: this.pnlDay,
+      realizedPnl: this.realizedPnl.toString()
+    };
+    try {
+      fs.mkdirSync(path.dirname(this.windowsPath), { recursive: true });
+      fs.writeFileSync(this.windowsPath, JSON.stringify(windows, null, 2));
+    } catch (error) {
+      logger.error('Failed to persist risk window state:', error);
+    }
+  }
+}
+
+// Reads the ETH/USD feed through the providers of risk.ethUsdChain
+export const riskManager = new RiskManager(chainProviders(config.risk.ethUsdChain));
@@ -0,0 +1,113 @@
+// The JSON Schema subset the API uses. Schemas are plain objects so the same
+// definitions validate requests and are embedded as-is in the OpenAPI document.
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  items?: JsonSchema;
+  minItems?: number;
+  maxItems?: number;
+  enum?: Array<string | number | boolean>;
+  pattern?: string;
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  nullable?: boolean;
+  example?: unknown;
+}
+
+export interface FieldError {
+  field: string; // Dotted path, e.g. body.transactions[1]
+  message: string;
+}
+
+export function validateSchema(schema: JsonSchema, value: unknown, field: string): FieldError[] {
+  if (value === null && schema.nullable) return [];
+
+  const typeError = checkType(schema, value);
+  if (typeError) return [{ field, message: typeError }];
+
+  const errors: FieldError[] = [];
+  const fail = (message: string) => errors.push({ field, message });
+
+  if (schema.enum && !schema.enum.includes(value as string | number | boolean)) {
+    fail(`must be one of ${schema.enum.join(', ')}`);
+  }
+
+  if (typeof value === 'string') {
+    if (schema.minLength !== undefined && value.length < schema.minLength) fail(`must be at least ${schema.minLength} characters`);
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) fail(`must be at most ${schema.maxLength} characters`);
+    if (schema.pattern && !new RegExp(schema.pattern).test(value)) fail(`must match ${schema.pattern}`);
+  }
+
+  if (typeof value === 'number') {
+    if (schema.minimum !== undefined && value < schema.minimum) fail(`must be >= ${schema.minimum}`);
+    if (schema.maximum !== undefined && value > schema.maximum) fail(`must be <= ${schema.maximum}`);
+  }
+
+  if (Array.isArray(value)) {
+    if (schema.minItems !== undefined && value.length < schema.minItems) fail(`must have at least ${schema.minItems} items`);
+    if (schema.maxItems !== undefined && value.length > schema.maxItems) fail(`must have at most ${schema.maxItems} items`);
+    if (schema.items) {
+      value.forEach((item, i) => errors.push(...validateSchema(schema.items!, item, `${field}[${i}]`)));
+    }
+  }
+
+  if (schema.type === 'object' && value && typeof value === 'object') {
+    const record = value as Record<string, unknown>;
+    for (const key of schema.required || []) {
+      if (record[key] === undefined) errors.push({ field: `${field}.${key}`, message: 'is required' });
+    }
+    for (const [key, item] of Object.entries(record)) {
+      const property = schema.properties?.[key];
+      if (property) {
+        if (item !== undefined) errors.push(...validateSchema(property, item, `${field}.${key}`));
+      } else if (schema.additionalProperties === false) {
+        errors.push({ field: `${field}.${key}`, message: 'is not allowed' });
+      } else if (typeof schema.additionalProperties === 'object') {
+        errors.push(...validateSchema(schema.additionalProperties, item, `${field}.${key}`));
+      }
+    }
+  }
+
+  return errors;
+}
+
+function checkType(schema: JsonSchema, value: unknown): string | null {
+  switch (schema.type) {
+    case 'object':
+      return value && typeof value === 'object' && !Array.isArray(value) ? null : 'must be an object';
+    case 'array':
+      return Array.isArray(value) ? null : 'must be an array';
+    case 'string':
+      return typeof value === 'string' ? null : 'must be a string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value) ? null : 'must be a number';
+    case 'integer':
+      return Number.isInteger(value) ? null : 'must be an integer';
+    case 'boolean':
+      return typeof value === 'boolean' ? null : 'must be a boolean';
+    default:
+      return null;
+  }
+}
+
+// Query strings and path params arrive as strings; convert the ones declared as
+// numbers or booleans so they validate (and reach handlers) with their real type.
+// Values that do not convert are left as strings and fail validation.
+export function coerceStrings(schema: JsonSchema, values: Record<string, unknown>): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...values };
+  for (const [key, property] of Object.entries(schema.properties || {})) {
+    const raw = result[key];
+    if (typeof raw !== 'string') continue;
+    if ((property.type === 'number' || property.type === 'integer') && raw.trim() !== '' && !Number.isNaN(Number(raw))) {
+      result[key] = Number(raw);
+    } else if (property.type === 'boolean' && (raw === 'true' || raw === 'false')) {
+      result[key] = raw === 'true';
+    }
+  }
+  return result;
+}
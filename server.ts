@@ -1,27 +1,43 @@
-import express, { Request, Response, NextFunction } from 'express';
+import express, { Request, Response, NextFunction, Router } from 'express';
+import { Server } from 'http';
 import cors from 'cors';
 import helmet from 'helmet';
 import compression from 'compression';
 import { Server as WebSocketServer } from 'ws';
-import { config } from '../config';
-import { tradingEngine } from '../engine/tradingEngine';
-import { strategyRegistry } from '../strategies/strategyRegistry';
-import { priceFeedAggregator } from '../market/priceFeeds';
-import { flashLoanEngine } from '../flashloan/flashLoanEngine';
-import { walletManager } from '../blockchain/wallet';
-import { blockchainProvider } from '../blockchain/provider';
-import logger from '../utils/logger';
+import { config } from './config';
+import { Principal, authenticate, rateLimit, requireRole, signJwt } from './auth';
+import { errorHandler, notFoundHandler, sendError } from './api-middleware';
+import { RouteDoc, buildOpenApiDocument } from './openapi';
+import { TokenResponseSchema } from './api-schemas';
+import { EventFeed, eventFeed } from './event-feed';
+import { METRICS_CONTENT_TYPE, metricsRegistry } from './metrics';
+import engineRoutes, { docs as engineDocs } from './engine-routes';
+import mevRoutes, { docs as mevDocs } from './mev-routes';
+import base44Routes, { docs as base44Docs } from './base44-routes';
+import logger from './logger';
+
+// A group of routes mounted under basePath, with the docs /openapi.json publishes for
+// them. `subscribe` lets a module publish its own events on the WebSocket feed.
+export interface ApiModule {
+  name: string;
+  basePath: string;
+  router: Router;
+  docs: RouteDoc[];
+  subscribe?: (feed: EventFeed) => void;
+}
 
+// Single HTTP + WebSocket server for the whole engine. Shared middleware (security
+// headers, body parsing, authentication) and the error format live here; everything
+// else comes from the route modules enabled in config.server.modules.
 export class APIServer {
   private app: express.Application;
+  private server: Server | null = null;
   private wsServer: WebSocketServer | null = null;
-  private wsClients: Set<any> = new Set();
 
-  constructor() {
+  constructor(private modules: ApiModule[]) {
     this.app = express();
     this.setupMiddleware();
     this.setupRoutes();
-    this.setupWebSocket();
     this.setupEventListeners();
   }
 
@@ -36,6 +52,8 @@ export class APIServer {
       logger.info(`${req.method} ${req.path}`);
       next();
     });
+
+    this.app.use(authenticate());
   }
 
   private setupRoutes(): void {
@@ -44,289 +62,107 @@ export class APIServer {
       res.json({
         status: 'ok',
         timestamp: Date.now(),
-        uptime: process.uptime()
+        uptime: process.uptime(),
+        modules: this.modules.map(module => module.name)
       });
     });
 
-    // System status
-    this.app.get('/api/status', async (req: Request, res: Response) => {
-      try {
-        const status = tradingEngine.getSystemStatus();
-        const balances = await walletManager.getAllBalances();
-        
-        res.json({
-          ...status,
-          balances,
-          providerHealth: blockchainProvider.getHealthStatus()
-        });
-      } catch (error) {
-        logger.error('Error getting status:', error);
-        res.status(500).json({ error: 'Failed to get status' });
-      }
-    });
-
-    // Start trading engine
-    this.app.post('/api/start', async (req: Request, res: Response) => {
-      try {
-        if (tradingEngine.isEngineRunning()) {
-          return res.status(400).json({ error: 'Engine already running' });
-        }
-
-        await tradingEngine.start();
-        flashLoanEngine.startScanning();
-
-        res.json({
-          success: true,
-          message: 'Trading engine started',
-          timestamp: Date.now()
-        });
-      } catch (error) {
-        logger.error('Error starting engine:', error);
-        res.status(500).json({ error: 'Failed to start engine' });
-      }
-    });
-
-    // Start UHF engine
-    this.app.post('/api/start-uhf', async (req: Request, res: Response) => {
-      try {
-        const { ultraHighFrequencyEngine } = await import('../engine/ultraHighFrequencyEngine');
-        const { autoWithdrawSystem } = await import('../profit/autoWithdraw');
-
-        await ultraHighFrequencyEngine.start();
-        autoWithdrawSystem.start(60);
-
-        res.json({
-          success: true,
-          message: 'Ultra-high-frequency engine started',
-          timestamp: Date.now()
-        });
-      } catch (error) {
-        logger.error('Error starting UHF engine:', error);
-        res.status(500).json({ error: 'Failed to start UHF engine' });
-      }
-    });
-
-    // Stop trading engine
-    this.app.post('/api/stop', async (req: Request, res: Response) => {
-      try {
-        if (!tradingEngine.isEngineRunning()) {
-          return res.status(400).json({ error: 'Engine not running' });
-        }
-
-        await tradingEngine.stop();
-        flashLoanEngine.stopScanning();
-
-        res.json({
-          success: true,
-          message: 'Trading engine stopped',
-          timestamp: Date.now()
-        });
-      } catch (error) {
-        logger.error('Error stopping engine:', error);
-        res.status(500).json({ error: 'Failed to stop engine' });
-      }
-    });
-
-    // Get metrics
-    this.app.get('/api/metrics', (req: Request, res: Response) => {
-      try {
-        const metrics = tradingEngine.getPerformanceMetrics();
-        res.json(metrics);
-      } catch (error) {
-        logger.error('Error getting metrics:', error);
-        res.status(500).json({ error: 'Failed to get metrics' });
+    // Exchange an API key for a short-lived JWT carrying the same roles
+    this.app.post('/auth/token', rateLimit(), (req: Request, res: Response) => {
+      const principal: Principal | null | undefined = res.locals.principal;
+      if (!principal || principal.via !== 'api-key') {
+        return sendError(res, 401, 'A valid API key is required');
       }
-    });
-
-    // Get strategies
-    this.app.get('/api/strategies', (req: Request, res: Response) => {
-      try {
-        const { type, risk, active } = req.query;
-        
-        let strategies = strategyRegistry.getAllStrategies();
-
-        if (type) {
-          strategies = strategies.filter(s => s.type === type);
-        }
-
-        if (risk) {
-          strategies = strategies.filter(s => s.riskLevel === risk);
-        }
-
-        if (active === 'true') {
-          strategies = strategies.filter(s => s.enabled);
-        }
-
-        res.json({
-          total: strategies.length,
-          strategies: strategies.map(s => ({
-            id: s.id,
-            name: s.name,
-            type: s.type,
-            riskLevel: s.riskLevel,
-            enabled: s.enabled,
-            priority: s.priority,
-            successRate: s.successRate,
-            totalTrades: s.totalTrades,
-            totalProfitUSD: s.totalProfitUSD
-          }))
-        });
-      } catch (error) {
-        logger.error('Error getting strategies:', error);
-        res.status(500).json({ error: 'Failed to get strategies' });
+      if (!config.auth.jwtSecret) {
+        return sendError(res, 503, 'Token issuance is not configured');
       }
-    });
 
-    // Get prices
-    this.app.get('/api/prices', (req: Request, res: Response) => {
-      try {
-        const { token, source } = req.query;
-
-        if (token) {
-          const price = priceFeedAggregator.getPrice(token as string, source as string);
-          return res.json(price);
-        }
-
-        const allPrices = priceFeedAggregator.getAllPrices();
-        const pricesArray = Array.from(allPrices.values());
-
-        res.json({
-          total: pricesArray.length,
-          prices: pricesArray
-        });
-      } catch (error) {
-        logger.error('Error getting prices:', error);
-        res.status(500).json({ error: 'Failed to get prices' });
-      }
-    });
-
-    // Get flash loan opportunities
-    this.app.get('/api/flashloans', (req: Request, res: Response) => {
-      try {
-        const opportunities = flashLoanEngine.getOpportunities();
-        const best = flashLoanEngine.getBestOpportunity();
-        const stats = flashLoanEngine.getStatistics();
-
-        res.json({
-          total: opportunities.length,
-          opportunities,
-          best,
-          statistics: stats
-        });
-      } catch (error) {
-        logger.error('Error getting flash loan opportunities:', error);
-        res.status(500).json({ error: 'Failed to get flash loan opportunities' });
-      }
+      res.json({
+        token: signJwt(principal, config.auth.jwtSecret, config.auth.jwtTtlSeconds),
+        expiresIn: config.auth.jwtTtlSeconds,
+        roles: principal.roles
+      });
     });
 
-    // Get wallet balance
-    this.app.get('/api/wallet/balance', async (req: Request, res: Response) => {
-      try {
-        const balances = await walletManager.getAllBalances();
-        
-        res.json({
-          address: walletManager.getAddress(),
-          balances
-        });
-      } catch (error) {
-        logger.error('Error getting balance:', error);
-        res.status(500).json({ error: 'Failed to get balance' });
-      }
+    // Prometheus scrape target; counters are process-lifetime and reset on restart
+    this.app.get('/metrics', requireRole('read'), (req: Request, res: Response) => {
+      res.type(METRICS_CONTENT_TYPE).send(metricsRegistry.render());
     });
 
-    // Get fund stats
-    this.app.get('/api/funds/stats', async (req: Request, res: Response) => {
-      try {
-        const { fundManager } = await import('../profit/fundManager');
-        const stats = fundManager.getStatistics();
-        res.json(stats);
-      } catch (error) {
-        logger.error('Error getting fund stats:', error);
-        res.status(500).json({ error: 'Failed to get fund stats' });
-      }
+    // Generated from the same schemas the routes validate with; open so clients can be generated
+    const coreDocs: RouteDoc[] = [
+      { method: 'get', path: '/health', summary: 'Liveness and mounted modules' },
+      { method: 'post', path: '/auth/token', summary: 'Exchange an API key for a JWT', response: TokenResponseSchema },
+      { method: 'get', path: '/metrics', summary: 'Prometheus metrics (text format 0.0.4)', role: 'read' },
+      { method: 'get', path: '/openapi.json', summary: 'This document' }
+    ];
+    const openApiDocument = buildOpenApiDocument(
+      [{ name: 'core', basePath: '', docs: coreDocs }, ...this.modules],
+      process.env.npm_package_version || '1.0.0'
+    );
+    this.app.get('/openapi.json', (req: Request, res: Response) => {
+      res.json(openApiDocument);
     });
 
-    // Withdraw all profits
-    this.app.post('/api/withdraw-all', async (req: Request, res: Response) => {
-      try {
-        const { autoWithdrawSystem } = await import('../profit/autoWithdraw');
-        await autoWithdrawSystem.withdrawAll();
-        res.json({
-          success: true,
-          message: 'All profits withdrawn'
-        });
-      } catch (error) {
-        logger.error('Error withdrawing all:', error);
-        res.status(500).json({ error: 'Failed to withdraw all' });
-      }
-    });
+    for (const module of this.modules) {
+      this.app.use(module.basePath, module.router);
+      logger.info(`API module '${module.name}' mounted at ${module.basePath}`);
+    }
 
-    // Error handler
-    this.app.use((err: Error, req: Request, res: Response, next: NextFunction) => {
-      logger.error('Unhandled error:', err);
-      res.status(500).json({
-        error: 'Internal server error',
-        message: err.message
-      });
-    });
+    this.app.use(notFoundHandler);
+    this.app.use(errorHandler);
   }
 
+  // Topic feed (opportunities, bundles, trades, blocks, risk) on wsPort; see event-feed.ts
   private setupWebSocket(): void {
     this.wsServer = new WebSocketServer({ port: config.server.wsPort });
-
-    this.wsServer.on('connection', (ws) => {
-      logger.info('WebSocket client connected');
-      this.wsClients.add(ws);
-
-      ws.on('close', () => {
-        logger.info('WebSocket client disconnected');
-        this.wsClients.delete(ws);
-      });
-
-      ws.on('error', (error) => {
-        logger.error('WebSocket error:', error);
-        this.wsClients.delete(ws);
-      });
-    });
+    eventFeed.attach(this.wsServer);
+    logger.info(`WebSocket feed started on port ${config.server.wsPort}`);
   }
 
   private setupEventListeners(): void {
-    tradingEngine.on('performance_update', (metrics) => {
-      this.broadcast({
-        type: 'performance',
-        data: metrics
-      });
-    });
-  }
-
-  private broadcast(message: any): void {
-    const data = JSON.stringify(message);
-    
-    this.wsClients.forEach((client) => {
-      if (client.readyState === 1) {
-        try {
-          client.send(data);
-        } catch (error) {
-          logger.error('Error broadcasting to client:', error);
-        }
-      }
-    });
+    for (const module of this.modules) {
+      module.subscribe?.(eventFeed);
+    }
   }
 
-  public start(): void {
-    this.app.listen(config.server.port, () => {
-      logger.info(`API Server started on port ${config.server.port}`);
-      logger.info(`Environment: ${config.server.environment}`);
+  public start(): Promise<void> {
+    this.setupWebSocket();
+    return new Promise((resolve, reject) => {
+      this.server = this.app.listen(config.server.port, () => {
+        logger.info(`API Server started on port ${config.server.port}`);
+        logger.info(`Environment: ${config.server.environment}`);
+        resolve();
+      });
+      this.server.once('error', reject);
     });
   }
 
-  public stop(): void {
+  // Stops accepting connections and resolves once in-flight requests have finished
+  public async stop(): Promise<void> {
     if (this.wsServer) {
-      this.wsServer.close();
+      eventFeed.close();
+      await new Promise<void>(resolve => this.wsServer!.close(() => resolve()));
+      this.wsServer = null;
       logger.info('WebSocket server stopped');
     }
+
+    if (this.server) {
+      const server = this.server;
+      this.server = null;
+      await new Promise<void>(resolve => {
+        server.close(() => resolve());
+        server.closeIdleConnections();
+      });
+      logger.info('API Server stopped');
+    }
   }
 }
 
-export const apiServer = new APIServer();
+const modules: ApiModule[] = [
+  { name: 'engine', basePath: '/api', router: engineRoutes, docs: engineDocs },
+  { name: 'mev', basePath: '/mev', router: mevRoutes, docs: mevDocs },
+  { name: 'base44', basePath: '/', router: base44Routes, docs: base44Docs }
+];
 
+export const apiServer = new APIServer(modules.filter(module => config.server.modules[module.name]));
@@ -1,51 +0,0 @@
-// Placeholder for the Express/WebSocket API Server
-import express, { Application, Request, Response } from 'express';
-import { Server } from 'http';
-import { base44Connector } from '../index'; // Adjusted import path
-import logger from '../utils/logger'; // Adjusted import path
-import { config } from '../config'; // Adjusted import path
-
-class ApiServer {
-    private app: Application;
-    private server: Server | null = null;
-
-    constructor() {
-        this.app = express();
-        this.app.use(express.json());
-        this.setupRoutes();
-    }
-
-    private setupRoutes(): void {
-        this.app.get('/health', (req: Request, res: Response) => {
-            res.status(200).send({ status: 'ok', base44Status: base44Connector.connect ? 'check required' : 'unknown' });
-        });
-
-        this.app.post('/trade', async (req: Request, res: Response) => {
-            try {
-                // Example trade route logic
-                const tradeResult = await base44Connector.executeTrade(req.body);
-                res.status(200).json(tradeResult);
-            } catch (error) {
-                logger.error('Trade execution error:', error);
-                res.status(500).json({ success: false, message: 'Trade failed' });
-            }
-        });
-    }
-
-    public start(): void {
-        const port = config.server.port;
-        this.server = this.app.listen(port, () => {
-            logger.info(`API Server listening on port ${port}`);
-        });
-    }
-
-    public stop(): void {
-        if (this.server) {
-            this.server.close(() => {
-                logger.info('API Server gracefully stopped.');
-            });
-        }
-    }
-}
-
-export const apiServerWithBase44 = new ApiServer();
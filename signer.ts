@@ -0,0 +1,170 @@
+import fs from 'fs';
+import axios from 'axios';
+import { ethers } from 'ethers';
+import { config } from './config';
+import logger from './logger';
+
+// What the engine needs from a key: an address known up front plus transaction and
+// message signing. ethers.Wallet satisfies it, as does RemoteSigner.
+export interface AccountSigner extends ethers.Signer {
+  readonly address: string;
+}
+
+// `signer` holds the funds and signs bundle transactions; `authSigner` only signs
+// relay requests (X-Flashbots-Signature) and builds reputation, so it never needs funds.
+export interface EngineSigners {
+  signer: AccountSigner;
+  authSigner: AccountSigner;
+}
+
+export type SignerSettings = typeof config.signer;
+
+export async function loadKeystoreSigner(filePath: string, password: string): Promise<ethers.Wallet> {
+  const json = fs.readFileSync(filePath, 'utf8');
+  const wallet = await ethers.Wallet.fromEncryptedJson(json, password);
+  return new ethers.Wallet(wallet.privateKey);
+}
+
+// Resolves the configured backends. Returns null when no transaction signer is
+// configured, which leaves the MEV executor disabled.
+export async function loadSigners(settings: SignerSettings = config.signer): Promise<EngineSigners | null> {
+  let signer: AccountSigner;
+  switch (settings.backend) {
+    case 'keystore':
+      signer = await loadKeystoreSigner(settings.keystorePath, settings.keystorePassword);
+      break;
+    case 'remote':
+      signer = await RemoteSigner.open(settings.remoteUrl, settings.remoteToken);
+      break;
+    default:
+      if (!settings.privateKey || settings.privateKey === 'your_private_key_here') {
+        return null;
+      }
+      signer = new ethers.Wallet(settings.privateKey);
+  }
+
+  let authSigner: AccountSigner;
+  if (settings.authKeystorePath) {
+    authSigner = await loadKeystoreSigner(settings.authKeystorePath, settings.authKeystorePassword);
+  } else if (settings.authPrivateKey) {
+    authSigner = new ethers.Wallet(settings.authPrivateKey);
+  } else {
+    authSigner = ethers.Wallet.createRandom();
+    logger.warn(`No relay auth key configured; using ephemeral ${authSigner.address}, relay reputation will not carry over`);
+  }
+
+  logger.info(`Signer ready (${settings.backend}) ${signer.address}, relay auth ${authSigner.address}`);
+  return { signer, authSigner };
+}
+
+// Client for the remote-signer protocol: JSON-RPC over HTTP with an optional bearer token.
+//   signer_accounts()                         -> [address]
+//   signer_signTransaction(unsignedSerialized) -> signed raw transaction
+//   signer_signMessage(hexMessage)            -> EIP-191 signature
+//   signer_signTypedData(eip712Payload)       -> EIP-712 signature
+// Every response is checked against the signer's address before it is used, so a
+// misbehaving signer cannot slip in a different transaction or key.
+export class RemoteSigner extends ethers.AbstractSigner implements AccountSigner {
+  private requestId = 0;
+
+  constructor(readonly address: string, private url: string, private token: string, provider: ethers.Provider | null = null) {
+    super(provider);
+  }
+
+  static async open(url: string, token: string = ''): Promise<RemoteSigner> {
+    if (!url) {
+      throw new Error('Remote signer URL is not configured');
+    }
+    const probe = new RemoteSigner(ethers.ZeroAddress, url, token);
+    const [address] = await probe.rpc<string[]>('signer_accounts', []);
+    return new RemoteSigner(ethers.getAddress(address), url, token);
+  }
+
+  connect(provider: ethers.Provider | null): RemoteSigner {
+    return new RemoteSigner(this.address, this.url, this.token, provider);
+  }
+
+  async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  async signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    const request = ethers.copyRequest(tx);
+    const { to, from } = await ethers.resolveProperties({
+      to: request.to ? ethers.resolveAddress(request.to, this.provider) : undefined,
+      from: request.from ? ethers.resolveAddress(request.from, this.provider) : undefined
+    });
+    if (to != null) request.to = to;
+    if (from != null && ethers.getAddress(from) !== this.address) {
+      throw new Error(`Transaction from ${from} does not match remote signer ${this.address}`);
+    }
+    delete request.from;
+
+    const unsigned = ethers.Transaction.from(request as ethers.TransactionLike<string>);
+    const raw = await this.rpc<string>('signer_signTransaction', [unsigned.unsignedSerialized]);
+    const signed = ethers.Transaction.from(raw);
+    if (signed.unsignedHash !== unsigned.unsignedHash || signed.from !== this.address) {
+      throw new Error('Remote signer returned a transaction that does not match the request');
+    }
+    return signed.serialized;
+  }
+
+  async signMessage(message: string | Uint8Array): Promise<string> {
+    const bytes = typeof message === 'string' ? ethers.toUtf8Bytes(message) : message;
+    const signature = await this.rpc<string>('signer_signMessage', [ethers.hexlify(bytes)]);
+    if (ethers.verifyMessage(bytes, signature) !== this.address) {
+      throw new Error('Remote signer returned an invalid message signature');
+    }
+    return signature;
+  }
+
+  async signTypedData(
+    domain: ethers.TypedDataDomain,
+    types: Record<string, ethers.TypedDataField[]>,
+    value: Record<string, unknown>
+  ): Promise<string> {
+    const payload = ethers.TypedDataEncoder.getPayload(domain, types, value);
+    const signature = await this.rpc<string>('signer_signTypedData', [payload]);
+    if (ethers.verifyTypedData(domain, types, value, signature) !== this.address) {
+      throw new Error('Remote signer returned an invalid typed data signature');
+    }
+    return signature;
+  }
+
+  private async rpc<T>(method: string, params: unknown[]): Promise<T> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.token) {
+      headers.Authorization = `Bearer ${this.token}`;
+    }
+    const response = await axios.post(this.url, { jsonrpc: '2.0', id: ++this.requestId, method, params }, { headers, timeout: 5000 });
+    if (response.data.error) {
+      throw new Error(`Remote signer ${method} failed: ${response.data.error.message}`);
+    }
+    return response.data.result as T;
+  }
+}
+
+// Writes an encrypted keystore for WALLET_PRIVATE_KEY (or a fresh key) using KEYSTORE_PASSWORD.
+// Usage: node dist/signer.js keystore <out.json>
+if (require.main === module) {
+  const [command, out] = process.argv.slice(2);
+  const password = process.env.KEYSTORE_PASSWORD;
+
+  if (command !== 'keystore' || !out || !password) {
+    console.log('Usage: KEYSTORE_PASSWORD=... [WALLET_PRIVATE_KEY=...] signer keystore <out.json>');
+    process.exit(1);
+  }
+
+  const wallet = process.env.WALLET_PRIVATE_KEY
+    ? new ethers.Wallet(process.env.WALLET_PRIVATE_KEY)
+    : ethers.Wallet.createRandom();
+  wallet.encrypt(password)
+    .then(json => {
+      fs.writeFileSync(out, json, { mode: 0o600 });
+      console.log(`Wrote keystore for ${wallet.address} to ${out}`);
+    })
+    .catch(error => {
+      console.error('Failed to write keystore:', error);
+      process.exit(1);
+    });
+}
@@ -0,0 +1,308 @@
+import { ethers } from 'ethers';
+import { RouterSettings } from './config';
+
+export type SwapProtocol = 'uniswap-v2' | 'uniswap-v3' | 'universal-router';
+export type Venue = 'uniswap' | 'sushiswap';
+
+// Normalized view of a single swap leg found in router calldata.
+// Amounts are decimal wei strings. For exact-input swaps amountOut is the
+// minimum the sender accepts; for exact-output swaps amountIn is the maximum.
+export interface SwapDescriptor {
+  protocol: SwapProtocol;
+  venue: Venue; // Whose pools the router trades against
+  router: string;
+  method: string;
+  exactInput: boolean;
+  path: string[]; // Token addresses, always ordered tokenIn -> tokenOut
+  fees: number[]; // V3 fee tier per hop in hundredths of a bip; empty for V2 hops
+  amountIn: string;
+  amountOut: string;
+  recipient: string;
+  deadline: number | null;
+  value: string; // ETH attached to the transaction
+}
+
+const V2_ROUTER = new ethers.Interface([
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+  'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapTokensForExactETH(uint256 amountOut, uint256 amountInMax, address[] path, address to, uint256 deadline)',
+  'function swapExactTokensForETH(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapETHForExactTokens(uint256 amountOut, address[] path, address to, uint256 deadline)',
+  'function swapExactTokensForTokensSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactETHForTokensSupportingFeeOnTransferTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)',
+  'function swapExactTokensForETHSupportingFeeOnTransferTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)'
+]);
+
+const V3_ROUTER = new ethers.Interface([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+  'function exactInput((bytes path, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum) params)',
+  'function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)',
+  'function exactOutput((bytes path, address recipient, uint256 deadline, uint256 amountOut, uint256 amountInMaximum) params)',
+  'function multicall(bytes[] data)'
+]);
+
+// SwapRouter02 drops the per-swap deadline and moves it to multicall
+const ROUTER02 = new ethers.Interface([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params)',
+  'function exactInput((bytes path, address recipient, uint256 amountIn, uint256 amountOutMinimum) params)',
+  'function exactOutputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountOut, uint256 amountInMaximum, uint160 sqrtPriceLimitX96) params)',
+  'function exactOutput((bytes path, address recipient, uint256 amountOut, uint256 amountInMaximum) params)',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to)',
+  'function swapTokensForExactTokens(uint256 amountOut, uint256 amountInMax, address[] path, address to)',
+  'function multicall(uint256 deadline, bytes[] data)',
+  'function multicall(bytes32 previousBlockhash, bytes[] data)',
+  'function multicall(bytes[] data)'
+]);
+
+const UNIVERSAL_ROUTER = new ethers.Interface([
+  'function execute(bytes commands, bytes[] inputs, uint256 deadline)',
+  'function execute(bytes commands, bytes[] inputs)'
+]);
+
+// Universal Router command ids (low 6 bits of each command byte)
+const UR_V3_SWAP_EXACT_IN = 0x00;
+const UR_V3_SWAP_EXACT_OUT = 0x01;
+const UR_V2_SWAP_EXACT_IN = 0x08;
+const UR_V2_SWAP_EXACT_OUT = 0x09;
+const UR_COMMAND_MASK = 0x3f;
+
+const abiCoder = ethers.AbiCoder.defaultAbiCoder();
+
+interface DecodeContext {
+  router: string;
+  venue: Venue;
+  value: bigint;
+  deadline: number | null;
+}
+
+// Decodes every swap leg in a router transaction. `routers` is the chain's router
+// registry keyed by lowercased address (see routerRegistry in chains). Returns an
+// empty array for unknown routers or calldata that is not a swap.
+export function decodeSwapTransaction(
+  tx: { to?: string | null; data: string; value?: bigint },
+  routers: Map<string, RouterSettings>
+): SwapDescriptor[] {
+  if (!tx.to) return [];
+  const router = routers.get(tx.to.toLowerCase());
+  if (!router) return [];
+
+  const context: DecodeContext = { router: ethers.getAddress(tx.to), venue: router.venue, value: tx.value ?? 0n, deadline: null };
+  try {
+    switch (router.kind) {
+      case 'v2':
+        return decodeV2(tx.data, context);
+      case 'v3':
+        return decodeV3(tx.data, context, V3_ROUTER);
+      case 'router02':
+        return decodeV3(tx.data, context, ROUTER02);
+      case 'universal':
+        return decodeUniversalRouter(tx.data, context);
+    }
+  } catch {
+    // Malformed calldata or a selector we do not model (e.g. liquidity management)
+    return [];
+  }
+}
+
+// Splits a packed V3 path (token, fee, token, fee, token...) into tokens and fees
+export function decodeV3Path(path: string): { tokens: string[]; fees: number[] } {
+  const bytes = ethers.getBytes(path);
+  const tokens: string[] = [];
+  const fees: number[] = [];
+  let offset = 0;
+
+  while (true) {
+    tokens.push(ethers.getAddress(ethers.hexlify(bytes.slice(offset, offset + 20))));
+    offset += 20;
+    if (offset >= bytes.length) break;
+    fees.push((bytes[offset] << 16) | (bytes[offset + 1] << 8) | bytes[offset + 2]);
+    offset += 3;
+  }
+
+  return { tokens, fees };
+}
+
+function decodeV2(data: string, context: DecodeContext): SwapDescriptor[] {
+  const parsed = V2_ROUTER.parseTransaction({ data, value: context.value });
+  if (!parsed) return [];
+  const a = parsed.args;
+  const name = parsed.name;
+  const exactInput = name.startsWith('swapExact');
+
+  let amountIn: bigint;
+  let amountOut: bigint;
+  if (name.startsWith('swapExactETH')) {
+    amountIn = context.value;
+    amountOut = a.amountOutMin;
+  } else if (name === 'swapETHForExactTokens') {
+    amountIn = context.value;
+    amountOut = a.amountOut;
+  } else if (exactInput) {
+    amountIn = a.amountIn;
+    amountOut = a.amountOutMin;
+  } else {
+    amountIn = a.amountInMax;
+    amountOut = a.amountOut;
+  }
+
+  return [{
+    protocol: 'uniswap-v2',
+    venue: context.venue,
+    router: context.router,
+    method: name,
+    exactInput,
+    path: a.path.map((token: string) => ethers.getAddress(token)),
+    fees: [],
+    amountIn: amountIn.toString(),
+    amountOut: amountOut.toString(),
+    recipient: a.to,
+    deadline: Number(a.deadline),
+    value: context.value.toString()
+  }];
+}
+
+function decodeV3(data: string, context: DecodeContext, iface: ethers.Interface): SwapDescriptor[] {
+  const parsed = iface.parseTransaction({ data, value: context.value });
+  if (!parsed) return [];
+
+  if (parsed.name === 'multicall') {
+    const calls: string[] = [...parsed.args.data];
+    const deadline = parsed.fragment.inputs[0].name === 'deadline' ? Number(parsed.args.deadline) : context.deadline;
+    return calls.flatMap(call => decodeV3(call, { ...context, deadline }, iface));
+  }
+
+  // SwapRouter02 also exposes V2-style swaps, possibly inside its multicall
+  if (parsed.name.startsWith('swap')) {
+    return decodeRouter02V2(data, context);
+  }
+
+  const p = parsed.args.params;
+  const deadline = p.deadline !== undefined ? Number(p.deadline) : context.deadline;
+  const base = {
+    protocol: 'uniswap-v3' as SwapProtocol,
+    venue: context.venue,
+    router: context.router,
+    method: parsed.name,
+    recipient: p.recipient,
+    deadline,
+    value: context.value.toString()
+  };
+
+  switch (parsed.name) {
+    case 'exactInputSingle':
+      return [{
+        ...base,
+        exactInput: true,
+        path: [ethers.getAddress(p.tokenIn), ethers.getAddress(p.tokenOut)],
+        fees: [Number(p.fee)],
+        amountIn: p.amountIn.toString(),
+        amountOut: p.amountOutMinimum.toString()
+      }];
+    case 'exactOutputSingle':
+      return [{
+        ...base,
+        exactInput: false,
+        path: [ethers.getAddress(p.tokenIn), ethers.getAddress(p.tokenOut)],
+        fees: [Number(p.fee)],
+        amountIn: p.amountInMaximum.toString(),
+        amountOut: p.amountOut.toString()
+      }];
+    case 'exactInput': {
+      const { tokens, fees } = decodeV3Path(p.path);
+      return [{ ...base, exactInput: true, path: tokens, fees, amountIn: p.amountIn.toString(), amountOut: p.amountOutMinimum.toString() }];
+    }
+    case 'exactOutput': {
+      // Exact-output paths are encoded tokenOut -> tokenIn
+      const { tokens, fees } = decodeV3Path(p.path);
+      return [{
+        ...base,
+        exactInput: false,
+        path: tokens.reverse(),
+        fees: fees.reverse(),
+        amountIn: p.amountInMaximum.toString(),
+        amountOut: p.amountOut.toString()
+      }];
+    }
+    default:
+      return [];
+  }
+}
+
+function decodeRouter02V2(data: string, context: DecodeContext): SwapDescriptor[] {
+  const parsed = ROUTER02.parseTransaction({ data, value: context.value });
+  if (!parsed || !parsed.name.startsWith('swap')) return [];
+  const a = parsed.args;
+  const exactInput = parsed.name === 'swapExactTokensForTokens';
+
+  return [{
+    protocol: 'uniswap-v2',
+    venue: context.venue,
+    router: context.router,
+    method: parsed.name,
+    exactInput,
+    path: a.path.map((token: string) => ethers.getAddress(token)),
+    fees: [],
+    amountIn: (exactInput ? a.amountIn : a.amountInMax).toString(),
+    amountOut: (exactInput ? a.amountOutMin : a.amountOut).toString(),
+    recipient: a.to,
+    deadline: context.deadline,
+    value: context.value.toString()
+  }];
+}
+
+function decodeUniversalRouter(data: string, context: DecodeContext): SwapDescriptor[] {
+  const parsed = UNIVERSAL_ROUTER.parseTransaction({ data, value: context.value });
+  if (!parsed) return [];
+
+  const commands = ethers.getBytes(parsed.args.commands);
+  const inputs: string[] = parsed.args.inputs;
+  const deadline = parsed.args.length > 2 ? Number(parsed.args.deadline) : null;
+  const swaps: SwapDescriptor[] = [];
+
+  commands.forEach((command, i) => {
+    const id = command & UR_COMMAND_MASK;
+    const base = {
+      protocol: 'universal-router' as SwapProtocol,
+      venue: context.venue,
+      router: context.router,
+      deadline,
+      value: context.value.toString()
+    };
+
+    if (id === UR_V3_SWAP_EXACT_IN || id === UR_V3_SWAP_EXACT_OUT) {
+      const [recipient, amountA, amountB, path] = abiCoder.decode(
+        ['address', 'uint256', 'uint256', 'bytes', 'bool'], inputs[i]
+      );
+      const { tokens, fees } = decodeV3Path(path);
+      const exactInput = id === UR_V3_SWAP_EXACT_IN;
+      swaps.push({
+        ...base,
+        method: exactInput ? 'V3_SWAP_EXACT_IN' : 'V3_SWAP_EXACT_OUT',
+        exactInput,
+        path: exactInput ? tokens : tokens.reverse(),
+        fees: exactInput ? fees : fees.reverse(),
+        amountIn: (exactInput ? amountA : amountB).toString(),
+        amountOut: (exactInput ? amountB : amountA).toString(),
+        recipient
+      });
+    } else if (id === UR_V2_SWAP_EXACT_IN || id === UR_V2_SWAP_EXACT_OUT) {
+      const [recipient, amountA, amountB, path] = abiCoder.decode(
+        ['address', 'uint256', 'uint256', 'address[]', 'bool'], inputs[i]
+      );
+      const exactInput = id === UR_V2_SWAP_EXACT_IN;
+      swaps.push({
+        ...base,
+        method: exactInput ? 'V2_SWAP_EXACT_IN' : 'V2_SWAP_EXACT_OUT',
+        exactInput,
+        path: path.map((token: string) => ethers.getAddress(token)),
+        fees: [],
+        amountIn: (exactInput ? amountA : amountB).toString(),
+        amountOut: (exactInput ? amountB : amountA).toString(),
+        recipient
+      });
+    }
+  });
+
+  return swaps;
+}
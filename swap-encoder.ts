@@ -0,0 +1,124 @@
+import { ethers } from 'ethers';
+import { RouterSettings } from './config';
+import { ChainProfile, isWrappedNative, routerForDex } from './chains';
+import { Dex, PoolState } from './pool-state';
+
+const V2_ROUTER = new ethers.Interface([
+  'function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline) payable',
+  'function swapExactTokensForTokens(uint256 amountIn, uint256 amountOutMin, address[] path, address to, uint256 deadline)'
+]);
+
+const V3_ROUTER = new ethers.Interface([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 deadline, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable'
+]);
+
+// SwapRouter02 (the only V3 router on some L2s) takes the deadline on multicall instead
+const ROUTER02 = new ethers.Interface([
+  'function exactInputSingle((address tokenIn, address tokenOut, uint24 fee, address recipient, uint256 amountIn, uint256 amountOutMinimum, uint160 sqrtPriceLimitX96) params) payable',
+  'function multicall(uint256 deadline, bytes[] data) payable'
+]);
+
+const ERC20 = new ethers.Interface([
+  'function approve(address spender, uint256 amount) returns (bool)',
+  'function allowance(address owner, address spender) view returns (uint256)'
+]);
+
+export interface EncodedCall {
+  to: string;
+  data: string;
+  value: bigint;
+}
+
+export interface SwapCallParams {
+  pool: PoolState;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: bigint;
+  amountOutMin: bigint;
+  recipient: string;
+  deadline: number;
+  // Pay with the native coin when tokenIn is the chain's wrapped native token (routers wrap it)
+  payWithEth?: boolean;
+}
+
+// Router our swaps through a DEX's pools go to on this chain
+export function swapRouter(chain: ChainProfile, dex: Dex): RouterSettings {
+  const router = routerForDex(chain, dex);
+  if (!router) throw new Error(`No router for ${dex} pools configured on ${chain.name}`);
+  return router;
+}
+
+// Router call for an exact-input swap through the given pool's DEX
+export function encodeExactInputSwap(chain: ChainProfile, params: SwapCallParams): EncodedCall {
+  const { pool, tokenIn, tokenOut, amountIn, amountOutMin, recipient, deadline } = params;
+  const payWithEth = params.payWithEth === true && isWrappedNative(chain, tokenIn);
+  const { address: router, kind } = swapRouter(chain, pool.dex);
+
+  if (pool.kind === 'v3' && kind === 'router02') {
+    const swap = ROUTER02.encodeFunctionData('exactInputSingle', [{
+      tokenIn,
+      tokenOut,
+      fee: pool.fee,
+      recipient,
+      amountIn,
+      amountOutMinimum: amountOutMin,
+      sqrtPriceLimitX96: 0
+    }]);
+    return {
+      to: router,
+      data: ROUTER02.encodeFunctionData('multicall', [deadline, [swap]]),
+      value: payWithEth ? amountIn : 0n
+    };
+  }
+
+  if (pool.kind === 'v3') {
+    return {
+      to: router,
+      data: V3_ROUTER.encodeFunctionData('exactInputSingle', [{
+        tokenIn,
+        tokenOut,
+        fee: pool.fee,
+        recipient,
+        deadline,
+        amountIn,
+        amountOutMinimum: amountOutMin,
+        sqrtPriceLimitX96: 0
+      }]),
+      value: payWithEth ? amountIn : 0n
+    };
+  }
+
+  if (payWithEth) {
+    return {
+      to: router,
+      data: V2_ROUTER.encodeFunctionData('swapExactETHForTokens', [amountOutMin, [tokenIn, tokenOut], recipient, deadline]),
+      value: amountIn
+    };
+  }
+
+  return {
+    to: router,
+    data: V2_ROUTER.encodeFunctionData('swapExactTokensForTokens', [amountIn, amountOutMin, [tokenIn, tokenOut], recipient, deadline]),
+    value: 0n
+  };
+}
+
+// Byte offset of amountIn in encodeExactInputSwap's calldata for a token-in swap, for callers
+// (the flash executor) that overwrite it on-chain. Every argument before it is static:
+//   swapExactTokensForTokens  selector | amountIn
+//   exactInputSingle          selector | tokenIn tokenOut fee recipient deadline | amountIn
+//   multicall(exactInput...)  selector | deadline, offset, length, offset, bytes length |
+//                             selector | tokenIn tokenOut fee recipient | amountIn
+export function exactInputAmountOffset(chain: ChainProfile, pool: PoolState): number {
+  if (pool.kind === 'v2') return 4;
+  return swapRouter(chain, pool.dex).kind === 'router02' ? 4 + 5 * 32 + 4 + 4 * 32 : 4 + 5 * 32;
+}
+
+export function encodeApprove(token: string, spender: string, amount: bigint): EncodedCall {
+  return { to: token, data: ERC20.encodeFunctionData('approve', [spender, amount]), value: 0n };
+}
+
+export async function getAllowance(provider: ethers.Provider, token: string, owner: string, spender: string): Promise<bigint> {
+  const result = await provider.call({ to: token, data: ERC20.encodeFunctionData('allowance', [owner, spender]) });
+  return ERC20.decodeFunctionResult('allowance', result)[0];
+}
@@ -0,0 +1,133 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express, { Request, Response } from 'express';
+import { HttpError, errorHandler, notFoundHandler, validate } from '../api-middleware';
+import { ExecuteBundleBodySchema, HistoryQuerySchema, TokenParamsSchema, TokensQuerySchema } from '../api-schemas';
+import { RiskViolation } from '../risk-manager';
+import { FieldError } from '../schema';
+
+// An error response, or what the echo routes saw
+interface ApiBody {
+  success?: false;
+  error?: string;
+  details?: unknown;
+  body?: unknown;
+  query?: unknown;
+  params?: unknown;
+}
+
+const fields = (body: ApiBody) => (body.details as FieldError[]).map(error => error.field).sort();
+
+// The middleware stack server.ts mounts, around routes that echo what validation handed them
+function app(): express.Express {
+  const app = express();
+  app.use(express.json({ limit: '1kb' }));
+  const echo = (req: Request, res: Response) => res.json({ body: req.body, query: req.query, params: req.params });
+
+  app.post('/bundle', validate({ body: ExecuteBundleBodySchema }), echo);
+  app.get('/history', validate({ query: HistoryQuerySchema }), echo);
+  app.get('/tokens', validate({ query: TokensQuerySchema }), echo);
+  app.get('/tokens/:chain/:address', validate({ params: TokenParamsSchema }), echo);
+  app.get('/refused/:kind', (req: Request) => {
+    if (req.params.kind === 'http') throw new HttpError(409, 'Already submitted', { bundleId: 'b-1' });
+    if (req.params.kind === 'risk') throw new RiskViolation('Daily loss limit reached');
+    if (req.params.kind === 'halted') throw new RiskViolation('Kill switch engaged', true);
+    throw new Error('database on fire');
+  });
+
+  app.use(notFoundHandler);
+  app.use(errorHandler);
+  return app;
+}
+
+describe('request validation and error responses', () => {
+  let server: Server;
+  let base: string;
+
+  async function request(path: string, init: RequestInit = {}): Promise<{ status: number; body: ApiBody }> {
+    const response = await fetch(`${base}${path}`, init);
+    return { status: response.status, body: await response.json() };
+  }
+
+  const post = (path: string, body: string) =>
+    request(path, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body });
+
+  before(async () => {
+    server = app().listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('passes a valid body through untouched', async () => {
+    const body = { transactions: ['0x02f8'], blockNumber: 19000000 };
+    const { status, body: echoed } = await post('/bundle', JSON.stringify(body));
+    assert.equal(status, 200);
+    assert.deepEqual(echoed.body, body);
+  });
+
+  test('answers 400 with every field error at once', async () => {
+    const { status, body } = await post('/bundle', JSON.stringify({ transactions: ['0x02f8', 'signed'], blockNumber: 0, gasPrice: 1 }));
+    assert.equal(status, 400);
+    assert.equal(body.success, false);
+    assert.equal(body.error, 'Invalid request');
+    assert.deepEqual(fields(body), ['body.blockNumber', 'body.gasPrice', 'body.transactions[1]']);
+
+    const missing = await post('/bundle', '{}');
+    assert.deepEqual(fields(missing.body), ['body.transactions']);
+  });
+
+  test('coerces numeric and boolean query and path values before the handler sees them', async () => {
+    const history = await request('/history?fromBlock=100&limit=50&kind=outcome');
+    assert.equal(history.status, 200);
+    assert.deepEqual(history.body.query, { fromBlock: 100, limit: 50, kind: 'outcome' });
+
+    const tokens = await request('/tokens?flagged=false');
+    assert.deepEqual(tokens.body.query, { flagged: false });
+
+    const address = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+    const token = await request(`/tokens/ethereum/${address}`);
+    assert.deepEqual(token.body.params, { chain: 'ethereum', address });
+  });
+
+  test('rejects query and path values that do not coerce or fall outside the schema', async () => {
+    const history = await request('/history?fromBlock=latest&limit=501&colour=blue');
+    assert.equal(history.status, 400);
+    assert.deepEqual(fields(history.body), ['query.colour', 'query.fromBlock', 'query.limit']);
+
+    assert.equal((await request('/tokens?flagged=yes')).status, 400);
+    const token = await request('/tokens/ethereum/0x1234');
+    assert.equal(token.status, 400);
+    assert.deepEqual(fields(token.body), ['params.address']);
+  });
+
+  test('maps body-parser failures to 400 and 413', async () => {
+    const malformed = await post('/bundle', '{"transactions": [');
+    assert.equal(malformed.status, 400);
+    assert.deepEqual(malformed.body, { success: false, error: 'Malformed JSON body' });
+
+    const tooLarge = await post('/bundle', JSON.stringify({ transactions: ['0x' + '00'.repeat(1024)] }));
+    assert.equal(tooLarge.status, 413);
+    assert.deepEqual(tooLarge.body, { success: false, error: 'Request body too large' });
+  });
+
+  test('gives thrown errors their status and hides unexpected ones', async () => {
+    assert.deepEqual(await request('/refused/http'), {
+      status: 409, body: { success: false, error: 'Already submitted', details: { bundleId: 'b-1' } }
+    });
+    assert.equal((await request('/refused/risk')).status, 403);
+    assert.equal((await request('/refused/halted')).status, 423);
+    assert.deepEqual(await request('/refused/other'), {
+      status: 500, body: { success: false, error: 'Internal server error' }
+    });
+    assert.deepEqual(await request('/nowhere'), {
+      status: 404, body: { success: false, error: 'No route for GET /nowhere' }
+    });
+  });
+});
@@ -0,0 +1,176 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Request, Response } from 'express';
+import { config } from '../config';
+import { AuditEntry, AuditLog, KeyStore, Principal, rateLimit, requireRole, signJwt, verifyJwt } from '../auth';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'auth-'));
+const secret = 'test-secret';
+const operator: Principal = { id: 'key-1', name: 'ops', roles: ['read', 'operator'], via: 'jwt' };
+
+// The parts of Express a middleware touches; `finish` fires once a response is sent
+class FakeResponse extends EventEmitter {
+  statusCode = 200;
+  body: unknown;
+  headers: Record<string, string> = {};
+  locals: Record<string, unknown> = {};
+
+  status(code: number): this {
+    this.statusCode = code;
+    return this;
+  }
+
+  json(body: unknown): this {
+    this.body = body;
+    this.emit('finish');
+    return this;
+  }
+
+  setHeader(name: string, value: string): void {
+    this.headers[name] = value;
+  }
+}
+
+function run(
+  handler: (req: Request, res: Response, next: () => void) => void,
+  principal?: Principal | null,
+  ip: string = '10.0.0.1'
+): { res: FakeResponse; passed: boolean } {
+  const req = { method: 'POST', originalUrl: '/api/mev/execute', ip } as Request;
+  const res = new FakeResponse();
+  if (principal !== undefined) res.locals.principal = principal;
+  let passed = false;
+  handler(req, res as unknown as Response, () => {
+    passed = true;
+    res.emit('finish');
+  });
+  return { res, passed };
+}
+
+function tamper(token: string, part: 0 | 1, change: (decoded: Record<string, unknown>) => void): string {
+  const parts = token.split('.');
+  const decoded = JSON.parse(Buffer.from(parts[part], 'base64url').toString());
+  change(decoded);
+  parts[part] = Buffer.from(JSON.stringify(decoded)).toString('base64url');
+  return parts.join('.');
+}
+
+after(() => {
+  fs.rmSync(directory, { recursive: true, force: true });
+});
+
+describe('verifyJwt', () => {
+  test('returns the principal of a token it signed', () => {
+    assert.deepEqual(verifyJwt(signJwt(operator, secret, 60), secret), operator);
+  });
+
+  test('rejects expired tokens', () => {
+    assert.equal(verifyJwt(signJwt(operator, secret, -1), secret), null);
+  });
+
+  test('rejects a bad signature, a changed payload and a different secret', () => {
+    const token = signJwt(operator, secret, 60);
+    const [header, payload, signature] = token.split('.');
+
+    assert.equal(verifyJwt(`${header}.${payload}.${signature.slice(0, -2)}AA`, secret), null);
+    assert.equal(verifyJwt(tamper(token, 1, claims => { claims.roles = ['treasury']; }), secret), null);
+    assert.equal(verifyJwt(token, 'other-secret'), null);
+    assert.equal(verifyJwt(`${header}.${payload}`, secret), null);
+  });
+
+  test('rejects any algorithm but HS256, even when correctly signed', () => {
+    const unsigned = tamper(signJwt(operator, secret, 60), 0, header => { header.alg = 'none'; });
+    const [header, payload] = unsigned.split('.');
+    const resigned = `${header}.${payload}.${crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url')}`;
+
+    assert.equal(verifyJwt(resigned, secret), null);
+  });
+});
+
+describe('KeyStore', () => {
+  test('verifies created keys until they are revoked, across reloads', () => {
+    const file = path.join(directory, 'keys.json');
+    const store = new KeyStore(file);
+    const { key, record } = store.create('ops', ['operator']);
+
+    assert.equal(store.verify(key)?.id, record.id);
+    assert.equal(store.verify(key.slice(0, -1) + (key.endsWith('0') ? '1' : '0')), null);
+    assert.equal(new KeyStore(file).verify(key)?.name, 'ops');
+    assert.ok(!JSON.stringify(store.list()).includes(record.hash));
+
+    assert.ok(store.revoke(record.id));
+    assert.ok(!store.revoke(record.id));
+    assert.equal(store.verify(key), null);
+    assert.equal(new KeyStore(file).verify(key), null);
+  });
+
+  test('refuses a key file with malformed records', () => {
+    const record = { id: 'abc', name: 'ops', hash: 'ab'.repeat(32), roles: ['read'], createdAt: 1 };
+    const cases: unknown[] = [
+      { keys: [record] },
+      [{ ...record, hash: 'abcd' }],
+      [{ ...record, roles: ['admin'] }],
+      [{ ...record, createdAt: '2024-01-01' }],
+      [record, null]
+    ];
+    for (const [i, contents] of cases.entries()) {
+      const file = path.join(directory, `malformed-${i}.json`);
+      fs.writeFileSync(file, JSON.stringify(contents));
+      assert.throws(() => new KeyStore(file), /malformed-\d+\.json: (expected a list|entry \d is not a valid API key record)/);
+    }
+  });
+});
+
+describe('requireRole', { skip: !config.auth.enabled && 'auth is disabled' }, () => {
+  const entries: AuditEntry[] = [];
+  const audit = { record: (entry: AuditEntry) => entries.push(entry) } as unknown as AuditLog;
+
+  test('401 without credentials, 403 without the role, through with it', () => {
+    const unauthenticated = run(requireRole('operator', audit));
+    assert.equal(unauthenticated.res.statusCode, 401);
+    assert.ok(!unauthenticated.passed);
+
+    const reader = run(requireRole('treasury', audit), { ...operator, roles: ['read'] });
+    assert.equal(reader.res.statusCode, 403);
+    assert.ok(!reader.passed);
+
+    assert.ok(run(requireRole('operator', audit), operator).passed);
+  });
+
+  test('audits privileged calls, refused ones included, but not reads', () => {
+    entries.length = 0;
+    run(requireRole('operator', audit), null);
+    run(requireRole('operator', audit), operator);
+    run(requireRole('read', audit), operator);
+
+    assert.deepEqual(entries.map(entry => [entry.principal, entry.status, entry.requiredRole]), [
+      [null, 401, 'operator'],
+      ['key-1', 200, 'operator']
+    ]);
+    assert.equal(entries[1].path, '/api/mev/execute');
+  });
+});
+
+describe('rateLimit', () => {
+  test('limits each client per window and evicts expired windows', (context) => {
+    context.mock.timers.enable({ apis: ['Date'] });
+    const limit = rateLimit(2, 1000);
+
+    assert.ok(run(limit, operator).passed);
+    assert.ok(run(limit, operator).passed);
+    const limited = run(limit, operator);
+    assert.equal(limited.res.statusCode, 429);
+    assert.equal(limited.res.headers['Retry-After'], '1');
+
+    // Another client has its own window
+    assert.ok(run(limit, undefined, '10.0.0.2').passed);
+
+    context.mock.timers.tick(1000);
+    assert.ok(run(limit, operator).passed);
+  });
+});
@@ -0,0 +1,87 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { ethers } from 'ethers';
+import { loadFixtures, runBacktest } from '../backtest';
+import { SWAP_GAS_LIMIT } from '../opportunity-detector';
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'backtest');
+const VICTIM = '0xa1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1a1';
+const LATE_SWAP = '0xb1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1b1';
+
+// Thresholds are passed explicitly so the findings do not depend on the local config
+const options = { chain: 'ethereum', minProfit: ethers.parseEther('0.01'), priorityFee: ethers.parseUnits('2', 'gwei') };
+
+describe('runBacktest on fixtures/backtest', () => {
+  const fixtures = loadFixtures(FIXTURES);
+
+  test('replays every block and finds the recorded opportunities', async () => {
+    const report = await runBacktest(fixtures, options);
+
+    assert.deepEqual(report.fixtures, ['usdc-weth-v2.json']);
+    assert.equal(report.blocks, 2);
+    assert.equal(report.transactions, 3);
+    // The plain ETH transfer is not a swap
+    assert.equal(report.swaps, 2);
+    assert.deepEqual(report.findings.map(finding => [finding.blockNumber, finding.txHash, finding.type]), [
+      [19000000, VICTIM, 'sandwich'],
+      [19000000, VICTIM, 'arbitrage'],
+      // Block 19000001 records no pools and is analysed against the previous snapshot
+      [19000001, LATE_SWAP, 'sandwich']
+    ]);
+    assert.deepEqual(report.findings.map(finding => finding.source), ['mempool', 'mempool', 'block']);
+  });
+
+  test('sizes the opportunities from the recorded pool state', async () => {
+    const [sandwich, arbitrage, late] = (await runBacktest(fixtures, options)).findings;
+
+    assert.equal(sandwich.amountIn, '7.246753877523146204');
+    assert.equal(sandwich.grossProfit, '0.394147163690804427');
+    assert.equal(sandwich.netProfit, '0.385347163690804427');
+    assert.equal(arbitrage.amountIn, '49.999999985308491273');
+    assert.equal(arbitrage.grossProfit, '1.811688563468994111');
+    assert.equal(late.netProfit, '0.030327381544864006');
+
+    // Two swap legs at the block's base fee plus the priority fee
+    const gasPrice = ethers.parseUnits('20', 'gwei') + options.priorityFee;
+    assert.equal(
+      ethers.parseEther(arbitrage.grossProfit) - ethers.parseEther(arbitrage.netProfit),
+      gasPrice * SWAP_GAS_LIMIT * 2n
+    );
+  });
+
+  test('compares each finding against the searcher that actually won', async () => {
+    const report = await runBacktest(fixtures, options);
+    const [sandwich, arbitrage, late] = report.findings;
+
+    // 0.385 ETH does not beat the recorded 0.5 ETH, 1.80 ETH does
+    assert.equal(sandwich.competitorProfit, '0.5');
+    assert.equal(sandwich.competitive, false);
+    assert.equal(arbitrage.competitive, true);
+    // Nobody is recorded as having captured it
+    assert.equal(late.competitorProfit, undefined);
+    assert.equal(late.competitive, true);
+
+    assert.deepEqual(report.totals, {
+      opportunities: 3,
+      competitive: 2,
+      simulatedProfit: '2.218563108704662544',
+      competitiveProfit: '1.833215945013858117'
+    });
+  });
+
+  test('counts opportunities under the profit threshold instead of reporting them', async () => {
+    const report = await runBacktest(fixtures, { ...options, minProfit: ethers.parseEther('0.1') });
+
+    assert.deepEqual(report.findings.map(finding => finding.type), ['sandwich', 'arbitrage']);
+    assert.equal(report.belowThreshold, 2);
+  });
+
+  test('limits the replay to the requested block range', async () => {
+    const report = await runBacktest(fixtures, { ...options, fromBlock: 19000001 });
+
+    assert.equal(report.fromBlock, 19000001);
+    assert.equal(report.blocks, 1);
+    assert.deepEqual(report.findings.map(finding => finding.txHash), [LATE_SWAP]);
+  });
+});
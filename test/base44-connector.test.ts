@@ -0,0 +1,73 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config } from '../config';
+import { Base44Connector } from '../base44-connector';
+import { ProviderPool } from '../provider-pool';
+import { RiskManager, RiskViolation } from '../risk-manager';
+
+describe('Base44Connector trade risk checks', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'base44-'));
+  // Offline mode quotes from the configured reference prices and never touches the network
+  const connector = new Base44Connector({
+    ...config.base44,
+    mode: 'offline',
+    offlinePrices: { WETH: 3000 },
+    paper: { ...config.base44.paper, statePath: path.join(directory, 'portfolio.json') }
+  });
+  const cap = config.risk.maxTradeNotionalUsd;
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('caps a market order at the notional of its quote', async () => {
+    const amount = String(Math.ceil(cap / 3000) + 1);
+    await assert.rejects(
+      connector.executeTrade({ token: 'WETH', side: 'buy', amount }),
+      error => error instanceof RiskViolation && /exceeds/.test(error.message)
+    );
+    assert.deepEqual((await connector.getPortfolio()).positions, []);
+  });
+
+  test('caps a limit order at its limit price', async () => {
+    await assert.rejects(
+      connector.executeTrade({ token: 'WETH', side: 'buy', amount: '1', price: String(cap * 2) }),
+      RiskViolation
+    );
+  });
+
+  test('fills a market order under the cap', async () => {
+    const result = await connector.executeTrade({ token: 'WETH', side: 'buy', amount: '1' });
+    assert.equal(result.status, 'filled');
+  });
+});
+
+describe('Base44Connector trade PnL', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'base44-pnl-'));
+  // ETH/USD is only read to convert PnL; a stub answering $2000 stands in for the feed
+  const risk = new RiskManager({} as ProviderPool, { ...config.risk, killSwitchPath: path.join(directory, 'kill-switch.json') });
+  Object.assign(risk, { ethPrice: { usd: 2000, at: Date.now() } });
+  const connector = new Base44Connector({
+    ...config.base44,
+    mode: 'offline',
+    offlinePrices: { WETH: 3000 },
+    paper: { ...config.base44.paper, slippageBps: 10, feeBps: 10, statePath: path.join(directory, 'portfolio.json') }
+  }, risk);
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('records the realized PnL of filled sells with the risk manager', async () => {
+    await connector.executeTrade({ token: 'WETH', side: 'buy', amount: '1' });
+    assert.equal(risk.getStatus().realizedPnlTodayEth, '0.0');
+
+    // Bought for 3003 plus a 3.003 fee, sold for 2997 less a 2.997 fee
+    const sold = await connector.executeTrade({ token: 'WETH', side: 'sell', amount: '1' });
+    assert.ok(Math.abs(Number(sold.realizedPnlUsd) + 12) < 1e-9);
+    assert.equal(risk.getStatus().realizedPnlTodayEth, '-0.006');
+  });
+});
@@ -0,0 +1,295 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { ProviderPool } from '../provider-pool';
+import {
+  BundleSimulationResponse,
+  BundleSimulationResult,
+  LocalForkSimulator,
+  RpcBundleSimulator,
+  isSimulationError
+} from '../bundle-simulator';
+
+const gwei = (amount: string) => ethers.parseUnits(amount, 'gwei');
+const searcher = ethers.Wallet.createRandom();
+const victim = ethers.Wallet.createRandom();
+const CONTRACT = '0x00000000000000000000000000000000000c0de1';
+const TARGET = '0x00000000000000000000000000000000000c0de2';
+const COINBASE = '0x95222290DD7278Aa3Ddd389Cc1E1d165CC4BAfe5';
+const BASE_FEE = gwei('20');
+const COINBASE_PAYMENT = ethers.parseEther('0.05');
+
+// Searcher call that pays the builder directly, then a transaction that reverts
+async function signBundle(maxFeePerGas: bigint = gwei('30')): Promise<string[]> {
+  const fees = { chainId: 1, type: 2, maxFeePerGas, maxPriorityFeePerGas: gwei('2'), gasLimit: 300000 };
+  return [
+    await searcher.signTransaction({ ...fees, to: CONTRACT, nonce: 7, data: '0x12345678' }),
+    await victim.signTransaction({ ...fees, to: TARGET, nonce: 3, data: '0x38ed1739' })
+  ];
+}
+
+function assertResult(response: BundleSimulationResponse): asserts response is BundleSimulationResult {
+  assert.ok(!isSimulationError(response), isSimulationError(response) ? response.error.message : '');
+}
+
+// ---------------- Local fork ----------------
+// Plays an anvil fork at block 100 that mines the bundle into block 101: the first
+// transaction succeeds, the second reverts with "Too little received". With `reorder`
+// set it mines them in reverse, as a fork ordering by fee would.
+class ScriptedFork {
+  readonly methods: string[] = [];
+  failSend: string | null = null;
+  reorder = false;
+  private sent: ethers.Transaction[] = [];
+  private readonly gasUsed = [150000n, 40000n];
+  private readonly balances: Record<string, [bigint, bigint]>;
+  private server: http.Server | null = null;
+
+  constructor() {
+    const gasCost = (i: number) => this.gasUsed[i] * (BASE_FEE + gwei('2'));
+    const tips = (this.gasUsed[0] + this.gasUsed[1]) * gwei('2');
+    this.balances = {
+      [searcher.address.toLowerCase()]: [ethers.parseEther('1'), ethers.parseEther('1') - gasCost(0)],
+      [victim.address.toLowerCase()]: [ethers.parseEther('3'), ethers.parseEther('3') - gasCost(1)],
+      [CONTRACT]: [ethers.parseEther('10'), ethers.parseEther('10.2') - COINBASE_PAYMENT],
+      [COINBASE.toLowerCase()]: [ethers.parseEther('5'), ethers.parseEther('5') + COINBASE_PAYMENT + tips]
+    };
+  }
+
+  async start(): Promise<string> {
+    this.server = http.createServer((req, res) => {
+      let body = '';
+      req.on('data', chunk => { body += chunk; });
+      req.on('end', () => {
+        const payload = JSON.parse(body);
+        const reply = Array.isArray(payload) ? payload.map(call => this.handle(call)) : this.handle(payload);
+        res.setHeader('Content-Type', 'application/json');
+        res.end(JSON.stringify(reply));
+      });
+    });
+    this.server.listen(0, '127.0.0.1');
+    await once(this.server, 'listening');
+    return `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  stop(): Promise<void> {
+    return new Promise(resolve => this.server ? this.server.close(() => resolve()) : resolve());
+  }
+
+  private handle({ id, method, params }: { id: number; method: string; params: unknown[] }): object {
+    this.methods.push(method);
+    try {
+      return { jsonrpc: '2.0', id, result: this.result(method, params) };
+    } catch (error) {
+      return { jsonrpc: '2.0', id, error };
+    }
+  }
+
+  private result(method: string, params: unknown[]): unknown {
+    switch (method) {
+      case 'eth_chainId':
+        return '0x1';
+      case 'eth_blockNumber':
+        return ethers.toQuantity(100);
+      case 'evm_snapshot':
+        this.sent = [];
+        return '0x1';
+      case 'evm_setAutomine':
+      case 'evm_revert':
+        return true;
+      case 'evm_mine':
+        return '0x0';
+      case 'eth_sendRawTransaction': {
+        if (this.failSend) throw { code: -32003, message: this.failSend };
+        const tx = ethers.Transaction.from(params[0] as string);
+        this.sent.push(tx);
+        return tx.hash;
+      }
+      case 'eth_getBalance': {
+        const [address, blockTag] = params as [string, string];
+        const [before, after] = this.balances[address.toLowerCase()] ?? [0n, 0n];
+        return ethers.toQuantity(Number(blockTag) > 100 ? after : before);
+      }
+      case 'eth_getBlockByNumber':
+        return this.block();
+      case 'eth_getTransactionReceipt':
+        return this.receipt(params[0] as string);
+      case 'eth_call':
+        throw { code: 3, message: 'execution reverted: Too little received', data: ethers.concat(['0x08c379a0', ethers.AbiCoder.defaultAbiCoder().encode(['string'], ['Too little received'])]) };
+      default:
+        throw { code: -32601, message: `Method ${method} not found` };
+    }
+  }
+
+  private block(): object {
+    return {
+      number: ethers.toQuantity(101),
+      hash: ethers.id('block 101'),
+      parentHash: ethers.id('block 100'),
+      timestamp: ethers.toQuantity(1705000000),
+      nonce: '0x0000000000000000',
+      difficulty: '0x0',
+      gasLimit: ethers.toQuantity(30000000),
+      gasUsed: ethers.toQuantity(this.gasUsed[0] + this.gasUsed[1]),
+      miner: COINBASE,
+      extraData: '0x',
+      baseFeePerGas: ethers.toQuantity(BASE_FEE),
+      transactions: this.sent.map(tx => tx.hash)
+    };
+  }
+
+  private receipt(hash: string): object | null {
+    const index = this.sent.findIndex(tx => tx.hash === hash);
+    if (index < 0) return null;
+    const tx = this.sent[index];
+    return {
+      transactionHash: hash,
+      transactionIndex: ethers.toQuantity(this.reorder ? this.sent.length - 1 - index : index),
+      blockHash: ethers.id('block 101'),
+      blockNumber: ethers.toQuantity(101),
+      from: tx.from,
+      to: tx.to,
+      contractAddress: null,
+      gasUsed: ethers.toQuantity(this.gasUsed[index]),
+      cumulativeGasUsed: ethers.toQuantity(this.gasUsed.slice(0, index + 1).reduce((a, b) => a + b)),
+      effectiveGasPrice: ethers.toQuantity(BASE_FEE + gwei('2')),
+      logs: [],
+      logsBloom: '0x' + '00'.repeat(256),
+      type: '0x2',
+      status: index === 0 ? '0x1' : '0x0'
+    };
+  }
+}
+
+describe('LocalForkSimulator', () => {
+  const fork = new ScriptedFork();
+  let simulator: LocalForkSimulator;
+
+  before(async () => {
+    simulator = new LocalForkSimulator(await fork.start());
+  });
+
+  after(() => fork.stop());
+
+  test('extracts the builder payment and balance changes, and reports the revert with its reason', async () => {
+    const bundle = await signBundle();
+    const response = await simulator.simulate(bundle, 101);
+    assertResult(response);
+
+    const tips = 190000n * gwei('2');
+    assert.equal(response.mode, 'local');
+    assert.equal(response.stateBlockNumber, 100);
+    assert.equal(response.totalGasUsed, 190000);
+    assert.equal(response.gasFees, 190000n * gwei('22'));
+    assert.equal(response.coinbaseDiff, COINBASE_PAYMENT + tips);
+    // The direct payment is what the coinbase gained beyond the priority fees
+    assert.equal(response.ethSentToCoinbase, COINBASE_PAYMENT);
+    assert.equal(response.bundleGasPrice, (190000n * gwei('22') + COINBASE_PAYMENT) / 190000n);
+
+    const [paid, reverted] = response.results;
+    assert.equal(paid.coinbaseDiff, (150000n * gwei('2')).toString());
+    assert.ok(!('revert' in paid));
+    assert.ok('revert' in reverted && reverted.revert === 'Too little received');
+    assert.equal(response.firstRevert, reverted);
+
+    const deltas = Object.fromEntries(response.stateDiffs.map(diff => [diff.address, diff.delta]));
+    assert.deepEqual(deltas, {
+      [searcher.address]: -(150000n * gwei('22')),
+      [ethers.getAddress(CONTRACT)]: ethers.parseEther('0.2') - COINBASE_PAYMENT,
+      [victim.address]: -(40000n * gwei('22')),
+      [ethers.getAddress(TARGET)]: 0n,
+      [COINBASE]: COINBASE_PAYMENT + tips
+    });
+  });
+
+  test('returns the node error and still restores the fork', async () => {
+    fork.methods.length = 0;
+    fork.failSend = 'nonce too low';
+    try {
+      const response = await simulator.simulate(await signBundle(), 101);
+      assert.ok(isSimulationError(response));
+      assert.match(response.error.message, /nonce too low/);
+    } finally {
+      fork.failSend = null;
+    }
+    assert.deepEqual(fork.methods.slice(-2), ['evm_revert', 'evm_setAutomine']);
+    assert.ok(!fork.methods.includes('evm_mine'));
+  });
+
+  test('refuses a result the fork mined out of bundle order', async () => {
+    fork.methods.length = 0;
+    fork.reorder = true;
+    try {
+      const bundle = await signBundle();
+      const response = await simulator.simulate(bundle, 101);
+      assert.ok(isSimulationError(response));
+      // The second transaction is the one found ahead of its predecessor
+      const second = ethers.Transaction.from(bundle[1]).hash;
+      assert.equal(response.error.message, `Fork mined transaction ${second} out of bundle order (index 0)`);
+    } finally {
+      fork.reorder = false;
+    }
+    assert.deepEqual(fork.methods.slice(-2), ['evm_revert', 'evm_setAutomine']);
+  });
+});
+
+// ---------------- Chain RPC ----------------
+describe('RpcBundleSimulator', () => {
+  function simulator(reply: (params: unknown[]) => unknown): RpcBundleSimulator {
+    const providers = {
+      chain: 'base',
+      getBlockNumber: async () => 100,
+      send: async (method: string, params: unknown[]) => {
+        assert.equal(method, 'eth_simulateV1');
+        return reply(params);
+      }
+    } as unknown as ProviderPool;
+    return new RpcBundleSimulator(providers);
+  }
+
+  test('prices each call at the tip it can pay and reports the revert', async () => {
+    // The second transaction's fee cap leaves only 1 gwei above the base fee
+    const [first] = await signBundle();
+    const [, capped] = await signBundle(gwei('21'));
+    let request: unknown[] = [];
+    const response = await simulator(params => {
+      request = params;
+      return [{
+        baseFeePerGas: ethers.toQuantity(BASE_FEE),
+        calls: [
+          { status: '0x1', gasUsed: ethers.toQuantity(150000) },
+          { status: '0x0', gasUsed: ethers.toQuantity(40000), error: { message: 'execution reverted: Too little received' } }
+        ]
+      }];
+    }).simulate([first, capped], 101);
+    assertResult(response);
+
+    assert.equal(response.coinbaseDiff, 150000n * gwei('2') + 40000n * gwei('1'));
+    assert.equal(response.gasFees, 150000n * gwei('22') + 40000n * gwei('21'));
+    assert.equal(response.ethSentToCoinbase, 0n);
+    assert.equal(response.results[1].gasPrice, gwei('21').toString());
+    assert.ok(response.firstRevert && 'revert' in response.firstRevert);
+    assert.equal(response.firstRevert.revert, 'execution reverted: Too little received');
+
+    // Simulated on top of the parent block, with the node checking nonces and fees
+    const [{ blockStateCalls, validation }, blockTag] = request as [{ blockStateCalls: { calls: { nonce: string }[] }[]; validation: boolean }, string];
+    assert.equal(validation, true);
+    assert.equal(blockTag, ethers.toQuantity(100));
+    assert.deepEqual(blockStateCalls[0].calls.map(call => call.nonce), ['0x7', '0x3']);
+  });
+
+  test('turns validation failures and malformed results into simulation errors', async () => {
+    const bundle = await signBundle();
+    const refused = await simulator(() => {
+      throw { error: { code: -38011, message: 'nonce too low: address has nonce 8' } };
+    }).simulate(bundle, 101);
+    assert.deepEqual(refused, { error: { code: -38011, message: 'nonce too low: address has nonce 8' } });
+
+    const short = await simulator(() => [{ calls: [{ status: '0x1', gasUsed: '0x1' }] }]).simulate(bundle, 101);
+    assert.ok(isSimulationError(short));
+    assert.match(short.error.message, /1 malformed call results for 2 transactions/);
+  });
+});
@@ -0,0 +1,163 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { ethers } from 'ethers';
+import { getChain } from '../chains';
+import { ProviderPool } from '../provider-pool';
+import { WalletManager } from '../wallet';
+import { BundleSimulator } from '../bundle-simulator';
+import { BundleSubmission, BundleSubmissionManager, BundleTransport, TokenValuer } from '../bundle-submission';
+
+const chain = getChain('ethereum');
+const searcher = ethers.Wallet.createRandom();
+const victim = ethers.Wallet.createRandom();
+
+function sign(wallet: ethers.HDNodeWallet, nonce: number): Promise<string> {
+  return wallet.signTransaction({
+    to: ethers.ZeroAddress, nonce, chainId: chain.chainId, gasLimit: 100000, maxFeePerGas: 10n ** 9n, maxPriorityFeePerGas: 1n, type: 2
+  });
+}
+
+// A chain that mines the target block as soon as the bundle is sent; `onSend` decides
+// which of the bundle's transactions made it in. The searcher's balances ('native' or a
+// token address) come from `balances`.
+class FakeChain {
+  head = 99;
+  balances: (asset: string, blockNumber: number) => bigint = () => 0n;
+  receipts = new Map<string, { blockNumber: number; from: string; gasUsed: bigint; gasPrice: bigint }>();
+  rolledBack: number[][] = [];
+  sends = 0;
+
+  constructor(private onSend: (transactions: ethers.Transaction[], blockNumber: number) => void) {}
+
+  mine(tx: ethers.Transaction, blockNumber: number): void {
+    this.receipts.set(tx.hash!, { blockNumber, from: tx.from!, gasUsed: 100000n, gasPrice: 10n ** 9n });
+  }
+
+  manager(valueOf: TokenValuer | null = null): BundleSubmissionManager {
+    const provider = {
+      getTransactionReceipt: async (hash: string) => this.receipts.get(hash) ?? null,
+      getTransactionCount: async () => 0,
+      getBlock: async (number: number) => ({ number, extraData: '0x', miner: ethers.ZeroAddress }),
+      getBalance: async (address: string, blockTag: number) => this.balances('native', blockTag),
+      call: async ({ to, blockTag }: { to: string; blockTag: number }) =>
+        ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [this.balances(to.toLowerCase(), blockTag)])
+    };
+    const providers = {
+      getBlockNumber: async () => this.head,
+      execute: (operation: (provider: unknown) => Promise<unknown>) => operation(provider),
+      getProvider: () => provider
+    } as unknown as ProviderPool;
+    const transport: BundleTransport = {
+      sendBundle: async (signedTransactions, blockNumber) => {
+        this.sends++;
+        this.onSend(signedTransactions.map(raw => ethers.Transaction.from(raw)), blockNumber);
+        this.head = blockNumber;
+        return [{ relay: 'fake', accepted: true, latencyMs: 1 }];
+      },
+      builderOf: () => 'fake',
+      recordInclusion: () => 'fake',
+      getStats: () => []
+    };
+    const simulator = {
+      mode: 'rpc',
+      simulate: async () => ({
+        mode: 'rpc', bundleHash: '0x', bundleGasPrice: 0n, coinbaseDiff: 0n, ethSentToCoinbase: 0n, gasFees: 0n,
+        results: [], totalGasUsed: 300000, stateBlockNumber: this.head, firstRevert: undefined, stateDiffs: []
+      })
+    } as unknown as BundleSimulator;
+    const wallet = {
+      address: searcher.address,
+      ownNonces: (transactions: string[]) => transactions
+        .map(raw => ethers.Transaction.from(raw))
+        .filter(tx => tx.from === searcher.address)
+        .map(tx => tx.nonce),
+      nonces: {
+        retarget: async () => undefined,
+        holds: () => true,
+        rollbackNonces: async (nonces: number[]) => {
+          this.rolledBack.push(nonces);
+        }
+      }
+    } as unknown as WalletManager;
+
+    return new BundleSubmissionManager(chain, providers, transport, simulator, wallet, 3, null, valueOf);
+  }
+}
+
+async function settle(
+  manager: BundleSubmissionManager,
+  transactions: string[],
+  opportunity?: { id: string; type: string; profitTokens?: string[] }
+): Promise<BundleSubmission> {
+  const settled = once(manager, 'settled');
+  await manager.submit(transactions, 100, opportunity);
+  const [submission] = await settled;
+  return submission;
+}
+
+describe('BundleSubmissionManager', () => {
+  test('settles as included once every transaction has a receipt', async () => {
+    const fake = new FakeChain((transactions, blockNumber) => transactions.forEach(tx => fake.mine(tx, blockNumber)));
+    const submission = await settle(fake.manager(), [await sign(searcher, 0), await sign(victim, 0), await sign(searcher, 1)]);
+
+    assert.equal(submission.status, 'included');
+    assert.equal(submission.includedBlock, 100);
+    assert.deepEqual(fake.rolledBack, []);
+  });
+
+  test('gives up and hands the nonces back once the victim is mined without us', async () => {
+    const fake = new FakeChain((transactions, blockNumber) => {
+      const theirs = transactions.find(tx => tx.from !== searcher.address)!;
+      fake.mine(theirs, blockNumber);
+    });
+    const submission = await settle(fake.manager(), [await sign(searcher, 0), await sign(victim, 0), await sign(searcher, 1)]);
+
+    assert.equal(submission.status, 'nonce-invalidated');
+    assert.equal(fake.sends, 1);
+    assert.deepEqual(fake.rolledBack, [[0, 1]]);
+  });
+
+  test('keeps targeting later blocks while nothing was mined', async () => {
+    const fake = new FakeChain(() => undefined);
+    const submission = await settle(fake.manager(), [await sign(searcher, 0), await sign(victim, 0), await sign(searcher, 1)]);
+
+    assert.equal(submission.status, 'not-included');
+    assert.equal(fake.sends, 3);
+    assert.deepEqual(fake.rolledBack, [[0, 1]]);
+  });
+
+  test('values a liquidation paid out in the debt asset at its price', async () => {
+    const usdc = chain.usdStable.toLowerCase();
+    const gas = ethers.parseEther('0.0001');
+    const fake = new FakeChain((transactions, blockNumber) => transactions.forEach(tx => fake.mine(tx, blockNumber)));
+    // The flash executor sends 500 USDC of profit to the owner; the wallet only paid gas
+    fake.balances = (asset, blockNumber) => {
+      if (asset === 'native') return ethers.parseEther('1') - (blockNumber >= 100 ? gas : 0n);
+      if (asset === usdc) return blockNumber >= 100 ? 500_000000n : 0n;
+      return 0n;
+    };
+    const valueOf: TokenValuer = async (token, amount) =>
+      token.toLowerCase() === usdc ? amount * 10n ** 12n / 2000n : null; // 2000 USDC per native coin
+
+    const liquidation = { id: 'liquidation-1', type: 'liquidation', profitTokens: [chain.usdStable] };
+    const submission = await settle(fake.manager(valueOf), [await sign(searcher, 0)], liquidation);
+
+    assert.equal(submission.status, 'included');
+    assert.equal(submission.realizedProfit, ethers.formatEther(ethers.parseEther('0.25') - gas));
+    assert.ok(ethers.parseEther(submission.realizedProfit!) > 0n);
+  });
+
+  test('leaves the realized profit unset when a profit token cannot be priced', async () => {
+    const usdc = chain.usdStable.toLowerCase();
+    const fake = new FakeChain((transactions, blockNumber) => transactions.forEach(tx => fake.mine(tx, blockNumber)));
+    fake.balances = (asset, blockNumber) => asset === usdc && blockNumber >= 100 ? 500_000000n : 0n;
+
+    const liquidation = { id: 'liquidation-2', type: 'liquidation', profitTokens: [chain.usdStable] };
+    const submission = await settle(fake.manager(async () => null), [await sign(searcher, 0)], liquidation);
+
+    assert.equal(submission.status, 'included');
+    assert.equal(submission.realizedProfit, undefined);
+    assert.ok(submission.gasCost);
+  });
+});
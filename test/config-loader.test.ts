@@ -0,0 +1,136 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { config, configRules } from '../config';
+import { ConfigError, ConfigRules, EnvReader, loadConfig, redactConfig } from '../config-loader';
+
+const defaults = {
+  server: { port: 3000, host: 'localhost' },
+  wallet: { address: '', privateKey: '' },
+  rpcUrl: 'http://localhost:8545',
+  tokens: ['WETH'],
+  paused: false
+};
+type Settings = typeof defaults;
+
+const rules: ConfigRules = {
+  schemas: { 'server.port': { type: 'integer', minimum: 1, maximum: 65535 } },
+  addresses: ['wallet.address'],
+  urls: ['rpcUrl'],
+  privateKeys: ['wallet.privateKey']
+};
+
+const fromEnv = (env: EnvReader) => ({
+  server: { port: env.number('PORT'), host: env.string('HOST') },
+  paused: env.flag('PAUSED')
+});
+
+describe('loadConfig', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'config-'));
+  fs.writeFileSync(path.join(directory, 'default.yaml'), 'server:\n  port: 4000\n  host: default-host\ntokens: [WETH, USDC]\n');
+  fs.writeFileSync(path.join(directory, 'staging.json'), JSON.stringify({ server: { host: 'staging-host' }, profiles: { staging: { paused: true } } }));
+
+  function load(env: NodeJS.ProcessEnv, argv: string[] = []) {
+    return loadConfig({ defaults, fromEnv, rules, env: { CONFIG_DIR: directory, ...env }, argv });
+  }
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('layers defaults, files, profile section, environment and CLI in that order', () => {
+    const loaded = load({ NODE_ENV: 'staging', PORT: '5000' }, ['--set', 'server.host=cli-host', '--set=tokens=DAI,USDT']);
+
+    assert.equal(loaded.profile, 'staging');
+    assert.deepEqual(loaded.sources, [
+      'defaults', `file:${path.join(directory, 'default.yaml')}`, `file:${path.join(directory, 'staging.json')}`, 'env', 'cli'
+    ]);
+    assert.deepEqual(loaded.config, {
+      server: { port: 5000, host: 'cli-host' },
+      wallet: { address: '', privateKey: '' },
+      rpcUrl: 'http://localhost:8545',
+      tokens: ['DAI', 'USDT'],
+      paused: true
+    });
+  });
+
+  test('--profile wins over CONFIG_PROFILE and NODE_ENV, and empty variables count as unset', () => {
+    const loaded = load({ NODE_ENV: 'production', CONFIG_PROFILE: 'production', PORT: '' }, ['--profile', 'staging']);
+    assert.equal(loaded.profile, 'staging');
+    assert.equal(loaded.config.server.port, 4000);
+    assert.equal(loaded.config.server.host, 'staging-host');
+  });
+
+  test('collects every problem into one ConfigError', () => {
+    const configFile = path.join(directory, 'bad.yaml');
+    fs.writeFileSync(configFile, [
+      'wallet:',
+      '  address: 0x1234',
+      '  privateKey: your_private_key_here',
+      'rpcUrl: ftp://rpc.example.com/secret-key',
+      'server:',
+      '  port: 70000',
+      '  colour: blue'
+    ].join('\n'));
+
+    assert.throws(() => load({ CONFIG_FILE: configFile, PAUSED: 'maybe' }, ['--set', 'missing.key=1']), (error: unknown) => {
+      assert.ok(error instanceof ConfigError);
+      assert.deepEqual([...error.issues].sort(), [
+        "--set missing.key: unknown setting",
+        "PAUSED: expected true or false, got 'maybe'",
+        "rpcUrl: 'ftp://rpc.example.com/…' is not an http(s) or ws(s) URL",
+        'server.colour: unknown setting',
+        'server.port: must be <= 65535',
+        "wallet.address: '0x1234' is not an Ethereum address",
+        'wallet.privateKey: not a 32-byte hex private key',
+        "wallet.privateKey: 'your_private_key_here' is a placeholder; set a real value or leave it empty"
+      ].sort());
+      return true;
+    });
+  });
+
+  test('rejects placeholder values wherever they appear', () => {
+    for (const placeholder of ['<your-host>', 'changeme', 'TODO', 'xxxx', 'api_key_here']) {
+      assert.throws(() => load({ HOST: placeholder }), (error: unknown) =>
+        error instanceof ConfigError && error.issues.some(issue => issue.startsWith('server.host:') && /placeholder/.test(issue)), placeholder);
+    }
+  });
+
+  test('reports a missing explicit config file and a malformed one', () => {
+    const broken = path.join(directory, 'broken.yaml');
+    fs.writeFileSync(broken, 'server:\n  port: &anchor 1\n');
+
+    assert.throws(() => load({ CONFIG_FILE: path.join(directory, 'absent.yaml') }), /absent\.yaml does not exist/);
+    assert.throws(() => load({}, ['--config', broken]), /broken\.yaml: YAML line 2: unsupported YAML feature '&'/);
+  });
+});
+
+describe('redactConfig', () => {
+  test('masks secrets and cuts URLs to their origin', () => {
+    const settings: Settings = {
+      ...defaults,
+      wallet: { address: '', privateKey: '0x' + '11'.repeat(32) },
+      rpcUrl: 'https://eth-mainnet.example.com/v2/secret-api-key'
+    };
+
+    const redacted = redactConfig(settings, rules);
+    assert.equal(redacted.wallet.privateKey, '[redacted]');
+    assert.equal(redacted.rpcUrl, 'https://eth-mainnet.example.com/…');
+    assert.equal(redacted.server.host, 'localhost');
+    assert.equal(settings.rpcUrl, 'https://eth-mainnet.example.com/v2/secret-api-key');
+  });
+
+  test('the engine config keeps no key, token or keyed URL when served', () => {
+    const settings = structuredClone(config);
+    settings.signer.privateKey = '0x' + '22'.repeat(32);
+    settings.chains.ethereum.rpcUrls = ['https://eth-mainnet.example.com/v2/secret-api-key'];
+    settings.flashbots.relays = [{ name: 'titan', url: 'https://rpc.titanbuilder.xyz/?key=secret-api-key', auth: 'bearer', apiKey: 'secret-api-key' }];
+
+    const served = JSON.stringify(redactConfig(settings, configRules));
+    assert.ok(!served.includes('secret-api-key'));
+    assert.ok(!served.includes('22'.repeat(32)));
+    assert.match(served, /"privateKey":"\[redacted\]"/);
+  });
+});
@@ -0,0 +1,185 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { EventEmitter, once } from 'events';
+import { AddressInfo } from 'net';
+import WebSocket, { Server as WebSocketServer } from 'ws';
+import { config } from '../config';
+import { Principal, signJwt, verifyJwt } from '../auth';
+import { EventFeed } from '../event-feed';
+import { Ledger } from '../ledger';
+
+const secret = 'feed-secret';
+const reader: Principal = { id: 'key-1', name: 'dashboard', roles: ['read'], via: 'jwt' };
+
+interface FeedMessage {
+  op: string;
+  [key: string]: unknown;
+}
+
+// Queues what the server sends so a test can await each message in turn
+class FeedSocket {
+  private received: FeedMessage[] = [];
+  private waiting: ((message: FeedMessage) => void)[] = [];
+
+  constructor(readonly socket: WebSocket) {
+    socket.on('message', raw => {
+      const message = JSON.parse(raw.toString()) as FeedMessage;
+      const waiter = this.waiting.shift();
+      if (waiter) waiter(message);
+      else this.received.push(message);
+    });
+  }
+
+  send(message: unknown): void {
+    this.socket.send(typeof message === 'string' ? message : JSON.stringify(message));
+  }
+
+  next(): Promise<FeedMessage> {
+    const message = this.received.shift();
+    return message ? Promise.resolve(message) : new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  // Everything sent before the server answers a ping; messages on one socket keep their order
+  async drain(): Promise<FeedMessage[]> {
+    this.send({ op: 'ping' });
+    const messages: FeedMessage[] = [];
+    for (let message = await this.next(); message.op !== 'pong'; message = await this.next()) {
+      messages.push(message);
+    }
+    return messages;
+  }
+
+  close(): void {
+    this.socket.close();
+  }
+}
+
+describe('EventFeed', () => {
+  const feed = new EventFeed({ ...config.feed, replaySize: 3 }, credential => verifyJwt(credential, secret));
+  const sockets: FeedSocket[] = [];
+  let server: WebSocketServer;
+  let url: string;
+
+  async function connect(token: string | null = signJwt(reader, secret, 60)): Promise<FeedSocket> {
+    const socket = new WebSocket(url, { headers: token ? { Authorization: `Bearer ${token}` } : {} });
+    await once(socket, 'open');
+    const client = new FeedSocket(socket);
+    sockets.push(client);
+    return client;
+  }
+
+  async function subscribe(client: FeedSocket, message: object): Promise<FeedMessage> {
+    client.send({ op: 'subscribe', ...message });
+    return client.next();
+  }
+
+  before(async () => {
+    server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    await once(server, 'listening');
+    url = `ws://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    feed.attach(server);
+  });
+
+  after(async () => {
+    for (const client of sockets) client.close();
+    feed.close();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('refuses connections without credentials or the read role', { skip: !config.auth.enabled && 'auth is disabled' }, async () => {
+    const anonymous = await connect(null);
+    const [anonymousCode] = await once(anonymous.socket, 'close');
+    assert.equal(anonymousCode, 4401);
+
+    const [forgedCode] = await once((await connect(signJwt(reader, 'other-secret', 60))).socket, 'close');
+    assert.equal(forgedCode, 4401);
+
+    const [roleCode] = await once((await connect(signJwt({ ...reader, roles: ['treasury'] }, secret, 60))).socket, 'close');
+    assert.equal(roleCode, 4403);
+
+    // Browsers cannot set headers on a WebSocket and pass the token in the URL
+    const browser = new WebSocket(`${url}/?token=${signJwt(reader, secret, 60)}`);
+    await once(browser, 'open');
+    const client = new FeedSocket(browser);
+    sockets.push(client);
+    assert.deepEqual(await client.drain(), []);
+  });
+
+  test('delivers only the subscribed topics that pass the filters', async () => {
+    const client = await connect();
+    const subscribed = await subscribe(client, { topics: ['opportunities', 'risk'], filters: { minProfit: 0.05, chains: ['base'] } });
+    assert.deepEqual(subscribed, { op: 'subscribed', topics: ['opportunities', 'risk'], filters: { minProfit: 0.05, chains: ['base'] } });
+
+    feed.publish('opportunities', 'detected', { id: 'small' }, { chain: 'base', opportunityType: 'arbitrage', profit: '0.01' });
+    feed.publish('opportunities', 'detected', { id: 'elsewhere' }, { chain: 'ethereum', opportunityType: 'arbitrage', profit: '0.5' });
+    feed.publish('opportunities', 'detected', { id: 'match' }, { chain: 'base', opportunityType: 'arbitrage', profit: '0.5' });
+    feed.publish('bundles', 'submitted', { id: 'other-topic' }, { chain: 'base' });
+    // Engine-wide events carry no chain or profit and pass every filter
+    feed.publish('risk', 'tripped', { reason: 'daily loss' });
+
+    const events = await client.drain();
+    assert.deepEqual(events.map(event => [event.topic, event.data]), [
+      ['opportunities', { id: 'match' }],
+      ['risk', { reason: 'daily loss' }]
+    ]);
+    assert.equal(events[0].op, 'event');
+    assert.equal(typeof events[0].seq, 'number');
+
+    client.send({ op: 'unsubscribe', topics: ['opportunities'] });
+    assert.deepEqual((await client.next()).topics, ['risk']);
+    feed.publish('opportunities', 'detected', { id: 'after' }, { chain: 'base', profit: '1' });
+    assert.deepEqual(await client.drain(), []);
+  });
+
+  test('replays recent events on subscribe, oldest first and capped at the replay size', async () => {
+    for (const id of ['b1', 'b2', 'b3', 'b4']) {
+      feed.publish('blocks', 'new', { id }, { chain: 'ethereum' });
+    }
+    feed.publish('blocks', 'new', { id: 'b5' }, { chain: 'base' });
+
+    const client = await connect();
+    await subscribe(client, { topics: ['blocks'], filters: { chains: ['ethereum'] }, replay: 10 });
+    const replayed = await client.drain();
+    assert.deepEqual(replayed.map(event => event.data), [{ id: 'b3' }, { id: 'b4' }]);
+    assert.ok(replayed.every(event => event.replay === true));
+  });
+
+  test('answers malformed messages with an error and keeps the connection', async () => {
+    const client = await connect();
+    const errors: [unknown, RegExp][] = [
+      ['{"op": "subscribe"', /must be JSON$/],
+      ['["subscribe"]', /must be JSON objects/],
+      ['null', /must be JSON objects/],
+      [{ op: 'subscribe', topics: ['opportunities', 'gossip'] }, /Unknown topics: gossip/],
+      [{ op: 'shout' }, /Unknown op shout/]
+    ];
+
+    for (const [message, error] of errors) {
+      client.send(message);
+      const reply = await client.next();
+      assert.equal(reply.op, 'error');
+      assert.match(String(reply.error), error);
+    }
+    // A topics value that is not a list subscribes to nothing
+    assert.deepEqual((await subscribe(client, { topics: 'opportunities' })).topics, []);
+    assert.deepEqual(await client.drain(), []);
+  });
+
+  test('publishes ledger entries under their topic with chain, type and profit', async () => {
+    const ledger = new EventEmitter();
+    feed.followLedger(ledger as unknown as Ledger);
+    const client = await connect();
+    await subscribe(client, { topics: ['opportunities', 'bundles'] });
+
+    ledger.emit('recorded', { kind: 'opportunity', chain: 'base', type: 'arbitrage', data: { profitEth: '0.2' } });
+    ledger.emit('recorded', { kind: 'simulation', chain: 'base', type: 'arbitrage', data: {} });
+    ledger.emit('recorded', { kind: 'outcome', chain: 'base', type: 'arbitrage', data: { realizedProfitEth: '0.15' } });
+
+    const events = await client.drain();
+    assert.deepEqual(events.map(event => [event.topic, event.event, event.chain, event.opportunityType, event.profit]), [
+      ['opportunities', 'detected', 'base', 'arbitrage', '0.2'],
+      ['bundles', 'attempt', 'base', 'arbitrage', undefined],
+      ['bundles', 'settled', 'base', 'arbitrage', '0.15']
+    ]);
+  });
+});
@@ -0,0 +1,156 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import solc from 'solc';
+import { getChain } from '../chains';
+import { ProviderPool } from '../provider-pool';
+import { PoolStateCache } from '../pool-state';
+import {
+  FLASH_EXECUTOR_ABI,
+  FLASH_SOURCES,
+  FlashExecutorClient,
+  deployFlashExecutor,
+  describeRevert,
+  readBytecode,
+  wrapNativeStep
+} from '../flash-executor';
+
+// anvil or hardhat fork of Ethereum mainnet, e.g. `anvil --fork-url <mainnet RPC>`
+const FORK_URL = process.env.FORK_URL;
+const SOURCE = path.join(__dirname, '..', 'contracts', 'FlashExecutor.sol');
+
+// The parts of solc's standard JSON output read here
+interface SolcOutput {
+  errors?: { severity: string; formattedMessage: string }[];
+  contracts: Record<string, Record<string, { abi: ethers.InterfaceAbi; evm: { bytecode: { object: string } } }>>;
+}
+
+function compileExecutor(): { abi: ethers.InterfaceAbi; bytecode: string } {
+  const input = {
+    language: 'Solidity',
+    sources: { 'FlashExecutor.sol': { content: fs.readFileSync(SOURCE, 'utf8') } },
+    settings: {
+      optimizer: { enabled: true, runs: 200 },
+      outputSelection: { '*': { FlashExecutor: ['abi', 'evm.bytecode.object'] } }
+    }
+  };
+  const output: SolcOutput = JSON.parse(solc.compile(JSON.stringify(input)));
+  const errors = (output.errors || []).filter(error => error.severity === 'error');
+  assert.deepEqual(errors.map(error => error.formattedMessage), []);
+
+  const contract = output.contracts['FlashExecutor.sol'].FlashExecutor;
+  return { abi: contract.abi, bytecode: `0x${contract.evm.bytecode.object}` };
+}
+
+describe('FlashExecutor contract', () => {
+  const compiled = compileExecutor();
+
+  test('implements every function, event and error the client encodes', () => {
+    const contract = new ethers.Interface(compiled.abi);
+    const client = new ethers.Interface(FLASH_EXECUTOR_ABI);
+    const signatures = (iface: ethers.Interface) => {
+      const found: string[] = [];
+      iface.forEachFunction(fragment => found.push(fragment.format('sighash')));
+      iface.forEachEvent(fragment => found.push(fragment.format('sighash')));
+      iface.forEachError(fragment => found.push(fragment.format('sighash')));
+      return found;
+    };
+
+    const implemented = new Set(signatures(contract));
+    assert.deepEqual(signatures(client).filter(signature => !implemented.has(signature)), []);
+    // The lenders' callbacks
+    for (const callback of ['executeOperation', 'receiveFlashLoan', 'uniswapV3FlashCallback']) {
+      assert.ok(contract.getFunction(callback), `${callback} is missing`);
+    }
+  });
+
+  test('readBytecode accepts Foundry and Hardhat artifacts', () => {
+    const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'flash-executor-'));
+    try {
+      const foundry = path.join(directory, 'foundry.json');
+      const hardhat = path.join(directory, 'hardhat.json');
+      const empty = path.join(directory, 'empty.json');
+      fs.writeFileSync(foundry, JSON.stringify({ bytecode: { object: compiled.bytecode.slice(2) } }));
+      fs.writeFileSync(hardhat, JSON.stringify({ bytecode: compiled.bytecode }));
+      fs.writeFileSync(empty, JSON.stringify({ abi: compiled.abi }));
+
+      assert.equal(readBytecode(foundry), compiled.bytecode);
+      assert.equal(readBytecode(hardhat), compiled.bytecode);
+      assert.throws(() => readBytecode(empty), /has no creation bytecode/);
+    } finally {
+      fs.rmSync(directory, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('FlashExecutor on a mainnet fork', { skip: !FORK_URL && 'FORK_URL is not set', timeout: 180000 }, () => {
+  const chain = getChain('ethereum');
+  const token = chain.wrappedNative;
+  const amount = ethers.parseEther('10');
+  const balanceOf = new ethers.Interface(['function balanceOf(address account) view returns (uint256)']);
+  let fork: ethers.JsonRpcProvider;
+  let providers: ProviderPool;
+  let pools: PoolStateCache;
+  let owner: ethers.Signer;
+  let executor: string;
+
+  const holdings = async (account: string): Promise<bigint> => {
+    const data = await fork.call({ to: token, data: balanceOf.encodeFunctionData('balanceOf', [account]) });
+    return balanceOf.decodeFunctionResult('balanceOf', data)[0];
+  };
+
+  before(async () => {
+    fork = new ethers.JsonRpcProvider(FORK_URL, chain.chainId, { staticNetwork: true });
+    const address = ethers.Wallet.createRandom().address;
+    await fork.send('hardhat_setBalance', [address, ethers.toQuantity(ethers.parseEther('1000'))]);
+    await fork.send('hardhat_impersonateAccount', [address]);
+    owner = await fork.getSigner(address);
+    executor = await deployFlashExecutor(owner, compileExecutor().bytecode);
+
+    providers = new ProviderPool([FORK_URL!], { chain: chain.name, chainId: chain.chainId });
+    pools = new PoolStateCache(providers, chain);
+  });
+
+  after(async () => {
+    await fork.send('hardhat_stopImpersonatingAccount', [await owner.getAddress()]);
+    fork.destroy();
+  });
+
+  // The fee is sent along and wrapped, so the route repays the loan without trading
+  for (const source of FLASH_SOURCES) {
+    test(`borrows from ${source}, repays and keeps nothing`, async () => {
+      const client = new FlashExecutorClient(chain, providers, pools, executor, source);
+      const loan = await client.borrow(token, amount);
+      const call = client.encodeExecute(loan, [wrapNativeStep(chain, loan.fee)], token, 0n, loan.fee);
+
+      const receipt = await (await owner.sendTransaction(call)).wait();
+      assert.equal(receipt?.status, 1);
+      assert.equal(await holdings(executor), 0n);
+    });
+  }
+
+  test('reverts when the route falls short of minProfit', async () => {
+    const client = new FlashExecutorClient(chain, providers, pools, executor, 'balancer');
+    const loan = await client.borrow(token, amount);
+    const call = client.encodeExecute(loan, [wrapNativeStep(chain, loan.fee)], token, 1n, loan.fee);
+
+    await assert.rejects(owner.call(call), error => {
+      assert.equal(describeRevert(error), 'InsufficientProfit(0, 1)');
+      return true;
+    });
+  });
+
+  test('refuses executions from anyone but the owner', async () => {
+    const client = new FlashExecutorClient(chain, providers, pools, executor, 'balancer');
+    const loan = await client.borrow(token, amount);
+    const call = client.encodeExecute(loan, [wrapNativeStep(chain, loan.fee)], token, 0n, loan.fee);
+
+    await assert.rejects(fork.call({ ...call, value: 0n, from: ethers.Wallet.createRandom().address }), error => {
+      assert.equal(describeRevert(error), 'NotOwner()');
+      return true;
+    });
+  });
+});
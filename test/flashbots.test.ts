@@ -0,0 +1,97 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { getChain } from '../chains';
+import { ProviderPool } from '../provider-pool';
+import { V2PoolState } from '../pool-state';
+import { Ledger } from '../ledger';
+import { RiskManager } from '../risk-manager';
+import { AccountSigner } from '../signer';
+import { WalletManager } from '../wallet';
+import { GasBid } from '../gas-bidder';
+import { Detection } from '../opportunity-detector';
+import { FlashbotsMEVExecutor } from '../flashbots';
+
+const chain = getChain('ethereum');
+const WETH = chain.wrappedNative;
+const DAI = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+const V2_ROUTER = chain.routers.find(router => router.kind === 'v2' && router.venue === 'uniswap')!.address;
+const gwei = (amount: string) => ethers.parseUnits(amount, 'gwei');
+
+function pool(address: string, dex: 'uniswap-v2' | 'sushiswap'): V2PoolState {
+  return {
+    kind: 'v2', dex, address, blockNumber: 99, feeBps: 30,
+    token0: DAI, token1: WETH, reserve0: ethers.parseEther('2000000'), reserve1: ethers.parseEther('1000')
+  };
+}
+
+// A pending WETH -> DAI swap through the Uniswap V2 router
+async function pendingSwap(): Promise<ethers.TransactionResponse> {
+  const router = new ethers.Interface(['function swapExactETHForTokens(uint256 amountOutMin, address[] path, address to, uint256 deadline)']);
+  const trader = ethers.Wallet.createRandom();
+  const raw = await trader.signTransaction({
+    chainId: chain.chainId, type: 2, nonce: 0, gasLimit: 200000, maxFeePerGas: gwei('30'), maxPriorityFeePerGas: gwei('1'),
+    to: V2_ROUTER, value: ethers.parseEther('20'),
+    data: router.encodeFunctionData('swapExactETHForTokens', [0n, [WETH, DAI], trader.address, 2000000000])
+  });
+  return ethers.Transaction.from(raw) as unknown as ethers.TransactionResponse;
+}
+
+// An executor whose wallet nonces start at 5 and whose detector finds both a sandwich and
+// a backrun in every swap; the router already holds an unlimited allowance
+function executor(): { mev: FlashbotsMEVExecutor; wallet: WalletManager } {
+  const providers = {
+    chain: chain.name,
+    execute: (operation: (provider: unknown) => Promise<unknown>) => operation({
+      getTransactionCount: async () => 5,
+      call: async () => ethers.AbiCoder.defaultAbiCoder().encode(['uint256'], [ethers.MaxUint256])
+    }),
+    getBlockNumber: async () => 100
+  } as unknown as ProviderPool;
+  const signer = ethers.Wallet.createRandom() as unknown as AccountSigner;
+  const ledger = { record: () => undefined } as unknown as Ledger;
+  const mev = new FlashbotsMEVExecutor(chain, providers, { signer, authSigner: signer }, ledger, {} as RiskManager);
+
+  const detection: Detection = {
+    sandwich: {
+      pool: pool('0x00000000000000000000000000000000000000a1', 'uniswap-v2'), token: DAI,
+      amountIn: ethers.parseEther('2'), tokenAmount: ethers.parseEther('3900'),
+      grossProfit: ethers.parseEther('0.1'), netProfit: ethers.parseEther('0.09')
+    },
+    arbitrage: {
+      token: DAI, buyPool: pool('0x00000000000000000000000000000000000000a1', 'uniswap-v2'),
+      sellPool: pool('0x00000000000000000000000000000000000000a2', 'sushiswap'),
+      amountIn: ethers.parseEther('1'), tokenAmount: ethers.parseEther('1990'), amountOut: ethers.parseEther('1.1'),
+      grossProfit: ethers.parseEther('0.1')
+    }
+  };
+  const bid: GasBid = {
+    mode: 'priority-fee', share: 0.5, baseFeePerGas: gwei('10'), maxFeePerGas: gwei('40'), maxPriorityFeePerGas: gwei('2'),
+    coinbasePayment: 0n, gasLimit: 400000n, totalCost: ethers.parseEther('0.05'), maxCost: ethers.parseEther('0.06'),
+    netProfit: ethers.parseEther('0.05')
+  };
+  Object.assign(mev, {
+    detector: { detect: async () => detection },
+    bidder: { nextBaseFee: async () => gwei('10'), bid: async () => bid, coinbasePaymentCall: () => null },
+    tokens: { blockedTokens: () => [], refs: () => [] }
+  });
+  return { mev, wallet: (mev as unknown as { wallet: WalletManager }).wallet };
+}
+
+describe('FlashbotsMEVExecutor.analyzePendingTransaction', () => {
+  test('signs the backrun but leaves a scanned sandwich unsigned, so dropping it keeps the backrun nonces', async () => {
+    const { mev, wallet } = executor();
+    const opportunities = await mev.analyzePendingTransaction(await pendingSwap());
+    assert.deepEqual(opportunities.map(opportunity => opportunity.type), ['sandwich', 'arbitrage']);
+
+    const [sandwich, arbitrage] = opportunities;
+    assert.deepEqual(sandwich.transactions, []);
+    assert.equal(sandwich.profit, '0.05');
+    const nonces = wallet.ownNonces(arbitrage.transactions);
+    assert.deepEqual(nonces, [5, 6]);
+
+    // What index.ts does with opportunities it does not auto-execute
+    await mev.releaseNonces(sandwich.transactions);
+    assert.ok(wallet.nonces.holds(nonces));
+  });
+});
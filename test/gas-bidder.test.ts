@@ -0,0 +1,144 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { ProviderPool } from '../provider-pool';
+import { COINBASE_PAYMENT_GAS, GasBidder, GasSettings, predictBaseFee } from '../gas-bidder';
+
+const gwei = (amount: string) => ethers.parseUnits(amount, 'gwei');
+const GAS_LIMIT = 200000n;
+
+describe('predictBaseFee', () => {
+  const parent = (gasUsed: bigint, baseFeePerGas: bigint | null = gwei('10')) => ({ baseFeePerGas, gasUsed, gasLimit: 30_000000n });
+
+  test('holds at the target and moves by up to an eighth either side', () => {
+    assert.equal(predictBaseFee(parent(15_000000n)), gwei('10'));
+    assert.equal(predictBaseFee(parent(30_000000n)), gwei('11.25'));
+    assert.equal(predictBaseFee(parent(0n)), gwei('8.75'));
+    assert.equal(predictBaseFee(parent(22_500000n)), gwei('10.625'));
+  });
+
+  test('rises by at least one wei above the target', () => {
+    assert.equal(predictBaseFee(parent(15_000001n, 7n)), 8n);
+  });
+
+  test('is 0 before London', () => {
+    assert.equal(predictBaseFee(parent(30_000000n, null)), 0n);
+    assert.equal(predictBaseFee({ baseFeePerGas: null, gasUsed: 0n, gasLimit: 0n }), 0n);
+  });
+});
+
+describe('GasBidder', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'gas-bidder-'));
+  const providers = { chain: 'test' } as ProviderPool;
+  let runs = 0;
+
+  function bidder(settings: Partial<GasSettings> = {}): GasBidder {
+    return new GasBidder(providers, { ...config.gas, bidStatePath: path.join(directory, `${++runs}.json`), ...settings });
+  }
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('offers the profit share above the base fee as priority fee', () => {
+    const bid = bidder({ profitShare: 0.5 }).price(ethers.parseEther('1'), GAS_LIMIT, gwei('10'));
+    assert.ok(bid);
+
+    // 0.002 ETH of base fee leaves 0.998, half of which is tipped
+    assert.equal(bid.mode, 'priority-fee');
+    assert.equal(bid.maxPriorityFeePerGas, gwei('2495'));
+    assert.equal(bid.coinbasePayment, 0n);
+    assert.equal(bid.gasLimit, GAS_LIMIT);
+    assert.equal(bid.totalCost, ethers.parseEther('0.501'));
+    assert.equal(bid.netProfit, ethers.parseEther('0.499'));
+    assert.ok(bid.maxFeePerGas > gwei('10') + bid.maxPriorityFeePerGas);
+  });
+
+  test('moves the tip into a coinbase transfer, keeping the minimum priority fee', () => {
+    const payer = ethers.Wallet.createRandom().address;
+    const coinbase = bidder({ bidMode: 'coinbase', coinbasePayer: payer, profitShare: 0.5, minPriorityFeeGwei: 1 });
+    const bid = coinbase.price(ethers.parseEther('1'), GAS_LIMIT, gwei('10'));
+    assert.ok(bid);
+
+    // The payment call's gas is paid for too: 240000 gas at 10 gwei leaves 0.9976 ETH
+    const totalGas = GAS_LIMIT + COINBASE_PAYMENT_GAS;
+    const tip = ethers.parseEther('0.4988');
+    assert.equal(bid.gasLimit, totalGas);
+    assert.equal(bid.maxPriorityFeePerGas, gwei('1'));
+    assert.equal(bid.coinbasePayment, tip - totalGas * gwei('1'));
+    assert.equal(bid.totalCost, totalGas * gwei('10') + tip);
+
+    const payment = coinbase.coinbasePaymentCall(bid);
+    assert.equal(payment?.to, payer);
+    assert.equal(payment?.value, bid.coinbasePayment);
+    assert.equal(payment?.data, ethers.id('payCoinbase()').slice(0, 10));
+    assert.equal(payment?.gasLimit, COINBASE_PAYMENT_GAS);
+
+    const priorityFee = bidder();
+    assert.equal(priorityFee.coinbasePaymentCall(priorityFee.price(ethers.parseEther('1'), GAS_LIMIT, gwei('10'))!), null);
+  });
+
+  test('clips maxFeePerGas so the worst case never exceeds the gross profit', () => {
+    const grossProfit = ethers.parseEther('0.01');
+    const bid = bidder({ priceMultiplier: 10 }).price(grossProfit, GAS_LIMIT, gwei('20'));
+    assert.ok(bid);
+
+    assert.equal(bid.maxFeePerGas, grossProfit / GAS_LIMIT);
+    assert.equal(bid.maxCost, grossProfit);
+    assert.ok(bid.maxFeePerGas >= bid.baseFeePerGas + bid.maxPriorityFeePerGas);
+  });
+
+  test('skips opportunities that cannot pay the base fee and the minimum tip', () => {
+    const gas = bidder({ minPriorityFeeGwei: 1 });
+    assert.equal(gas.price(GAS_LIMIT * gwei('10'), GAS_LIMIT, gwei('10')), null);
+    assert.equal(gas.price(GAS_LIMIT * gwei('10.5'), GAS_LIMIT, gwei('10')), null);
+    assert.ok(gas.price(GAS_LIMIT * gwei('12'), GAS_LIMIT, gwei('10')));
+  });
+
+  test('refuses inconsistent settings', () => {
+    assert.throws(() => bidder({ bidMode: 'coinbase', coinbasePayer: '' }), /coinbasePayer/);
+    assert.throws(() => bidder({ profitShare: 0.95 }), /between/);
+  });
+
+  test('learns a share per builder, weighted by the blocks each built', () => {
+    const gas = bidder({ profitShare: 0.5, learningStep: 0.02 });
+    gas.recordInclusion('titan', 0.5);
+    gas.recordInclusion('titan', 0.5);
+    gas.recordInclusion('titan', 0.5);
+    gas.recordLoss('beaverbuild', 0.5);
+
+    const [titan, beaver] = gas.getStats();
+    assert.equal(titan.share, 0.44);
+    assert.equal(titan.included, 3);
+    assert.equal(beaver.share, 0.52);
+    assert.equal(beaver.lost, 1);
+    assert.equal(gas.currentShare(), 0.46);
+    // An inclusion at a lower share than the builder's moves down from that share
+    gas.recordInclusion('beaverbuild', 0.3);
+    assert.equal(gas.getStats()[1].share, 0.28);
+  });
+
+  test('keeps learned shares within the configured bounds', () => {
+    const gas = bidder({ profitShare: 0.5, minProfitShare: 0.4, maxProfitShare: 0.6, learningStep: 0.05 });
+    for (let i = 0; i < 10; i++) {
+      gas.recordLoss('rsync', 0.5);
+      gas.recordInclusion('titan', 0.5);
+    }
+    assert.deepEqual(gas.getStats().map(stats => stats.share), [0.6, 0.4]);
+  });
+
+  test('restores builder history from disk, clamped to the current bounds', () => {
+    const bidStatePath = path.join(directory, 'history.json');
+    const first = new GasBidder(providers, { ...config.gas, bidStatePath });
+    first.recordLoss('titan', 0.85);
+
+    const restored = new GasBidder(providers, { ...config.gas, bidStatePath, maxProfitShare: 0.8 });
+    assert.equal(restored.getStats()[0].share, 0.8);
+    assert.equal(restored.getStats()[0].lost, 1);
+    assert.equal(restored.currentShare(), 0.8);
+  });
+});
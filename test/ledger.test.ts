@@ -0,0 +1,94 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Ledger, LedgerEntry, LedgerPage } from '../ledger';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'ledger-'));
+const seqs = (page: LedgerPage) => page.items.map(entry => entry.seq);
+
+// A ledger file left by an earlier run: two bundles, one on each chain
+const written: Omit<LedgerEntry, 'timestamp'>[] = [
+  { seq: 1, kind: 'opportunity', chain: 'ethereum', opportunityId: 'op-1', type: 'arbitrage', data: { profitEth: '0.2' } },
+  { seq: 2, kind: 'simulation', chain: 'ethereum', bundleId: 'b-1', blockNumber: 100, data: { success: false } },
+  { seq: 3, kind: 'submission', chain: 'ethereum', bundleId: 'b-1', opportunityId: 'op-1', status: 'pending', data: {} },
+  { seq: 4, kind: 'opportunity', chain: 'base', opportunityId: 'op-2', type: 'sandwich', data: {} },
+  { seq: 5, kind: 'simulation', chain: 'ethereum', bundleId: 'b-1', blockNumber: 101, data: { success: true } },
+  { seq: 6, kind: 'submission', chain: 'base', bundleId: 'b-2', opportunityId: 'op-2', status: 'pending', data: {} },
+  { seq: 7, kind: 'outcome', chain: 'ethereum', bundleId: 'b-1', status: 'included', blockNumber: 101, data: { realizedProfitEth: '0.15' } },
+  { seq: 8, kind: 'opportunity', chain: 'base', opportunityId: 'op-3', type: 'arbitrage', data: {} }
+];
+
+function ledgerFile(name: string): string {
+  const file = path.join(directory, name);
+  fs.writeFileSync(file, written.map(entry => JSON.stringify({ ...entry, timestamp: 1705000000000 + entry.seq })).join('\n') + '\n');
+  return file;
+}
+
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+describe('Ledger paging across the memory window', () => {
+  // Only seq 6-8 stay in memory; 1-5 are read back from the file
+  const ledger = new Ledger(ledgerFile('paging.jsonl'), 3);
+  after(() => ledger.close());
+
+  test('pages newest first through memory and file without gaps or repeats', async () => {
+    const pages: number[][] = [];
+    for (let offset = 0; offset < 8; offset += 3) {
+      const page = await ledger.query({}, 3, offset);
+      assert.equal(page.total, 8);
+      assert.deepEqual([page.limit, page.offset], [3, offset]);
+      pages.push(seqs(page));
+    }
+    assert.deepEqual(pages, [[8, 7, 6], [5, 4, 3], [2, 1]]);
+
+    // A page straddling the boundary
+    assert.deepEqual(seqs(await ledger.query({}, 3, 2)), [6, 5, 4]);
+    assert.deepEqual(seqs(await ledger.query({}, 3, 8)), []);
+  });
+
+  test('counts and pages filtered matches on both sides of the boundary', async () => {
+    const first = await ledger.query({ chain: 'base' }, 2, 0);
+    assert.equal(first.total, 3);
+    assert.deepEqual(seqs(first), [8, 6]);
+    assert.deepEqual(seqs(await ledger.query({ chain: 'base' }, 2, 2)), [4]);
+
+    const simulations = await ledger.query({ kind: 'simulation', fromBlock: 101 });
+    assert.deepEqual([simulations.total, seqs(simulations)], [1, [5]]);
+  });
+
+  test('numbers new entries after the loaded ones and reads what they push out from the file', async () => {
+    const recorded = ledger.record({ kind: 'outcome', chain: 'base', bundleId: 'b-2', status: 'failed', data: {} });
+    assert.equal(recorded.seq, 9);
+
+    const page = await ledger.query({}, 4, 0);
+    assert.equal(page.total, 9);
+    assert.deepEqual(seqs(page), [9, 8, 7, 6]);
+  });
+});
+
+describe('Ledger.getBundleHistory', () => {
+  const ledger = new Ledger(ledgerFile('history.jsonl'), 3);
+  after(() => ledger.close());
+
+  test('joins the opportunity, submission, simulations and outcome of a bundle', async () => {
+    const history = await ledger.getBundleHistory('b-1');
+    assert.ok(history);
+    assert.equal(history.bundleId, 'b-1');
+    // The opportunity and submission were evicted to the file, the outcome is in memory
+    assert.equal(history.opportunity?.seq, 1);
+    assert.equal(history.submission?.seq, 3);
+    assert.deepEqual(history.simulations.map(entry => entry.seq), [2, 5]);
+    assert.equal(history.outcome?.status, 'included');
+  });
+
+  test('leaves out what has not happened yet and answers null for unknown bundles', async () => {
+    const pending = await ledger.getBundleHistory('b-2');
+    assert.equal(pending?.opportunity?.seq, 4);
+    assert.deepEqual(pending?.simulations, []);
+    assert.equal(pending?.outcome, undefined);
+
+    assert.equal(await ledger.getBundleHistory('b-404'), null);
+  });
+});
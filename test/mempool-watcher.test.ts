@@ -0,0 +1,192 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import WebSocket, { Server as WebSocketServer } from 'ws';
+import { ethers } from 'ethers';
+import { metricsRegistry } from '../metrics';
+import { MempoolWatcher, MempoolWatcherOptions } from '../mempool-watcher';
+
+interface RpcRequest {
+  id: number;
+  method: string;
+  params: unknown[];
+}
+
+// A node serving eth_subscribe("newPendingTransactions") and eth_getTransactionByHash over
+// WebSocket; push() announces a hash to every connection subscribed at the time
+class FakeNode {
+  readonly transactions = new Map<string, object>();
+  private subscribers = new Map<WebSocket, string>();
+  private server: WebSocketServer | null = null;
+  // Every eth_subscribe answered, including those of sockets closed since
+  subscriptions = 0;
+
+  async start(): Promise<string> {
+    this.server = new WebSocketServer({ port: 0, host: '127.0.0.1' });
+    this.server.on('connection', socket => {
+      socket.on('message', raw => socket.send(JSON.stringify(this.answer(socket, JSON.parse(raw.toString())))));
+      socket.on('close', () => this.subscribers.delete(socket));
+    });
+    await once(this.server, 'listening');
+    return `ws://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+  }
+
+  async stop(): Promise<void> {
+    this.dropConnections();
+    await new Promise(resolve => this.server?.close(resolve));
+  }
+
+  push(hash: string): void {
+    for (const [socket, subscription] of this.subscribers) {
+      socket.send(JSON.stringify({ jsonrpc: '2.0', method: 'eth_subscription', params: { subscription, result: hash } }));
+    }
+  }
+
+  dropConnections(): void {
+    for (const socket of this.server?.clients ?? []) socket.terminate();
+  }
+
+  private answer(socket: WebSocket, { id, method, params }: RpcRequest): object {
+    switch (method) {
+      case 'eth_chainId':
+        return { jsonrpc: '2.0', id, result: '0x1' };
+      case 'eth_blockNumber':
+        return { jsonrpc: '2.0', id, result: '0x64' };
+      case 'eth_subscribe': {
+        const subscription = ethers.toQuantity(++this.subscriptions);
+        this.subscribers.set(socket, subscription);
+        return { jsonrpc: '2.0', id, result: subscription };
+      }
+      case 'eth_unsubscribe':
+        return { jsonrpc: '2.0', id, result: true };
+      case 'eth_getTransactionByHash':
+        return { jsonrpc: '2.0', id, result: this.transactions.get(params[0] as string) ?? null };
+      default:
+        return { jsonrpc: '2.0', id, error: { code: -32601, message: `Method ${method} not found` } };
+    }
+  }
+}
+
+const sender = ethers.Wallet.createRandom();
+
+// Signs a transfer and lets the node serve it as pending
+async function pendingTransaction(node: FakeNode, nonce: number): Promise<string> {
+  const tx = ethers.Transaction.from(await sender.signTransaction({
+    chainId: 1, type: 2, nonce, gasLimit: 21000, maxFeePerGas: ethers.parseUnits('30', 'gwei'), maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei'),
+    to: '0x00000000000000000000000000000000000c0de1', value: 1n
+  }));
+  node.transactions.set(tx.hash!, {
+    hash: tx.hash, type: '0x2', chainId: '0x1', nonce: ethers.toQuantity(nonce), from: tx.from, to: tx.to,
+    gas: ethers.toQuantity(tx.gasLimit), maxFeePerGas: ethers.toQuantity(tx.maxFeePerGas!), maxPriorityFeePerGas: ethers.toQuantity(tx.maxPriorityFeePerGas!),
+    gasPrice: ethers.toQuantity(tx.maxFeePerGas!), value: ethers.toQuantity(tx.value), input: tx.data, accessList: [],
+    r: tx.signature!.r, s: tx.signature!.s, yParity: ethers.toQuantity(tx.signature!.yParity), v: ethers.toQuantity(tx.signature!.yParity),
+    blockHash: null, blockNumber: null, transactionIndex: null
+  });
+  return tx.hash!;
+}
+
+async function until(condition: () => boolean, what: string): Promise<void> {
+  const deadline = Date.now() + 5000;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error(`Timed out waiting until ${what}`);
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+}
+
+// Count of the seen-transactions series for one chain in the rendered metrics
+function seenMetric(chain: string): number {
+  const line = metricsRegistry.render().split('\n')
+    .find(entry => entry.startsWith(`mev_pending_transactions_seen_total{chain="${chain}",source="mempool"}`));
+  return line ? Number(line.split(' ')[1]) : 0;
+}
+
+describe('MempoolWatcher', () => {
+  const node = new FakeNode();
+  const watchers: MempoolWatcher[] = [];
+  let url: string;
+
+  // A watcher whose handler waits for release() when `hold` is set
+  async function watch(options: Partial<MempoolWatcherOptions>, hold: boolean = false) {
+    const handled: string[] = [];
+    let release = () => {};
+    const released = new Promise<void>(resolve => { release = resolve; });
+    const watcher = new MempoolWatcher(url, async tx => {
+      handled.push(tx.hash);
+      if (hold) await released;
+    }, { reconnectDelayMs: 50, ...options });
+    watchers.push(watcher);
+
+    const subscriptions = node.subscriptions;
+    watcher.start();
+    await until(() => watcher.getMetrics().connected && node.subscriptions > subscriptions, 'the watcher subscribed');
+    return { watcher, handled, release };
+  }
+
+  before(async () => {
+    url = await node.start();
+  });
+
+  after(async () => {
+    await Promise.all(watchers.map(watcher => watcher.stop()));
+    await node.stop();
+  });
+
+  test('handles each hash once and counts only unique hashes as seen', async () => {
+    const { watcher, handled } = await watch({ chain: 'dedupe' });
+    const [first, second] = [await pendingTransaction(node, 0), await pendingTransaction(node, 1)];
+    for (const hash of [first, second, first, first]) node.push(hash);
+
+    await until(() => watcher.getMetrics().duplicates === 2 && watcher.getMetrics().processed === 2, 'both hashes were handled');
+    assert.deepEqual(handled, [first, second]);
+    const metrics = watcher.getMetrics();
+    assert.deepEqual([metrics.seen, metrics.fetched, metrics.dropped], [2, 2, 0]);
+    assert.equal(seenMetric('dedupe'), 2);
+    await watcher.stop();
+  });
+
+  test('drops hashes once the queue is full', async () => {
+    const { watcher, handled, release } = await watch({ chain: 'queue', concurrency: 1, maxQueueSize: 1 }, true);
+    const dropped: string[] = [];
+    watcher.on('dropped', hash => dropped.push(hash));
+    const hashes = [await pendingTransaction(node, 2), await pendingTransaction(node, 3), await pendingTransaction(node, 4)];
+    for (const hash of hashes) node.push(hash);
+
+    // The first is being handled, the second waits in the queue, the third has no room
+    await until(() => watcher.getMetrics().dropped === 1, 'the third hash was dropped');
+    assert.deepEqual(dropped, [hashes[2]]);
+    assert.equal(watcher.getMetrics().queueDepth, 1);
+
+    release();
+    await until(() => watcher.getMetrics().processed === 2, 'the queued hash was handled');
+    assert.deepEqual(handled, hashes.slice(0, 2));
+    assert.equal(watcher.getMetrics().seen, 3);
+    await watcher.stop();
+  });
+
+  test('reconnects after the socket closes and drops what was queued on the old one', async () => {
+    const { watcher, handled, release } = await watch({ chain: 'reconnect', concurrency: 1, reconnectDelayMs: 300 }, true);
+    const dropped: string[] = [];
+    watcher.on('dropped', hash => dropped.push(hash));
+    const [held, queued] = [await pendingTransaction(node, 5), await pendingTransaction(node, 6)];
+    node.push(held);
+    node.push(queued);
+    await until(() => handled.length === 1 && watcher.getMetrics().queueDepth === 1, 'one hash is held and one queued');
+
+    const subscriptions = node.subscriptions;
+    node.dropConnections();
+    await until(() => !watcher.getMetrics().connected, 'the watcher noticed the close');
+    // The queued hash is taken up after the socket is gone and cannot be fetched
+    release();
+    await until(() => watcher.getMetrics().dropped === 1, 'the queued hash was dropped');
+    assert.deepEqual(dropped, [queued]);
+    assert.equal(watcher.getMetrics().fetchErrors, 0);
+
+    await until(() => watcher.getMetrics().connected && node.subscriptions > subscriptions, 'the watcher resubscribed');
+    assert.equal(watcher.getMetrics().reconnects, 1);
+    const fresh = await pendingTransaction(node, 7);
+    node.push(fresh);
+    await until(() => handled.includes(fresh), 'a hash from the new socket was handled');
+    await watcher.stop();
+  });
+});
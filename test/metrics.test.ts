@@ -0,0 +1,66 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { MetricsRegistry, metricsRegistry } from '../metrics';
+
+describe('MetricsRegistry.render', () => {
+  test('writes HELP and TYPE lines and one line per counter or gauge series', () => {
+    const registry = new MetricsRegistry();
+    const requests = registry.counter('requests_total', 'Requests by route', ['route', 'status']);
+    const restarts = registry.counter('restarts_total', 'Restarts');
+    const depth = registry.gauge('queue_depth', 'Queued items', ['queue']);
+
+    requests.inc({ route: '/bundle', status: '202' });
+    requests.inc({ route: '/bundle', status: '202' }, 2);
+    requests.inc({ route: '/history', status: '200' });
+    depth.set({ queue: 'pending' }, 7);
+    depth.add({ queue: 'pending' }, -2);
+    assert.throws(() => restarts.inc({}, -1), /cannot decrease/);
+
+    assert.equal(registry.render(), [
+      '# HELP requests_total Requests by route',
+      '# TYPE requests_total counter',
+      'requests_total{route="/bundle",status="202"} 3',
+      'requests_total{route="/history",status="200"} 1',
+      '# HELP restarts_total Restarts',
+      '# TYPE restarts_total counter',
+      // Unlabelled series exist from the first scrape
+      'restarts_total 0',
+      '# HELP queue_depth Queued items',
+      '# TYPE queue_depth gauge',
+      'queue_depth{queue="pending"} 5',
+      ''
+    ].join('\n'));
+  });
+
+  test('escapes backslashes, quotes and newlines in label values', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('errors_total', 'Errors', ['message']).inc({ message: 'C:\\relay "titan"\nretry' });
+    assert.match(registry.render(), /^errors_total\{message="C:\\\\relay \\"titan\\"\\nretry"\} 1$/m);
+  });
+
+  test('renders cumulative histogram buckets with +Inf, sum and count', () => {
+    const registry = new MetricsRegistry();
+    const latency = registry.histogram('latency_seconds', 'Latency', ['mode'], [0.1, 0.5, 1]);
+    for (const value of [0.05, 0.3, 0.3, 0.7, 4]) {
+      latency.observe({ mode: 'local' }, value);
+    }
+
+    assert.deepEqual(registry.render().trim().split('\n').slice(2), [
+      'latency_seconds_bucket{mode="local",le="0.1"} 1',
+      'latency_seconds_bucket{mode="local",le="0.5"} 3',
+      'latency_seconds_bucket{mode="local",le="1"} 4',
+      // Values above the last bound are only counted in +Inf
+      'latency_seconds_bucket{mode="local",le="+Inf"} 5',
+      'latency_seconds_sum{mode="local"} 5.35',
+      'latency_seconds_count{mode="local"} 5'
+    ]);
+  });
+
+  test('refuses a second metric with the same name', () => {
+    const registry = new MetricsRegistry();
+    registry.gauge('bid_share', 'Share');
+    assert.throws(() => registry.counter('bid_share', 'Share'), /already registered/);
+    // The engine's own metrics all register on import
+    assert.match(metricsRegistry.render(), /^# TYPE mev_bundles_submitted_total counter$/m);
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NonceManager } from '../nonce-manager';
+import { ProviderPool } from '../provider-pool';
+
+// Only getTransactionCount is read; the chain nonce is whatever the test sets
+function managerAt(chain: { nonce: number }): NonceManager {
+  const providers = {
+    execute: (operation: (provider: unknown) => Promise<unknown>) =>
+      operation({ getTransactionCount: async () => chain.nonce })
+  } as unknown as ProviderPool;
+  return new NonceManager('0x0000000000000000000000000000000000000001', providers);
+}
+
+describe('NonceManager', () => {
+  test('hands out consecutive nonces from the pending nonce', async () => {
+    const nonces = managerAt({ nonce: 7 });
+    const first = await nonces.reserve(2, 100);
+    const second = await nonces.reserve(3, 100);
+
+    assert.equal(first.first, 7);
+    assert.equal(second.first, 9);
+    assert.ok(nonces.holds([7, 8, 9, 10, 11]));
+    assert.ok(!nonces.holds([12]));
+  });
+
+  test('a rollback under later reservations invalidates them and reuses the nonces', async () => {
+    const nonces = managerAt({ nonce: 0 });
+    const dropped = await nonces.reserve(2, 100);
+    const later = await nonces.reserve(1, 100);
+
+    await nonces.rollback(dropped);
+    assert.ok(!nonces.holds([later.first]));
+    assert.deepEqual(nonces.getInFlight(), []);
+    assert.equal((await nonces.reserve(1, 100)).first, 0);
+  });
+
+  test('rolling back the newest reservation leaves earlier ones alone', async () => {
+    const nonces = managerAt({ nonce: 0 });
+    const kept = await nonces.reserve(2, 100);
+    const dropped = await nonces.reserve(1, 100);
+
+    await nonces.rollbackNonces([dropped.first]);
+    assert.ok(nonces.holds([0, 1]));
+    assert.equal((await nonces.reserve(1, 100)).first, kept.first + kept.count);
+  });
+
+  test('an expired reservation invalidates the ones above it on resync', async () => {
+    const chain = { nonce: 0 };
+    const nonces = managerAt(chain);
+    await nonces.reserve(1, 100);
+    const later = await nonces.reserve(1, 105);
+
+    await nonces.resync(101);
+    assert.ok(!nonces.holds([later.first]));
+    assert.equal((await nonces.reserve(1, 110)).first, 0);
+  });
+
+  test('reservations the chain has mined are released without touching later ones', async () => {
+    const chain = { nonce: 0 };
+    const nonces = managerAt(chain);
+    await nonces.reserve(1, 100);
+    const later = await nonces.reserve(1, 105);
+
+    chain.nonce = 1;
+    await nonces.resync(101);
+    assert.ok(nonces.holds([later.first]));
+    assert.equal((await nonces.reserve(1, 110)).first, 2);
+  });
+});
@@ -0,0 +1,88 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { DocumentedModule, buildOpenApiDocument } from '../openapi';
+import {
+  BundleAcceptedSchema,
+  BundleStatsQuerySchema,
+  ExecuteBundleBodySchema,
+  TradeParamsSchema,
+  TradeResultSchema,
+  envelope,
+  namedSchemas
+} from '../api-schemas';
+
+interface Operation {
+  tags: string[];
+  security?: object[];
+  'x-required-role'?: string;
+  parameters?: { name: string; in: string; required: boolean; schema: object }[];
+  requestBody?: { content: { 'application/json': { schema: object } } };
+  responses: Record<string, { content: { 'application/json': { schema: { properties?: Record<string, object> } } } }>;
+}
+
+interface Document {
+  openapi: string;
+  info: { version: string };
+  components: { schemas: Record<string, { properties?: Record<string, object> }> };
+  paths: Record<string, Record<string, Operation>>;
+}
+
+// Shaped like the real route modules, mounted the way server.ts mounts them
+const modules: DocumentedModule[] = [
+  { name: 'core', basePath: '', docs: [{ method: 'get', path: '/health', summary: 'Liveness' }] },
+  {
+    name: 'mev',
+    basePath: '/mev',
+    docs: [
+      { method: 'post', path: '/bundle', summary: 'Submit', role: 'operator', body: ExecuteBundleBodySchema, response: envelope(BundleAcceptedSchema), status: 202 },
+      { method: 'get', path: '/bundle/:bundleId/stats', summary: 'Relay stats', role: 'read', query: BundleStatsQuerySchema }
+    ]
+  },
+  { name: 'base44', basePath: '/', docs: [{ method: 'post', path: '/trade', summary: 'Trade', role: 'treasury', body: TradeParamsSchema, response: TradeResultSchema }] }
+];
+
+describe('buildOpenApiDocument', () => {
+  const document = buildOpenApiDocument(modules, '2.1.0') as Document;
+  const ref = (name: string) => ({ $ref: `#/components/schemas/${name}` });
+
+  test('turns mounted express paths into OpenAPI templates', () => {
+    assert.equal(document.openapi, '3.0.3');
+    assert.equal(document.info.version, '2.1.0');
+    assert.deepEqual(Object.keys(document.paths).sort(), ['/health', '/mev/bundle', '/mev/bundle/{bundleId}/stats', '/trade']);
+    assert.deepEqual(document.paths['/mev/bundle'].post.tags, ['mev']);
+  });
+
+  test('references the named schemas the routes validate with', () => {
+    const submit = document.paths['/mev/bundle'].post;
+    assert.deepEqual(submit.requestBody?.content['application/json'].schema, ref('ExecuteBundleBody'));
+    assert.deepEqual(submit.responses['202'].content['application/json'].schema.properties?.data, ref('BundleAccepted'));
+    assert.deepEqual(document.paths['/trade'].post.responses['200'].content['application/json'].schema, ref('TradeResult'));
+
+    // Published once each, inline rather than as a reference to themselves
+    assert.deepEqual(Object.keys(document.components.schemas), Object.keys(namedSchemas));
+    assert.deepEqual(document.components.schemas.ExecuteBundleBody.properties?.blockNumber,
+      ExecuteBundleBodySchema.properties?.blockNumber);
+  });
+
+  test('lists path and query parameters', () => {
+    assert.deepEqual(document.paths['/mev/bundle/{bundleId}/stats'].get.parameters, [
+      { name: 'bundleId', in: 'path', required: true, schema: { type: 'string' } },
+      { name: 'blockNumber', in: 'query', required: false, schema: BundleStatsQuerySchema.properties?.blockNumber }
+    ]);
+    assert.equal(document.paths['/mev/bundle'].post.parameters, undefined);
+  });
+
+  test('documents roles and the error responses each route can give', () => {
+    const statuses = (operation: Operation) => Object.keys(operation.responses);
+    assert.deepEqual(statuses(document.paths['/health'].get), ['200']);
+    assert.deepEqual(statuses(document.paths['/mev/bundle'].post), ['202', '400', '401', '403', '429']);
+    // Reads are not rate limited
+    assert.deepEqual(statuses(document.paths['/mev/bundle/{bundleId}/stats'].get), ['200', '400', '401', '403']);
+
+    const trade = document.paths['/trade'].post;
+    assert.equal(trade['x-required-role'], 'treasury');
+    assert.deepEqual(trade.security, [{ bearer: [] }, { apiKey: [] }]);
+    assert.deepEqual(trade.responses['403'].content['application/json'].schema, ref('ErrorResponse'));
+    assert.equal(document.paths['/health'].get.security, undefined);
+  });
+});
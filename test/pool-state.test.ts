@@ -0,0 +1,80 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { getChain } from '../chains';
+import { ProviderPool } from '../provider-pool';
+import { PoolStateCache, V2PoolState } from '../pool-state';
+
+const PAIR = '0x' + '11'.repeat(20);
+const TOKEN0 = '0x' + '22'.repeat(20);
+const TOKEN1 = '0x' + '33'.repeat(20);
+const pair = new ethers.Interface([
+  'function token0() view returns (address)',
+  'function token1() view returns (address)',
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)'
+]);
+
+// Answers the pair's view calls from `reserves` and fails getLogs while `failLogs` is set
+class StubChain {
+  reserves: [bigint, bigint] = [1000n, 2000n];
+  failLogs = false;
+  reads = 0;
+
+  pool(): ProviderPool {
+    const provider = {
+      getBlockNumber: async () => 100,
+      getLogs: async () => {
+        if (this.failLogs) throw new Error('getLogs timed out');
+        return [];
+      },
+      call: async (tx: { data: string }) => {
+        const call = pair.parseTransaction({ data: tx.data })!;
+        if (call.name === 'getReserves') this.reads++;
+        const result = call.name === 'token0' ? [TOKEN0] : call.name === 'token1' ? [TOKEN1] : [...this.reserves, 0];
+        return pair.encodeFunctionResult(call.name, result);
+      }
+    };
+    return { execute: async (operation: (provider: unknown) => unknown) => operation(provider) } as unknown as ProviderPool;
+  }
+}
+
+describe('PoolStateCache block updates', () => {
+  const chain = getChain('ethereum');
+
+  const watched = async (stub: StubChain): Promise<PoolStateCache> => {
+    const cache = new PoolStateCache(stub.pool(), chain);
+    await cache.watchV2Pool(PAIR);
+    await cache.onBlock(100);
+    return cache;
+  };
+
+  test('re-reads every pool after a skipped block', async () => {
+    const stub = new StubChain();
+    const cache = await watched(stub);
+    stub.reserves = [1500n, 1400n];
+
+    await cache.onBlock(101);
+    assert.equal((cache.getPool(PAIR) as V2PoolState).reserve0, 1000n);
+
+    // Block 102's logs were never applied, so the reserves are read again
+    await cache.onBlock(103);
+    const pool = cache.getPool(PAIR) as V2PoolState;
+    assert.equal(stub.reads, 2);
+    assert.deepEqual([pool.reserve0, pool.reserve1], [1500n, 1400n]);
+  });
+
+  test('hides pools after a failed refresh until they are re-read', async () => {
+    const stub = new StubChain();
+    const cache = await watched(stub);
+
+    stub.failLogs = true;
+    await assert.rejects(cache.onBlock(101), /getLogs timed out/);
+    assert.equal(cache.getPool(PAIR), undefined);
+    assert.deepEqual(cache.getPools(), []);
+
+    stub.failLogs = false;
+    stub.reserves = [900n, 2300n];
+    await cache.onBlock(102);
+    assert.equal((cache.getPool(PAIR) as V2PoolState).reserve0, 900n);
+  });
+});
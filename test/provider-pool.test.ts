@@ -0,0 +1,71 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { ProviderPool, isEndpointFailure } from '../provider-pool';
+
+// Endpoints are never contacted: with a chain id set the providers skip network detection
+function poolOf(count: number): ProviderPool {
+  const urls = Array.from({ length: count }, (_, i) => `http://rpc-${i + 1}.invalid`);
+  return new ProviderPool(urls, { chain: 'test', chainId: 1, maxConsecutiveFailures: 1 });
+}
+
+function rpcError(code: number, message: string): Error {
+  return ethers.makeError('could not coalesce error', 'UNKNOWN_ERROR', { error: { code, message } });
+}
+
+describe('ProviderPool', () => {
+  test('fails over to the next endpoint when one times out', async () => {
+    const pool = poolOf(2);
+    const called: ethers.JsonRpcProvider[] = [];
+
+    const result = await pool.execute(async provider => {
+      called.push(provider);
+      if (called.length === 1) throw ethers.makeError('request timeout', 'TIMEOUT');
+      return 'ok';
+    });
+
+    assert.equal(result, 'ok');
+    assert.equal(called.length, 2);
+    assert.notEqual(called[0], called[1]);
+    assert.equal(pool.getHealthStatus().filter(endpoint => !endpoint.healthy).length, 1);
+  });
+
+  test('rethrows a revert from the first endpoint without failing over or penalising it', async () => {
+    const pool = poolOf(3);
+    let calls = 0;
+    const revert = ethers.makeError('execution reverted', 'CALL_EXCEPTION', { action: 'call', data: null, reason: null, transaction: { to: null, data: '0x' }, invocation: null, revert: null });
+
+    await assert.rejects(pool.execute(async () => {
+      calls++;
+      throw revert;
+    }), revert);
+
+    assert.equal(calls, 1);
+    assert.ok(pool.getHealthStatus().every(endpoint => endpoint.healthy && endpoint.consecutiveFailures === 0));
+  });
+
+  test('does not re-send a transaction the node refused', async () => {
+    const pool = poolOf(2);
+    let calls = 0;
+
+    await assert.rejects(pool.execute(async () => {
+      calls++;
+      throw ethers.makeError('nonce has already been used', 'NONCE_EXPIRED', { transaction: {} });
+    }), { code: 'NONCE_EXPIRED' });
+    assert.equal(calls, 1);
+  });
+
+  test('classifies transport, throttling and node answers', () => {
+    const refused = Object.assign(new Error('connect ECONNREFUSED 127.0.0.1:8545'), { code: 'ECONNREFUSED', syscall: 'connect' });
+
+    assert.ok(isEndpointFailure(refused));
+    assert.ok(isEndpointFailure(ethers.makeError('bad response', 'SERVER_ERROR', { request: new ethers.FetchRequest('http://rpc.invalid') })));
+    assert.ok(isEndpointFailure(rpcError(-32005, 'limit exceeded')));
+    assert.ok(isEndpointFailure(rpcError(-32000, 'header not found')));
+
+    assert.ok(!isEndpointFailure(rpcError(-32000, 'already known')));
+    assert.ok(!isEndpointFailure(rpcError(-32602, 'invalid argument 0')));
+    assert.ok(!isEndpointFailure(ethers.makeError('insufficient funds', 'INSUFFICIENT_FUNDS', { transaction: {} })));
+    assert.ok(!isEndpointFailure(new TypeError('not a function')));
+  });
+});
@@ -0,0 +1,128 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { MockRelayOptions, ReceivedBundle, startMockRelay } from '../mock-relay';
+import { RelayConfig, RelayFanout } from '../relay-fanout';
+
+interface RunningRelay {
+  url: string;
+  received: ReceivedBundle[];
+  close: () => Promise<void>;
+}
+
+// On a free port, so the suite never collides with a mock relay started by hand
+async function runRelay(options: Partial<MockRelayOptions>): Promise<RunningRelay> {
+  const { server, received } = startMockRelay({ ...options, port: 0 });
+  await once(server, 'listening');
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    received,
+    close: () => new Promise(resolve => server.close(() => resolve()))
+  };
+}
+
+// Just enough of a block for builder matching
+function blockBy(extraData: string, miner: string = ethers.ZeroAddress): ethers.Block {
+  return { number: 100, extraData: ethers.hexlify(ethers.toUtf8Bytes(extraData)), miner } as ethers.Block;
+}
+
+describe('RelayFanout against mock relays', () => {
+  const searcher = ethers.Wallet.createRandom();
+  const authSigner = ethers.Wallet.createRandom();
+  const relays: Record<string, RunningRelay> = {};
+  let bundle: string[];
+
+  before(async () => {
+    relays.alpha = await runRelay({ name: 'alpha' });
+    relays.beta = await runRelay({ name: 'beta', requireSignature: true });
+    relays.gamma = await runRelay({ name: 'gamma', behaviour: 'reject' });
+
+    bundle = [await searcher.signTransaction({
+      to: ethers.ZeroAddress,
+      value: 1n,
+      nonce: 0,
+      gasLimit: 21000n,
+      maxFeePerGas: ethers.parseUnits('30', 'gwei'),
+      maxPriorityFeePerGas: ethers.parseUnits('2', 'gwei'),
+      chainId: 1
+    })];
+  });
+
+  after(async () => {
+    await Promise.all(Object.values(relays).map(relay => relay.close()));
+  });
+
+  const configs = (): RelayConfig[] => [
+    { name: 'alpha', url: relays.alpha.url, auth: 'none', match: ['alpha'] },
+    { name: 'beta', url: relays.beta.url, auth: 'flashbots', match: ['beta'] },
+    { name: 'gamma', url: relays.gamma.url, auth: 'flashbots', match: ['gamma'] }
+  ];
+
+  test('sends the bundle to every relay and reports each answer', async () => {
+    const fanout = new RelayFanout(configs(), authSigner, 10);
+    const results = await fanout.sendBundle(bundle, 1234);
+
+    assert.deepEqual(results.map(result => [result.relay, result.accepted]), [
+      ['alpha', true],
+      ['beta', true],
+      ['gamma', false]
+    ]);
+    assert.match(results[2].error ?? '', /gamma rejected bundle/);
+
+    for (const relay of [relays.alpha, relays.beta]) {
+      const received = relay.received[relay.received.length - 1];
+      assert.deepEqual(received.txs, bundle);
+      assert.equal(received.blockNumber, 1234);
+    }
+
+    const stats = fanout.getStats();
+    assert.deepEqual(stats.map(relay => [relay.name, relay.submitted, relay.accepted, relay.rejected]), [
+      ['alpha', 1, 1, 0],
+      ['beta', 1, 1, 0],
+      ['gamma', 1, 0, 1]
+    ]);
+    assert.match(stats[2].lastError ?? '', /gamma rejected bundle/);
+  });
+
+  test('signs flashbots requests with the auth key, not the searcher key', async () => {
+    const fanout = new RelayFanout(configs(), authSigner, 10);
+    await fanout.sendBundle(bundle, 1235);
+
+    const signed = relays.beta.received[relays.beta.received.length - 1];
+    assert.equal(signed.signer, authSigner.address);
+    assert.equal(relays.alpha.received[relays.alpha.received.length - 1].signer, null);
+  });
+
+  test('a relay that requires a signature refuses unsigned bundles', async () => {
+    const unsigned = configs().map(relay => ({ ...relay, auth: 'none' as const }));
+    const fanout = new RelayFanout(unsigned, authSigner, 10);
+    const before = relays.beta.received.length;
+
+    const [, beta] = await fanout.sendBundle(bundle, 1236);
+    assert.equal(beta.accepted, false);
+    assert.match(beta.error ?? '', /X-Flashbots-Signature/);
+    assert.equal(relays.beta.received.length, before);
+  });
+
+  test('drops a relay that keeps accepting but never lands a bundle', async () => {
+    const fanout = new RelayFanout(configs(), authSigner, 2);
+    await fanout.sendBundle(bundle, 1237);
+    await fanout.sendBundle(bundle, 1238);
+
+    assert.equal(fanout.builderOf(blockBy('beaverbuild')), null);
+    assert.equal(fanout.recordInclusion(blockBy('built by alpha')), 'alpha');
+
+    const stats = fanout.getStats();
+    assert.deepEqual(stats.map(relay => [relay.name, relay.enabled, relay.included]), [
+      ['alpha', true, 1],
+      ['beta', false, 0],
+      ['gamma', true, 0]
+    ]);
+
+    const results = await fanout.sendBundle(bundle, 1239);
+    assert.deepEqual(results.map(result => result.relay), ['alpha', 'gamma']);
+  });
+});
@@ -0,0 +1,153 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { ProviderPool } from '../provider-pool';
+import { RiskConfig, RiskManager, RiskViolation } from '../risk-manager';
+
+const FEED = '0x00000000000000000000000000000000000fEed1';
+const aggregator = new ethers.Interface([
+  'function decimals() view returns (uint8)',
+  'function latestRoundData() view returns (uint80 roundId, int256 answer, uint256 startedAt, uint256 updatedAt, uint80 answeredInRound)'
+]);
+
+// Providers answering Chainlink aggregator calls with `usd` per ETH at 8 decimals; `calls` collects their targets
+function feedProviders(usd: number, calls: string[] = []): ProviderPool {
+  const runner = {
+    call: async (tx: ethers.TransactionRequest) => {
+      calls.push(String(tx.to));
+      return aggregator.parseTransaction({ data: String(tx.data) })?.name === 'decimals'
+        ? aggregator.encodeFunctionResult('decimals', [8])
+        : aggregator.encodeFunctionResult('latestRoundData', [1, BigInt(usd * 1e8), 0, 0, 1]);
+    }
+  };
+  return { execute: (fn: (provider: unknown) => unknown) => fn(runner) } as unknown as ProviderPool;
+}
+
+describe('RiskManager', () => {
+  const root = fs.mkdtempSync(path.join(os.tmpdir(), 'risk-'));
+  let runs = 0;
+
+  // Each test gets its own state directory; the ETH price is never needed without expectedProfit
+  function limitsIn(directory: string = path.join(root, String(++runs))): RiskConfig {
+    return { ...config.risk, killSwitchPath: path.join(directory, 'kill-switch.json') };
+  }
+  const providers = {} as ProviderPool;
+  const bundle = { strategy: 'manual', notional: 0n, maxGasCost: 0n, tokens: [] };
+
+  after(() => {
+    fs.rmSync(root, { recursive: true, force: true });
+  });
+
+  test('trips on the hourly gas budget and refuses bundles until reset', async () => {
+    const risk = new RiskManager(providers, limitsIn());
+    let tripped = 0;
+    risk.on('tripped', () => tripped++);
+
+    risk.recordOutcome(ethers.parseEther('0.3'), 0n);
+    await risk.checkBundle(bundle);
+    risk.recordOutcome(ethers.parseEther('0.3'), 0n);
+
+    assert.equal(tripped, 1);
+    assert.ok(risk.isHalted());
+    await assert.rejects(risk.checkBundle(bundle), error => error instanceof RiskViolation && error.halted);
+
+    risk.reset('operator');
+    assert.ok(!risk.isHalted());
+    assert.equal(risk.getStatus().killSwitch.resetBy, 'operator');
+  });
+
+  test('trips on the daily loss cap', () => {
+    const risk = new RiskManager(providers, limitsIn());
+    risk.recordOutcome(0n, -ethers.parseEther('0.6'));
+    assert.ok(!risk.isHalted());
+    risk.recordOutcome(0n, -ethers.parseEther('0.6'));
+    assert.ok(risk.isHalted());
+    assert.match(risk.getStatus().killSwitch.reason ?? '', /loss/);
+  });
+
+  test('keeps the kill switch and the gas and PnL windows across a restart', async () => {
+    const limits = limitsIn();
+    const before = new RiskManager(providers, limits);
+    before.recordOutcome(ethers.parseEther('0.4'), -ethers.parseEther('0.5'));
+    before.trip('manual halt');
+
+    const halted = new RiskManager(providers, limits);
+    assert.ok(halted.isHalted());
+    assert.equal(halted.getStatus().killSwitch.reason, 'manual halt');
+    halted.reset('operator');
+
+    const restarted = new RiskManager(providers, limits);
+    assert.ok(!restarted.isHalted());
+    assert.equal(restarted.getStatus().gasSpentLastHourEth, '0.4');
+    assert.equal(restarted.getStatus().realizedPnlTodayEth, '-0.5');
+    // The restored spend still counts against the budget
+    await assert.rejects(
+      restarted.checkBundle({ ...bundle, maxGasCost: ethers.parseEther('0.2') }),
+      error => error instanceof RiskViolation && /hourly gas budget/.test(error.message)
+    );
+  });
+
+  test('halts when the window state cannot be read', () => {
+    const directory = path.join(root, 'corrupt');
+    fs.mkdirSync(directory);
+    fs.writeFileSync(path.join(directory, 'risk-windows.json'), '{');
+
+    const risk = new RiskManager(providers, limitsIn(directory));
+    assert.ok(risk.isHalted());
+  });
+
+  test('refuses a bundle whose swaps accept more slippage than the limit', async () => {
+    const risk = new RiskManager(providers, limitsIn());
+    const limit = config.risk.maxSlippagePercent;
+
+    await risk.checkBundle({ ...bundle, slippagePercent: limit });
+    await assert.rejects(
+      risk.checkBundle({ ...bundle, slippagePercent: limit + 0.5 }),
+      error => error instanceof RiskViolation && /Slippage/.test(error.message)
+    );
+  });
+
+  test('prices expected profit with the configured ETH/USD feed', async () => {
+    const calls: string[] = [];
+    const risk = new RiskManager(feedProviders(2000, calls), { ...limitsIn(), ethUsdFeed: FEED, minProfitUsd: 10 });
+
+    // $10 at $2000 per ETH is 0.005 ETH
+    await risk.checkBundle({ ...bundle, expectedProfit: ethers.parseEther('0.0051') });
+    await assert.rejects(
+      risk.checkBundle({ ...bundle, expectedProfit: ethers.parseEther('0.0049') }),
+      error => error instanceof RiskViolation && error.message === 'Expected profit $9.80 is below the $10 minimum'
+    );
+    // One read of decimals and the latest round, cached for the second check
+    assert.deepEqual(calls, [FEED, FEED]);
+  });
+
+  test('counts Base44 trade PnL in ETH against the daily loss cap', async () => {
+    const risk = new RiskManager(feedProviders(2000), { ...limitsIn(), ethUsdFeed: FEED, dailyLossCapEth: 1 });
+
+    await risk.recordTradePnl(-1500);
+    await risk.recordTradePnl(100);
+    assert.equal(risk.getStatus().realizedPnlTodayEth, '-0.7');
+    assert.ok(!risk.isHalted());
+
+    await risk.recordTradePnl(-700);
+    assert.ok(risk.isHalted());
+    assert.match(risk.getStatus().killSwitch.reason ?? '', /loss/);
+  });
+
+  test('halts on a trade loss the feed cannot price', async () => {
+    const unreachable = { execute: async () => { throw new Error('no provider'); } } as unknown as ProviderPool;
+
+    const gain = new RiskManager(unreachable, limitsIn());
+    await gain.recordTradePnl(25);
+    assert.ok(!gain.isHalted());
+
+    const loss = new RiskManager(unreachable, limitsIn());
+    await loss.recordTradePnl(-25);
+    assert.ok(loss.isHalted());
+    assert.equal(loss.getStatus().killSwitch.reason, 'Base44 trade loss of $25 could not be priced in ETH');
+  });
+});
@@ -0,0 +1,160 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { once } from 'events';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import express from 'express';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { AuditEntry, Principal, auditLog, authenticate, signJwt } from '../auth';
+import { errorHandler, notFoundHandler } from '../api-middleware';
+import { ChainEngine, chainEngines } from '../engine-registry';
+import { getChain } from '../chains';
+import engineRoutes from '../engine-routes';
+import mevRoutes from '../mev-routes';
+
+interface ApiBody {
+  success?: boolean;
+  error?: string;
+  data?: unknown;
+  chains?: string[];
+  halted?: boolean;
+}
+
+const secret = 'routes-secret';
+const principal = (id: string, roles: Principal['roles']): Principal => ({ id, name: id, roles, via: 'jwt' });
+const reader = principal('reader', ['read']);
+const operator = principal('operator', ['operator']);
+const treasury = principal('treasury', ['treasury']);
+const TOKEN = ethers.getAddress('0x6b175474e89094c44da98b954eedeac495271d0f');
+
+// The engine and MEV modules behind the authentication and error handling server.ts
+// mounts them with; no chain is running
+describe('engine and MEV route authorization', { skip: !config.auth.enabled && 'auth is disabled' }, () => {
+  const audited: AuditEntry[] = [];
+  const { jwtSecret } = config.auth;
+  const record = auditLog.record;
+  let server: Server;
+  let base: string;
+
+  async function request(method: string, path: string, who: Principal | string | null, body?: object): Promise<{ status: number; body: ApiBody }> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (who) headers.Authorization = `Bearer ${typeof who === 'string' ? who : signJwt(who, secret, 60)}`;
+    const response = await fetch(`${base}${path}`, { method, headers, body: body ? JSON.stringify(body) : undefined });
+    return { status: response.status, body: await response.json() };
+  }
+
+  before(async () => {
+    config.auth.jwtSecret = secret;
+    auditLog.record = entry => { audited.push(entry); };
+
+    const app = express();
+    app.use(express.json());
+    app.use(authenticate());
+    app.use('/api', engineRoutes);
+    app.use('/mev', mevRoutes);
+    app.use(notFoundHandler);
+    app.use(errorHandler);
+    server = app.listen(0, '127.0.0.1');
+    await once(server, 'listening');
+    base = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    config.auth.jwtSecret = jwtSecret;
+    auditLog.record = record;
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  test('reads need valid credentials carrying the read role', async () => {
+    assert.equal((await request('GET', '/mev/status', null)).status, 401);
+    assert.equal((await request('GET', '/mev/status', signJwt(reader, 'other-secret', 60))).status, 401);
+    assert.equal((await request('GET', '/api/config', operator)).status, 403);
+
+    const status = await request('GET', '/api/status', reader);
+    assert.equal(status.status, 200);
+    assert.deepEqual(status.body.chains, []);
+    assert.equal(typeof status.body.halted, 'boolean');
+    assert.equal((await request('GET', '/mev/status', reader)).body.success, true);
+  });
+
+  test('mutating routes need the operator role and every attempt is audited', async () => {
+    audited.length = 0;
+    const refused = await request('POST', `/api/tokens/ethereum/${TOKEN}/screen`, reader);
+    assert.equal(refused.status, 403);
+    assert.equal(refused.body.error, "Role 'operator' required");
+    assert.equal((await request('POST', '/mev/ethereum/execute', null, { transactions: ['0x02'] })).status, 401);
+
+    // Past the role check, the request is validated and the chain resolved
+    assert.equal((await request('POST', '/mev/ethereum/execute', operator, {})).status, 400);
+    assert.equal((await request('POST', `/api/tokens/ethereum/${TOKEN}/screen`, operator)).status, 503);
+
+    assert.deepEqual(audited.map(entry => [entry.principal, entry.method, entry.path, entry.status, entry.requiredRole]), [
+      ['reader', 'POST', `/api/tokens/ethereum/${TOKEN}/screen`, 403, 'operator'],
+      [null, 'POST', '/mev/ethereum/execute', 401, 'operator'],
+      ['operator', 'POST', '/mev/ethereum/execute', 400, 'operator'],
+      ['operator', 'POST', `/api/tokens/ethereum/${TOKEN}/screen`, 503, 'operator']
+    ]);
+    // Reads are not audited
+    await request('GET', '/mev/chains', reader);
+    assert.equal(audited.length, 4);
+  });
+
+  test('chains are started and stopped by operators, withdrawals need the treasury role', async () => {
+    assert.equal((await request('POST', '/api/chains/ethereum/start', reader)).status, 403);
+    assert.equal((await request('POST', '/api/chains/ethereum/stop', treasury)).status, 403);
+    assert.equal((await request('POST', '/api/chains/ethereum/withdraw', operator, { token: 'native' })).status, 403);
+
+    assert.equal((await request('POST', '/api/chains/nowhere/start', operator)).status, 404);
+    const notRunning = await request('POST', '/api/chains/ethereum/stop', operator);
+    assert.equal(notRunning.status, 409);
+    assert.equal(notRunning.body.error, 'MEV executor not running on ethereum');
+    // No signer was loaded at boot
+    const unsigned = await request('POST', '/api/chains/ethereum/start', operator);
+    assert.equal(unsigned.status, 503);
+    assert.equal(unsigned.body.error, 'No signer configured');
+
+    assert.equal((await request('POST', '/api/chains/ethereum/withdraw', treasury, { token: 'everything' })).status, 400);
+  });
+
+  test('withdrawals are refused until a profit wallet is configured, then paid out to it', async () => {
+    const { profitWalletAddress } = config.treasury;
+    const wallet = ethers.Wallet.createRandom().address;
+    const withdrawn: [string, string][] = [];
+    const executor = {
+      withdrawProfits: async (token: string, to: string) => {
+        withdrawn.push([token, to]);
+        return { token, to, amount: '5', hash: ethers.id('withdrawal') };
+      }
+    };
+    const chain = { ...getChain('ethereum'), flashExecutor: '0x00000000000000000000000000000000000c0de1' };
+    chainEngines.set('ethereum', { chain, executor } as unknown as ChainEngine);
+
+    try {
+      config.treasury.profitWalletAddress = '';
+      const refused = await request('POST', '/api/chains/ethereum/withdraw', treasury, { token: 'native' });
+      assert.equal(refused.status, 409);
+      assert.equal(refused.body.error, 'No profit wallet configured (PROFIT_WALLET_ADDRESS)');
+      assert.deepEqual(withdrawn, []);
+
+      config.treasury.profitWalletAddress = wallet;
+      const paid = await request('POST', '/api/chains/ethereum/withdraw', treasury, { token: TOKEN.toLowerCase() });
+      assert.equal(paid.status, 200);
+      assert.deepEqual(withdrawn, [[TOKEN, wallet]]);
+      assert.deepEqual(paid.body.data, { token: TOKEN, to: wallet, amount: '5', hash: ethers.id('withdrawal') });
+    } finally {
+      config.treasury.profitWalletAddress = profitWalletAddress;
+      chainEngines.delete('ethereum');
+    }
+  });
+
+  test('chain-scoped routes answer 404 for unknown chains and 503 while a chain is stopped', async () => {
+    const unknown = await request('GET', '/mev/nowhere/opportunities', reader);
+    assert.equal(unknown.status, 404);
+    assert.equal(unknown.body.error, "Unknown chain 'nowhere'");
+
+    const stopped = await request('GET', '/mev/ethereum/opportunities', reader);
+    assert.equal(stopped.status, 503);
+    assert.equal(stopped.body.error, 'MEV executor not running on ethereum');
+  });
+});
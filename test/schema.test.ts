@@ -0,0 +1,67 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { JsonSchema, coerceStrings, validateSchema } from '../schema';
+
+const bundle: JsonSchema = {
+  type: 'object',
+  required: ['transactions'],
+  additionalProperties: false,
+  properties: {
+    transactions: { type: 'array', minItems: 1, maxItems: 2, items: { type: 'string', pattern: '^0x[0-9a-f]+$' } },
+    blocks: { type: 'integer', minimum: 1, maximum: 25 },
+    note: { type: 'string', maxLength: 5, nullable: true },
+    mode: { type: 'string', enum: ['rpc', 'relay'] },
+    prices: { type: 'object', additionalProperties: { type: 'number' } }
+  }
+};
+
+describe('validateSchema', () => {
+  test('accepts a valid value', () => {
+    assert.deepEqual(validateSchema(bundle, { transactions: ['0x01'], blocks: 3, note: null, mode: 'rpc', prices: { WETH: 3000 } }, 'body'), []);
+  });
+
+  test('reports every problem with a dotted field path', () => {
+    const errors = validateSchema(bundle, {
+      transactions: ['0x01', 'nope', '0x02'],
+      blocks: 2.5,
+      note: 'too long',
+      mode: 'local',
+      prices: { WETH: '3000' },
+      extra: true
+    }, 'body');
+
+    assert.deepEqual(errors, [
+      { field: 'body.transactions', message: 'must have at most 2 items' },
+      { field: 'body.transactions[1]', message: 'must match ^0x[0-9a-f]+$' },
+      { field: 'body.blocks', message: 'must be an integer' },
+      { field: 'body.note', message: 'must be at most 5 characters' },
+      { field: 'body.mode', message: 'must be one of rpc, relay' },
+      { field: 'body.prices.WETH', message: 'must be a number' },
+      { field: 'body.extra', message: 'is not allowed' }
+    ]);
+  });
+
+  test('reports missing required properties and wrong container types', () => {
+    assert.deepEqual(validateSchema(bundle, {}, 'body'), [{ field: 'body.transactions', message: 'is required' }]);
+    assert.deepEqual(validateSchema(bundle, [], 'body'), [{ field: 'body', message: 'must be an object' }]);
+    assert.deepEqual(validateSchema({ type: 'number' }, Infinity, 'query.limit'), [{ field: 'query.limit', message: 'must be a number' }]);
+    assert.deepEqual(validateSchema({ type: 'integer', minimum: 1 }, 0, 'query.blocks'), [{ field: 'query.blocks', message: 'must be >= 1' }]);
+  });
+});
+
+describe('coerceStrings', () => {
+  const query: JsonSchema = {
+    type: 'object',
+    properties: { limit: { type: 'integer' }, ratio: { type: 'number' }, live: { type: 'boolean' }, chain: { type: 'string' } }
+  };
+
+  test('converts declared numbers and booleans', () => {
+    assert.deepEqual(coerceStrings(query, { limit: '10', ratio: '0.5', live: 'true', chain: '1' }), { limit: 10, ratio: 0.5, live: true, chain: '1' });
+  });
+
+  test('leaves values that do not convert as strings so they fail validation', () => {
+    const coerced = coerceStrings(query, { limit: 'ten', ratio: '', live: 'yes' });
+    assert.deepEqual(coerced, { limit: 'ten', ratio: '', live: 'yes' });
+    assert.equal(validateSchema(query, coerced, 'query').length, 3);
+  });
+});
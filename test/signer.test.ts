@@ -0,0 +1,113 @@
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { execFileSync } from 'child_process';
+import { once } from 'events';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { RemoteSigner, loadKeystoreSigner, loadSigners } from '../signer';
+import { startRemoteSigner } from '../remote-signer';
+
+const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'signer-'));
+const key = new ethers.Wallet(ethers.Wallet.createRandom().privateKey);
+const token = 'signer-token';
+
+after(() => fs.rmSync(directory, { recursive: true, force: true }));
+
+describe('keystore signer', () => {
+  const keystore = path.join(directory, 'keystore.json');
+  const password = 'correct horse battery staple';
+
+  // What `npm run keystore` runs
+  before(() => {
+    execFileSync(process.execPath, ['--import', 'tsx', path.join(__dirname, '..', 'signer.ts'), 'keystore', keystore], {
+      env: { ...process.env, KEYSTORE_PASSWORD: password, WALLET_PRIVATE_KEY: key.privateKey },
+      stdio: 'pipe',
+      timeout: 60000
+    });
+  });
+
+  test('writes an encrypted keystore that loads back to the same key', async () => {
+    const json = fs.readFileSync(keystore, 'utf8');
+    assert.ok(!json.includes(key.privateKey.slice(2)));
+    assert.equal(fs.statSync(keystore).mode & 0o777, 0o600);
+
+    const wallet = await loadKeystoreSigner(keystore, password);
+    assert.equal(wallet.address, key.address);
+
+    const signers = await loadSigners({ ...config.signer, backend: 'keystore', keystorePath: keystore, keystorePassword: password, authPrivateKey: ethers.id('auth') });
+    assert.equal(signers?.signer.address, key.address);
+    assert.equal(signers?.authSigner.address, new ethers.Wallet(ethers.id('auth')).address);
+  });
+
+  test('refuses a wrong password', async () => {
+    await assert.rejects(loadKeystoreSigner(keystore, 'wrong password'), /incorrect password/);
+  });
+});
+
+describe('RemoteSigner against startRemoteSigner', () => {
+  const impostor = new ethers.Wallet(ethers.Wallet.createRandom().privateKey);
+  let server: Server;
+  let impostorServer: Server;
+  let url: string;
+  let impostorUrl: string;
+
+  async function listen(wallet: ethers.Wallet): Promise<[Server, string]> {
+    const started = startRemoteSigner({ port: 0, wallet, token });
+    await once(started, 'listening');
+    return [started, `http://127.0.0.1:${(started.address() as AddressInfo).port}`];
+  }
+
+  const tx: ethers.TransactionRequest = {
+    chainId: 1, type: 2, nonce: 4, gasLimit: 21000, maxFeePerGas: ethers.parseUnits('30', 'gwei'), maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei'),
+    to: '0x00000000000000000000000000000000000c0de1', value: ethers.parseEther('0.1')
+  };
+
+  before(async () => {
+    [server, url] = await listen(key);
+    [impostorServer, impostorUrl] = await listen(impostor);
+  });
+
+  after(async () => {
+    await Promise.all([server, impostorServer].map(open => new Promise(resolve => open.close(resolve))));
+  });
+
+  test('signs transactions and messages that recover to the remote account', async () => {
+    const signer = await RemoteSigner.open(url, token);
+    assert.equal(signer.address, key.address);
+
+    const signed = ethers.Transaction.from(await signer.signTransaction(tx));
+    assert.equal(signed.from, key.address);
+    assert.equal(signed.nonce, 4);
+    assert.equal(signed.serialized, await key.signTransaction(tx));
+
+    const signature = await signer.signMessage('relay auth');
+    assert.equal(ethers.verifyMessage('relay auth', signature), key.address);
+    await assert.rejects(signer.signTransaction({ ...tx, from: impostor.address }), /does not match remote signer/);
+  });
+
+  test('rejects signatures that recover to another account', async () => {
+    // A signer that answers with some other key than the one it announced
+    const signer = new RemoteSigner(key.address, impostorUrl, token);
+    await assert.rejects(signer.signTransaction(tx), /does not match the request/);
+    await assert.rejects(signer.signMessage('relay auth'), /invalid message signature/);
+  });
+
+  test('refuses requests without the bearer token', async () => {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ jsonrpc: '2.0', id: 1, method: 'signer_accounts', params: [] })
+    });
+    assert.equal(response.status, 401);
+    assert.deepEqual(await response.json(), { jsonrpc: '2.0', id: 1, error: { code: -32001, message: 'unauthorized' } });
+
+    await assert.rejects(RemoteSigner.open(url, 'wrong-token'), /401/);
+    await assert.rejects(RemoteSigner.open(url), /401/);
+    assert.throws(() => startRemoteSigner({ port: 0, wallet: key, token: '' }), /needs a bearer token/);
+  });
+});
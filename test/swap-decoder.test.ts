@@ -0,0 +1,105 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { ChainProfile, getChain, routerRegistry } from '../chains';
+import { PoolState } from '../pool-state';
+import { SwapDescriptor, decodeSwapTransaction, decodeV3Path } from '../swap-decoder';
+import { SwapCallParams, encodeExactInputSwap, exactInputAmountOffset } from '../swap-encoder';
+
+// Calldata for the mainnet routers in the shapes wallets and the Uniswap interface send
+// (multicalls, command chains with permits and sweeps), with the swaps each one holds
+interface SwapFixture {
+  name: string;
+  to: string;
+  value: string;
+  data: string;
+  swaps: SwapDescriptor[];
+}
+
+const FIXTURES = path.join(__dirname, '..', 'fixtures', 'swaps', 'mainnet-routers.json');
+const ethereum = getChain('ethereum');
+const base = getChain('base');
+const TRADER = '0x8ba1f109551bD432803012645Ac136ddd64DBA72';
+
+describe('decodeSwapTransaction on fixtures/swaps', () => {
+  const fixtures: SwapFixture[] = JSON.parse(fs.readFileSync(FIXTURES, 'utf8'));
+  const routers = routerRegistry(ethereum);
+
+  for (const fixture of fixtures) {
+    test(fixture.name, () => {
+      const tx = { to: fixture.to.toLowerCase(), data: fixture.data, value: BigInt(fixture.value) };
+      assert.deepEqual(decodeSwapTransaction(tx, routers), fixture.swaps);
+    });
+  }
+
+  test('ignores contract creations, unknown routers and truncated calldata', () => {
+    const [{ to, data, value }] = fixtures;
+    assert.deepEqual(decodeSwapTransaction({ to: null, data, value: BigInt(value) }, routers), []);
+    assert.deepEqual(decodeSwapTransaction({ to: TRADER, data, value: BigInt(value) }, routers), []);
+    assert.deepEqual(decodeSwapTransaction({ to, data: data.slice(0, 100), value: BigInt(value) }, routers), []);
+  });
+});
+
+describe('decodeV3Path', () => {
+  test('splits tokens and fee tiers', () => {
+    const [usdc, weth, dai] = [ethereum.usdStable, ethereum.wrappedNative, '0x6B175474E89094C44Da98b954EedeAC495271d0F'];
+    const packed = ethers.solidityPacked(['address', 'uint24', 'address', 'uint24', 'address'], [usdc, 500, weth, 3000, dai]);
+    assert.deepEqual(decodeV3Path(packed), { tokens: [usdc, weth, dai], fees: [500, 3000] });
+    assert.deepEqual(decodeV3Path(usdc), { tokens: [usdc], fees: [] });
+  });
+});
+
+describe('encodeExactInputSwap round trip', () => {
+  const amountIn = ethers.parseEther('2');
+  const amountOutMin = 4_900_000000n;
+
+  const v2Pool = { kind: 'v2', dex: 'sushiswap', address: ethers.ZeroAddress } as PoolState;
+  const v3Pool = { kind: 'v3', dex: 'uniswap-v3', address: ethers.ZeroAddress, fee: 500 } as PoolState;
+
+  function roundTrip(chain: ChainProfile, params: Partial<SwapCallParams> & { pool: PoolState }) {
+    const call = encodeExactInputSwap(chain, {
+      tokenIn: chain.wrappedNative, tokenOut: chain.usdStable, amountIn, amountOutMin, recipient: TRADER, deadline: 1705000000, ...params
+    });
+    const [swap, ...rest] = decodeSwapTransaction(call, routerRegistry(chain));
+    assert.equal(rest.length, 0);
+    return { call, swap };
+  }
+
+  // What the flash executor overwrites must be the amountIn word
+  function assertAmountOffset(chain: ChainProfile, pool: PoolState, data: string) {
+    const offset = exactInputAmountOffset(chain, pool);
+    assert.equal(BigInt(ethers.dataSlice(data, offset, offset + 32)), amountIn);
+  }
+
+  test('V2 token swaps and ETH-paid swaps decode to what was encoded', () => {
+    const { call, swap } = roundTrip(ethereum, { pool: v2Pool });
+    assert.equal(swap.venue, 'sushiswap');
+    assert.equal(swap.method, 'swapExactTokensForTokens');
+    assert.deepEqual([swap.path, swap.amountIn, swap.amountOut, swap.recipient, swap.deadline],
+      [[ethereum.wrappedNative, ethereum.usdStable], amountIn.toString(), amountOutMin.toString(), TRADER, 1705000000]);
+    assertAmountOffset(ethereum, v2Pool, call.data);
+
+    const paid = roundTrip(ethereum, { pool: v2Pool, payWithEth: true });
+    assert.equal(paid.call.value, amountIn);
+    assert.equal(paid.swap.method, 'swapExactETHForTokens');
+    assert.equal(paid.swap.amountIn, amountIn.toString());
+  });
+
+  test('V3 swaps through SwapRouter and, where it is the only V3 router, SwapRouter02', () => {
+    const { call, swap } = roundTrip(ethereum, { pool: v3Pool });
+    assert.equal(swap.router, ethereum.routers.find(router => router.kind === 'v3')?.address);
+    assert.deepEqual([swap.method, swap.fees, swap.amountIn, swap.amountOut, swap.deadline],
+      ['exactInputSingle', [500], amountIn.toString(), amountOutMin.toString(), 1705000000]);
+    assertAmountOffset(ethereum, v3Pool, call.data);
+
+    const router02 = roundTrip(base, { pool: v3Pool, payWithEth: true });
+    assert.equal(router02.swap.router, base.routers.find(router => router.kind === 'router02')?.address);
+    assert.equal(router02.call.value, amountIn);
+    // The deadline travels on multicall and is attributed to the swap inside it
+    assert.deepEqual([router02.swap.method, router02.swap.path, router02.swap.deadline],
+      ['exactInputSingle', [base.wrappedNative, base.usdStable], 1705000000]);
+    assertAmountOffset(base, v3Pool, router02.call.data);
+  });
+});
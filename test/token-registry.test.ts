@@ -0,0 +1,225 @@
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { ethers } from 'ethers';
+import { config } from '../config';
+import { getChain } from '../chains';
+import { ProviderPool } from '../provider-pool';
+import { PoolStateCache, V2PoolState } from '../pool-state';
+import { getAmountOut } from '../amm-math';
+import { TokenRegistry, TokenSettings, UnknownTokenError } from '../token-registry';
+
+const chain = getChain('ethereum');
+const WETH = chain.wrappedNative;
+const USDC = chain.usdStable;
+const ERC20 = new ethers.Interface([
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)'
+]);
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+// PUSH4 <selector>, the way a contract's dispatcher carries it
+const push4 = (signature: string) => '63' + ethers.id(signature).slice(2, 10);
+
+interface FakeToken {
+  symbol: string | { bytes32: string };
+  name?: string;
+  decimals: bigint | 'revert';
+  code?: string;
+  implementation?: string;
+}
+
+// A node serving ERC-20 metadata and bytecode for `tokens`; `calls` counts eth_calls
+class FakeChain {
+  calls = 0;
+
+  constructor(private tokens: Record<string, FakeToken>, private codes: Record<string, string> = {}) {}
+
+  readonly providers = {
+    execute: (operation: (provider: unknown) => Promise<unknown>) => operation({
+      call: async ({ to, data }: { to: string; data: string }) => this.call(to, data),
+      getCode: async (address: string) => this.token(address)?.code ?? this.codes[address.toLowerCase()] ?? '0x',
+      getStorage: async (address: string) => ethers.zeroPadValue(this.token(address)?.implementation ?? '0x', 32)
+    })
+  } as unknown as ProviderPool;
+
+  private token(address: string): FakeToken | undefined {
+    return this.tokens[ethers.getAddress(address)];
+  }
+
+  private call(to: string, data: string): string {
+    this.calls++;
+    const token = this.token(to);
+    const call = ERC20.parseTransaction({ data })!;
+    const revert = () => {
+      throw ethers.makeError('execution reverted', 'CALL_EXCEPTION', {
+        action: 'call', data: '0x', reason: null, transaction: { to, data }, invocation: null, revert: null
+      });
+    };
+    if (!token) return '0x';
+
+    switch (call.name) {
+      case 'symbol':
+      case 'name': {
+        const value = call.name === 'symbol' ? token.symbol : token.name ?? '';
+        return typeof value === 'string'
+          ? ERC20.encodeFunctionResult(call.name, [value])
+          : ethers.encodeBytes32String(value.bytes32);
+      }
+      case 'decimals':
+        return token.decimals === 'revert' ? revert() : ERC20.encodeFunctionResult('decimals', [token.decimals]);
+      default:
+        return ERC20.encodeFunctionResult('totalSupply', [10n ** 24n]);
+    }
+  }
+}
+
+function pool(address: string, token: string, wethReserve: bigint, tokenReserve: bigint): V2PoolState {
+  const wethFirst = WETH.toLowerCase() < token.toLowerCase();
+  return {
+    kind: 'v2', dex: 'uniswap-v2', address, blockNumber: 1, feeBps: 30,
+    token0: wethFirst ? WETH : token,
+    token1: wethFirst ? token : WETH,
+    reserve0: wethFirst ? wethReserve : tokenReserve,
+    reserve1: wethFirst ? tokenReserve : wethReserve
+  };
+}
+
+describe('TokenRegistry', () => {
+  const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'token-registry-'));
+  let runs = 0;
+
+  const DAI = '0x6B175474E89094C44Da98b954EedeAC495271d0F';
+  const MKR = '0x9f8F72aA9304c8B593d555F12eF6589cC3A579A2';
+  const NOT_A_TOKEN = '0x1111111111111111111111111111111111111111';
+  const IMPLEMENTATION = '0x2222222222222222222222222222222222222222';
+  const contracts: Record<string, FakeToken> = {
+    [DAI]: { symbol: 'DAI', name: 'Dai Stablecoin', decimals: 18n, code: '0x6080' + push4('blacklist(address)') },
+    [MKR]: { symbol: { bytes32: 'MKR' }, name: 'Maker', decimals: 18n, code: '0x6080', implementation: IMPLEMENTATION },
+    [NOT_A_TOKEN]: { symbol: 'NOPE', decimals: 'revert', code: '0x6080' },
+    [WETH]: { symbol: 'WETH', name: 'Wrapped Ether', decimals: 18n, code: '0x6080' },
+    [USDC]: { symbol: 'USDC', name: 'USD Coin', decimals: 6n, code: '0x6080' }
+  };
+  const implementationCode = { [IMPLEMENTATION.toLowerCase()]: '0x6080' + push4('rebase(uint256,int256)') };
+
+  function registry(
+    fake: FakeChain,
+    pools: Record<string, V2PoolState[]> = {},
+    settings: Partial<TokenSettings> = {}
+  ): TokenRegistry {
+    const cache = {
+      findPools: async (tokenA: string, tokenB: string) => pools[(tokenA === WETH ? tokenB : tokenA).toLowerCase()] ?? []
+    } as unknown as PoolStateCache;
+    return new TokenRegistry(chain, fake.providers, cache, () => 1, {
+      ...config.tokens, forkUrls: {}, cachePath: path.join(directory, `${++runs}.json`), ...settings
+    });
+  }
+
+  after(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('reads metadata, falling back to a bytes32 symbol', async () => {
+    const tokens = registry(new FakeChain(contracts));
+
+    const dai = await tokens.resolve(DAI.toLowerCase());
+    assert.equal(dai.address, DAI);
+    assert.equal(dai.symbol, 'DAI');
+    assert.equal(dai.name, 'Dai Stablecoin');
+    assert.equal(dai.decimals, 18);
+
+    const mkr = await tokens.resolve(MKR);
+    assert.equal(mkr.symbol, 'MKR');
+    assert.equal(mkr.name, 'Maker');
+    assert.deepEqual(tokens.refs([MKR, NOT_A_TOKEN]), [{ address: MKR, symbol: 'MKR', decimals: 18 }]);
+  });
+
+  test('remembers addresses whose decimals() reverts as unknown', async () => {
+    const fake = new FakeChain(contracts);
+    const tokens = registry(fake);
+
+    await assert.rejects(tokens.resolve(NOT_A_TOKEN), (error: unknown) =>
+      error instanceof UnknownTokenError && /decimals\(\) or totalSupply\(\) failed/.test(error.message));
+    const calls = fake.calls;
+    await assert.rejects(tokens.resolve(NOT_A_TOKEN), UnknownTokenError);
+    assert.equal(fake.calls, calls);
+
+    await assert.rejects(tokens.resolve('0x3333333333333333333333333333333333333333'), /no contract code/);
+  });
+
+  test('flags blacklist and rebasing functions in the token or its implementation', async () => {
+    const tokens = registry(new FakeChain(contracts, implementationCode));
+    assert.deepEqual((await tokens.resolve(DAI)).flags, ['blacklistable']);
+    assert.deepEqual((await tokens.resolve(MKR)).flags, ['rebasing']);
+  });
+
+  test('blocks tokens with a blocking flag once they are known', async () => {
+    const tokens = registry(new FakeChain(contracts, implementationCode));
+    // First sight starts the lookup in the background and lets the swap through
+    assert.deepEqual(tokens.blockedTokens([MKR, DAI, WETH]), []);
+    await tokens.resolve(MKR);
+    await tokens.resolve(DAI);
+
+    // Blacklistable is reported, but only blockFlags are acted on
+    assert.deepEqual(tokens.blockedTokens([MKR, DAI, WETH]), [{ address: MKR, reason: 'flagged', flags: ['rebasing'] }]);
+  });
+
+  test('prices a token from its deepest pool against the wrapped native coin', async () => {
+    // The registry's 0.1 ETH probe, built the way it builds amounts from a float
+    const probe = ethers.parseEther((0.1).toFixed(18));
+    const shallow = pool('0x00000000000000000000000000000000000000a1', DAI, ethers.parseEther('10'), ethers.parseEther('20000'));
+    const deep = pool('0x00000000000000000000000000000000000000a2', DAI, ethers.parseEther('1000'), ethers.parseEther('2000000'));
+    const usdc = pool('0x00000000000000000000000000000000000000a3', USDC, ethers.parseEther('1000'), 3_000_000_000000n);
+    const tokens = registry(new FakeChain(contracts), { [DAI.toLowerCase()]: [shallow, deep], [USDC.toLowerCase()]: [usdc] });
+
+    const price = await tokens.price(DAI);
+    assert.ok(price);
+    const daiOut = getAmountOut(probe, ethers.parseEther('1000'), ethers.parseEther('2000000'));
+    const usdcOut = getAmountOut(probe, ethers.parseEther('1000'), 3_000_000_000000n);
+    const native = Number(ethers.formatEther(probe)) / Number(ethers.formatEther(daiOut));
+    assert.equal(price.pool, deep.address);
+    assert.equal(price.native, native);
+    assert.equal(price.eth, native);
+    assert.equal(price.usd, native * (Number(ethers.formatUnits(usdcOut, 6)) / Number(ethers.formatEther(probe))));
+
+    const weth = await tokens.price(WETH);
+    assert.equal(weth?.native, 1);
+    assert.equal(weth?.pool, '');
+  });
+
+  test('has no price without a pool and caches prices for their TTL', async () => {
+    const fake = new FakeChain(contracts);
+    const usdc = pool('0x00000000000000000000000000000000000000a3', USDC, ethers.parseEther('1000'), 3_000_000_000000n);
+    let lookups = 0;
+    const cache = {
+      findPools: async (_: string, token: string) => {
+        lookups++;
+        return token === USDC ? [usdc] : [];
+      }
+    } as unknown as PoolStateCache;
+    const tokens = new TokenRegistry(chain, fake.providers, cache, () => 1, {
+      ...config.tokens, forkUrls: {}, cachePath: path.join(directory, 'ttl.json')
+    });
+
+    assert.equal(await tokens.price(DAI), null);
+    const first = await tokens.price(USDC);
+    const before = lookups;
+    assert.equal(await tokens.price(USDC), first);
+    assert.equal(lookups, before);
+  });
+
+  test('keeps metadata and flags across restarts', async () => {
+    const cachePath = path.join(directory, 'restart.json');
+    const fake = new FakeChain(contracts, implementationCode);
+    await registry(fake, {}, { cachePath }).resolve(MKR);
+
+    const calls = fake.calls;
+    const restarted = registry(fake, {}, { cachePath });
+    assert.deepEqual((await restarted.resolve(MKR)).flags, ['rebasing']);
+    assert.equal(fake.calls, calls);
+  });
+});
@@ -0,0 +1,55 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { ethers } from 'ethers';
+import { getChain } from '../chains';
+import { ProviderPool } from '../provider-pool';
+import { TransactionBroadcaster } from '../tx-broadcaster';
+
+const wallet = ethers.Wallet.createRandom();
+
+function signed(nonce: number): Promise<string> {
+  return wallet.signTransaction({ to: wallet.address, nonce, chainId: 137, gasLimit: 21000, maxFeePerGas: 1n, maxPriorityFeePerGas: 1n, type: 2 });
+}
+
+// Polygon submits through the public mempool; the node answers with `reply` and knows the receipts in `mined`
+function broadcasterFor(reply: (raw: string) => unknown, mined: Set<string> = new Set()): TransactionBroadcaster {
+  const providers = {
+    send: async (method: string, [raw]: string[]) => reply(raw),
+    execute: (operation: (provider: unknown) => Promise<unknown>) =>
+      operation({ getTransactionReceipt: async (hash: string) => mined.has(hash) ? { hash } : null })
+  } as unknown as ProviderPool;
+  return new TransactionBroadcaster(getChain('polygon'), providers);
+}
+
+const nonceTooLow = () => {
+  throw ethers.makeError('nonce has already been used', 'NONCE_EXPIRED', { transaction: {} });
+};
+
+describe('TransactionBroadcaster', () => {
+  test('accepts a transaction the node already holds', async () => {
+    const raw = await signed(0);
+    const broadcaster = broadcasterFor(() => {
+      throw ethers.makeError('could not coalesce error', 'UNKNOWN_ERROR', { error: { code: -32000, message: 'already known' } });
+    });
+
+    const [result] = await broadcaster.sendBundle([raw], 100);
+    assert.equal(result.accepted, true);
+  });
+
+  test('accepts nonce too low once our transaction is mined', async () => {
+    const raw = await signed(0);
+    const broadcaster = broadcasterFor(nonceTooLow, new Set([ethers.Transaction.from(raw).hash!]));
+
+    const [result] = await broadcaster.sendBundle([raw], 100);
+    assert.equal(result.accepted, true);
+  });
+
+  test('rejects nonce too low when another transaction took the nonce', async () => {
+    const broadcaster = broadcasterFor(nonceTooLow);
+
+    const [result] = await broadcaster.sendBundle([await signed(0)], 100);
+    assert.equal(result.accepted, false);
+    assert.match(result.error ?? '', /nonce/);
+    assert.equal(broadcaster.getStats()[0].rejected, 1);
+  });
+});
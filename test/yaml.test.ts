@@ -0,0 +1,85 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { YamlError, parseYaml } from '../yaml';
+
+describe('parseYaml', () => {
+  test('reads nested mappings, sequences and scalars', () => {
+    const source = [
+      '# engine settings',
+      '---',
+      'server:',
+      '  port: 8080 # inline comment',
+      '  host: "0.0.0.0"',
+      '  debug: false',
+      '  ratio: .5',
+      '  missing: ~',
+      'flashbots:',
+      '  relays:',
+      '  - name: flashbots',
+      '    url: https://relay.flashbots.net#fragment',
+      '    enabled: true',
+      '  - name: \'beaver # build\'',
+      '    url: https://rpc.beaverbuild.org',
+      'tags:',
+      '  - fast',
+      '  - -1',
+      'empty:'
+    ].join('\n');
+
+    assert.deepEqual(parseYaml(source), {
+      server: { port: 8080, host: '0.0.0.0', debug: false, ratio: 0.5, missing: null },
+      flashbots: {
+        relays: [
+          { name: 'flashbots', url: 'https://relay.flashbots.net#fragment', enabled: true },
+          { name: 'beaver # build', url: 'https://rpc.beaverbuild.org' }
+        ]
+      },
+      tags: ['fast', -1],
+      empty: null
+    });
+  });
+
+  test('reads flow collections, JSON or flat', () => {
+    assert.deepEqual(parseYaml('tokens: [WETH, USDC, 1]\nprices: {WETH: 3000, "USD Coin": 1}\nnested: [{"a": [1, 2]}]'), {
+      tokens: ['WETH', 'USDC', 1],
+      prices: { WETH: 3000, 'USD Coin': 1 },
+      nested: [{ a: [1, 2] }]
+    });
+  });
+
+  test('reads quoted keys and escapes', () => {
+    assert.deepEqual(parseYaml('"a: b": \'it\'\'s\'\nc: "line\\nbreak"'), { 'a: b': "it's", c: 'line\nbreak' });
+  });
+
+  test('an empty document is null', () => {
+    assert.equal(parseYaml('# nothing here\n\n'), null);
+  });
+
+  for (const [feature, source] of [
+    ['anchors', 'base: &base 1'],
+    ['aliases', 'copy: *base'],
+    ['tags', 'value: !!str 1'],
+    ['literal blocks', 'text: |\n  line'],
+    ['folded blocks', 'text: >\n  line']
+  ]) {
+    test(`rejects ${feature}`, () => {
+      assert.throws(() => parseYaml(source), (error: unknown) => error instanceof YamlError && /unsupported YAML feature/.test(error.message));
+    });
+  }
+
+  test('rejects malformed documents with the offending line', () => {
+    const cases: Array<[string, number, RegExp]> = [
+      ['a:\n\tb: 1', 2, /tabs/],
+      ['a: 1\n    b: 2', 2, /unexpected indentation/],
+      ['a: 1\njust text', 2, /expected "key: value"/],
+      ['a: [1, 2', 1, /unterminated flow collection/],
+      ['a: [1, [2]', 1, /nested flow collections/],
+      ['a: "unterminated', 1, /bad double-quoted string/],
+      ['- 1\nb: 2', 2, /unexpected content/]
+    ];
+    for (const [source, line, message] of cases) {
+      assert.throws(() => parseYaml(source), (error: unknown) =>
+        error instanceof YamlError && error.line === line && message.test(error.message), source);
+    }
+  });
+});
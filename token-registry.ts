@@ -0,0 +1,645 @@
+import fs from 'fs';
+import path from 'path';
+import { ethers } from 'ethers';
+import { TokenFlag, config } from './config';
+import { ChainProfile, chainStatePath, isWrappedNative } from './chains';
+import { ProviderPool } from './provider-pool';
+import { PoolState, PoolStateCache, quoteExactInput } from './pool-state';
+import { EncodedCall, encodeApprove, encodeExactInputSwap, swapRouter } from './swap-encoder';
+import { getAmountOut } from './amm-math';
+import { tokenScreenings } from './metrics';
+import logger from './logger';
+
+export type TokenSettings = typeof config.tokens;
+
+// Last fork screening of a token. Taxes are the share of the amount moved that the
+// token kept for itself, in bps; null where that step did not run.
+export interface TokenScreening {
+  screenedAt: number;
+  blockNumber: number | null; // Fork head the screening ran on
+  pool: string; // Pool the token was bought from and sold back to
+  buyTaxBps: number | null;
+  transferFeeBps: number | null;
+  sellTaxBps: number | null;
+  error?: string; // Why the screening stopped early; the token counts as unscreened
+}
+
+export interface TokenInfo {
+  chain: string;
+  address: string;
+  symbol: string; // Empty when the token has neither a string nor a bytes32 symbol()
+  name: string;
+  decimals: number;
+  flags: TokenFlag[];
+  screening: TokenScreening | null; // null until screened on the chain's fork
+  updatedAt: number;
+}
+
+export interface TokenPrice {
+  address: string;
+  native: number; // Native coin per whole token
+  eth: number;
+  usd: number | null; // null when the chain has no USD stablecoin pool
+  pool: string; // Pool the price was quoted from; empty for the wrapped native token
+  at: number;
+}
+
+// What an opportunity carries about each token it trades
+export interface TokenRef {
+  address: string;
+  symbol: string;
+  decimals: number;
+}
+
+export interface BlockedToken {
+  address: string;
+  reason: 'flagged' | 'unscreened';
+  flags: TokenFlag[];
+}
+
+// Address without an ERC-20 behind it; routes answer 404
+export class UnknownTokenError extends Error {
+  constructor(readonly chain: string, readonly address: string, reason: string) {
+    super(`${address} is not an ERC-20 token on ${chain}: ${reason}`);
+    this.name = 'UnknownTokenError';
+  }
+}
+
+const ERC20 = new ethers.Interface([
+  'function name() view returns (string)',
+  'function symbol() view returns (string)',
+  'function decimals() view returns (uint8)',
+  'function totalSupply() view returns (uint256)',
+  'function balanceOf(address owner) view returns (uint256)',
+  'function transfer(address to, uint256 amount) returns (bool)'
+]);
+// MKR-style tokens return name and symbol as bytes32
+const ERC20_BYTES32 = new ethers.Interface([
+  'function name() view returns (bytes32)',
+  'function symbol() view returns (bytes32)'
+]);
+const V2_PAIR = new ethers.Interface([
+  'function getReserves() view returns (uint112 reserve0, uint112 reserve1, uint32 blockTimestampLast)',
+  'function swap(uint256 amount0Out, uint256 amount1Out, address to, bytes data)'
+]);
+
+// Functions that give a token away in its own (or its EIP-1967 implementation's) bytecode
+const BLACKLIST_SELECTORS = selectors([
+  'isBlacklisted(address)',
+  'isBlackListed(address)',
+  'blacklisted(address)',
+  'blacklist(address)',
+  'addBlackList(address)',
+  'addToBlacklist(address)',
+  'isBlocked(address)'
+]);
+const REBASING_SELECTORS = selectors([
+  'rebase(uint256,int256)', // Ampleforth
+  'sharesOf(address)', // Lido
+  'scaledBalanceOf(address)' // Aave aTokens
+]);
+const EIP1967_IMPLEMENTATION_SLOT = '0x360894a13ba1a3210667c828492db98dca3e2076cc3735a920a3ca505d382bbc';
+
+// Size of the buy prices are quoted from, in ETH
+const PRICE_PROBE_ETH = 0.1;
+const REBASE_WINDOW_SECONDS = 86400;
+const SCREEN_GAS_LIMIT = 1000000n;
+const BPS = 10000n;
+
+// PUSH4 <selector>, as the dispatcher of every Solidity/Vyper contract compiles it
+function selectors(signatures: string[]): string[] {
+  return signatures.map(signature => '63' + ethers.id(signature).slice(2, 10));
+}
+
+// Share of `sent` that did not arrive, in bps (rounded down, so wei-level rounding is 0)
+function lossBps(sent: bigint, arrived: bigint): number {
+  if (sent === 0n || arrived >= sent) return 0;
+  return Number((sent - arrived) * BPS / sent);
+}
+
+// Contract reverts and undecodable results are answers, not endpoint failures; anything
+// else is rethrown so the provider pool fails over
+function unlessReverted<T>(call: Promise<T>): Promise<T | null> {
+  return call.catch(error => {
+    if (ethers.isError(error, 'CALL_EXCEPTION') || ethers.isError(error, 'BAD_DATA')) return null;
+    throw error;
+  });
+}
+
+function bytes32Text(value: string | null): string | null {
+  if (!value) return null;
+  try {
+    return ethers.toUtf8String(ethers.getBytes(value)).replace(/\0+$/, '');
+  } catch {
+    return null;
+  }
+}
+
+// ethers errors carry a shortMessage without the request dump
+function describe(error: unknown): string {
+  if (!(error instanceof Error)) return String(error);
+  return 'shortMessage' in error && typeof error.shortMessage === 'string' ? error.shortMessage : error.message;
+}
+
+// Registry of the ERC-20s one chain's analyzer meets. Metadata is read once and kept on
+// disk with the screening results; prices are quoted from the executor's pool cache
+// against the wrapped native token and converted to ETH and, through the chain's USD
+// stablecoin pool, to USD. On chains with a screening fork every token is bought from its
+// deepest wrapped-native pool, half of it moved to a second account, a day let pass and
+// the rest sold back: a token that keeps part of any of these transfers is
+// fee-on-transfer, one whose balance moves by itself is rebasing, one that cannot be
+// moved or sold (or keeps honeypotTaxBps of the sale) is a honeypot. Blacklist and share
+// accounting functions are read from the bytecode. The analyzer skips swaps through
+// tokens with a blockFlags flag and, with skipUnscreened, through tokens still waiting
+// for their first screening. Without a fork only the bytecode flags are known, and only
+// from the second time a token is seen.
+export class TokenRegistry {
+  private tokens: Map<string, TokenInfo> = new Map();
+  private prices: Map<string, TokenPrice> = new Map();
+  private inFlight: Map<string, Promise<unknown>> = new Map();
+  // Addresses that turned out not to be ERC-20 tokens; not looked up again while running
+  private unknown: Map<string, UnknownTokenError> = new Map();
+  private screenQueue: Promise<unknown> = Promise.resolve();
+  private fork: ethers.JsonRpcProvider | null = null;
+  private statePath: string;
+
+  constructor(
+    readonly chain: ChainProfile,
+    private providers: ProviderPool,
+    private pools: PoolStateCache,
+    private ethPerNative: () => number = () => 1,
+    private settings: TokenSettings = config.tokens
+  ) {
+    const forkUrl = settings.forkUrls[chain.name];
+    if (forkUrl) {
+      this.fork = new ethers.JsonRpcProvider(forkUrl, chain.chainId, { staticNetwork: true });
+    }
+    this.statePath = chainStatePath(settings.cachePath, chain);
+    this.load();
+  }
+
+  get canScreen(): boolean {
+    return this.fork !== null;
+  }
+
+  get(address: string): TokenInfo | undefined {
+    const info = this.tokens.get(address.toLowerCase());
+    return info && copy(info);
+  }
+
+  list(): TokenInfo[] {
+    return [...this.tokens.values()].map(copy);
+  }
+
+  // Symbol and decimals of the given tokens the registry already knows
+  refs(addresses: string[]): TokenRef[] {
+    return addresses
+      .map(address => this.tokens.get(address.toLowerCase()))
+      .filter((info): info is TokenInfo => info !== undefined)
+      .map(info => ({ address: info.address, symbol: info.symbol, decimals: info.decimals }));
+  }
+
+  // Metadata and bytecode flags, read on first use. Throws UnknownTokenError for
+  // addresses that do not answer like an ERC-20.
+  async resolve(address: string): Promise<TokenInfo> {
+    const known = this.get(address);
+    if (known) return known;
+    const unknown = this.unknown.get(address.toLowerCase());
+    if (unknown) throw unknown;
+
+    const token = ethers.getAddress(address);
+    return this.once(`resolve:${token.toLowerCase()}`, async () => {
+      const [metadata, flags] = await Promise.all([this.readMetadata(token), this.readCodeFlags(token)]);
+      const info: TokenInfo = {
+        chain: this.chain.name,
+        address: token,
+        ...metadata,
+        flags,
+        screening: null,
+        updatedAt: Date.now()
+      };
+      this.tokens.set(token.toLowerCase(), info);
+      this.save();
+      return copy(info);
+    });
+  }
+
+  // Tokens among `addresses` the analyzer must not trade. Tokens seen for the first time,
+  // or whose screening is due, are looked up and screened in the background.
+  blockedTokens(addresses: string[]): BlockedToken[] {
+    const blocked: BlockedToken[] = [];
+    for (const address of addresses) {
+      if (isWrappedNative(this.chain, address)) continue;
+
+      const key = address.toLowerCase();
+      const info = this.tokens.get(key);
+      if (info ? this.screeningDue(info) : !this.unknown.has(key)) {
+        this.track(address);
+      }
+
+      const flags = info?.flags ?? [];
+      if (flags.some(flag => this.settings.blockFlags.includes(flag))) {
+        blocked.push({ address, reason: 'flagged', flags });
+      } else if (this.settings.skipUnscreened && this.canScreen && !isScreened(info)) {
+        blocked.push({ address, reason: 'unscreened', flags });
+      }
+    }
+    return blocked;
+  }
+
+  // Buys, moves and sells the token on the chain's fork and records the verdict.
+  // Screenings share the fork, so they run one at a time.
+  async screen(address: string): Promise<TokenInfo> {
+    if (!this.fork) {
+      throw new Error(`No screening fork configured for ${this.chain.name} (tokens.forkUrls.${this.chain.name})`);
+    }
+    const info = await this.resolve(address);
+    return this.once(`screen:${info.address.toLowerCase()}`, () => {
+      const run = this.screenQueue.then(() => this.runScreening(info));
+      this.screenQueue = run.catch(() => undefined);
+      return run;
+    });
+  }
+
+  // Price of one whole token; null when no pool against the wrapped native token has liquidity
+  async price(address: string): Promise<TokenPrice | null> {
+    const cached = this.prices.get(address.toLowerCase());
+    if (cached && Date.now() - cached.at < this.settings.priceTtlMs) return cached;
+
+    const info = await this.resolve(address);
+    let native = 1;
+    let pool = '';
+    if (!isWrappedNative(this.chain, info.address)) {
+      const best = await this.deepestPool(info.address, PRICE_PROBE_ETH);
+      if (!best || best.amountOut === 0n) return null;
+      native = Number(ethers.formatEther(best.amountIn)) / Number(ethers.formatUnits(best.amountOut, info.decimals));
+      pool = best.pool.address;
+    }
+
+    const nativeUsd = await this.nativePriceUsd();
+    const price: TokenPrice = {
+      address: info.address,
+      native,
+      eth: native * this.ethPerNative(),
+      usd: nativeUsd === null ? null : native * nativeUsd,
+      pool,
+      at: Date.now()
+    };
+    this.prices.set(info.address.toLowerCase(), price);
+    return price;
+  }
+
+  // USD per native coin, from what a probe buy of the chain's stablecoin returns
+  private async nativePriceUsd(): Promise<number | null> {
+    if (!this.chain.usdStable) return null;
+    const stable = await this.resolve(this.chain.usdStable);
+    const best = await this.deepestPool(stable.address, PRICE_PROBE_ETH);
+    if (!best || best.amountOut === 0n) return null;
+    return Number(ethers.formatUnits(best.amountOut, stable.decimals)) / Number(ethers.formatEther(best.amountIn));
+  }
+
+  // The wrapped-native pool returning the most tokens for a buy of `amountEth`
+  private async deepestPool(token: string, amountEth: number): Promise<{ pool: PoolState; amountIn: bigint; amountOut: bigint } | null> {
+    const wrapped = this.chain.wrappedNative;
+    const amountIn = this.nativeAmount(amountEth);
+    let best: { pool: PoolState; amountIn: bigint; amountOut: bigint } | null = null;
+
+    for (const pool of await this.pools.findPools(wrapped, token)) {
+      try {
+        const { amountOut } = quoteExactInput(pool, wrapped, amountIn);
+        if (!best || amountOut > best.amountOut) {
+          best = { pool, amountIn, amountOut };
+        }
+      } catch (error) {
+        // A V3 buy that runs past the loaded ticks is too large for this pool anyway
+        logger.debug(`No quote from pool ${pool.address} on ${this.chain.name}: ${describe(error)}`);
+      }
+    }
+    return best;
+  }
+
+  private async runScreening(info: TokenInfo): Promise<TokenInfo> {
+    const codeFlags = await this.readCodeFlags(info.address);
+    let screening: TokenScreening;
+    let tradeFlags: TokenFlag[] = [];
+    try {
+      ({ screening, flags: tradeFlags } = await this.screenOnFork(this.fork!, info));
+    } catch (error) {
+      screening = {
+        screenedAt: Date.now(),
+        blockNumber: null,
+        pool: '',
+        buyTaxBps: null,
+        transferFeeBps: null,
+        sellTaxBps: null,
+        error: describe(error)
+      };
+      logger.warn(`Screening of ${info.symbol || info.address} on ${this.chain.name} failed: ${screening.error}`);
+    }
+
+    const updated: TokenInfo = {
+      ...info,
+      flags: [...new Set([...codeFlags, ...tradeFlags])],
+      screening,
+      updatedAt: Date.now()
+    };
+    this.tokens.set(info.address.toLowerCase(), updated);
+    this.save();
+
+    const result = screening.error ? 'failed' : updated.flags.length > 0 ? 'flagged' : 'clean';
+    tokenScreenings.inc({ chain: this.chain.name, result });
+    if (result === 'flagged') {
+      logger.info(`Token ${info.symbol || info.address} on ${this.chain.name} flagged: ${updated.flags.join(', ')}`);
+    }
+    return copy(updated);
+  }
+
+  // Runs the trades inside an evm_snapshot so the fork is left as it was
+  private async screenOnFork(fork: ethers.JsonRpcProvider, info: TokenInfo): Promise<{ screening: TokenScreening; flags: TokenFlag[] }> {
+    const best = await this.deepestPool(info.address, this.settings.screenAmountEth);
+    if (!best) {
+      throw new Error(`No pool against ${this.chain.nativeSymbol} to trade it in`);
+    }
+
+    const head = await fork.getBlock('latest');
+    if (!head) throw new Error('Fork did not return its head block');
+    const snapshotId: string = await fork.send('evm_snapshot', []);
+    try {
+      return await this.tradeOnFork(fork, info, best.pool, best.amountIn, head);
+    } finally {
+      await fork.send('evm_revert', [snapshotId]);
+    }
+  }
+
+  private async tradeOnFork(
+    fork: ethers.JsonRpcProvider,
+    info: TokenInfo,
+    pool: PoolState,
+    amountIn: bigint,
+    head: ethers.Block
+  ): Promise<{ screening: TokenScreening; flags: TokenFlag[] }> {
+    const buyer = ethers.Wallet.createRandom().address;
+    const holder = ethers.Wallet.createRandom().address;
+    for (const account of [buyer, holder]) {
+      await fork.send('hardhat_impersonateAccount', [account]);
+      await fork.send('hardhat_setBalance', [account, ethers.toQuantity(amountIn * 2n + ethers.parseEther('1'))]);
+    }
+    const balanceOf = (owner: string) => this.forkBalance(fork, info.address, owner);
+    // Long enough to survive the time warp below
+    const deadline = head.timestamp + REBASE_WINDOW_SECONDS + 3600;
+
+    const flags: TokenFlag[] = [];
+    const screening: TokenScreening = {
+      screenedAt: Date.now(),
+      blockNumber: head.number,
+      pool: pool.address,
+      buyTaxBps: null,
+      transferFeeBps: null,
+      sellTaxBps: null
+    };
+
+    // Buy: whatever leaves the pool without reaching the buyer is the token's cut
+    const poolBefore = await balanceOf(pool.address);
+    const buy = encodeExactInputSwap(this.chain, {
+      pool,
+      tokenIn: this.chain.wrappedNative,
+      tokenOut: info.address,
+      amountIn,
+      amountOutMin: 0n,
+      recipient: buyer,
+      deadline,
+      payWithEth: true
+    });
+    if (!await this.sendOnFork(fork, buyer, buy)) {
+      throw new Error('The screening buy reverted');
+    }
+    const bought = await balanceOf(buyer);
+    if (bought === 0n) throw new Error('The screening buy delivered no tokens');
+    screening.buyTaxBps = lossBps(poolBefore - await balanceOf(pool.address), bought);
+
+    // Transfer between two plain accounts
+    const moved = bought / 2n;
+    const transfer = { to: info.address, data: ERC20.encodeFunctionData('transfer', [holder, moved]), value: 0n };
+    if (!await this.sendOnFork(fork, buyer, transfer)) {
+      flags.push('honeypot');
+      return { screening, flags };
+    }
+    const received = await balanceOf(holder);
+    screening.transferFeeBps = lossBps(moved, received);
+
+    // A day later the holder's balance should not have moved by itself
+    await fork.send('evm_increaseTime', [REBASE_WINDOW_SECONDS]);
+    await fork.send('evm_mine', []);
+    const held = await balanceOf(holder);
+    if (held !== received) flags.push('rebasing');
+
+    // Sell the holder's tokens back into the same pool
+    screening.sellTaxBps = await this.sellOnFork(fork, info, pool, holder, held, deadline);
+    if (screening.sellTaxBps === null || screening.sellTaxBps >= this.settings.honeypotTaxBps) {
+      flags.push('honeypot');
+    }
+    if ([screening.buyTaxBps, screening.transferFeeBps, screening.sellTaxBps].some(bps => bps !== null && bps > 0)) {
+      flags.push('fee-on-transfer');
+    }
+    return { screening, flags };
+  }
+
+  // Sell tax in bps, or null when the sell reverts. V2 sells go straight into the pair the
+  // way the router's fee-on-transfer variant does, so only the tokens that arrive are
+  // priced. V3 pools require the full amount to arrive and cannot take fee-on-transfer
+  // tokens at all, so such a token fails the sell there.
+  private async sellOnFork(
+    fork: ethers.JsonRpcProvider,
+    info: TokenInfo,
+    pool: PoolState,
+    seller: string,
+    amount: bigint,
+    deadline: number
+  ): Promise<number | null> {
+    const poolBefore = await this.forkBalance(fork, info.address, pool.address);
+
+    if (pool.kind === 'v2') {
+      const transfer = { to: info.address, data: ERC20.encodeFunctionData('transfer', [pool.address, amount]), value: 0n };
+      if (!await this.sendOnFork(fork, seller, transfer)) return null;
+
+      const poolAfter = await this.forkBalance(fork, info.address, pool.address);
+      const [reserve0, reserve1] = V2_PAIR.decodeFunctionResult('getReserves',
+        await fork.call({ to: pool.address, data: V2_PAIR.encodeFunctionData('getReserves') }));
+      const tokenIsToken0 = info.address.toLowerCase() === pool.token0.toLowerCase();
+      const [reserveIn, reserveOut]: bigint[] = tokenIsToken0 ? [reserve0, reserve1] : [reserve1, reserve0];
+      const amountOut = getAmountOut(poolAfter - reserveIn, reserveIn, reserveOut, pool.feeBps);
+      if (amountOut === 0n) throw new Error('The screening sell is too small to quote');
+
+      const swap = {
+        to: pool.address,
+        data: V2_PAIR.encodeFunctionData('swap', tokenIsToken0 ? [0n, amountOut, seller, '0x'] : [amountOut, 0n, seller, '0x']),
+        value: 0n
+      };
+      if (!await this.sendOnFork(fork, seller, swap)) return null;
+      return lossBps(amount, poolAfter - poolBefore);
+    }
+
+    const router = swapRouter(this.chain, pool.dex).address;
+    if (!await this.sendOnFork(fork, seller, encodeApprove(info.address, router, amount))) return null;
+    const sell = encodeExactInputSwap(this.chain, {
+      pool,
+      tokenIn: info.address,
+      tokenOut: this.chain.wrappedNative,
+      amountIn: amount,
+      amountOutMin: 0n,
+      recipient: seller,
+      deadline
+    });
+    if (!await this.sendOnFork(fork, seller, sell)) return null;
+    return lossBps(amount, await this.forkBalance(fork, info.address, pool.address) - poolBefore);
+  }
+
+  // Sends from an impersonated account; false when the transaction reverts
+  private async sendOnFork(fork: ethers.JsonRpcProvider, from: string, call: EncodedCall): Promise<boolean> {
+    try {
+      const hash: string = await fork.send('eth_sendTransaction', [{
+        from,
+        to: call.to,
+        data: call.data,
+        value: ethers.toQuantity(call.value),
+        gas: ethers.toQuantity(SCREEN_GAS_LIMIT)
+      }]);
+      const receipt = await fork.getTransactionReceipt(hash);
+      return receipt?.status === 1;
+    } catch (error) {
+      // Hardhat rejects reverting transactions instead of mining them
+      if (/revert/i.test(describe(error))) return false;
+      throw error;
+    }
+  }
+
+  private async forkBalance(fork: ethers.JsonRpcProvider, token: string, owner: string): Promise<bigint> {
+    const [balance] = ERC20.decodeFunctionResult('balanceOf',
+      await fork.call({ to: token, data: ERC20.encodeFunctionData('balanceOf', [owner]) }));
+    return balance;
+  }
+
+  // Reads with providers.execute(), then decides whether the address is a token at all
+  private async readMetadata(token: string): Promise<Pick<TokenInfo, 'symbol' | 'name' | 'decimals'>> {
+    const { code, decimals, totalSupply, symbol, name } = await this.providers.execute(async provider => {
+      const erc20 = new ethers.Contract(token, ERC20, provider);
+      const legacy = new ethers.Contract(token, ERC20_BYTES32, provider);
+      const [code, decimals, totalSupply, symbol, name] = await Promise.all([
+        provider.getCode(token),
+        unlessReverted<bigint>(erc20.decimals()),
+        unlessReverted<bigint>(erc20.totalSupply()),
+        unlessReverted<string>(erc20.symbol()),
+        unlessReverted<string>(erc20.name())
+      ]);
+      return {
+        code,
+        decimals,
+        totalSupply,
+        symbol: symbol ?? bytes32Text(await unlessReverted<string>(legacy.symbol())),
+        name: name ?? bytes32Text(await unlessReverted<string>(legacy.name()))
+      };
+    });
+
+    if (code === '0x') throw this.rememberUnknown(token, 'no contract code');
+    if (decimals === null || totalSupply === null) {
+      throw this.rememberUnknown(token, 'decimals() or totalSupply() failed');
+    }
+    return { symbol: symbol ?? '', name: name ?? '', decimals: Number(decimals) };
+  }
+
+  private rememberUnknown(token: string, reason: string): UnknownTokenError {
+    const error = new UnknownTokenError(this.chain.name, token, reason);
+    this.unknown.set(token.toLowerCase(), error);
+    return error;
+  }
+
+  // Flags visible in the bytecode of the token and, behind an EIP-1967 proxy, its implementation
+  private readCodeFlags(token: string): Promise<TokenFlag[]> {
+    return this.providers.execute(async provider => {
+      const [code, slot] = await Promise.all([
+        provider.getCode(token),
+        provider.getStorage(token, EIP1967_IMPLEMENTATION_SLOT)
+      ]);
+      const implementation = ethers.getAddress(ethers.dataSlice(slot, 12));
+      const bytecode = implementation === ethers.ZeroAddress ? code : code + await provider.getCode(implementation);
+
+      const flags: TokenFlag[] = [];
+      if (BLACKLIST_SELECTORS.some(selector => bytecode.includes(selector))) flags.push('blacklistable');
+      if (REBASING_SELECTORS.some(selector => bytecode.includes(selector))) flags.push('rebasing');
+      return flags;
+    });
+  }
+
+  private screeningDue(info: TokenInfo): boolean {
+    if (!this.canScreen) return false;
+    return !info.screening || Date.now() - info.screening.screenedAt > this.settings.rescreenAfterHours * 3600000;
+  }
+
+  // Background lookup (and screening where due) of a token the analyzer has just met
+  private track(address: string): void {
+    this.once(`track:${address.toLowerCase()}`, async () => {
+      const info = await this.resolve(address);
+      if (this.screeningDue(info)) {
+        await this.screen(address);
+      }
+    }).catch(error => logger.warn(`Token ${address} on ${this.chain.name} could not be looked up: ${describe(error)}`));
+  }
+
+  // Joins a running task with the same key instead of starting it twice
+  private once<T>(key: string, task: () => Promise<T>): Promise<T> {
+    const running = this.inFlight.get(key);
+    if (running) return running as Promise<T>;
+    const promise = task().finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, promise);
+    return promise;
+  }
+
+  private nativeAmount(amountEth: number): bigint {
+    return ethers.parseEther((amountEth / this.ethPerNative()).toFixed(18));
+  }
+
+  private load(): void {
+    if (!fs.existsSync(this.statePath)) return;
+    try {
+      const saved: TokenInfo[] = JSON.parse(fs.readFileSync(this.statePath, 'utf8'));
+      for (const info of saved) {
+        this.tokens.set(info.address.toLowerCase(), info);
+      }
+      logger.info(`Loaded ${this.tokens.size} tokens for ${this.chain.name} from ${this.statePath}`);
+    } catch (error) {
+      // Everything in the cache can be read or screened again
+      logger.warn(`Ignoring unreadable token cache ${this.statePath}:`, error);
+    }
+  }
+
+  private save(): void {
+    try {
+      fs.mkdirSync(path.dirname(this.statePath), { recursive: true });
+      fs.writeFileSync(this.statePath, JSON.stringify(this.list(), null, 2));
+    } catch (error) {
+      logger.error('Failed to persist the token cache:', error);
+    }
+  }
+}
+
+function copy(info: TokenInfo): TokenInfo {
+  return { ...info, flags: [...info.flags] };
+}
+
+function isScreened(info: TokenInfo | undefined): boolean {
+  return !!info?.screening && !info.screening.error;
+}
+
+// Registries of the running chain executors by chain name; engine-registry.ts keeps it in step with chainEngines
+export const tokenRegistries = new Map<string, TokenRegistry>();
+
+// A known token on any running chain by address or symbol, for callers that only have a
+// string (Base44 quotes); the first enabled chain that knows it wins
+export function findToken(query: string): TokenInfo | null {
+  const wanted = query.trim().toLowerCase();
+  for (const registry of tokenRegistries.values()) {
+    const match = registry.list().find(info => info.address.toLowerCase() === wanted || info.symbol.toLowerCase() === wanted);
+    if (match) return match;
+  }
+  return null;
+}
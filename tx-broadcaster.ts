@@ -0,0 +1,117 @@
+import { ethers } from 'ethers';
+import { ChainProfile } from './chains';
+import { ProviderPool } from './provider-pool';
+import { BundleTransport } from './bundle-submission';
+import { RelayResult, RelayStats } from './relay-fanout';
+import logger from './logger';
+import { bundlesIncluded, bundlesSubmitted } from './metrics';
+
+// A transaction we already sent for an earlier target block is not a rejection
+const ALREADY_SENT = /already known|known transaction|already imported/i;
+// Also answered when this very transaction was mined, but just as well when another one
+// took its nonce; only the receipt tells the two apart
+const NONCE_USED = /nonce too low|nonce has already been used/i;
+
+// Submission for chains without a bundle market. L2 sequencers order transactions as
+// they arrive and Polygon only has the public mempool, so a bundle's transactions are
+// sent one by one, in order, with eth_sendRawTransaction: to the chain's sequencer
+// endpoint when it has one, else through its provider pool. Nothing makes them
+// atomic; simulation and the minimum profit are the only guard, and sandwiches are
+// not built for these chains at all. Every block on the chain counts as built by
+// this "relay", so the gas bidder learns a single share.
+export class TransactionBroadcaster implements BundleTransport {
+  readonly name: string;
+  private stats: RelayStats;
+  private latencyTotal = 0;
+  private sequencer: ethers.JsonRpcProvider | null = null;
+
+  constructor(private chain: ChainProfile, private providers: ProviderPool) {
+    this.name = `${chain.name}-${chain.submission}`;
+    if (chain.submission === 'sequencer' && chain.sequencerUrl) {
+      this.sequencer = new ethers.JsonRpcProvider(chain.sequencerUrl, chain.chainId, { staticNetwork: true });
+    }
+    this.stats = {
+      name: this.name,
+      url: this.sequencer ? chain.sequencerUrl : 'rpc',
+      enabled: true,
+      submitted: 0,
+      accepted: 0,
+      rejected: 0,
+      included: 0,
+      avgLatencyMs: 0
+    };
+  }
+
+  async sendBundle(signedTransactions: string[], blockNumber: number): Promise<RelayResult[]> {
+    const started = Date.now();
+    this.stats.submitted++;
+
+    for (const raw of signedTransactions) {
+      try {
+        await this.sendRaw(raw);
+      } catch (error) {
+        const message = rejectionMessage(error);
+        if (ALREADY_SENT.test(message)) continue;
+        if (NONCE_USED.test(message) && await this.isMined(raw)) continue;
+
+        this.stats.rejected++;
+        this.stats.lastError = message;
+        bundlesSubmitted.inc({ relay: this.name, result: 'rejected' });
+        logger.warn(`${this.name} rejected a transaction for block ${blockNumber}: ${message}`);
+        return [{ relay: this.name, accepted: false, error: message, latencyMs: this.recordLatency(started) }];
+      }
+    }
+
+    this.stats.accepted++;
+    bundlesSubmitted.inc({ relay: this.name, result: 'accepted' });
+    return [{ relay: this.name, accepted: true, latencyMs: this.recordLatency(started) }];
+  }
+
+  builderOf(): string | null {
+    return this.name;
+  }
+
+  recordInclusion(): string | null {
+    this.stats.included++;
+    bundlesIncluded.inc({ relay: this.name });
+    return this.name;
+  }
+
+  getStats(): RelayStats[] {
+    return [{ ...this.stats }];
+  }
+
+  private sendRaw(raw: string): Promise<unknown> {
+    if (this.sequencer) {
+      return this.sequencer.send('eth_sendRawTransaction', [raw]);
+    }
+    return this.providers.send('eth_sendRawTransaction', [raw]);
+  }
+
+  private async isMined(raw: string): Promise<boolean> {
+    const hash = ethers.Transaction.from(raw).hash!;
+    try {
+      return (await this.providers.execute(provider => provider.getTransactionReceipt(hash))) !== null;
+    } catch (error) {
+      logger.warn(`${this.name} could not look up ${hash}: ${rejectionMessage(error)}`);
+      return false;
+    }
+  }
+
+  private recordLatency(started: number): number {
+    const latency = Date.now() - started;
+    this.latencyTotal += latency;
+    this.stats.avgLatencyMs = Math.round(this.latencyTotal / this.stats.submitted);
+    return latency;
+  }
+}
+
+// The node's JSON-RPC error message when there is one, e.g. "nonce too low"
+function rejectionMessage(error: unknown): string {
+  const payload = typeof error === 'object' && error !== null && 'error' in error ? error.error : undefined;
+  if (typeof payload === 'object' && payload !== null && 'message' in payload && typeof payload.message === 'string') {
+    return payload.message;
+  }
+  if (!(error instanceof Error)) return String(error);
+  return 'shortMessage' in error && typeof error.shortMessage === 'string' ? error.shortMessage : error.message;
+}
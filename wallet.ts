@@ -0,0 +1,44 @@
+import { ethers } from 'ethers';
+import { ProviderPool } from './provider-pool';
+import { NonceManager } from './nonce-manager';
+import { AccountSigner } from './signer';
+
+// Searcher wallet: signs transactions through whichever signer backend is configured
+// and owns the account's nonce bookkeeping, so every signing path draws nonces from
+// the same NonceManager.
+export class WalletManager {
+  readonly nonces: NonceManager;
+
+  constructor(readonly signer: AccountSigner, providers: ProviderPool) {
+    this.nonces = new NonceManager(signer.address, providers);
+  }
+
+  get address(): string {
+    return this.signer.address;
+  }
+
+  getAddress(): string {
+    return this.signer.address;
+  }
+
+  signTransaction(tx: ethers.TransactionRequest): Promise<string> {
+    return this.signer.signTransaction(tx);
+  }
+
+  // Our nonces among a bundle's signed transactions (other parties' txs are skipped)
+  ownNonces(signedTransactions: string[]): number[] {
+    const address = this.signer.address.toLowerCase();
+    return signedTransactions
+      .map(raw => ethers.Transaction.from(raw))
+      .filter(tx => tx.from?.toLowerCase() === address)
+      .map(tx => tx.nonce);
+  }
+
+  start(): void {
+    this.nonces.start();
+  }
+
+  stop(): void {
+    this.nonces.stop();
+  }
+}
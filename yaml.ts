@@ -0,0 +1,163 @@
+// The YAML subset config files need: nested block mappings and sequences, comments,
+// plain/quoted scalars and single-line flow collections ([a, b], {a: 1}). Anchors,
+// tags and multi-line scalars are rejected rather than misread.
+
+interface YamlLine {
+  indent: number;
+  text: string;
+  line: number;
+}
+
+export class YamlError extends Error {
+  constructor(message: string, readonly line: number) {
+    super(`YAML line ${line}: ${message}`);
+    this.name = 'YamlError';
+  }
+}
+
+export function parseYaml(source: string): unknown {
+  const lines: YamlLine[] = [];
+  source.split(/\r?\n/).forEach((raw, i) => {
+    const text = stripComment(raw).trimEnd();
+    if (text.trim() === '' || text.trim() === '---') return;
+    const indent = text.search(/\S/);
+    if (/^\s*\t/.test(raw)) throw new YamlError('tabs are not allowed for indentation', i + 1);
+    lines.push({ indent, text: text.trim(), line: i + 1 });
+  });
+  if (lines.length === 0) return null;
+
+  let pos = 0;
+
+  const isItem = (text: string) => text === '-' || text.startsWith('- ');
+  const isEntry = (text: string) => /^("[^"]*"|'[^']*'|[^\s"'{[][^:]*?)\s*:(\s|$)/.test(text);
+
+  function parseNode(indent: number): unknown {
+    return isItem(lines[pos].text) ? parseSequence(indent) : parseMapping(indent);
+  }
+
+  function parseSequence(indent: number): unknown[] {
+    const items: unknown[] = [];
+    while (pos < lines.length && lines[pos].indent === indent && isItem(lines[pos].text)) {
+      const current = lines[pos];
+      const rest = current.text.slice(1).trimStart();
+      if (rest === '') {
+        pos++;
+        items.push(pos < lines.length && lines[pos].indent > indent ? parseNode(lines[pos].indent) : null);
+      } else if (isEntry(rest)) {
+        // "- key: value" opens a mapping indented to where "key" starts
+        const childIndent = indent + current.text.length - rest.length;
+        lines[pos] = { ...current, indent: childIndent, text: rest };
+        items.push(parseMapping(childIndent));
+      } else {
+        pos++;
+        items.push(parseScalar(rest, current.line));
+      }
+    }
+    return items;
+  }
+
+  function parseMapping(indent: number): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    while (pos < lines.length && lines[pos].indent === indent && !isItem(lines[pos].text)) {
+      const current = lines[pos];
+      const match = current.text.match(/^("[^"]*"|'[^']*'|[^:]+?)\s*:(?:\s+(.*))?$/);
+      if (!match) throw new YamlError('expected "key: value"', current.line);
+      const key = unquote(match[1]);
+      const rest = match[2]?.trim();
+      pos++;
+
+      if (rest) {
+        result[key] = parseScalar(rest, current.line);
+      } else if (pos < lines.length && lines[pos].indent > indent) {
+        result[key] = parseNode(lines[pos].indent);
+      } else if (pos < lines.length && lines[pos].indent === indent && isItem(lines[pos].text)) {
+        // Sequences may sit at their key's own indentation
+        result[key] = parseSequence(indent);
+      } else {
+        result[key] = null;
+      }
+    }
+    if (pos < lines.length && lines[pos].indent > indent) {
+      throw new YamlError('unexpected indentation', lines[pos].line);
+    }
+    return result;
+  }
+
+  const root = parseNode(lines[0].indent);
+  if (pos < lines.length) {
+    throw new YamlError('unexpected content after the document', lines[pos].line);
+  }
+  return root;
+}
+
+function parseScalar(text: string, line: number): unknown {
+  if (/^[&*!|>]/.test(text)) {
+    throw new YamlError(`unsupported YAML feature '${text[0]}'`, line);
+  }
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new YamlError(`bad double-quoted string ${text}`, line);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) throw new YamlError(`bad single-quoted string ${text}`, line);
+    return unquote(text);
+  }
+  if (text.startsWith('[') || text.startsWith('{')) {
+    return parseFlow(text, line);
+  }
+  if (text === '~' || text === 'null') return null;
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (/^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(text)) return Number(text);
+  return text;
+}
+
+// JSON-compatible flow collections, or flat ones with plain scalars
+function parseFlow(text: string, line: number): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    // Not JSON; fall through to the flat form
+  }
+  const close = text.startsWith('[') ? ']' : '}';
+  if (!text.endsWith(close)) throw new YamlError(`unterminated flow collection ${text}`, line);
+  const body = text.slice(1, -1).trim();
+  if (/[[\]{}]/.test(body)) throw new YamlError('nested flow collections must be valid JSON', line);
+  const parts = body === '' ? [] : body.split(',').map(part => part.trim());
+
+  if (close === ']') {
+    return parts.map(part => parseScalar(part, line));
+  }
+  const result: Record<string, unknown> = {};
+  for (const part of parts) {
+    const separator = part.indexOf(':');
+    if (separator < 0) throw new YamlError(`expected "key: value" in ${text}`, line);
+    result[unquote(part.slice(0, separator).trim())] = parseScalar(part.slice(separator + 1).trim(), line);
+  }
+  return result;
+}
+
+function unquote(text: string): string {
+  if (text.startsWith('"') && text.endsWith('"')) return JSON.parse(text);
+  if (text.startsWith("'") && text.endsWith("'")) return text.slice(1, -1).replace(/''/g, "'");
+  return text.trim();
+}
+
+// Drops a trailing "# comment" that is not inside quotes
+function stripComment(raw: string): string {
+  let quote: string | null = null;
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if ((char === '"' || char === "'") && (i === 0 || /[\s:[{,-]/.test(raw[i - 1]))) {
+      quote = char;
+    } else if (char === '#' && (i === 0 || /\s/.test(raw[i - 1]))) {
+      return raw.slice(0, i);
+    }
+  }
+  return raw;
+}